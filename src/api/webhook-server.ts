@@ -15,11 +15,25 @@ import { getStrategyAggregator } from '../position/strategy-aggregator.js';
 import { getMarginTracker } from '../risk/margin-tracker.js';
 import { getKillSwitch } from '../risk/kill-switch.js';
 import { getMarketState } from '../market-data/market-state.js';
-import { WEBHOOK } from '../core/constants.js';
+import { getOIAnalytics } from '../market-data/oi-analytics.js';
+import { getDepthAnalytics } from '../market-data/depth-analytics.js';
+import { getVolSurfaceTracker } from '../market-data/vol-surface-tracker.js';
+import { getSpotTracker } from '../market-data/spot-tracker.js';
+import { scanMispricing } from '../market-data/mispricing-scanner.js';
+import { CANDLES, MISPRICING, MONTE_CARLO, REALIZED_VOL, SCENARIOS, WEBHOOK, isUnderlying } from '../core/constants.js';
+import { REALIZED_VOL_ESTIMATORS, type RealizedVolEstimator } from '../pricing/realized-vol.js';
+import { getATMIV, getIVSkew } from '../pricing/iv-calculator.js';
+import { eventMovePct, getEventCalendar } from '../pricing/event-calendar.js';
+import { STRESS_SCENARIOS, getScenarioBook, runScenarioGrid, runStressScenarios, type PnLMatrix } from '../risk/scenarios.js';
+import { countRevaluations, runMonteCarlo } from '../risk/monte-carlo.js';
 import type {
   TradingViewAlert,
   ApiResponse,
+  CandleInterval,
+  MispricingKind,
+  NetGreeks,
   OrderRequest,
+  ScenarioMethod,
   Underlying,
   OrderType,
 } from '../core/types.js';
@@ -341,12 +355,91 @@ app.get('/api/pnl', (_req: Request, res: Response) => {
       total: pnl.total.toString(),
       positionCount: pnl.positionCount,
       tradeCount: pnl.tradeCount,
-      greeks: {
-        delta: greeks.delta.toString(),
-        gamma: greeks.gamma.toString(),
-        theta: greeks.theta.toString(),
-        vega: greeks.vega.toString(),
-      },
+      greeks: serializeGreeks(greeks),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Net first and second order Greeks plus rupee Greeks, by strategy and position
+app.get('/api/greeks', (req: Request, res: Response) => {
+  const underlying = typeof req.query.underlying === 'string' ? req.query.underlying.toUpperCase() : undefined;
+  if (underlying !== undefined && !isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const positionManager = getPositionManager();
+  positionManager.updateMarketPrices();
+  const positions = positionManager.getAllPositions()
+    .filter(p => !underlying || p.underlying === underlying);
+  const strategies = getStrategyAggregator().getOpenStrategies()
+    .filter(s => !underlying || s.underlying === underlying);
+
+  res.json({
+    success: true,
+    data: {
+      underlying: underlying ?? null,
+      portfolio: serializeGreeks(positionManager.getNetGreeks(underlying)),
+      strategies: strategies.map(s => ({
+        id: s.id,
+        name: s.name,
+        greeks: serializeGreeks(positionManager.getStrategyGreeks(s.id)!),
+      })),
+      positions: positions.map(p => ({
+        id: p.id,
+        symbol: p.symbol,
+        greeks: serializeGreeks(positionManager.getPositionGreeks(p.id)!),
+      })),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Strategy payoff: expiry and T+n curves for charts, breakevens, max profit/loss, probability of profit
+app.get('/api/payoff/:strategyId', (req: Request, res: Response) => {
+  const daysForward = parseQueryNumbers(req.query.days);
+  const points = req.query.points === undefined ? undefined : Number(req.query.points);
+  if (daysForward === null || (points !== undefined && !(Number.isInteger(points) && points >= 2 && points <= 1000))) {
+    return res.status(400).json({
+      success: false,
+      error: 'days are comma-separated numbers; points is an integer from 2 to 1000',
+      timestamp: new Date(),
+    });
+  }
+
+  const strategy = getStrategyAggregator().getStrategy(req.params.strategyId!);
+  const positionManager = getPositionManager();
+  positionManager.updateMarketPrices();
+  const payoff = strategy ? positionManager.getStrategyPayoff(strategy.id, { daysForward, points }) : undefined;
+  if (!strategy || !payoff) {
+    return res.status(404).json({
+      success: false,
+      error: strategy ? 'Strategy has no open legs' : 'Strategy not found',
+      timestamp: new Date(),
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      id: strategy.id,
+      name: strategy.name,
+      underlying: strategy.underlying,
+      spot: payoff.spot,
+      expiry: payoff.expiry,
+      breakevens: payoff.breakevens.map(b => b.toString()),
+      maxProfit: payoff.unlimitedProfit ? null : payoff.maxProfit.toString(),
+      maxLoss: payoff.unlimitedLoss ? null : payoff.maxLoss.toString(),
+      unlimitedProfit: payoff.unlimitedProfit,
+      unlimitedLoss: payoff.unlimitedLoss,
+      riskReward: payoff.riskReward?.isFinite() ? payoff.riskReward.toString() : null,
+      netPremium: payoff.netPremium.toString(),
+      probabilities: positionManager.getStrategyProbabilities(strategy.id) ?? null,
+      curves: payoff.curves,
     },
     timestamp: new Date(),
   });
@@ -401,6 +494,415 @@ app.get('/api/market/:symbol', (req: Request, res: Response) => {
   });
 });
 
+// Get OI analytics (PCR, build-up, walls, max pain) for an expiry
+app.get('/api/oi/:underlying', (req: Request, res: Response) => {
+  const underlying = req.params.underlying?.toUpperCase();
+  if (!isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const expiry = parseQueryDate(req.query.expiry);
+  const minutes = req.query.minutes !== undefined ? Number(req.query.minutes) : undefined;
+  const band = req.query.band !== undefined ? Number(req.query.band) : undefined;
+  const analytics = getOIAnalytics();
+  const snapshot = analytics.getSnapshot(
+    underlying,
+    expiry,
+    minutes !== undefined && minutes > 0 ? minutes : undefined
+  );
+
+  if (!snapshot) {
+    return res.status(404).json({
+      success: false,
+      error: 'No OI data for expiry',
+      timestamp: new Date(),
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...snapshot,
+      bands: analytics.getPCRByBand(underlying, snapshot.expiry, band !== undefined && band > 0 ? band : undefined),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Get PCR and max pain through the day for an expiry
+app.get('/api/oi/:underlying/series', (req: Request, res: Response) => {
+  const underlying = req.params.underlying?.toUpperCase();
+  if (!isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const analytics = getOIAnalytics();
+  const expiry = parseQueryDate(req.query.expiry) ?? analytics.getExpiries(underlying)[0];
+
+  res.json({
+    success: true,
+    data: {
+      underlying,
+      expiry,
+      points: analytics.getSeries(underlying, expiry),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Fitted IV surface: SVI/SSVI parameters, fit quality and arbitrage checks per expiry
+app.get('/api/surface/:underlying', (req: Request, res: Response) => {
+  const underlying = req.params.underlying?.toUpperCase();
+  if (!isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const surface = getVolSurfaceTracker().getSurface(underlying);
+  if (!surface?.fitted) {
+    return res.status(404).json({
+      success: false,
+      error: 'No surface fitted yet',
+      timestamp: new Date(),
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      underlying,
+      spot: surface.spotPrice.toString(),
+      model: surface.fitted.model,
+      ssvi: surface.fitted.ssvi ?? null,
+      calendarFree: surface.fitted.calendarFree,
+      calendarViolations: surface.fitted.calendarViolations,
+      slices: surface.fitted.slices.map(slice => ({
+        ...slice,
+        atmIV: getATMIV(surface, slice.expiry)?.toString(),
+        skew: getIVSkew(surface, slice.expiry)?.toString(),
+      })),
+      fittedAt: surface.timestamp,
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Order-book depth, imbalance, spread profile and liquidity for a token
+app.get('/api/depth/:token', (req: Request, res: Response) => {
+  const token = Number(req.params.token);
+  const analytics = getDepthAnalytics();
+  const latest = Number.isInteger(token) ? analytics.getLatest(token) : undefined;
+
+  if (!latest) {
+    return res.status(404).json({
+      success: false,
+      error: 'No depth tracked for token',
+      timestamp: new Date(),
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      token,
+      latest,
+      imbalance: analytics.getImbalance(token) ?? null,
+      spreadPercentile: analytics.getSpreadPercentile(token) ?? null,
+      liquidity: analytics.getLiquidity(token) ?? null,
+      spreadProfile: analytics.getSpreadProfile(token),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Liquidity score by strike for an expiry (nearest if none given)
+app.get('/api/liquidity/:underlying', (req: Request, res: Response) => {
+  const underlying = req.params.underlying?.toUpperCase();
+  if (!isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const analytics = getDepthAnalytics();
+  const expiry = parseQueryDate(req.query.expiry) ?? analytics.getExpiries(underlying)[0];
+
+  res.json({
+    success: true,
+    data: {
+      underlying,
+      expiry: expiry ?? null,
+      strikes: expiry ? analytics.getStrikeLiquidity(underlying, expiry) : [],
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Realized vol by estimator, volatility cone and ATM IV against realized
+app.get('/api/vol/:underlying', (req: Request, res: Response) => {
+  const underlying = req.params.underlying?.toUpperCase();
+  if (!isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const estimator = typeof req.query.estimator === 'string' ? req.query.estimator.toUpperCase() : REALIZED_VOL.ESTIMATOR;
+  if (!REALIZED_VOL_ESTIMATORS.includes(estimator as RealizedVolEstimator)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unknown estimator (one of ${REALIZED_VOL_ESTIMATORS.join(', ')})`,
+      timestamp: new Date(),
+    });
+  }
+
+  const lookback = Number(req.query.lookback);
+  const interval = req.query.interval === undefined ? 'day' : String(req.query.interval);
+  if (!(CANDLES.INTERVALS as readonly string[]).includes(interval)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unknown interval (one of ${CANDLES.INTERVALS.join(', ')})`,
+      timestamp: new Date(),
+    });
+  }
+
+  const spotTracker = getSpotTracker();
+  const candleInterval = interval as CandleInterval;
+  const rvLookback = lookback > 0 ? Math.floor(lookback) : REALIZED_VOL.LOOKBACK;
+
+  res.json({
+    success: true,
+    data: {
+      underlying,
+      interval: candleInterval,
+      realized: spotTracker.getRealizedVols(underlying, REALIZED_VOL.LOOKBACKS, candleInterval),
+      cone: spotTracker.getVolCone(underlying, REALIZED_VOL.CONE_HORIZONS, estimator as RealizedVolEstimator, candleInterval),
+      impliedVsRealized: spotTracker.getRealizedVsImplied(underlying, rvLookback, estimator as RealizedVolEstimator, candleInterval) ?? null,
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Options off the fitted surface and no-arbitrage violations across the chain, best edge first
+app.get('/api/mispricing/:underlying', (req: Request, res: Response) => {
+  const underlying = req.params.underlying?.toUpperCase();
+  if (!isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const kindChoices = ['SURFACE', 'PARITY', 'MONOTONICITY', 'CONVEXITY'] as const;
+  const kinds = req.query.kind === undefined
+    ? [...kindChoices]
+    : String(req.query.kind).split(',').map(kind => parseChoice(kind, kindChoices, 'SURFACE'));
+  const limit = req.query.limit === undefined ? MISPRICING.MAX_RESULTS : Number(req.query.limit);
+  if (kinds.some(kind => kind === null) || !(Number.isInteger(limit) && limit >= 1)) {
+    return res.status(400).json({
+      success: false,
+      error: `kind must be a comma-separated list of ${kindChoices.join(', ').toLowerCase()}; limit a positive integer`,
+      timestamp: new Date(),
+    });
+  }
+
+  res.json({
+    success: true,
+    data: scanMispricing(underlying, {
+      expiry: parseQueryDate(req.query.expiry),
+      kinds: kinds as MispricingKind[],
+      limit,
+    }),
+    timestamp: new Date(),
+  });
+});
+
+// Upcoming scheduled events and their expected moves, optionally for one underlying
+app.get('/api/events', (req: Request, res: Response) => {
+  const underlying = typeof req.query.underlying === 'string' ? req.query.underlying.toUpperCase() : undefined;
+  if (underlying !== undefined && !isUnderlying(underlying)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown underlying',
+      timestamp: new Date(),
+    });
+  }
+
+  const calendar = getEventCalendar();
+  res.json({
+    success: true,
+    data: {
+      ...calendar.getStatus(),
+      events: calendar.getEvents(underlying, new Date()).map(event => ({
+        name: event.name,
+        type: event.type,
+        date: event.date,
+        expectedMovePct: Object.fromEntries(
+          Object.entries(event.variance).map(([u, variance]) => [u, Math.round(eventMovePct(variance) * 100) / 100])
+        ),
+      })),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Book P&L over spot × IV × time shocks, per strategy and for the portfolio
+app.get('/api/scenarios', (req: Request, res: Response) => {
+  const method = parseScenarioMethod(req.query.method);
+  const spotShocksPct = parseQueryNumbers(req.query.spot);
+  const ivShocks = parseQueryNumbers(req.query.iv);
+  const timeStepsDays = parseQueryNumbers(req.query.days);
+  if (!method || spotShocksPct === null || ivShocks === null || timeStepsDays === null) {
+    return res.status(400).json({
+      success: false,
+      error: 'method must be full or greeks; spot, iv and days are comma-separated numbers',
+      timestamp: new Date(),
+    });
+  }
+
+  const sizes = [
+    (spotShocksPct ?? SCENARIOS.SPOT_SHOCKS_PCT).length,
+    (ivShocks ?? SCENARIOS.IV_SHOCKS).length,
+    (timeStepsDays ?? SCENARIOS.TIME_STEPS_DAYS).length,
+  ];
+  if (
+    sizes.some(size => size > SCENARIOS.MAX_SHOCKS) ||
+    sizes.reduce((product, size) => product * size, 1) > SCENARIOS.MAX_GRID_POINTS ||
+    spotShocksPct?.some(pct => pct <= -100)
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: `spot, iv and days take at most ${SCENARIOS.MAX_SHOCKS} values each and ${SCENARIOS.MAX_GRID_POINTS} scenarios in all; spot shocks must be above -100%`,
+      timestamp: new Date(),
+    });
+  }
+
+  getPositionManager().updateMarketPrices();
+  const result = runScenarioGrid(getScenarioBook(), { spotShocksPct, ivShocks, timeStepsDays }, method);
+  const serializeMatrix = (matrix: PnLMatrix) => ({
+    id: matrix.id,
+    name: matrix.name,
+    pnl: matrix.pnl.map(byIV => byIV.map(bySpot => bySpot.map(pnl => pnl.toString()))),
+  });
+
+  res.json({
+    success: true,
+    data: {
+      method: result.method,
+      grid: result.grid,
+      legs: result.legs,
+      portfolio: serializeMatrix(result.portfolio),
+      strategies: result.strategies.map(serializeMatrix),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Book P&L under the named stress scenarios
+app.get('/api/stress', (req: Request, res: Response) => {
+  const method = parseScenarioMethod(req.query.method);
+  if (!method) {
+    return res.status(400).json({
+      success: false,
+      error: 'method must be full or greeks',
+      timestamp: new Date(),
+    });
+  }
+
+  getPositionManager().updateMarketPrices();
+  const results = runStressScenarios(getScenarioBook(), STRESS_SCENARIOS, method);
+
+  res.json({
+    success: true,
+    data: {
+      method,
+      scenarios: results.map(r => ({
+        ...r.scenario,
+        portfolio: r.portfolio.toString(),
+        strategies: r.strategies.map(s => ({ ...s, pnl: s.pnl.toString() })),
+      })),
+    },
+    timestamp: new Date(),
+  });
+});
+
+// Monte Carlo P&L distribution of the open book: VaR, expected shortfall, kill-switch odds
+app.get('/api/montecarlo', (req: Request, res: Response) => {
+  const horizon = parseChoice(req.query.horizon, ['EOD', 'OVERNIGHT', 'EXPIRY'] as const, MONTE_CARLO.HORIZON);
+  const volModel = parseChoice(req.query.model, ['STOCHASTIC', 'REGIME'] as const, MONTE_CARLO.VOL_MODEL);
+  const paths = req.query.paths === undefined ? undefined : Number(req.query.paths);
+  const seed = req.query.seed === undefined ? undefined : Number(req.query.seed);
+  if (
+    !horizon || !volModel ||
+    (paths !== undefined && !(Number.isInteger(paths) && paths >= 1 && paths <= MONTE_CARLO.MAX_PATHS)) ||
+    (seed !== undefined && !(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32))
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: `horizon must be eod, overnight or expiry; model stochastic or regime; paths an integer from 1 to ${MONTE_CARLO.MAX_PATHS}; seed a 32-bit unsigned integer`,
+      timestamp: new Date(),
+    });
+  }
+
+  // The run blocks the event loop, so bound its size
+  getPositionManager().updateMarketPrices();
+  const book = getScenarioBook();
+  const revaluations = countRevaluations(book, { horizon, paths });
+  if (revaluations > MONTE_CARLO.MAX_HTTP_REVALUATIONS) {
+    const perPath = Math.max(1, revaluations / (paths ?? MONTE_CARLO.PATHS));
+    return res.status(400).json({
+      success: false,
+      error: `${revaluations} revaluations (paths × steps × legs) exceeds ${MONTE_CARLO.MAX_HTTP_REVALUATIONS}; use at most ${Math.floor(MONTE_CARLO.MAX_HTTP_REVALUATIONS / perPath)} paths or a shorter horizon`,
+      timestamp: new Date(),
+    });
+  }
+
+  const result = runMonteCarlo(book, {
+    horizon,
+    volModel,
+    paths,
+    seed,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      ...result,
+      mean: result.mean.toString(),
+      stdDev: result.stdDev.toString(),
+      percentiles: result.percentiles.map(p => ({ ...p, pnl: p.pnl.toString() })),
+      risk: result.risk.map(r => ({
+        confidence: r.confidence,
+        valueAtRisk: r.valueAtRisk.toString(),
+        expectedShortfall: r.expectedShortfall.toString(),
+      })),
+      killSwitch: {
+        ...result.killSwitch,
+        limit: result.killSwitch.limit.toString(),
+        dailyPnL: result.killSwitch.dailyPnL.toString(),
+      },
+      histogram: result.histogram.map(bin => ({ ...bin, from: bin.from.toString(), to: bin.to.toString() })),
+    },
+    timestamp: new Date(),
+  });
+});
+
 // Kill switch status
 app.get('/api/killswitch', (_req: Request, res: Response) => {
   const killSwitch = getKillSwitch();
@@ -447,6 +949,72 @@ app.post('/api/killswitch/reset', (_req: Request, res: Response) => {
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Date from a YYYY-MM-DD query parameter
+ */
+function parseQueryDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Scenario method from a query parameter (default from SCENARIOS.METHOD)
+ */
+function parseScenarioMethod(value: unknown): ScenarioMethod | null {
+  if (value === undefined) return SCENARIOS.METHOD;
+  if (typeof value !== 'string') return null;
+  const method = value.toUpperCase();
+  return method === 'FULL' || method === 'GREEKS' ? method : null;
+}
+
+/**
+ * One of a set of upper-case values from a query parameter: the default
+ * when absent, null when not one of them
+ */
+function parseChoice<T extends string>(value: unknown, choices: readonly T[], defaultValue: T): T | null {
+  if (value === undefined) return defaultValue;
+  if (typeof value !== 'string') return null;
+  const choice = value.toUpperCase() as T;
+  return choices.includes(choice) ? choice : null;
+}
+
+/**
+ * Numbers from a comma-separated query parameter: undefined when absent,
+ * null when malformed
+ */
+function parseQueryNumbers(value: unknown): number[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const numbers = value.split(',').map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+/**
+ * Net Greeks as strings
+ */
+function serializeGreeks(greeks: NetGreeks): Record<string, unknown> {
+  return {
+    delta: greeks.delta.toString(),
+    gamma: greeks.gamma.toString(),
+    theta: greeks.theta.toString(),
+    vega: greeks.vega.toString(),
+    rho: greeks.rho.toString(),
+    vanna: greeks.vanna.toString(),
+    volga: greeks.volga.toString(),
+    charm: greeks.charm.toString(),
+    speed: greeks.speed.toString(),
+    color: greeks.color.toString(),
+    zomma: greeks.zomma.toString(),
+    cash: {
+      delta: greeks.cash.delta.toString(),
+      gamma: greeks.cash.gamma.toString(),
+      theta: greeks.cash.theta.toString(),
+      vega: greeks.cash.vega.toString(),
+    },
+  };
+}
+
 function parseTradingViewAlert(body: unknown): TradingViewAlert | null {
   if (!body || typeof body !== 'object') return null;
 
@@ -1,5 +1,5 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { formatINR } from '../utils/decimal.js';
+import { formatINR, type DecimalType } from '../utils/decimal.js';
 import { calculateStrangleMargin, getLotSize } from '../utils/margin-calculator.js';
 import { getTradeJournal, type TradeEntry } from '../journal/trade-journal.js';
 import { StrangleAutomator } from '../strategies/strangle-automator.js';
@@ -8,11 +8,30 @@ import { PositionManager } from '../position/position-manager.js';
 import { FillEngine } from '../execution/fill-engine.js';
 import { InstrumentManager } from '../market-data/instrument-manager.js';
 import { MarketStateManager } from '../market-data/market-state.js';
+import { getCandleAggregator } from '../market-data/candle-aggregator.js';
+import { getOIAnalytics, type OIBuildup } from '../market-data/oi-analytics.js';
+import { getSpotTracker } from '../market-data/spot-tracker.js';
+import { scanMispricing } from '../market-data/mispricing-scanner.js';
 import { RobustMonitor } from '../strategies/robust-monitor.js';
 import { TokenManager } from '../utils/token-manager.js';
 import { logger } from '../utils/logger.js';
+import { OI_ANALYTICS, REALIZED_VOL, SCENARIOS, SPOT_TOKENS, UNDERLYINGS, getStrikeInterval, isUnderlying } from '../core/constants.js';
+import { STRESS_SCENARIOS, getScenarioBook, runScenarioGrid, runStressScenarios } from '../risk/scenarios.js';
+import { eventMovePct, type MacroEvent } from '../pricing/event-calendar.js';
+import type { ProbabilityAnalysis } from '../pricing/probability.js';
+import type { ScenarioMethod, Underlying } from '../core/types.js';
 import chalk from 'chalk';
 
+const BUILDUP_LABELS: Record<OIBuildup, string> = {
+  LONG_BUILDUP: 'LB',
+  SHORT_BUILDUP: 'SB',
+  SHORT_COVERING: 'SC',
+  LONG_UNWINDING: 'LU',
+  NEUTRAL: '-',
+};
+
+const MISPRICING_ROWS = 10;   // Findings per /mispricing message
+
 export class TelegramTradingBot {
   private bot: TelegramBot;
   private allowedUser: number;
@@ -52,6 +71,10 @@ export class TelegramTradingBot {
     this.bot.onText(/\/spot/, (msg) => this.safeExecute(msg.chat.id, () => this.showSpotPrices(msg.chat.id)));
     this.bot.onText(/\/chain(?:\s+(\w+))?/, (msg, match) => this.safeExecute(msg.chat.id, () => this.showOptionChain(msg.chat.id, match?.[1])));
     this.bot.onText(/\/margin(?:\s+(\w+))?/, (msg, match) => this.safeExecute(msg.chat.id, () => this.showMarginEstimate(msg.chat.id, match?.[1])));
+    this.bot.onText(/\/oi(?:\s+(\w+))?/, (msg, match) => this.safeExecute(msg.chat.id, () => this.showOIAnalytics(msg.chat.id, match?.[1])));
+    this.bot.onText(/\/vol(?:\s+(\w+))?/, (msg, match) => this.safeExecute(msg.chat.id, () => this.showVolatility(msg.chat.id, match?.[1])));
+    this.bot.onText(/\/stress(?:\s+(\w+))?/, (msg, match) => this.safeExecute(msg.chat.id, () => this.showStress(msg.chat.id, match?.[1])));
+    this.bot.onText(/\/mispricing(?:\s+(\w+))?/, (msg, match) => this.safeExecute(msg.chat.id, () => this.showMispricing(msg.chat.id, match?.[1])));
     this.bot.onText(/\/journal/, (msg) => this.safeExecute(msg.chat.id, () => this.showJournal(msg.chat.id)));
     this.bot.onText(/\/stats/, (msg) => this.safeExecute(msg.chat.id, () => this.showStats(msg.chat.id)));
 
@@ -75,23 +98,33 @@ export class TelegramTradingBot {
           case 'show_positions': await this.showPositions(chatId); break;
           case 'show_pnl': await this.showPnL(chatId); break;
           case 'show_greeks': await this.showGreeks(chatId); break;
+          case 'show_stress': await this.showStress(chatId); break;
           case 'show_status': await this.showStatus(chatId); break;
-          case 'chain_nifty': await this.showOptionChain(chatId, 'NIFTY'); break;
-          case 'chain_banknifty': await this.showOptionChain(chatId, 'BANKNIFTY'); break;
-          case 'margin_nifty': await this.showMarginEstimate(chatId, 'NIFTY'); break;
-          case 'margin_banknifty': await this.showMarginEstimate(chatId, 'BANKNIFTY'); break;
           case 'show_journal': await this.showJournal(chatId); break;
           case 'show_stats': await this.showStats(chatId); break;
         }
         if (data.startsWith('chain_exp_')) {
           const parts = data.split('_');
-          const underlying = parts[2] as 'NIFTY' | 'BANKNIFTY';
           const expiryIndex = parseInt(parts[3] ?? '0');
-          await this.showOptionChain(chatId, underlying, expiryIndex);
+          await this.showOptionChain(chatId, parts[2], expiryIndex);
+        } else if (data.startsWith('chain_')) {
+          await this.showOptionChain(chatId, data.slice('chain_'.length));
+        }
+        if (data.startsWith('margin_')) {
+          await this.showMarginEstimate(chatId, data.slice('margin_'.length));
+        }
+        if (data.startsWith('oi_')) {
+          await this.showOIAnalytics(chatId, data.slice('oi_'.length));
+        }
+        if (data.startsWith('vol_')) {
+          await this.showVolatility(chatId, data.slice('vol_'.length));
+        }
+        if (data.startsWith('mispricing_')) {
+          await this.showMispricing(chatId, data.slice('mispricing_'.length));
         }
         if (data.startsWith('DEPLOY_STRANGLE_')) {
           const parts = data.split('_');
-          const underlying = parts[2] as 'NIFTY' | 'BANKNIFTY';
+          const underlying = this.parseUnderlying(parts[2]);
           const capital = parseFloat(parts[3] ?? '200000');
           await this.deployStrangle(chatId, underlying, capital);
         }
@@ -144,9 +177,17 @@ export class TelegramTradingBot {
 /strategies - View active strategies
 /spot - View spot prices
 /chain - View NIFTY options chain
-/chain banknifty - View BANKNIFTY options chain
+/chain sensex - Chain for any underlying (banknifty, midcpnifty, ...)
 /margin - NIFTY strangle margin estimate
-/margin banknifty - BANKNIFTY margin estimate
+/margin sensex - Margin estimate for any underlying
+/oi - NIFTY PCR, max pain, OI walls and build-up
+/oi banknifty - OI analytics for any underlying
+/vol - NIFTY realized vol, vol cone and IV vs RV
+/vol banknifty - Volatility for any underlying
+/stress - Stress scenarios and spot × IV P&L grid
+/stress greeks - Same, from the Greeks approximation
+/mispricing - NIFTY options off the surface and chain arbitrage
+/mispricing banknifty - Mispricing scan for any underlying
 /journal - View trade journal
 /stats - Performance statistics
 
@@ -202,8 +243,9 @@ Use the interactive menu from /start for trading operations.
             ],
             [
               { text: '📉 Greeks', callback_data: 'show_greeks' },
-              { text: '⚙️ Status', callback_data: 'show_status' }
+              { text: '🧪 Stress', callback_data: 'show_stress' }
             ],
+            [{ text: '⚙️ Status', callback_data: 'show_status' }],
             [
               { text: '🔗 NIFTY Chain', callback_data: 'chain_nifty' },
               { text: '🔗 BNF Chain', callback_data: 'chain_banknifty' }
@@ -229,8 +271,10 @@ Use the interactive menu from /start for trading operations.
     const positions = this.positionManager.getAllPositions().length;
     const strategies = this.strategyAggregator.getOpenStrategies().length;
 
-    const niftySpot = this.marketState.getSpotPrice('NIFTY').toNumber();
-    const bnfSpot = this.marketState.getSpotPrice('BANKNIFTY').toNumber();
+    const spotLines = this.listedUnderlyings().map(und => {
+      const spot = this.marketState.getSpotPrice(und).toNumber();
+      return `${und}: ${spot > 0 ? spot.toFixed(2) : '⏳ Loading...'}`;
+    });
 
     const statusText = `
 ⚙️ **System Status**
@@ -241,8 +285,7 @@ Use the interactive menu from /start for trading operations.
 🎯 Active Strategies: ${strategies}
 
 **Market Data:**
-NIFTY: ${niftySpot > 0 ? niftySpot.toFixed(2) : '⏳ Loading...'}
-BANKNIFTY: ${bnfSpot > 0 ? bnfSpot.toFixed(2) : '⏳ Loading...'}
+${spotLines.join('\n')}
 
 **Status:** ${instruments > 0 ? '✅ Online' : '⚠️ Waiting for data'}
 `;
@@ -295,7 +338,7 @@ Unrealized: ${formatINR(pnl.unrealized)}
     this.positionManager.updateMarketPrices();
     const greeks = this.positionManager.getNetGreeks();
 
-    const text = `
+    let text = `
 📉 **Net Greeks**
 ────────────────
 Δ Delta: ${greeks.delta.toFixed(4)}
@@ -303,8 +346,64 @@ Unrealized: ${formatINR(pnl.unrealized)}
 Θ Theta: ${greeks.theta.toFixed(2)}/day
 ν Vega: ${greeks.vega.toFixed(4)}
 
-*Updated at ${new Date().toLocaleTimeString()}*
+**Second order**
+Vanna: ${greeks.vanna.toFixed(4)} Δ/vol pt
+Volga: ${greeks.volga.toFixed(4)} ν/vol pt
+Charm: ${greeks.charm.toFixed(4)} Δ/day
+Speed: ${greeks.speed.toExponential(3)} Γ/pt
+Color: ${greeks.color.toExponential(3)} Γ/day
+Zomma: ${greeks.zomma.toExponential(3)} Γ/vol pt
+
+**Cash**
+Delta: ${formatINR(greeks.cash.delta)}
+Gamma: ${formatINR(greeks.cash.gamma)} per 1% move
+Theta: ${formatINR(greeks.cash.theta)}/day
+Vega: ${formatINR(greeks.cash.vega)} per vol pt
 `;
+
+    for (const strategy of this.strategyAggregator.getOpenStrategies()) {
+      const strat = this.positionManager.getStrategyGreeks(strategy.id);
+      if (!strat) continue;
+      text += `\n🎯 ${strategy.name}: Δ ${formatINR(strat.cash.delta)} | Γ ${formatINR(strat.cash.gamma)}/1% | ν ${formatINR(strat.cash.vega)}`;
+    }
+
+    text += `\n\n*Updated at ${new Date().toLocaleTimeString()}*`;
+    await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown' });
+  }
+
+  // --- STRESS ---
+  private async showStress(chatId: number, methodInput?: string) {
+    const method: ScenarioMethod = methodInput?.toUpperCase() === 'GREEKS' ? 'GREEKS' : SCENARIOS.METHOD;
+    this.positionManager.updateMarketPrices();
+    const book = getScenarioBook();
+
+    if (book.legs.length === 0) {
+      await this.bot.sendMessage(chatId, "🧪 **No open positions to stress**", { parse_mode: 'Markdown' });
+      return;
+    }
+
+    const thousands = (pnl: DecimalType, width: number) => (pnl.toNumber() / 1000).toFixed(1).padStart(width);
+
+    let text = `🧪 **Stress Test** (${method === 'FULL' ? 'full repricing' : 'Greeks approx.'})\n`;
+    text += `────────────────────────\n`;
+    for (const result of runStressScenarios(book, STRESS_SCENARIOS, method)) {
+      text += `\`${thousands(result.portfolio, 7)}k\` ${result.scenario.name}\n`;
+      if (result.strategies.length > 1) {
+        for (const strategy of result.strategies) {
+          text += `\`${thousands(strategy.pnl, 7)}k\`   ↳ ${strategy.name}\n`;
+        }
+      }
+    }
+
+    const grid = runScenarioGrid(book, { timeStepsDays: [0] }, method);
+    const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+    text += `\n**Portfolio P&L now, ₹k** (IV pts ↓, spot % →)\n`;
+    text += `\`${'IV'.padStart(4)}${grid.grid.spotShocksPct.map(pct => signed(pct).padStart(6)).join('')}\`\n`;
+    grid.grid.ivShocks.forEach((iv, v) => {
+      text += `\`${signed(iv).padStart(4)}${grid.portfolio.pnl[0]![v]!.map(pnl => thousands(pnl, 6)).join('')}\`\n`;
+    });
+
+    text += `\n_Updated: ${new Date().toLocaleTimeString()}_`;
     await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown' });
   }
 
@@ -322,7 +421,15 @@ Unrealized: ${formatINR(pnl.unrealized)}
     for (const strat of strategies) {
       text += `**${strat.name}**\n`;
       text += `   Type: ${strat.type} | ${strat.underlying}\n`;
-      text += `   Legs: ${strat.positions.length}\n\n`;
+      text += `   Legs: ${strat.positions.length}\n`;
+      if (strat.maxProfit && strat.maxLoss) {
+        const amount = (value: DecimalType) => value.isFinite() ? formatINR(value) : 'Unlimited';
+        text += `   Max Profit: ${amount(strat.maxProfit)} | Max Loss: ${amount(strat.maxLoss)}\n`;
+        if (strat.breakevens.length > 0) {
+          text += `   Breakevens: ${strat.breakevens.map(b => b.toFixed(0)).join(' / ')}\n`;
+        }
+      }
+      text += `\n`;
     }
 
     await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown' });
@@ -330,14 +437,38 @@ Unrealized: ${formatINR(pnl.unrealized)}
 
   // --- SPOT PRICES ---
   private async showSpotPrices(chatId: number) {
-    const nifty = this.marketState.getSpotPrice('NIFTY').toNumber();
-    const bnf = this.marketState.getSpotPrice('BANKNIFTY').toNumber();
+    const candles = getCandleAggregator();
+    const line = (und: Underlying) => {
+      const spot = this.marketState.getSpotPrice(und).toNumber();
+      if (spot <= 0) return `${und}: ⏳ Loading...`;
+
+      let text = `${und}: ₹${spot.toFixed(2)}`;
+      const day = candles.getFormingCandle(SPOT_TOKENS[und], 'day');
+      if (day) {
+        text += `\n   O ${day.open.toFixed(0)} H ${day.high.toFixed(0)} L ${day.low.toFixed(0)}`;
+      }
+      const range = candles.getOpeningRange(SPOT_TOKENS[und], '15m');
+      if (range) {
+        text += `\n   First 15m: ${range.low.toFixed(0)} - ${range.high.toFixed(0)}`;
+      }
+      return text;
+    };
+
+    const vix = getSpotTracker().getVix();
+    let vixLine = 'INDIA VIX: ⏳ Loading...';
+    if (vix) {
+      const sign = vix.changePct >= 0 ? '+' : '';
+      vixLine = `INDIA VIX: ${vix.level.toFixed(2)} (${sign}${(vix.changePct * 100).toFixed(1)}%) ${vix.regime}`;
+      if (vix.percentile !== null) vixLine += ` | ${vix.percentile.toFixed(0)}th pct`;
+      if (vix.spike) vixLine += ' ⚠️ SPIKE';
+    }
 
     const text = `
 📍 **Spot Prices**
 ────────────────
-NIFTY: ${nifty > 0 ? `₹${nifty.toFixed(2)}` : '⏳ Loading...'}
-BANKNIFTY: ${bnf > 0 ? `₹${bnf.toFixed(2)}` : '⏳ Loading...'}
+${this.listedUnderlyings().map(line).join('\n')}
+
+${vixLine}
 
 *${new Date().toLocaleTimeString()}*
 `;
@@ -346,7 +477,7 @@ BANKNIFTY: ${bnf > 0 ? `₹${bnf.toFixed(2)}` : '⏳ Loading...'}
 
   // --- OPTIONS CHAIN ---
   private async showOptionChain(chatId: number, undInput?: string, expiryIndex: number = 0) {
-    const underlying = (undInput?.toUpperCase() === 'BANKNIFTY' ? 'BANKNIFTY' : 'NIFTY') as 'NIFTY' | 'BANKNIFTY';
+    const underlying = this.parseUnderlying(undInput);
 
     // Get available expiries
     const expiries = this.instrumentManager.getAvailableExpiries(underlying);
@@ -386,7 +517,7 @@ BANKNIFTY: ${bnf > 0 ? `₹${bnf.toFixed(2)}` : '⏳ Loading...'}
     }
 
     // Determine ATM strike
-    const strikeDiff = underlying === 'BANKNIFTY' ? 100 : 50;
+    const strikeDiff = getStrikeInterval(underlying);
     const atmStrike = Math.round(spotPrice / strikeDiff) * strikeDiff;
 
     // Get strikes around ATM (5 above, 5 below = 11 strikes)
@@ -438,10 +569,7 @@ BANKNIFTY: ${bnf > 0 ? `₹${bnf.toFixed(2)}` : '⏳ Loading...'}
       parse_mode: 'Markdown',
       reply_markup: {
         inline_keyboard: [
-          [
-            { text: underlying === 'NIFTY' ? '✓ NIFTY' : 'NIFTY', callback_data: 'chain_nifty' },
-            { text: underlying === 'BANKNIFTY' ? '✓ BANKNIFTY' : 'BANKNIFTY', callback_data: 'chain_banknifty' }
-          ],
+          ...this.underlyingButtons('chain', underlying),
           expiryButtons,
           [{ text: '🔄 Refresh', callback_data: `chain_exp_${underlying}_${expiryIndex}` }],
           [{ text: '🏠 Main Menu', callback_data: 'menu_main' }]
@@ -450,9 +578,161 @@ BANKNIFTY: ${bnf > 0 ? `₹${bnf.toFixed(2)}` : '⏳ Loading...'}
     });
   }
 
+  // --- OI ANALYTICS ---
+  private async showOIAnalytics(chatId: number, undInput?: string) {
+    const underlying = this.parseUnderlying(undInput);
+    const analytics = getOIAnalytics();
+    const snapshot = analytics.getSnapshot(underlying);
+
+    const keyboard = {
+      inline_keyboard: [
+        ...this.underlyingButtons('oi', underlying),
+        [{ text: '🔄 Refresh', callback_data: `oi_${underlying.toLowerCase()}` }],
+        [{ text: '🏠 Main Menu', callback_data: 'menu_main' }]
+      ]
+    };
+
+    if (!snapshot) {
+      await this.bot.sendMessage(chatId, `⏳ No option OI for ${underlying} yet. Waiting for ticks...`, { reply_markup: keyboard });
+      return;
+    }
+
+    const fmtPCR = (pcr: number | null) => pcr === null ? '-' : pcr.toFixed(2);
+    const fmtChange = (change: number) => `${change >= 0 ? '+' : '-'}${this.formatOI(Math.abs(change))}`;
+    const atmPCR = analytics.getPCR(underlying, snapshot.expiry, OI_ANALYTICS.BAND_STRIKES);
+    const expiryStr = snapshot.expiry.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' });
+
+    let text = `📊 **${underlying} OI** (${expiryStr})\n`;
+    text += `────────────────────────\n`;
+    text += `Spot: ₹${snapshot.spot.toFixed(2)}\n`;
+    text += `PCR: ${fmtPCR(snapshot.pcr)} (ATM ±${OI_ANALYTICS.BAND_STRIKES}: ${fmtPCR(atmPCR)})\n`;
+    text += `Max Pain: ${snapshot.maxPain ?? '-'}\n`;
+    text += `Call OI: ${this.formatOI(snapshot.callOI)} (${fmtChange(snapshot.callOIChange)})\n`;
+    text += `Put OI: ${this.formatOI(snapshot.putOI)} (${fmtChange(snapshot.putOIChange)})\n\n`;
+
+    text += `🧱 **Resistance** (call OI)\n`;
+    text += snapshot.resistance.map(w => `  ${w.strike}: ${this.formatOI(w.oi)} (${fmtChange(w.oiChange)})`).join('\n') || '  -';
+    text += `\n🛡 **Support** (put OI)\n`;
+    text += snapshot.support.map(w => `  ${w.strike}: ${this.formatOI(w.oi)} (${fmtChange(w.oiChange)})`).join('\n') || '  -';
+
+    // Build-up around ATM since the open
+    const atmIndex = snapshot.strikes.findIndex(s => s.strike === snapshot.atmStrike);
+    if (atmIndex >= 0) {
+      const rows = snapshot.strikes.slice(Math.max(0, atmIndex - 3), atmIndex + 4);
+      text += `\n\n**Build-up since open**\n`;
+      text += `\`  CE │ Strike │ PE\`\n`;
+      for (const row of rows) {
+        const marker = row.strike === snapshot.atmStrike ? '▶' : ' ';
+        const ce = BUILDUP_LABELS[row.call?.buildup ?? 'NEUTRAL'];
+        const pe = BUILDUP_LABELS[row.put?.buildup ?? 'NEUTRAL'];
+        text += `\`${ce.padStart(4)} │${marker}${row.strike.toString().padStart(6)}│ ${pe}\`\n`;
+      }
+      text += `_LB long build-up, SB short build-up, SC short covering, LU long unwinding_\n`;
+    }
+
+    // PCR / max pain through the day
+    const series = analytics.getSeries(underlying, snapshot.expiry);
+    const step = Math.max(1, Math.ceil(series.length / 6));
+    const trail = series.filter((_, i) => i % step === 0 || i === series.length - 1);
+    if (trail.length > 1) {
+      text += `\n**PCR / Max Pain**\n`;
+      for (const point of trail) {
+        const time = point.timestamp.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: false });
+        text += `\`${time}  ${fmtPCR(point.pcr).padStart(5)}  ${point.maxPain ?? '-'}\`\n`;
+      }
+    }
+
+    text += `\n_Updated: ${new Date().toLocaleTimeString()}_`;
+    await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_markup: keyboard });
+  }
+
+  // --- VOLATILITY ---
+  private async showVolatility(chatId: number, undInput?: string) {
+    const underlying = this.parseUnderlying(undInput);
+    const spotTracker = getSpotTracker();
+    const realized = spotTracker.getRealizedVols(underlying);
+
+    const keyboard = {
+      inline_keyboard: [
+        ...this.underlyingButtons('vol', underlying),
+        [{ text: '🔄 Refresh', callback_data: `vol_${underlying.toLowerCase()}` }],
+        [{ text: '🏠 Main Menu', callback_data: 'menu_main' }]
+      ]
+    };
+
+    if (realized.every(r => r.closeToClose === null)) {
+      await this.bot.sendMessage(chatId, `⏳ Not enough daily history for ${underlying} realized vol yet.`, { reply_markup: keyboard });
+      return;
+    }
+
+    const pct = (vol: number | null) => vol === null ? '    -' : `${(vol * 100).toFixed(1)}`.padStart(5);
+
+    let text = `🌡 **${underlying} Volatility**\n`;
+    text += `────────────────────────\n`;
+
+    const vs = spotTracker.getRealizedVsImplied(underlying);
+    if (vs) {
+      const expiryStr = vs.expiry.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' });
+      const verdict = vs.ratio >= REALIZED_VOL.RICH_RATIO ? 'rich' : vs.ratio <= REALIZED_VOL.CHEAP_RATIO ? 'cheap' : 'fair';
+      text += `ATM IV (${vs.strike}, ${expiryStr}): ${(vs.impliedVol * 100).toFixed(1)}%\n`;
+      text += `RV ${vs.lookback}d: ${(vs.realizedVol * 100).toFixed(1)}%\n`;
+      text += `IV - RV: ${vs.spread >= 0 ? '+' : ''}${(vs.spread * 100).toFixed(1)} pts (${vs.ratio.toFixed(2)}x, ${verdict})\n\n`;
+    }
+
+    text += `**Realized vol %**\n`;
+    text += `\`Days   C-C  Park    GK    YZ\`\n`;
+    for (const r of realized) {
+      text += `\`${r.lookback.toString().padStart(4)} ${pct(r.closeToClose)} ${pct(r.parkinson)} ${pct(r.garmanKlass)} ${pct(r.yangZhang)}\`\n`;
+    }
+
+    const cone = spotTracker.getVolCone(underlying);
+    if (cone.length > 0) {
+      text += `\n**Vol cone %** (${REALIZED_VOL.ESTIMATOR.replace('_', '-').toLowerCase()})\n`;
+      text += `\`Days   Min   P25   Med   P75   Max   Now\`\n`;
+      for (const c of cone) {
+        text += `\`${c.horizon.toString().padStart(4)} ${pct(c.min)} ${pct(c.p25)} ${pct(c.median)} ${pct(c.p75)} ${pct(c.max)} ${pct(c.current)}\`\n`;
+      }
+    }
+
+    text += `\n_Updated: ${new Date().toLocaleTimeString()}_`;
+    await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_markup: keyboard });
+  }
+
+  // --- MISPRICING ---
+  private async showMispricing(chatId: number, undInput?: string) {
+    const underlying = this.parseUnderlying(undInput);
+    const scan = scanMispricing(underlying, { limit: MISPRICING_ROWS });
+
+    const keyboard = {
+      inline_keyboard: [
+        ...this.underlyingButtons('mispricing', underlying),
+        [{ text: '🔄 Refresh', callback_data: `mispricing_${underlying.toLowerCase()}` }],
+        [{ text: '🏠 Main Menu', callback_data: 'menu_main' }]
+      ]
+    };
+
+    if (scan.scanned === 0) {
+      await this.bot.sendMessage(chatId, `⏳ No two-sided ${underlying} option quotes yet. Waiting for ticks...`, { reply_markup: keyboard });
+      return;
+    }
+
+    let text = `🔎 **${underlying} Mispricing** (${scan.scanned} quotes)\n`;
+    text += `────────────────────────\n`;
+    if (scan.findings.length === 0) text += `✅ Nothing off the surface or the chain bounds\n`;
+    for (const finding of scan.findings) {
+      const expiryStr = finding.expiry.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' });
+      const trade = finding.legs.map(leg => `${leg.side === 'BUY' ? '+' : '-'}${leg.ratio === 1 ? '' : `${leg.ratio}×`}${leg.strike}${leg.instrumentType}`).join(' ');
+      text += `${finding.edge > 0 ? '🟢' : '⚪'} ${finding.kind} ${expiryStr}: ${finding.description}\n`;
+      text += `   ${trade} | gap ${finding.midEdge.toFixed(2)}, edge ${finding.edge.toFixed(2)} (₹${finding.edgePerLot.toFixed(0)}/lot)\n`;
+    }
+
+    text += `\n_Edge is after the spread; a gap without edge is likely bad data_`;
+    await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_markup: keyboard });
+  }
+
   // --- MARGIN ESTIMATE ---
   private async showMarginEstimate(chatId: number, undInput?: string) {
-    const underlying = (undInput?.toUpperCase() === 'BANKNIFTY' ? 'BANKNIFTY' : 'NIFTY') as 'NIFTY' | 'BANKNIFTY';
+    const underlying = this.parseUnderlying(undInput);
 
     // Get spot price
     const spotPrice = this.marketState.getSpotPrice(underlying).toNumber();
@@ -481,11 +761,11 @@ BANKNIFTY: ${bnf > 0 ? `₹${bnf.toFixed(2)}` : '⏳ Loading...'}
     }
 
     // Find ATM strike and typical OTM strikes for strangle
-    const strikeDiff = underlying === 'BANKNIFTY' ? 100 : 50;
+    const strikeDiff = getStrikeInterval(underlying);
     const atmStrike = Math.round(spotPrice / strikeDiff) * strikeDiff;
 
-    // Typical short strangle: ~200-300 points OTM for NIFTY, ~400-500 for BANKNIFTY
-    const otmDistance = underlying === 'BANKNIFTY' ? 500 : 250;
+    // Typical short strangle: 5 strikes OTM (250 points NIFTY, 500 BANKNIFTY)
+    const otmDistance = 5 * strikeDiff;
     const ceStrike = atmStrike + otmDistance;
     const peStrike = atmStrike - otmDistance;
 
@@ -573,10 +853,7 @@ _Check broker for actual margin._
       parse_mode: 'Markdown',
       reply_markup: {
         inline_keyboard: [
-          [
-            { text: underlying === 'NIFTY' ? '✓ NIFTY' : 'NIFTY', callback_data: 'margin_nifty' },
-            { text: underlying === 'BANKNIFTY' ? '✓ BANKNIFTY' : 'BANKNIFTY', callback_data: 'margin_banknifty' }
-          ],
+          ...this.underlyingButtons('margin', underlying),
           [{ text: '🔄 Refresh', callback_data: `margin_${underlying.toLowerCase()}` }],
           [{ text: '🏠 Main Menu', callback_data: 'menu_main' }]
         ]
@@ -673,8 +950,9 @@ _Check broker for actual margin._
       text += `Avg ROI: ${stats.avgROI.toFixed(2)}%\n\n`;
 
       text += `**📍 By Underlying**\n`;
-      text += `NIFTY: ${stats.niftyStats.trades} trades | ₹${stats.niftyStats.pnl.toLocaleString('en-IN')} | ${stats.niftyStats.winRate.toFixed(0)}% WR\n`;
-      text += `BANKNIFTY: ${stats.bankniftyStats.trades} trades | ₹${stats.bankniftyStats.pnl.toLocaleString('en-IN')} | ${stats.bankniftyStats.winRate.toFixed(0)}% WR\n`;
+      for (const [underlying, byUnderlying] of Object.entries(stats.byUnderlying)) {
+        text += `${underlying}: ${byUnderlying.trades} trades | ₹${byUnderlying.pnl.toLocaleString('en-IN')} | ${byUnderlying.winRate.toFixed(0)}% WR\n`;
+      }
     }
 
     text += `\n━━━━━━━━━━━━━━━━━━━━━━━━\n`;
@@ -702,8 +980,10 @@ _Check broker for actual margin._
       const { total, realized, unrealized } = this.positionManager.getAggregatePnL();
       const icon = total.greaterThanOrEqualTo(0) ? '💚' : '💔';
 
-      const niftySpot = this.marketState.getSpotPrice('NIFTY').toNumber();
-      const bnfSpot = this.marketState.getSpotPrice('BANKNIFTY').toNumber();
+      const spotLines = this.listedUnderlyings().map(und => {
+        const spot = this.marketState.getSpotPrice(und).toNumber();
+        return `📍 ${und}: ${spot > 0 ? spot.toFixed(2) : '---'}`;
+      });
 
       // Calculate Safe Zone for short strangles
       let safeText = "";
@@ -728,8 +1008,7 @@ ${icon} **P&L: ${formatINR(total)}**
    Realized: ${formatINR(realized)}
    Unrealized: ${formatINR(unrealized)}
 
-📍 NIFTY: ${niftySpot > 0 ? niftySpot.toFixed(2) : '---'}
-📍 BANKNIFTY: ${bnfSpot > 0 ? bnfSpot.toFixed(2) : '---'}
+${spotLines.join('\n')}
 ${safeText}
 ────────────────
 ⏱ ${new Date().toLocaleTimeString()}`;
@@ -757,7 +1036,7 @@ ${safeText}
   }
 
   // --- STRANGLE STRATEGY ---
-  private async askStrangleCapital(chatId: number, underlying?: 'NIFTY' | 'BANKNIFTY') {
+  private async askStrangleCapital(chatId: number, underlying?: Underlying) {
     const und = underlying || 'NIFTY';
     await this.bot.sendMessage(chatId,
       `🤖 **Auto-Strangle (${und})**\n\nEnter capital amount (min ₹50,000):`,
@@ -776,7 +1055,7 @@ ${safeText}
       });
   }
 
-  private async confirmStrangle(chatId: number, underlying: 'NIFTY' | 'BANKNIFTY', capital: number) {
+  private async confirmStrangle(chatId: number, underlying: Underlying, capital: number) {
     const automator = new StrangleAutomator(
       this.instrumentManager, this.marketState, this.fillEngine,
       this.positionManager, this.strategyAggregator
@@ -819,7 +1098,7 @@ ${safeText}
 
 🛡️ Safe Zone: ${safeZone}
 ⚠️ Max Loss: Unlimited
-
+${this.formatProbabilities(candidate.probabilities)}${this.formatEvents(candidate.events, underlying)}
 *Capital: ₹${capital.toLocaleString('en-IN')}*
 `;
 
@@ -834,7 +1113,7 @@ ${safeText}
     });
   }
 
-  private async deployStrangle(chatId: number, underlying: 'NIFTY' | 'BANKNIFTY', capital: number) {
+  private async deployStrangle(chatId: number, underlying: Underlying, capital: number) {
     await this.bot.sendMessage(chatId, `⏳ Executing ${underlying} Strangle...`);
 
     const automator = new StrangleAutomator(
@@ -1007,6 +1286,72 @@ ${safeText}
     return `${hours}h ${minutes}m`;
   }
 
+  /**
+   * Underlyings with instruments loaded (every registered one before the master loads)
+   */
+  private listedUnderlyings(): Underlying[] {
+    const loaded = this.instrumentManager.getLoadedUnderlyings();
+    return loaded.length > 0 ? loaded : UNDERLYINGS;
+  }
+
+  /**
+   * Underlying from a command argument or callback suffix, first listed one by default
+   */
+  private parseUnderlying(input?: string): Underlying {
+    const name = input?.toUpperCase();
+    return isUnderlying(name) ? name : this.listedUnderlyings()[0]!;
+  }
+
+  /**
+   * Underlying selector rows (3 per row) for `<prefix>_<underlying>` callbacks
+   */
+  private underlyingButtons(prefix: 'chain' | 'margin' | 'oi' | 'vol' | 'mispricing', selected: Underlying) {
+    const buttons = this.listedUnderlyings().map(und => ({
+      text: und === selected ? `✓ ${und}` : und,
+      callback_data: `${prefix}_${und.toLowerCase()}`,
+    }));
+    const rows = [];
+    for (let i = 0; i < buttons.length; i += 3) rows.push(buttons.slice(i, i + 3));
+    return rows;
+  }
+
+  /**
+   * Probability of profit, expected P&L and move, and short strike odds
+   * for a pre-trade confirmation (empty without an IV)
+   */
+  private formatProbabilities(probabilities?: ProbabilityAnalysis): string {
+    if (!probabilities) return '';
+    const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+    let text = `\n🎲 **Probability of Profit: ${pct(probabilities.probabilityOfProfit)}**\n`;
+    text += `📐 Expected P&L (1 lot): ${formatINR(probabilities.expectedPnL)}\n`;
+    for (const move of probabilities.expectedMoves) {
+      text += `↔️ ${move.stdDevs}σ move: ±${move.move.toFixed(0)} (${move.lower.toFixed(0)} - ${move.upper.toFixed(0)})\n`;
+    }
+    for (const strike of probabilities.shortStrikes) {
+      text += `🎯 ${strike.strike} ${strike.instrumentType}: ${pct(strike.probabilityITM)} ITM, ${pct(strike.probabilityTouch)} touch\n`;
+    }
+    return text;
+  }
+
+  private formatEvents(events: MacroEvent[], underlying: Underlying): string {
+    if (events.length === 0) return '';
+    let text = `\n⚠️ **Events before expiry**\n`;
+    for (const event of events) {
+      text += `📅 ${event.name} ${event.date.toLocaleDateString('en-IN')}: ±${eventMovePct(event.variance[underlying]!).toFixed(1)}% expected move\n`;
+    }
+    return text;
+  }
+
+  /**
+   * Open interest in lakh / crore contracts
+   */
+  private formatOI(oi: number): string {
+    if (oi >= 1e7) return `${(oi / 1e7).toFixed(2)}Cr`;
+    if (oi >= 1e5) return `${(oi / 1e5).toFixed(1)}L`;
+    return oi.toLocaleString('en-IN');
+  }
+
   /**
    * Send notification to user (for external calls)
    */
@@ -11,7 +11,8 @@ import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { ConfigurationError, MissingConfigError, InvalidConfigError } from '../core/errors.js';
 import { logger } from '../utils/logger.js';
-import type { SystemConfig } from '../core/types.js';
+import { UNDERLYINGS } from '../core/constants.js';
+import type { SystemConfig, Underlying } from '../core/types.js';
 
 // Load environment variables
 dotenv.config();
@@ -29,7 +30,7 @@ const zerodhaConfigSchema = z.object({
 });
 
 const tradingConfigSchema = z.object({
-  underlyings: z.array(z.enum(['NIFTY', 'BANKNIFTY', 'FINNIFTY'])).default(['NIFTY', 'BANKNIFTY']),
+  underlyings: z.array(z.enum(UNDERLYINGS as [Underlying, ...Underlying[]])).default(['NIFTY', 'BANKNIFTY']),
   strikesAroundATM: z.number().min(1).max(20).default(10),
   expiryWeeks: z.number().min(1).max(4).default(2),
   tradingStartTime: z.string().regex(/^\d{2}:\d{2}$/).default('09:15'),
@@ -68,6 +69,65 @@ const webhookConfigSchema = z.object({
   allowedIPs: z.array(z.string()).default([]),
 });
 
+const recorderConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  dir: z.string().default('./data/ticks'),
+  flushIntervalMs: z.number().min(100).max(60000).default(1000),
+  maxBufferedTicks: z.number().min(1).default(5000),
+});
+
+const dataQualityConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  rejectSuspectOrders: z.boolean().default(false),
+  jumpThresholdPct: z.number().min(0.01).max(10).default(0.25),
+  spotJumpThresholdPct: z.number().min(0.001).max(1).default(0.02),
+  suspectCooldownMs: z.number().min(0).default(30000),
+});
+
+const quoteFallbackConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  pollIntervalMs: z.number().min(200).max(60000).default(1000),
+  fallbackDelayMs: z.number().min(0).default(3000),
+  maxTokens: z.number().min(1).max(3000).default(500),
+});
+
+const greeksRefreshConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  intervalMs: z.number().min(100).max(60000).default(1000),
+  budgetMs: z.number().min(1).max(1000).default(20),
+});
+
+const varianceClockConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  overnightWeight: z.number().min(0).max(1).default(0.2),
+  nonTradingDayWeight: z.number().min(0).max(1).default(0.15),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).default([]),
+  events: z.array(z.object({
+    name: z.string().min(1),
+    date: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid event date'),
+    weight: z.number().min(0).max(20),
+  })).default([]),
+});
+
+const eventCalendarConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  file: z.string().default('./config/events.json'),
+});
+
+const candleConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  intervals: z.array(z.enum(['1m', '3m', '5m', '15m', 'day'])).min(1).default(['1m', '3m', '5m', '15m', 'day']),
+  persist: z.boolean().default(true),
+});
+
+const simulatorConfigSchema = z.object({
+  seed: z.number().int().default(42),
+  tickIntervalMs: z.number().min(50).max(60000).default(1000),
+  timeScale: z.number().min(0.1).max(10000).default(1),
+  strikesAroundATM: z.number().min(1).max(100).default(30),
+  optionTickProbability: z.number().min(0).max(1).default(0.25),
+});
+
 const systemConfigSchema = z.object({
   zerodha: zerodhaConfigSchema,
   trading: tradingConfigSchema,
@@ -75,6 +135,21 @@ const systemConfigSchema = z.object({
   risk: riskConfigSchema,
   database: databaseConfigSchema,
   webhook: webhookConfigSchema,
+  recorder: recorderConfigSchema,
+  dataQuality: dataQualityConfigSchema,
+  quoteFallback: quoteFallbackConfigSchema,
+  greeksRefresh: greeksRefreshConfigSchema,
+  varianceClock: varianceClockConfigSchema,
+  eventCalendar: eventCalendarConfigSchema,
+  candles: candleConfigSchema,
+  simulator: simulatorConfigSchema,
+});
+
+const offlineSystemConfigSchema = systemConfigSchema.extend({
+  zerodha: zerodhaConfigSchema.extend({
+    apiKey: z.string().default(''),
+    apiSecret: z.string().default(''),
+  }),
 });
 
 // ============================================================================
@@ -84,9 +159,10 @@ const systemConfigSchema = z.object({
 let cachedConfig: SystemConfig | null = null;
 
 /**
- * Load configuration from environment and config file
+ * Load configuration from environment and config file.
+ * Pass requireCredentials = false for offline runs (e.g. replay) without Zerodha keys.
  */
-export function loadConfig(forceReload = false): SystemConfig {
+export function loadConfig(forceReload = false, requireCredentials = true): SystemConfig {
   if (cachedConfig && !forceReload) {
     return cachedConfig;
   }
@@ -136,6 +212,53 @@ export function loadConfig(forceReload = false): SystemConfig {
       secret: process.env['WEBHOOK_SECRET'] ?? '',
       allowedIPs: parseEnvArray(process.env['WEBHOOK_ALLOWED_IPS']) ?? [],
     },
+    recorder: {
+      enabled: parseEnvBoolean(process.env['RECORDER_ENABLED']) ?? false,
+      dir: process.env['RECORDER_DIR'] ?? './data/ticks',
+      flushIntervalMs: parseEnvNumber(process.env['RECORDER_FLUSH_INTERVAL_MS']) ?? 1000,
+      maxBufferedTicks: parseEnvNumber(process.env['RECORDER_MAX_BUFFERED_TICKS']) ?? 5000,
+    },
+    dataQuality: {
+      enabled: parseEnvBoolean(process.env['DATA_QUALITY_ENABLED']) ?? true,
+      rejectSuspectOrders: parseEnvBoolean(process.env['DATA_QUALITY_REJECT_SUSPECT_ORDERS']) ?? false,
+      jumpThresholdPct: parseEnvNumber(process.env['DATA_QUALITY_JUMP_THRESHOLD_PCT']) ?? 0.25,
+      spotJumpThresholdPct: parseEnvNumber(process.env['DATA_QUALITY_SPOT_JUMP_THRESHOLD_PCT']) ?? 0.02,
+      suspectCooldownMs: parseEnvNumber(process.env['DATA_QUALITY_SUSPECT_COOLDOWN_MS']) ?? 30000,
+    },
+    quoteFallback: {
+      enabled: parseEnvBoolean(process.env['QUOTE_FALLBACK_ENABLED']) ?? true,
+      pollIntervalMs: parseEnvNumber(process.env['QUOTE_FALLBACK_POLL_INTERVAL_MS']) ?? 1000,
+      fallbackDelayMs: parseEnvNumber(process.env['QUOTE_FALLBACK_DELAY_MS']) ?? 3000,
+      maxTokens: parseEnvNumber(process.env['QUOTE_FALLBACK_MAX_TOKENS']) ?? 500,
+    },
+    greeksRefresh: {
+      enabled: parseEnvBoolean(process.env['GREEKS_REFRESH_ENABLED']) ?? true,
+      intervalMs: parseEnvNumber(process.env['GREEKS_REFRESH_INTERVAL_MS']) ?? 1000,
+      budgetMs: parseEnvNumber(process.env['GREEKS_REFRESH_BUDGET_MS']) ?? 20,
+    },
+    varianceClock: {
+      enabled: parseEnvBoolean(process.env['VARIANCE_CLOCK_ENABLED']) ?? true,
+      overnightWeight: parseEnvNumber(process.env['VARIANCE_CLOCK_OVERNIGHT_WEIGHT']) ?? 0.2,
+      nonTradingDayWeight: parseEnvNumber(process.env['VARIANCE_CLOCK_NON_TRADING_DAY_WEIGHT']) ?? 0.15,
+      holidays: parseEnvArray(process.env['VARIANCE_CLOCK_HOLIDAYS']) ?? [],
+      events: [],
+    },
+    eventCalendar: {
+      enabled: parseEnvBoolean(process.env['EVENT_CALENDAR_ENABLED']) ?? true,
+      file: process.env['EVENT_CALENDAR_FILE'] ?? './config/events.json',
+    },
+    candles: {
+      enabled: parseEnvBoolean(process.env['CANDLES_ENABLED']) ?? true,
+      intervals: parseEnvArray(process.env['CANDLES_INTERVALS']) ?? ['1m', '3m', '5m', '15m', 'day'],
+      persist: parseEnvBoolean(process.env['CANDLES_PERSIST']) ?? true,
+    },
+    simulator: {
+      seed: parseEnvNumber(process.env['SIMULATOR_SEED']) ?? 42,
+      tickIntervalMs: parseEnvNumber(process.env['SIMULATOR_TICK_INTERVAL_MS']) ?? 1000,
+      timeScale: parseEnvNumber(process.env['SIMULATOR_TIME_SCALE']) ?? 1,
+      strikesAroundATM: parseEnvNumber(process.env['SIMULATOR_STRIKES_AROUND_ATM']) ?? 30,
+      optionTickProbability: parseEnvNumber(process.env['SIMULATOR_OPTION_TICK_PROBABILITY']) ?? 0.25,
+    },
   };
 
   // Load config file if exists
@@ -151,7 +274,8 @@ export function loadConfig(forceReload = false): SystemConfig {
   }
 
   // Validate
-  const result = systemConfigSchema.safeParse(rawConfig);
+  const schema = requireCredentials ? systemConfigSchema : offlineSystemConfigSchema;
+  const result = schema.safeParse(rawConfig);
 
   if (!result.success) {
     const errors = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
@@ -164,6 +288,7 @@ export function loadConfig(forceReload = false): SystemConfig {
     underlyings: cachedConfig.trading.underlyings,
     initialCapital: cachedConfig.risk.initialCapital,
     webhookEnabled: cachedConfig.webhook.enabled,
+    recorderEnabled: cachedConfig.recorder.enabled,
   });
 
   return cachedConfig;
@@ -262,5 +387,30 @@ export const defaultConfigFile = `{
   "webhook": {
     "enabled": false,
     "port": 3000
+  },
+  "recorder": {
+    "enabled": false,
+    "dir": "./data/ticks"
+  },
+  "dataQuality": {
+    "enabled": true,
+    "rejectSuspectOrders": false
+  },
+  "quoteFallback": {
+    "enabled": true
+  },
+  "greeksRefresh": {
+    "enabled": true,
+    "budgetMs": 20
+  },
+  "varianceClock": {
+    "enabled": true,
+    "nonTradingDayWeight": 0.15,
+    "holidays": [],
+    "events": []
+  },
+  "eventCalendar": {
+    "enabled": true,
+    "file": "./config/events.json"
   }
 }`;
@@ -9,29 +9,111 @@ import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
 
-import type { Underlying } from './types.js';
+import type { DerivativesExchange, IVSource, MonteCarloHorizon, ScenarioMethod, StrangleSelection, SurfaceModel, Underlying, UnderlyingSpec, VixRegime, VolModel } from './types.js';
 
 // ============================================================================
 // INSTRUMENT SPECIFICATIONS
 // ============================================================================
 
 /**
- * Lot sizes for index derivatives (as of 2024)
+ * Underlying registry: every module that needs an underlying's exchange,
+ * spot token, strike interval, lot size or expiry calendar reads it from
+ * here. Adding an underlying means adding an entry (and its name to the
+ * Underlying union).
+ *
+ * Expiry rules drive the simulator and date helpers; live expiries always
+ * come from the instrument master.
  */
-export const LOT_SIZES: Record<Underlying, number> = {
-  NIFTY: 25,       // Was 50, changed to 25 in Apr 2023
-  BANKNIFTY: 15,   // Was 25, changed to 15 in Apr 2023
-  FINNIFTY: 25,
-} as const;
+export const UNDERLYING_SPECS: Record<Underlying, UnderlyingSpec> = {
+  NIFTY: {
+    name: 'NIFTY',
+    exchange: 'NFO',
+    spotExchange: 'NSE',
+    spotToken: 256265,              // NIFTY 50 index
+    spotSymbol: 'NSE:NIFTY 50',
+    strikeInterval: 50,
+    lotSize: 25,                    // Was 50, changed to 25 in Apr 2023
+    expiryWeekday: 4,               // Thursday
+    weeklyExpiries: true,
+  },
+  BANKNIFTY: {
+    name: 'BANKNIFTY',
+    exchange: 'NFO',
+    spotExchange: 'NSE',
+    spotToken: 260105,              // NIFTY BANK index
+    spotSymbol: 'NSE:NIFTY BANK',
+    strikeInterval: 100,
+    lotSize: 15,                    // Was 25, changed to 15 in Apr 2023
+    expiryWeekday: 4,
+    weeklyExpiries: true,
+  },
+  FINNIFTY: {
+    name: 'FINNIFTY',
+    exchange: 'NFO',
+    spotExchange: 'NSE',
+    spotToken: 257801,              // NIFTY FIN SERVICE index
+    spotSymbol: 'NSE:NIFTY FIN SERVICE',
+    strikeInterval: 50,
+    lotSize: 25,
+    expiryWeekday: 4,
+    weeklyExpiries: true,
+  },
+  MIDCPNIFTY: {
+    name: 'MIDCPNIFTY',
+    exchange: 'NFO',
+    spotExchange: 'NSE',
+    spotToken: 288009,              // NIFTY MID SELECT index
+    spotSymbol: 'NSE:NIFTY MID SELECT',
+    strikeInterval: 25,
+    lotSize: 75,
+    expiryWeekday: 4,
+    weeklyExpiries: false,
+  },
+  SENSEX: {
+    name: 'SENSEX',
+    exchange: 'BFO',
+    spotExchange: 'BSE',
+    spotToken: 265,                 // S&P BSE SENSEX
+    spotSymbol: 'BSE:SENSEX',
+    strikeInterval: 100,
+    lotSize: 10,
+    expiryWeekday: 5,               // Friday
+    weeklyExpiries: true,
+  },
+  BANKEX: {
+    name: 'BANKEX',
+    exchange: 'BFO',
+    spotExchange: 'BSE',
+    spotToken: 274441,              // S&P BSE BANKEX
+    spotSymbol: 'BSE:BANKEX',
+    strikeInterval: 100,
+    lotSize: 15,
+    expiryWeekday: 5,
+    weeklyExpiries: false,
+  },
+};
+
+/**
+ * All supported underlyings, in registry order
+ */
+export const UNDERLYINGS = Object.keys(UNDERLYING_SPECS) as Underlying[];
+
+/**
+ * Derivatives segments with at least one supported underlying
+ */
+export const DERIVATIVES_EXCHANGES = Array.from(
+  new Set(UNDERLYINGS.map(u => UNDERLYING_SPECS[u].exchange))
+) as DerivativesExchange[];
+
+/**
+ * Lot sizes for index derivatives
+ */
+export const LOT_SIZES = specField('lotSize');
 
 /**
  * Strike interval for options
  */
-export const STRIKE_INTERVALS: Record<Underlying, number> = {
-  NIFTY: 50,
-  BANKNIFTY: 100,
-  FINNIFTY: 50,
-} as const;
+export const STRIKE_INTERVALS = specField('strikeInterval');
 
 /**
  * Tick size for options pricing
@@ -41,18 +123,44 @@ export const TICK_SIZE = new Decimal('0.05');
 /**
  * Instrument tokens for spot indices (Zerodha)
  */
-export const SPOT_TOKENS: Record<Underlying, number> = {
-  NIFTY: 256265,      // NIFTY 50 index
-  BANKNIFTY: 260105,  // NIFTY BANK index
-  FINNIFTY: 257801,   // NIFTY FIN SERVICE index
+export const SPOT_TOKENS = specField('spotToken');
+
+function specField(field: 'lotSize' | 'strikeInterval' | 'spotToken'): Record<Underlying, number> {
+  const values = {} as Record<Underlying, number>;
+  for (const underlying of UNDERLYINGS) {
+    values[underlying] = UNDERLYING_SPECS[underlying][field];
+  }
+  return values;
+}
+
+/**
+ * India VIX: NSE's 30-day implied volatility index, computed from NIFTY
+ * options. Ticks like a spot index and is tracked by SpotTracker.
+ */
+export const INDIA_VIX = {
+  TOKEN: 264969,
+  SYMBOL: 'NSE:INDIA VIX',          // Kite quote key
+  TRADING_SYMBOL: 'INDIA VIX',
+  UNDERLYING: 'NIFTY' as Underlying,
+
+  // Regime floors in VIX points (below NORMAL_FROM is LOW)
+  NORMAL_FROM: 12,
+  ELEVATED_FROM: 16,
+  HIGH_FROM: 20,
+  EXTREME_FROM: 25,
+
+  SPIKE_CHANGE_PCT: 0.10,           // Intraday rise vs previous close that counts as a spike
+  HISTORY_DAYS: 252,                // Daily closes kept for the percentile
 } as const;
 
 /**
  * Exchange segments
  */
 export const EXCHANGE_SEGMENTS = {
-  NFO: 'NFO',    // F&O segment
+  NFO: 'NFO',    // NSE F&O segment
+  BFO: 'BFO',    // BSE F&O segment
   NSE: 'NSE',    // Cash segment (for spot)
+  BSE: 'BSE',
 } as const;
 
 // ============================================================================
@@ -141,6 +249,15 @@ export const SLIPPAGE = {
 
   // IV threshold for extra slippage
   HIGH_IV_THRESHOLD: 25,
+
+  // India VIX: market-wide stress widens every book
+  HIGH_VIX_THRESHOLD: 18,
+  VIX_MULTIPLIER: 0.03,        // 3 paisa per VIX point above 18
+  VIX_SPIKE_SPREAD_SHARE: 0.25, // Extra share of the spread while VIX spikes
+
+  // Order book shape (see DepthAnalytics)
+  IMBALANCE_SPREAD_SHARE: 0.30,   // Share of the spread at full adverse imbalance
+  ILLIQUIDITY_SPREAD_SHARE: 0.50, // Share of the spread at liquidity score 0
 } as const;
 
 // ============================================================================
@@ -205,12 +322,32 @@ export const PRICING = {
   IV_INFLATION_HIGH: 1.30,    // 30% inflation
   IV_INFLATION_EXTREME: 1.50, // 50% inflation
 
+  // IV inflation from the India VIX regime, on top of velocity
+  IV_INFLATION_VIX_ELEVATED: 1.05,
+  IV_INFLATION_VIX_HIGH: 1.10,
+  IV_INFLATION_VIX_EXTREME: 1.20,
+  IV_INFLATION_VIX_SPIKE_SENSITIVITY: 0.5,  // Extra inflation per unit of intraday VIX rise
+
   // Days in year for theta calculation
   DAYS_IN_YEAR: 365,
   TRADING_DAYS_IN_YEAR: 252,
 
   // Minimum time to expiry (avoid division issues)
   MIN_TIME_TO_EXPIRY: new Decimal('0.0001'),
+
+  // Implied forwards: median put-call parity forward over the strikes nearest spot
+  FORWARD_PARITY_STRIKES: 3,
+} as const;
+
+/**
+ * Variance-time clock: time to expiry counts session minutes in full, the
+ * overnight gap and non-trading days at a fraction of a trading day's
+ * variance, plus any scheduled event's extra variance
+ */
+export const VARIANCE_CLOCK = {
+  ENABLED: true,
+  OVERNIGHT_WEIGHT: 0.2,           // Share of a trading day's variance outside 09:15-15:30
+  NON_TRADING_DAY_WEIGHT: 0.15,    // Weekend day or holiday, in trading days of variance
 } as const;
 
 // ============================================================================
@@ -225,6 +362,301 @@ export const DATABASE = {
   BUSY_TIMEOUT: 5000,
 } as const;
 
+// ============================================================================
+// INSTRUMENT CACHE CONSTANTS
+// ============================================================================
+
+export const INSTRUMENT_CACHE = {
+  DIR: './data/instruments',
+  MAX_SNAPSHOTS: 30,           // Trading days of snapshots kept on disk
+} as const;
+
+// ============================================================================
+// SUBSCRIPTION MANAGER CONSTANTS
+// ============================================================================
+
+export const SUBSCRIPTIONS = {
+  STRIKES_AROUND_ATM: 10,      // Window on each side of ATM
+  EXPIRIES: 2,                 // Nearest expiries in the window
+  FUTURES: 2,                  // Near and next month futures (full mode)
+  FULL_STRIKES: 2,             // Within this many strikes of ATM: full (depth)
+  QUOTE_STRIKES: 5,            // Within this many: quote; further out: ltp
+  RECENTER_STRIKES: 1,         // Re-centre once ATM has moved this many strikes
+  REFRESH_INTERVAL_MS: 5000,   // Safety re-sync of the window
+} as const;
+
+// ============================================================================
+// DATA QUALITY CONSTANTS
+// ============================================================================
+
+export const DATA_QUALITY = {
+  JUMP_THRESHOLD_PCT: 0.25,      // Option move beyond what spot explains, as share of price
+  JUMP_MIN_POINTS: 5,            // Ignore unexplained moves smaller than this (cheap options)
+  SPOT_JUMP_THRESHOLD_PCT: 0.02, // Index move between consecutive ticks
+  SUSPECT_COOLDOWN_MS: 30000,    // Instrument stays suspect this long after an anomaly
+  THROTTLE_MS: 10000,            // Same anomaly for the same token reported at most this often
+  STALE_CHECK_INTERVAL_MS: 5000,
+} as const;
+
+// ============================================================================
+// CANDLE CONSTANTS
+// ============================================================================
+
+export const CANDLES = {
+  INTERVALS: ['1m', '3m', '5m', '15m', 'day'],
+  INTERVAL_MINUTES: { '1m': 1, '3m': 3, '5m': 5, '15m': 15, day: 24 * 60 },
+  MAX_IN_MEMORY: 500,          // Completed bars kept per token and interval
+  FLUSH_INTERVAL_MS: 5000,     // Write completed bars to SQLite
+} as const;
+
+// ============================================================================
+// BASIS CONSTANTS
+// ============================================================================
+
+export const BASIS = {
+  HISTORY_SIZE: 1000,          // Snapshots kept per futures contract
+} as const;
+
+// ============================================================================
+// QUOTE FALLBACK CONSTANTS
+// ============================================================================
+
+export const QUOTE_FALLBACK = {
+  POLL_INTERVAL_MS: 1000,          // REST poll cadence while the socket is down
+  FALLBACK_DELAY_MS: 3000,         // Socket downtime tolerated before polling
+  MAX_TOKENS: 500,                 // Tokens polled per cycle, positions first
+} as const;
+
+// ============================================================================
+// REALIZED VOLATILITY CONSTANTS
+// ============================================================================
+
+export const REALIZED_VOL = {
+  ESTIMATOR: 'YANG_ZHANG',            // Default estimator
+  LOOKBACK: 20,                       // Default bars (about a month of days)
+  LOOKBACKS: [10, 20, 30, 60],        // Reported side by side
+  CONE_HORIZONS: [10, 20, 30, 60, 90],
+  HISTORY_DAYS: 400,                  // Calendar days of daily bars loaded at startup
+  SESSION_MINUTES: 375,               // 09:15-15:30, for annualizing intraday bars
+  RICH_RATIO: 1.2,                    // IV / RV at or above: premium is rich
+  CHEAP_RATIO: 0.9,                   // IV / RV at or below: premium is cheap
+} as const;
+
+// ============================================================================
+// VOLATILITY SURFACE CONSTANTS
+// ============================================================================
+
+export const VOL_SURFACE = {
+  MODEL: 'SVI' as SurfaceModel,            // Per-expiry SVI, or SSVI across expiries
+  MIN_POINTS: 5,                           // Strikes needed to fit an expiry
+  MAX_ITERATIONS: 500,                     // Nelder-Mead iterations per fit
+  TOLERANCE: 1e-12,                        // Nelder-Mead stop on objective spread
+  ARB_GRID_POINTS: 41,                     // Log-moneyness points checked for arbitrage
+  ARB_K_PADDING: 0.05,                     // Checked range beyond the fitted strikes
+  ARB_TOLERANCE: 1e-6,                     // Negative density / variance shortfall ignored below this
+  BUTTERFLY_PENALTY: 1,                    // Weight of squared negative density in the SVI objective
+  REFIT_INTERVAL_MS: 30 * 1000,            // Tick-time spacing of refits per underlying
+  MIN_OPTION_PRICE: 0.5,                   // Quotes below this are left out of the fit
+  GREEKS_IV_SOURCE: 'SURFACE' as IVSource, // Position Greeks from surface vols when fitted
+} as const;
+
+// ============================================================================
+// GREEKS REFRESH CONSTANTS
+// ============================================================================
+
+export const GREEKS_REFRESH = {
+  INTERVAL_MS: 1000,               // Wall-clock spacing of chain re-pricing
+  BUDGET_MS: 20,                   // CPU time per refresh; the rest waits for the next one
+  CHUNK_SIZE: 64,                  // Options priced per batch between budget checks
+} as const;
+
+// ============================================================================
+// SCENARIO CONSTANTS
+// ============================================================================
+
+export const SCENARIOS = {
+  SPOT_SHOCKS_PCT: [-5, -3, -2, -1, 0, 1, 2, 3, 5],
+  IV_SHOCKS: [-5, 0, 5, 10],               // Vol points
+  TIME_STEPS_DAYS: [0, 1],                 // Calendar days forward
+  METHOD: 'FULL' as ScenarioMethod,
+  MAX_SHOCKS: 25,                          // Values per axis in a custom grid
+  MAX_GRID_POINTS: 1000,                   // Spot × IV × days scenarios per request
+} as const;
+
+// ============================================================================
+// EVENT CALENDAR CONSTANTS
+// ============================================================================
+
+export const EVENT_CALENDAR = {
+  ENABLED: true,
+  FILE: './config/events.json',
+  RELOAD_INTERVAL_MS: 60 * 1000,           // The file is checked for edits at most this often
+  MAX_VARIANCE: 0.01,                      // A 10% one-standard-deviation event move
+} as const;
+
+// ============================================================================
+// MONTE CARLO CONSTANTS
+// ============================================================================
+
+export const MONTE_CARLO = {
+  PATHS: 2000,
+  MAX_PATHS: 20000,
+  MAX_HTTP_REVALUATIONS: 5_000_000,        // Paths × steps × legs per API request (about a second per million)
+  HORIZON: 'EOD' as MonteCarloHorizon,
+  VOL_MODEL: 'STOCHASTIC' as VolModel,
+  CONFIDENCE_LEVELS: [0.95, 0.99],
+  PERCENTILES: [1, 5, 25, 50, 75, 95, 99],
+  STEPS_PER_SESSION: 8,                    // Revaluations (kill-switch checks) per trading session
+  MAX_STEPS: 120,                          // Fewer per session beyond this many in total
+  DEFAULT_VOL: 0.15,                       // Underlyings with no option legs (decimal)
+  UNDERLYING_CORRELATION: 0.85,            // Between index returns
+  SPOT_VOL_CORRELATION: -0.7,              // Spot return vs log-vol shock
+  VOL_OF_VOL: 1.5,                         // Annualised, of log vol
+  VOL_MEAN_REVERSION: 6,                   // Per year, back to today's vol
+  REGIME_STRESS_MULTIPLIER: 1.8,           // Stressed vol / calm vol
+  REGIME_ENTER_RATE: 6,                    // Calm → stressed, per year
+  REGIME_EXIT_RATE: 40,                    // Stressed → calm, per year
+  HISTOGRAM_BINS: 30,
+} as const;
+
+// ============================================================================
+// PAYOFF CONSTANTS
+// ============================================================================
+
+export const PAYOFF = {
+  DAYS_FORWARD: [0, 1, 3],                 // T+n curves, calendar days from now
+  POINTS: 121,                             // Spot samples per curve
+  RANGE_PCT: 8,                            // Curve range beyond spot and the outer strikes
+  SEARCH_POINTS: 800,                      // Spot samples for breakevens when expiries differ
+} as const;
+
+// ============================================================================
+// PROBABILITY CONSTANTS
+// ============================================================================
+
+export const PROBABILITY = {
+  EXPECTED_MOVE_SIGMAS: [1, 2],
+  GRID_POINTS: 400,                        // Spot buckets for expected P&L
+  GRID_SIGMAS: 6,                          // Grid half-width in standard deviations
+  TARGET_TOUCH: 0.3,                       // Probability of touch for each short strike when picking by probability
+  STRANGLE_SELECTION: 'PREMIUM' as StrangleSelection,
+} as const;
+
+// ============================================================================
+// DEPTH ANALYTICS CONSTANTS
+// ============================================================================
+
+export const DEPTH_ANALYTICS = {
+  SAMPLE_INTERVAL_MS: 1000,        // Tick-time spacing of book snapshots per token
+  HISTORY_SIZE: 900,               // Snapshots kept per token (15 min at 1s)
+  LEVELS: 5,                       // Depth levels used for imbalance and weighted mid
+  IMBALANCE_WINDOW_MS: 10 * 1000,  // Imbalance is averaged over this much tick time
+  BUCKET_MINUTES: 15,              // Time-of-day buckets for spread percentiles
+  BUCKET_MAX_SAMPLES: 2000,        // Spread samples kept per bucket
+  LIQUIDITY_WINDOW: 300,           // Latest snapshots scored for liquidity
+  MIN_SAMPLES: 10,                 // No liquidity score below this
+  MAX_SPREAD_PCT: 0.05,            // Spread at which the spread score reaches zero
+  DEPTH_TARGET_LOTS: 50,           // Visible lots (thinner side) for a full depth score
+  WEIGHT_SPREAD: 0.5,
+  WEIGHT_DEPTH: 0.3,
+  WEIGHT_TWO_SIDED: 0.2,
+  MIN_LIQUIDITY_SCORE: 40,         // Strangle legs below this are skipped
+} as const;
+
+// ============================================================================
+// MISPRICING SCANNER CONSTANTS
+// ============================================================================
+
+export const MISPRICING = {
+  MIN_EDGE_POINTS: 0.5,            // Smallest gap at mids worth flagging, per unit
+  MIN_EDGE_PCT: 5,                 // Off-surface gap must also be this much of the option's mid
+  MAX_RESULTS: 50,
+} as const;
+
+// ============================================================================
+// OI ANALYTICS CONSTANTS
+// ============================================================================
+
+export const OI_ANALYTICS = {
+  SAMPLE_INTERVAL_MS: 60 * 1000,   // Tick-time spacing of OI samples
+  HISTORY_MINUTES: 120,            // Per-token OI samples kept for "last N minutes"
+  SERIES_MAX_POINTS: 400,          // PCR / max pain points kept per expiry
+  WALL_COUNT: 3,                   // Resistance / support strikes reported
+  BAND_STRIKES: 5,                 // Strikes per PCR band around ATM
+  MIN_OI_CHANGE_PCT: 0.005,        // Smaller OI moves classify as NEUTRAL
+} as const;
+
+// ============================================================================
+// TICK RECORDER CONSTANTS
+// ============================================================================
+
+export const RECORDER = {
+  DEFAULT_DIR: './data/ticks',
+  FLUSH_INTERVAL_MS: 1000,     // Write a frame every second
+  MAX_BUFFERED_TICKS: 5000,    // Or sooner if the buffer fills up
+} as const;
+
+// ============================================================================
+// REPLAY CONSTANTS
+// ============================================================================
+
+export const REPLAY = {
+  DEFAULT_SPEED: 1,
+  MAX_GAP_MS: 60000,           // Compress recording gaps (breaks, restarts) to 1 minute
+  MAX_SPEED_BATCH: 500,        // Ticks published per event-loop turn at max speed
+} as const;
+
+// ============================================================================
+// MARKET SIMULATOR CONSTANTS
+// ============================================================================
+
+export const SIMULATOR = {
+  DEFAULT_SEED: 42,
+  TICK_INTERVAL_MS: 1000,
+  TIME_SCALE: 1,                  // Simulated ms per wall-clock ms
+  STRIKES_AROUND_ATM: 30,
+  WEEKLY_EXPIRIES: 2,
+  MONTHLY_EXPIRIES: 2,
+  OPTION_TICK_PROBABILITY: 0.25,  // Share of options that tick on each step
+  TOKEN_BASE: 900000000,          // Synthetic tokens never collide with Kite's
+
+  // Trading time per year (252 days x 6h15m) used to scale annual vol per step
+  TRADING_MS_PER_YEAR: 252 * 375 * 60 * 1000,
+
+  // Starting spot levels
+  INITIAL_SPOT: {
+    NIFTY: 24000,
+    BANKNIFTY: 52000,
+    FINNIFTY: 23500,
+    MIDCPNIFTY: 12500,
+    SENSEX: 79000,
+    BANKEX: 58000,
+  } as Record<Underlying, number>,
+
+  // Spot process: GBM with Poisson jumps and volatility regimes
+  DRIFT: 0.08,                    // Annual drift
+  JUMP_INTENSITY: 10,             // Expected jumps per year
+  JUMP_MEAN: -0.004,              // Mean log jump size
+  JUMP_STD: 0.008,                // Log jump size std dev
+  REGIMES: [
+    { name: 'CALM', volatility: 0.10, meanDurationMinutes: 180, weight: 3 },
+    { name: 'NORMAL', volatility: 0.15, meanDurationMinutes: 120, weight: 5 },
+    { name: 'STRESSED', volatility: 0.28, meanDurationMinutes: 30, weight: 1 },
+  ],
+
+  // IV smile: iv = atm + skew * m + curvature * m^2, m = ln(K/S)
+  IV_PREMIUM: 1.10,               // Implied over realized vol
+  SMILE_SKEW: -0.60,
+  SMILE_CURVATURE: 3.0,
+
+  // Microstructure
+  SPREAD_PCT: 0.004,              // Half-spread as % of price in NORMAL regime
+  DEPTH_LEVELS: 5,
+  BASE_OI_LOTS: 40000,            // Peak ATM open interest (lots)
+  FUTURES_HALF_SPREAD_TICKS: 1,
+  FUTURES_BASIS_NOISE: 0.0002,    // Std dev of futures price around fair value
+} as const;
+
 // ============================================================================
 // WEBHOOK CONSTANTS
 // ============================================================================
@@ -264,6 +696,7 @@ export const ZERODHA = {
   // Limits
   MAX_SUBSCRIPTIONS: 3000,
   MAX_SUBSCRIPTIONS_PER_MESSAGE: 100,
+  MAX_QUOTE_INSTRUMENTS: 500,      // Per REST quote request
 
   // Instrument master
   INSTRUMENT_MASTER_URL: 'https://api.kite.trade/instruments',
@@ -343,6 +776,38 @@ export const STRATEGY_TEMPLATES = {
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Get the registry entry for an underlying
+ */
+export function getUnderlyingSpec(underlying: Underlying): UnderlyingSpec {
+  return UNDERLYING_SPECS[underlying];
+}
+
+/**
+ * Check whether a name (e.g. instrument master `name`) is a supported underlying
+ */
+export function isUnderlying(name: string | undefined): name is Underlying {
+  return name !== undefined && Object.prototype.hasOwnProperty.call(UNDERLYING_SPECS, name);
+}
+
+/**
+ * Underlyings whose derivatives trade on a segment
+ */
+export function getUnderlyingsForExchange(exchange: DerivativesExchange): Underlying[] {
+  return UNDERLYINGS.filter(u => UNDERLYING_SPECS[u].exchange === exchange);
+}
+
+/**
+ * Classify an India VIX level
+ */
+export function getVixRegime(level: number): VixRegime {
+  if (level >= INDIA_VIX.EXTREME_FROM) return 'EXTREME';
+  if (level >= INDIA_VIX.HIGH_FROM) return 'HIGH';
+  if (level >= INDIA_VIX.ELEVATED_FROM) return 'ELEVATED';
+  if (level >= INDIA_VIX.NORMAL_FROM) return 'NORMAL';
+  return 'LOW';
+}
+
 /**
  * Get lot size for an underlying
  */
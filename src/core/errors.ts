@@ -308,6 +308,13 @@ export class DatabaseError extends PersistenceError {
   }
 }
 
+export class TickFileCorruptedError extends PersistenceError {
+  constructor(file: string, offset: number, reason: string) {
+    super(`Tick file ${file} corrupted at byte ${offset}: ${reason}`, { file, offset, reason });
+    this.name = 'TickFileCorruptedError';
+  }
+}
+
 // ============================================================================
 // CONFIGURATION ERRORS
 // ============================================================================
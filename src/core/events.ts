@@ -17,6 +17,10 @@ import type {
   Strategy,
   KillSwitchEvent,
   MarginState,
+  SubscriptionChange,
+  MarketDataAnomaly,
+  MarketDataSourceChange,
+  Candle,
 } from './types.js';
 
 // ============================================================================
@@ -42,6 +46,10 @@ export interface EventPayloads {
   WEBSOCKET_CONNECTED: { timestamp: Date };
   WEBSOCKET_DISCONNECTED: { reason: string; timestamp: Date };
   WEBSOCKET_ERROR: { error: Error; timestamp: Date };
+  SUBSCRIPTIONS_CHANGED: SubscriptionChange;
+  MARKET_DATA_SOURCE_CHANGED: MarketDataSourceChange;
+  MARKET_DATA_ANOMALY: MarketDataAnomaly;
+  CANDLE_CLOSED: Candle;
   DAILY_RESET: { date: Date; previousDaySummary?: unknown };
 }
 
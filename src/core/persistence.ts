@@ -16,6 +16,8 @@ interface PortfolioState {
 }
 
 export class PersistenceManager {
+  private enabled = true;
+
   constructor() {
     // Ensure data directory exists
     if (!fs.existsSync(DATA_DIR)) {
@@ -23,7 +25,16 @@ export class PersistenceManager {
     }
   }
 
+  /**
+   * Turn disk persistence on/off (off for replay sessions, so live state is untouched)
+   */
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+  }
+
   save(capital: Decimal, positions: Position[]) {
+    if (!this.enabled) return;
+
     const data: PortfolioState = {
       capital: capital.toString(),
       positions: positions,
@@ -39,7 +50,7 @@ export class PersistenceManager {
   }
 
   load(): { capital: Decimal, positions: Position[] } | null {
-    if (!fs.existsSync(DATA_FILE)) {
+    if (!this.enabled || !fs.existsSync(DATA_FILE)) {
       return null;
     }
 
@@ -11,8 +11,9 @@ import { Decimal } from '../utils/decimal.js';
 // ENUMS
 // ============================================================================
 
-export type Underlying = 'NIFTY' | 'BANKNIFTY' | 'FINNIFTY';
-export type InstrumentType = 'SPOT' | 'FUT' | 'CE' | 'PE';
+export type Underlying = 'NIFTY' | 'BANKNIFTY' | 'FINNIFTY' | 'MIDCPNIFTY' | 'SENSEX' | 'BANKEX';
+export type DerivativesExchange = 'NFO' | 'BFO';
+export type InstrumentType = 'SPOT' | 'VIX' | 'FUT' | 'CE' | 'PE';
 export type OrderSide = 'BUY' | 'SELL';
 export type PositionSide = 'LONG' | 'SHORT';
 export type OrderType = 'MARKET' | 'LIMIT' | 'SL' | 'SL-M';
@@ -20,8 +21,36 @@ export type OrderStatus = 'PENDING' | 'OPEN' | 'FILLED' | 'PARTIAL' | 'CANCELLED
 export type StrategyType = 'SHORT_STRADDLE' | 'SHORT_STRANGLE' | 'IRON_FLY' | 'IRON_CONDOR' | 'LONG_STRADDLE' | 'LONG_STRANGLE' | 'BULL_CALL_SPREAD' | 'BEAR_PUT_SPREAD' | 'CUSTOM';
 export type StrategyStatus = 'OPEN' | 'CLOSED' | 'PARTIAL';
 export type SpotDirection = 'UP' | 'DOWN' | 'FLAT';
+export type VixRegime = 'LOW' | 'NORMAL' | 'ELEVATED' | 'HIGH' | 'EXTREME';
+export type SurfaceModel = 'SVI' | 'SSVI';
+export type IVSource = 'RAW' | 'SURFACE';  // Solved from the option's own price, or read off the fitted surface
+export type ScenarioMethod = 'FULL' | 'GREEKS';  // Full repricing, or second-order Greeks approximation
+export type StrangleSelection = 'PREMIUM' | 'PROBABILITY';  // Strikes nearest a target premium, or a target probability of touch
+export type MonteCarloHorizon = 'EOD' | 'OVERNIGHT' | 'EXPIRY';  // Today's close, the next session's open, or the book's nearest expiry
+export type VolModel = 'STOCHASTIC' | 'REGIME';  // Mean-reverting log vol, or calm/stressed regime switching
+export type MispricingKind = 'SURFACE' | 'PARITY' | 'MONOTONICITY' | 'CONVEXITY';  // Off the fitted surface, or a no-arbitrage check across the chain
+export type MacroEventType = 'BUDGET' | 'RBI_POLICY' | 'ELECTION' | 'US_CPI' | 'FOMC' | 'OTHER';
 export type KillSwitchReason = 'DAILY_LOSS_LIMIT' | 'MARGIN_BREACH' | 'MANUAL' | 'ERROR';
 
+// ============================================================================
+// UNDERLYING TYPES
+// ============================================================================
+
+/**
+ * Contract specification for an index underlying (see UNDERLYING_SPECS)
+ */
+export interface UnderlyingSpec {
+  name: Underlying;                 // Instrument master `name`
+  exchange: DerivativesExchange;    // Segment the options and futures trade on
+  spotExchange: 'NSE' | 'BSE';
+  spotToken: number;                // Index instrument token (Zerodha)
+  spotSymbol: string;               // Kite quote key, e.g. 'NSE:NIFTY 50'
+  strikeInterval: number;
+  lotSize: number;
+  expiryWeekday: number;            // 0 = Sunday; monthly = last one of the month
+  weeklyExpiries: boolean;          // false = monthly contracts only
+}
+
 // ============================================================================
 // MARKET DATA TYPES
 // ============================================================================
@@ -86,6 +115,23 @@ export interface SpotSample {
   timestamp: Date;
 }
 
+/**
+ * India VIX level, intraday change and where it sits historically
+ */
+export interface VixState {
+  level: Decimal;
+  open: Decimal;
+  high: Decimal;
+  low: Decimal;
+  previousClose: Decimal | null;  // null until a prior session is known
+  change: Decimal;                // vs previous close, else vs today's open
+  changePct: number;
+  percentile: number | null;      // 0-100 against trailing daily closes
+  regime: VixRegime;
+  spike: boolean;
+  timestamp: Date;
+}
+
 /**
  * Market state for a single instrument
  */
@@ -106,14 +152,102 @@ export interface InstrumentState {
   lastUpdate: Date;
   depth?: OrderBookDepth;
   // Computed fields
-  iv?: Decimal;
+  iv?: Decimal;                   // Percent
+  surfaceIV?: Decimal;            // Percent
   greeks?: Greeks;
 }
 
+export type CandleInterval = '1m' | '3m' | '5m' | '15m' | 'day';
+
+/**
+ * OHLCV bar built from ticks (plain numbers: bars are for analysis, not fills)
+ */
+export interface Candle {
+  instrumentToken: number;
+  tradingSymbol: string;
+  underlying: Underlying;
+  interval: CandleInterval;
+  start: Date;                   // Bucket start (aligned to 09:15 IST)
+  end: Date;                     // Exclusive
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;                // Traded in this bar (from cumulative day volume)
+  vwap: number;                  // Typical price when no volume (indices)
+  oiOpen: number;
+  oiClose: number;
+  ticks: number;
+}
+
+export type MarketDataAnomalyType =
+  | 'INVALID_PRICE'      // LTP zero or negative
+  | 'CROSSED_QUOTE'      // Bid above ask
+  | 'LOCKED_QUOTE'       // Bid equal to ask
+  | 'OUT_OF_ORDER'       // lastTradeTime went backwards
+  | 'PRICE_JUMP'         // Move not explained by spot
+  | 'STALE';             // No update within the staleness threshold
+
+/**
+ * A suspect tick or instrument flagged by the data quality monitor
+ */
+export interface MarketDataAnomaly {
+  type: MarketDataAnomalyType;
+  instrumentToken: number;
+  tradingSymbol: string;
+  underlying: Underlying;
+  message: string;
+  details?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+/**
+ * Result of re-syncing the subscribed token set
+ */
+export interface SubscriptionChange {
+  added: number;
+  removed: number;
+  removedTokens: number[];                       // Tokens unsubscribed
+  modeChanged: number;
+  total: number;
+  pinned: number;                                // Tokens held for positions/orders
+  centres: Partial<Record<Underlying, number>>;  // ATM strike each window is centred on
+  timestamp: Date;
+}
+
+export type MarketDataFeed = 'websocket' | 'rest';
+
+/**
+ * Live ticks switched between the WebSocket and REST quote polling
+ */
+export interface MarketDataSourceChange {
+  from: MarketDataFeed;
+  to: MarketDataFeed;
+  reason: string;
+  tokens: number;                                // Tokens the new feed covers
+  timestamp: Date;
+}
+
 // ============================================================================
 // OPTIONS PRICING TYPES
 // ============================================================================
 
+export type ForwardSource = 'PARITY' | 'FUTURES';
+
+/**
+ * Implied forward for one expiry
+ */
+export interface ForwardPoint {
+  underlying: Underlying;
+  expiry: Date;
+  forward: Decimal;
+  spot: Decimal;
+  carryRate: Decimal;       // ln(F/S) / T, annualized
+  timeToExpiry: Decimal;
+  source: ForwardSource;
+  strikes: number[];        // Parity strikes used (empty for futures)
+}
+
 /**
  * Greeks for an option
  */
@@ -124,6 +258,41 @@ export interface Greeks {
   vega: Decimal;      // Per 1% IV change
   rho: Decimal;
   iv: Decimal;        // Implied volatility (as percentage, e.g., 15 = 15%)
+  // Second order
+  vanna: Decimal;     // Delta change per 1% IV change
+  volga: Decimal;     // Vega change per 1% IV change (vomma)
+  charm: Decimal;     // Delta change per day
+  speed: Decimal;     // Gamma change per 1 point of spot
+  color: Decimal;     // Gamma change per day
+  zomma: Decimal;     // Gamma change per 1% IV change
+}
+
+/**
+ * Greeks in rupees for a signed quantity
+ */
+export interface CashGreeks {
+  delta: Decimal;     // Rupee delta: delta x spot
+  gamma: Decimal;     // Rupee delta change for a 1% spot move: gamma x spot^2 / 100
+  theta: Decimal;     // Rupees per day
+  vega: Decimal;      // Rupees per vol point
+}
+
+/**
+ * Greeks summed over positions (signed by side, times quantity)
+ */
+export interface NetGreeks {
+  delta: Decimal;
+  gamma: Decimal;
+  theta: Decimal;
+  vega: Decimal;
+  rho: Decimal;
+  vanna: Decimal;
+  volga: Decimal;
+  charm: Decimal;
+  speed: Decimal;
+  color: Decimal;
+  zomma: Decimal;
+  cash: CashGreeks;
 }
 
 /**
@@ -136,6 +305,8 @@ export interface BSParams {
   riskFreeRate: Decimal;    // As decimal, e.g., 0.07 for 7%
   volatility: Decimal;      // As decimal, e.g., 0.15 for 15%
   optionType: 'CE' | 'PE';
+  forward?: Decimal;        // Price Black-76 off this forward instead of S·e^(rT)
+  eventVariance?: Decimal;  // Scheduled-event variance to expiry, added to σ²T
 }
 
 /**
@@ -148,6 +319,8 @@ export interface IVInflationParams {
   timeToExpiry: number;       // Days
   moneyness: Decimal;         // Strike/Spot ratio
   direction: SpotDirection;
+  vixLevel?: Decimal;         // India VIX (points)
+  vixChangePct?: number;      // Intraday India VIX change, e.g. 0.12 for +12%
 }
 
 // ============================================================================
@@ -231,6 +404,10 @@ export interface SlippageParams {
   underlying: Underlying;
   instrumentType: InstrumentType;
   daysToExpiry: number;
+  vixLevel?: Decimal;
+  vixChangePct?: number;
+  bookImbalance?: number;     // -1..1, positive = more resting bids (see DepthAnalytics)
+  liquidityScore?: number;    // 0-100
 }
 
 /**
@@ -245,6 +422,9 @@ export interface SlippageResult {
     iv: Decimal;
     size: Decimal;
     depth: Decimal;
+    vix: Decimal;
+    imbalance: Decimal;
+    liquidity: Decimal;
   };
 }
 
@@ -344,8 +524,9 @@ export interface Strategy {
   realizedPnL: Decimal;
   unrealizedPnL: Decimal;
   totalPnL: Decimal;
-  maxProfit?: Decimal;
-  maxLoss?: Decimal;
+  maxProfit?: Decimal;      // At expiry; Infinity when unlimited
+  maxLoss?: Decimal;        // Positive; Infinity when unlimited
+  riskReward?: Decimal;     // maxProfit / maxLoss
   breakevens: Decimal[];
   margin: Decimal;
   lotSize: number;
@@ -479,6 +660,85 @@ export interface WebhookConfig {
   allowedIPs: string[];
 }
 
+/**
+ * Tick recorder configuration
+ */
+export interface RecorderConfig {
+  enabled: boolean;
+  dir: string;
+  flushIntervalMs: number;
+  maxBufferedTicks: number;
+}
+
+/**
+ * REST quote polling used while the WebSocket is down
+ */
+export interface QuoteFallbackConfig {
+  enabled: boolean;
+  pollIntervalMs: number;
+  fallbackDelayMs: number;        // Socket downtime before polling starts
+  maxTokens: number;
+}
+
+/**
+ * Periodic batch re-pricing of every subscribed option's IV and Greeks
+ */
+export interface GreeksRefreshConfig {
+  enabled: boolean;
+  intervalMs: number;
+  budgetMs: number;               // CPU time per refresh before yielding
+}
+
+/**
+ * Variance-time clock for time to expiry
+ */
+export interface VarianceClockConfig {
+  enabled: boolean;
+  overnightWeight: number;        // Share of a trading day's variance outside the session
+  nonTradingDayWeight: number;    // Weekend day or holiday, in trading days
+  holidays: string[];             // YYYY-MM-DD
+  events: Array<{ name: string; date: string; weight: number }>;   // Extra variance in trading days
+}
+
+/**
+ * Scheduled macro-event calendar (per-underlying event variance)
+ */
+export interface EventCalendarConfig {
+  enabled: boolean;
+  file: string;                   // JSON calendar, re-read when it changes
+}
+
+/**
+ * Market data quality monitor configuration
+ */
+export interface DataQualityConfig {
+  enabled: boolean;
+  rejectSuspectOrders: boolean;   // FillEngine refuses orders on suspect instruments
+  jumpThresholdPct: number;
+  spotJumpThresholdPct: number;
+  suspectCooldownMs: number;
+}
+
+/**
+ * Candle aggregation configuration (bars persist to database.path)
+ */
+export interface CandleConfig {
+  enabled: boolean;
+  intervals: CandleInterval[];
+  persist: boolean;
+}
+
+/**
+ * Market simulator configuration
+ */
+export interface SimulatorConfig {
+  seed: number;
+  tickIntervalMs: number;
+  timeScale: number;
+  strikesAroundATM: number;
+  optionTickProbability: number;
+}
+
 /**
  * Full system configuration
  */
@@ -489,6 +749,14 @@ export interface SystemConfig {
   risk: RiskConfig;
   database: DatabaseConfig;
   webhook: WebhookConfig;
+  recorder: RecorderConfig;
+  dataQuality: DataQualityConfig;
+  quoteFallback: QuoteFallbackConfig;
+  greeksRefresh: GreeksRefreshConfig;
+  varianceClock: VarianceClockConfig;
+  eventCalendar: EventCalendarConfig;
+  candles: CandleConfig;
+  simulator: SimulatorConfig;
 }
 
 // ============================================================================
@@ -549,6 +817,10 @@ export type SystemEventType =
   | 'WEBSOCKET_CONNECTED'
   | 'WEBSOCKET_DISCONNECTED'
   | 'WEBSOCKET_ERROR'
+  | 'SUBSCRIPTIONS_CHANGED'
+  | 'MARKET_DATA_SOURCE_CHANGED'
+  | 'MARKET_DATA_ANOMALY'
+  | 'CANDLE_CLOSED'
   | 'DAILY_RESET';
 
 export interface SystemEvent<T = unknown> {
@@ -14,8 +14,10 @@ import { eventBus } from '../core/events.js';
 import { OrderRejectedError, FillError } from '../core/errors.js';
 import { logger, logOrder, logTrade } from '../utils/logger.js';
 import { toDecimal, ZERO, roundToTick } from '../utils/decimal.js';
+import { clockNowMs } from '../utils/clock.js';
 import { getMarketState } from '../market-data/market-state.js';
 import { getSpotTracker } from '../market-data/spot-tracker.js';
+import { getDepthAnalytics } from '../market-data/depth-analytics.js';
 import {
   calculateSlippage,
   calculateFillPrice,
@@ -34,6 +36,11 @@ import type {
   SlippageParams,
 } from '../core/types.js';
 
+/**
+ * Returns a reason to refuse trading an instrument, or null if it is fine
+ */
+export type InstrumentGuard = (instrumentToken: number) => string | null;
+
 // ============================================================================
 // FILL ENGINE
 // ============================================================================
@@ -41,6 +48,7 @@ import type {
 export class FillEngine {
   private pendingOrders: Map<string, Order> = new Map();
   private fillCheckInterval?: NodeJS.Timeout;
+  private instrumentGuard: InstrumentGuard | null = null;
 
   constructor() {
     // Start fill check loop
@@ -62,6 +70,15 @@ export class FillEngine {
       );
     }
 
+    // Refuse instruments whose market data is suspect
+    const suspectReason = this.instrumentGuard?.(instrumentState.instrumentToken);
+    if (suspectReason) {
+      throw new OrderRejectedError(
+        uuidv4(),
+        `Suspect market data for ${request.symbol}: ${suspectReason}`
+      );
+    }
+
     // Create order
     const order: Order = {
       id: uuidv4(),
@@ -120,6 +137,7 @@ export class FillEngine {
     latency: number
   ): Promise<Order> {
     const spotTracker = getSpotTracker();
+    const depthAnalytics = getDepthAnalytics();
     const marketState = getMarketState();
 
     // Get current IV
@@ -138,8 +156,12 @@ export class FillEngine {
       underlying: order.underlying,
       instrumentType: order.instrumentType,
       daysToExpiry: order.expiry
-        ? Math.ceil((order.expiry.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+        ? Math.ceil((order.expiry.getTime() - clockNowMs()) / (1000 * 60 * 60 * 24))
         : 30,
+      vixLevel: spotTracker.getVixLevel(),
+      vixChangePct: spotTracker.getVixChangePct(),
+      bookImbalance: depthAnalytics.getImbalance(instrumentState.instrumentToken),
+      liquidityScore: depthAnalytics.getLiquidity(instrumentState.instrumentToken)?.score,
     };
 
     const slippageResult = calculateSlippage(slippageParams);
@@ -227,6 +249,7 @@ export class FillEngine {
    */
   private checkLimitOrderFill(order: Order, instrumentState: InstrumentState): FillResult | null {
     const spotTracker = getSpotTracker();
+    const depthAnalytics = getDepthAnalytics();
 
     if (!order.limitPrice) {
       return null;
@@ -248,8 +271,12 @@ export class FillEngine {
       underlying: order.underlying,
       instrumentType: order.instrumentType,
       daysToExpiry: order.expiry
-        ? Math.ceil((order.expiry.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+        ? Math.ceil((order.expiry.getTime() - clockNowMs()) / (1000 * 60 * 60 * 24))
         : 30,
+      vixLevel: spotTracker.getVixLevel(),
+      vixChangePct: spotTracker.getVixChangePct(),
+      bookImbalance: depthAnalytics.getImbalance(instrumentState.instrumentToken),
+      liquidityScore: depthAnalytics.getLiquidity(instrumentState.instrumentToken)?.score,
     };
 
     const slippageResult = calculateSlippage(slippageParams);
@@ -319,6 +346,9 @@ export class FillEngine {
       const instrumentState = marketState.getByToken(order.instrumentToken);
       if (!instrumentState) continue;
 
+      // Hold fills while the instrument's data is suspect
+      if (this.instrumentGuard?.(order.instrumentToken)) continue;
+
       // Check for fill
       const fillResult = this.checkLimitOrderFill(order, instrumentState);
 
@@ -402,6 +432,13 @@ export class FillEngine {
     return order;
   }
 
+  /**
+   * Set (or clear) the check that refuses orders on suspect instruments
+   */
+  setInstrumentGuard(guard: InstrumentGuard | null): void {
+    this.instrumentGuard = guard;
+  }
+
   /**
    * Get pending orders
    */
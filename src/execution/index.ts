@@ -18,6 +18,7 @@ export {
   getFillEngine,
   resetFillEngine,
 } from './fill-engine.js';
+export type { InstrumentGuard } from './fill-engine.js';
 
 export {
   configureLatency,
@@ -5,14 +5,15 @@
  * - Bid-ask spread
  * - Spot velocity
  * - IV level
+ * - India VIX level and spikes
  * - Order size vs liquidity
- * - Order book depth
+ * - Order book depth, imbalance and liquidity history
  */
 
 import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
-import { SLIPPAGE, LOT_SIZES } from '../core/constants.js';
+import { INDIA_VIX, SLIPPAGE, LOT_SIZES } from '../core/constants.js';
 import { toDecimal, ZERO, ONE, roundToTick } from '../utils/decimal.js';
 import type {
   SlippageParams,
@@ -35,6 +36,9 @@ import type {
  * 4. IV: High IV = wider spreads
  * 5. Size: Large orders get worse fills
  * 6. Depth: Eating into order book
+ * 7. VIX: Market-wide stress, more of the spread while VIX spikes
+ * 8. Imbalance: Book leaning against the order
+ * 9. Liquidity: Strikes with a poor liquidity score
  */
 export function calculateSlippage(params: SlippageParams): SlippageResult {
   const {
@@ -49,6 +53,10 @@ export function calculateSlippage(params: SlippageParams): SlippageResult {
     underlying,
     instrumentType,
     daysToExpiry,
+    vixLevel,
+    vixChangePct,
+    bookImbalance,
+    liquidityScore,
   } = params;
 
   const components = {
@@ -58,6 +66,9 @@ export function calculateSlippage(params: SlippageParams): SlippageResult {
     iv: ZERO,
     size: ZERO,
     depth: ZERO,
+    vix: ZERO,
+    imbalance: ZERO,
+    liquidity: ZERO,
   };
 
   // 1. BASE SLIPPAGE (always applied)
@@ -138,6 +149,33 @@ export function calculateSlippage(params: SlippageParams): SlippageResult {
     }
   }
 
+  // 7. VIX SLIPPAGE
+  // Event days: the whole market widens, not just this strike
+  if (vixLevel && vixLevel.greaterThan(SLIPPAGE.HIGH_VIX_THRESHOLD)) {
+    // ~0.03 per VIX point above 18
+    components.vix = vixLevel.minus(SLIPPAGE.HIGH_VIX_THRESHOLD).times(SLIPPAGE.VIX_MULTIPLIER);
+  }
+  if (vixChangePct !== undefined && vixChangePct >= INDIA_VIX.SPIKE_CHANGE_PCT) {
+    components.vix = components.vix.plus(spread.times(SLIPPAGE.VIX_SPIKE_SPREAD_SHARE));
+  }
+
+  // 8. IMBALANCE SLIPPAGE
+  // Buying when bids outweigh offers (or selling into a heavy offer side)
+  // means the touch is about to move away
+  if (bookImbalance !== undefined) {
+    const adverse = orderSide === 'BUY' ? bookImbalance : -bookImbalance;
+    if (adverse > 0) {
+      components.imbalance = spread.times(SLIPPAGE.IMBALANCE_SPREAD_SHARE).times(Math.min(1, adverse));
+    }
+  }
+
+  // 9. LIQUIDITY SLIPPAGE
+  // Score from spread, depth and two-sidedness over recent history
+  if (liquidityScore !== undefined && liquidityScore < 100) {
+    const illiquidity = 1 - Math.max(0, liquidityScore) / 100;
+    components.liquidity = spread.times(SLIPPAGE.ILLIQUIDITY_SPREAD_SHARE).times(illiquidity);
+  }
+
   // EXPIRY DAY PENALTY
   // Gamma risk makes market makers extra cautious
   if (instrumentType === 'CE' || instrumentType === 'PE') {
@@ -162,7 +200,10 @@ export function calculateSlippage(params: SlippageParams): SlippageResult {
     .plus(components.velocity)
     .plus(components.iv)
     .plus(components.size)
-    .plus(components.depth);
+    .plus(components.depth)
+    .plus(components.vix)
+    .plus(components.imbalance)
+    .plus(components.liquidity);
 
   // Round to tick size
   return {
@@ -22,6 +22,18 @@ export { getKiteWebSocket } from './market-data/kite-websocket.js';
 export { getMarketState } from './market-data/market-state.js';
 export { getInstrumentManager } from './market-data/instrument-manager.js';
 export { getSpotTracker } from './market-data/spot-tracker.js';
+export { getSubscriptionManager } from './market-data/subscription-manager.js';
+export { getDataQualityMonitor } from './market-data/data-quality.js';
+export { getQuoteFallback } from './market-data/quote-fallback.js';
+export { getCandleAggregator } from './market-data/candle-aggregator.js';
+export { getBasisTracker } from './market-data/basis-tracker.js';
+export { getOIAnalytics } from './market-data/oi-analytics.js';
+export { getDepthAnalytics } from './market-data/depth-analytics.js';
+export { getVolSurfaceTracker } from './market-data/vol-surface-tracker.js';
+export { getTickRecorder, readTickFile, readTicks, listTickFiles } from './market-data/tick-recorder.js';
+export { ReplayMarketDataSource } from './market-data/replay-source.js';
+export { MarketSimulator } from './market-data/market-simulator.js';
+export type { MarketDataSource } from './market-data/market-data-source.js';
 export * from './pricing/index.js';
 export { getFillEngine } from './execution/fill-engine.js';
 export { calculateSlippage, estimateSlippage } from './execution/slippage.js';
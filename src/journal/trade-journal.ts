@@ -71,6 +71,12 @@ export interface TradeEntry {
   daysHeld?: number;
 }
 
+export interface UnderlyingStats {
+  trades: number;
+  pnl: number;
+  winRate: number;
+}
+
 export interface PerformanceStats {
   totalTrades: number;
   openTrades: number;
@@ -89,9 +95,8 @@ export interface PerformanceStats {
   avgDaysHeld: number;
   avgROI: number;
 
-  // By underlying
-  niftyStats: { trades: number; pnl: number; winRate: number };
-  bankniftyStats: { trades: number; pnl: number; winRate: number };
+  // By underlying, for every underlying with closed trades
+  byUnderlying: Partial<Record<Underlying, UnderlyingStats>>;
 
   // Recent performance
   last5Trades: TradeEntry[];
@@ -327,8 +332,12 @@ export class TradeJournal {
     const totalWins = winningTrades.reduce((sum, t) => sum + t.realized_pnl, 0);
     const totalLosses = Math.abs(losingTrades.reduce((sum, t) => sum + t.realized_pnl, 0));
 
-    const niftyTrades = closedTrades.filter(t => t.underlying === 'NIFTY');
-    const bnfTrades = closedTrades.filter(t => t.underlying === 'BANKNIFTY');
+    const tradesByUnderlying = new Map<Underlying, any[]>();
+    for (const trade of closedTrades) {
+      const trades = tradesByUnderlying.get(trade.underlying) ?? [];
+      trades.push(trade);
+      tradesByUnderlying.set(trade.underlying, trades);
+    }
 
     // Calculate current streak
     let currentStreak = 0;
@@ -364,20 +373,11 @@ export class TradeJournal {
         ? closedTrades.reduce((sum, t) => sum + ((t.realized_pnl || 0) / t.margin_used) * 100, 0) / closedTrades.length
         : 0,
 
-      niftyStats: {
-        trades: niftyTrades.length,
-        pnl: niftyTrades.reduce((sum, t) => sum + (t.realized_pnl || 0), 0),
-        winRate: niftyTrades.length > 0
-          ? (niftyTrades.filter(t => t.realized_pnl > 0).length / niftyTrades.length) * 100
-          : 0,
-      },
-      bankniftyStats: {
-        trades: bnfTrades.length,
-        pnl: bnfTrades.reduce((sum, t) => sum + (t.realized_pnl || 0), 0),
-        winRate: bnfTrades.length > 0
-          ? (bnfTrades.filter(t => t.realized_pnl > 0).length / bnfTrades.length) * 100
-          : 0,
-      },
+      byUnderlying: Object.fromEntries(Array.from(tradesByUnderlying, ([underlying, trades]) => [underlying, {
+        trades: trades.length,
+        pnl: trades.reduce((sum, t) => sum + (t.realized_pnl || 0), 0),
+        winRate: (trades.filter(t => t.realized_pnl > 0).length / trades.length) * 100,
+      }])),
 
       last5Trades: allTrades.slice(0, 5).map(this.mapRowToTrade),
       currentStreak,
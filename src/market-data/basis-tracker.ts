@@ -0,0 +1,253 @@
+/**
+ * Basis Tracker for NSE Options Paper Trading
+ *
+ * Follows index futures against spot from TICK events. For every futures
+ * contract it keeps the latest basis (future - spot), the annualized carry
+ * implied by it, and how rich or cheap the future is against risk-free
+ * cost-of-carry fair value S·e^(rT).
+ *
+ * A snapshot is refreshed when either leg ticks, using the last price of
+ * the other leg from MarketState.
+ */
+
+import { eventBus } from '../core/events.js';
+import { BASIS, PRICING } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { timeToExpiryYears } from '../utils/date.js';
+import { getMarketState } from './market-state.js';
+import type { EventHandler } from '../core/events.js';
+import type { MarketTick, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BasisSnapshot {
+  underlying: Underlying;
+  instrumentToken: number;
+  tradingSymbol: string;
+  expiry: Date;
+  spot: number;
+  futures: number;
+  basis: number;              // futures - spot (points)
+  basisPct: number;           // basis / spot
+  annualizedCarry: number;    // ln(F/S) / T
+  fairValue: number;          // S·e^(rT)
+  premiumToFair: number;      // futures - fair value (points)
+  daysToExpiry: number;
+  timestamp: Date;
+}
+
+interface TrackedFuture {
+  underlying: Underlying;
+  tradingSymbol: string;
+  expiry: Date;
+  history: BasisSnapshot[];   // Oldest first
+}
+
+// ============================================================================
+// BASIS TRACKER
+// ============================================================================
+
+export class BasisTracker {
+  private futures: Map<number, TrackedFuture> = new Map();
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.onTick(event.payload);
+  };
+
+  constructor(
+    private riskFreeRate: number = PRICING.RISK_FREE_RATE.toNumber(),
+    private historySize: number = BASIS.HISTORY_SIZE
+  ) {}
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start tracking from TICK events
+   */
+  start(): void {
+    if (this.running) return;
+    eventBus.on('TICK', this.tickHandler);
+    this.running = true;
+    marketDataLogger.info('Basis tracker started');
+  }
+
+  /**
+   * Stop tracking
+   */
+  stop(): void {
+    if (!this.running) return;
+    eventBus.off('TICK', this.tickHandler);
+    this.running = false;
+    marketDataLogger.info('Basis tracker stopped');
+  }
+
+  // ==========================================================================
+  // UPDATES
+  // ==========================================================================
+
+  /**
+   * Refresh the futures affected by a tick
+   */
+  onTick(tick: MarketTick): void {
+    if (tick.instrumentType === 'FUT') {
+      if (!tick.expiry) return;
+      let tracked = this.futures.get(tick.instrumentToken);
+      if (!tracked) {
+        tracked = {
+          underlying: tick.underlying,
+          tradingSymbol: tick.tradingSymbol,
+          expiry: tick.expiry,
+          history: [],
+        };
+        this.futures.set(tick.instrumentToken, tracked);
+      }
+
+      const spot = getMarketState().getSpotPrice(tick.underlying).toNumber();
+      this.record(tick.instrumentToken, tracked, spot, tick.ltp.toNumber(), tick.timestamp);
+      return;
+    }
+
+    if (tick.instrumentType === 'SPOT') {
+      const marketState = getMarketState();
+      for (const [token, tracked] of this.futures) {
+        if (tracked.underlying !== tick.underlying) continue;
+        const futures = marketState.getByToken(token)?.ltp.toNumber() ?? 0;
+        this.record(token, tracked, tick.ltp.toNumber(), futures, tick.timestamp);
+      }
+    }
+  }
+
+  private record(token: number, tracked: TrackedFuture, spot: number, futures: number, now: Date): void {
+    if (!(spot > 0) || !(futures > 0)) return;
+
+    const snapshot = computeBasis(tracked, token, spot, futures, now, this.riskFreeRate);
+    if (!snapshot) {
+      // Contract has expired
+      this.futures.delete(token);
+      return;
+    }
+
+    tracked.history.push(snapshot);
+    if (tracked.history.length > this.historySize) {
+      tracked.history.shift();
+    }
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Latest basis for a contract (near month if no expiry given)
+   */
+  getBasis(underlying: Underlying, expiry?: Date): BasisSnapshot | undefined {
+    const curve = this.getTermStructure(underlying);
+    if (!expiry) return curve[0];
+
+    const expStr = expiry.toISOString().split('T')[0];
+    return curve.find(s => s.expiry.toISOString().split('T')[0] === expStr);
+  }
+
+  /**
+   * Latest basis for every unexpired contract, nearest expiry first
+   */
+  getTermStructure(underlying: Underlying): BasisSnapshot[] {
+    const curve: BasisSnapshot[] = [];
+    for (const tracked of this.futures.values()) {
+      if (tracked.underlying !== underlying) continue;
+      const latest = tracked.history[tracked.history.length - 1];
+      if (latest) curve.push(latest);
+    }
+    return curve.sort((a, b) => a.expiry.getTime() - b.expiry.getTime());
+  }
+
+  /**
+   * Basis history for a contract, oldest first
+   */
+  getHistory(token: number): BasisSnapshot[] {
+    return [...(this.futures.get(token)?.history ?? [])];
+  }
+
+  /**
+   * Next month minus near month futures price (calendar spread)
+   */
+  getCalendarSpread(underlying: Underlying): number | undefined {
+    const [near, next] = this.getTermStructure(underlying);
+    if (!near || !next) return undefined;
+    return next.futures - near.futures;
+  }
+
+  /**
+   * Get tracker statistics
+   */
+  getStats(): { contracts: number; snapshots: number; running: boolean } {
+    let snapshots = 0;
+    for (const tracked of this.futures.values()) snapshots += tracked.history.length;
+    return { contracts: this.futures.size, snapshots, running: this.running };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function computeBasis(
+  tracked: TrackedFuture,
+  token: number,
+  spot: number,
+  futures: number,
+  now: Date,
+  riskFreeRate: number
+): BasisSnapshot | null {
+  const t = timeToExpiryYears(tracked.expiry, now);
+  if (t.lessThanOrEqualTo(PRICING.MIN_TIME_TO_EXPIRY)) return null;
+  const years = t.toNumber();
+
+  const basis = futures - spot;
+  const fairValue = spot * Math.exp(riskFreeRate * years);
+
+  return {
+    underlying: tracked.underlying,
+    instrumentToken: token,
+    tradingSymbol: tracked.tradingSymbol,
+    expiry: tracked.expiry,
+    spot,
+    futures,
+    basis,
+    basisPct: basis / spot,
+    annualizedCarry: Math.log(futures / spot) / years,
+    fairValue,
+    premiumToFair: futures - fairValue,
+    daysToExpiry: years * PRICING.DAYS_IN_YEAR,
+    timestamp: now,
+  };
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let basisTracker: BasisTracker | null = null;
+
+/**
+ * Get BasisTracker singleton
+ */
+export function getBasisTracker(): BasisTracker {
+  if (!basisTracker) {
+    basisTracker = new BasisTracker();
+  }
+  return basisTracker;
+}
+
+/**
+ * Reset BasisTracker (for testing)
+ */
+export function resetBasisTracker(): void {
+  basisTracker?.stop();
+  basisTracker = null;
+}
@@ -0,0 +1,389 @@
+/**
+ * Candle Aggregator for NSE Options Paper Trading
+ *
+ * Builds OHLCV bars with VWAP and OI open/close from TICK events for every
+ * instrument that ticks (spot, futures, options). Intraday buckets are
+ * aligned to the 09:15 IST open so a 15m bar is 09:15-09:30, 09:30-09:45, ...
+ *
+ * Bars are driven by tick time, not wall-clock time, so replayed and
+ * simulated sessions produce the same bars as live ones. A bar closes when
+ * a later tick for any instrument passes its end; completed bars emit
+ * CANDLE_CLOSED and are written to SQLite when a store is attached.
+ */
+
+import { eventBus } from '../core/events.js';
+import { CANDLES, TRADING_HOURS } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import type { EventHandler } from '../core/events.js';
+import type { CandleStore } from './candle-store.js';
+import type { Candle, CandleInterval, MarketTick } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CandleAggregatorOptions {
+  intervals: CandleInterval[];
+  store: CandleStore | null;        // null = in-memory only
+  maxInMemory: number;
+  flushIntervalMs: number;
+}
+
+/**
+ * Bar still being built, with the price x volume sum behind its VWAP
+ */
+interface FormingCandle extends Candle {
+  priceVolume: number;
+}
+
+// ============================================================================
+// BUCKETING
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const IST_OFFSET_MS = 330 * MINUTE_MS;
+const [OPEN_HOUR, OPEN_MINUTE] = TRADING_HOURS.MARKET_OPEN.split(':').map(Number) as [number, number];
+const SESSION_OPEN_OFFSET_MS = (OPEN_HOUR * 60 + OPEN_MINUTE) * MINUTE_MS;
+
+/**
+ * 09:15 IST on the IST calendar day of a timestamp
+ */
+export function getSessionOpen(time: Date): Date {
+  const istMidnight = Math.floor((time.getTime() + IST_OFFSET_MS) / DAY_MS) * DAY_MS - IST_OFFSET_MS;
+  return new Date(istMidnight + SESSION_OPEN_OFFSET_MS);
+}
+
+/**
+ * Start and end of the bucket a timestamp falls in
+ */
+export function getCandleBounds(time: Date, interval: CandleInterval): { start: Date; end: Date } {
+  const sessionOpen = getSessionOpen(time).getTime();
+
+  if (interval === 'day') {
+    const nextMidnight = sessionOpen - SESSION_OPEN_OFFSET_MS + DAY_MS;
+    return { start: new Date(sessionOpen), end: new Date(nextMidnight) };
+  }
+
+  const size = CANDLES.INTERVAL_MINUTES[interval] * MINUTE_MS;
+  const start = sessionOpen + Math.floor((time.getTime() - sessionOpen) / size) * size;
+  return { start: new Date(start), end: new Date(start + size) };
+}
+
+// ============================================================================
+// CANDLE AGGREGATOR
+// ============================================================================
+
+export class CandleAggregator {
+  private options: CandleAggregatorOptions;
+  private forming: Map<string, FormingCandle> = new Map();      // token:interval
+  private completed: Map<string, Candle[]> = new Map();         // token:interval, oldest first
+  private lastCumulativeVolume: Map<number, number> = new Map();
+  private unsaved: Candle[] = [];
+  private lastSweepMinute = 0;
+  private flushInterval?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.onTick(event.payload);
+  };
+
+  constructor(options: Partial<CandleAggregatorOptions> = {}) {
+    this.options = {
+      intervals: options.intervals ?? [...CANDLES.INTERVALS],
+      store: options.store ?? null,
+      maxInMemory: options.maxInMemory ?? CANDLES.MAX_IN_MEMORY,
+      flushIntervalMs: options.flushIntervalMs ?? CANDLES.FLUSH_INTERVAL_MS,
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start building bars from TICK events
+   */
+  start(): void {
+    if (this.running) return;
+
+    eventBus.on('TICK', this.tickHandler);
+    if (this.options.store) {
+      this.flushInterval = setInterval(() => this.flush(), this.options.flushIntervalMs);
+    }
+    this.running = true;
+
+    marketDataLogger.info('Candle aggregator started', {
+      intervals: this.options.intervals,
+      persisted: this.options.store !== null,
+    });
+  }
+
+  /**
+   * Stop and write completed bars (forming bars are not persisted)
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    eventBus.off('TICK', this.tickHandler);
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+    this.flush();
+    this.running = false;
+
+    marketDataLogger.info('Candle aggregator stopped');
+  }
+
+  // ==========================================================================
+  // AGGREGATION
+  // ==========================================================================
+
+  /**
+   * Fold a tick into the forming bar of every interval
+   */
+  onTick(tick: MarketTick): void {
+    const price = tick.ltp.toNumber();
+    if (!(price > 0)) return;
+
+    const volume = this.volumeDelta(tick);
+
+    for (const interval of this.options.intervals) {
+      const key = candleKey(tick.instrumentToken, interval);
+      const { start, end } = getCandleBounds(tick.timestamp, interval);
+      let bar = this.forming.get(key);
+
+      if (bar && bar.start.getTime() !== start.getTime()) {
+        // Late tick for a bar that has already rolled over
+        if (start < bar.start) continue;
+        this.close(key, bar);
+        bar = undefined;
+      }
+
+      if (!bar) {
+        bar = {
+          instrumentToken: tick.instrumentToken,
+          tradingSymbol: tick.tradingSymbol,
+          underlying: tick.underlying,
+          interval,
+          start,
+          end,
+          open: price,
+          high: price,
+          low: price,
+          close: price,
+          volume: 0,
+          vwap: price,
+          oiOpen: tick.oi,
+          oiClose: tick.oi,
+          ticks: 0,
+          priceVolume: 0,
+        };
+        this.forming.set(key, bar);
+      }
+
+      bar.high = Math.max(bar.high, price);
+      bar.low = Math.min(bar.low, price);
+      bar.close = price;
+      bar.volume += volume;
+      bar.priceVolume += price * volume;
+      bar.oiClose = tick.oi;
+      bar.ticks++;
+    }
+
+    // Close bars of instruments that stopped ticking, once per tick-time minute
+    const minute = Math.floor(tick.timestamp.getTime() / MINUTE_MS);
+    if (minute > this.lastSweepMinute) {
+      this.lastSweepMinute = minute;
+      this.closeElapsed(tick.timestamp);
+    }
+  }
+
+  /**
+   * Volume traded since the previous tick (ticks carry cumulative day volume)
+   */
+  private volumeDelta(tick: MarketTick): number {
+    const previous = this.lastCumulativeVolume.get(tick.instrumentToken);
+    this.lastCumulativeVolume.set(tick.instrumentToken, tick.volume);
+
+    if (previous === undefined) return 0;
+    // Counter restarts with a new session
+    return tick.volume >= previous ? tick.volume - previous : tick.volume;
+  }
+
+  /**
+   * Close every forming bar whose end has passed
+   */
+  closeElapsed(now: Date): number {
+    let closed = 0;
+    for (const [key, bar] of this.forming) {
+      if (bar.end <= now) {
+        this.close(key, bar);
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  private close(key: string, bar: FormingCandle): void {
+    this.forming.delete(key);
+
+    const candle = finalize(bar);
+    let history = this.completed.get(key);
+    if (!history) {
+      history = [];
+      this.completed.set(key, history);
+    }
+    history.push(candle);
+    if (history.length > this.options.maxInMemory) {
+      history.shift();
+    }
+
+    if (this.options.store) {
+      this.unsaved.push(candle);
+    }
+    eventBus.emit('CANDLE_CLOSED', candle);
+  }
+
+  /**
+   * Write completed bars to the store
+   */
+  flush(): void {
+    if (!this.options.store || this.unsaved.length === 0) return;
+
+    const batch = this.unsaved;
+    this.unsaved = [];
+    try {
+      this.options.store.save(batch);
+    } catch (error) {
+      // Keep them for the next attempt
+      this.unsaved = batch.concat(this.unsaved);
+      marketDataLogger.error('Failed to persist candles', {
+        count: batch.length,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Bars with start in [from, to], oldest first. Reads SQLite for ranges
+   * older than what is held in memory.
+   */
+  getCandles(
+    token: number,
+    interval: CandleInterval,
+    from: Date = new Date(0),
+    to: Date = new Date(8.64e15),
+    includeForming = false
+  ): Candle[] {
+    const key = candleKey(token, interval);
+    const inRange = (c: Candle) => c.start >= from && c.start <= to;
+    const byStart: Map<number, Candle> = new Map();
+
+    const history = this.completed.get(key) ?? [];
+    const earliestInMemory = history[0]?.start;
+    if (this.options.store && (!earliestInMemory || from < earliestInMemory)) {
+      for (const candle of this.options.store.query(token, interval, from, to)) {
+        byStart.set(candle.start.getTime(), candle);
+      }
+    }
+
+    for (const candle of history.filter(inRange)) {
+      byStart.set(candle.start.getTime(), candle);
+    }
+
+    const forming = this.forming.get(key);
+    if (includeForming && forming && inRange(forming)) {
+      byStart.set(forming.start.getTime(), finalize(forming));
+    }
+
+    return Array.from(byStart.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Most recent completed bar
+   */
+  getLatestCandle(token: number, interval: CandleInterval): Candle | undefined {
+    const history = this.completed.get(candleKey(token, interval));
+    return history?.[history.length - 1];
+  }
+
+  /**
+   * Snapshot of the bar currently being built
+   */
+  getFormingCandle(token: number, interval: CandleInterval): Candle | undefined {
+    const bar = this.forming.get(candleKey(token, interval));
+    return bar ? finalize(bar) : undefined;
+  }
+
+  /**
+   * First bar of a session (e.g. the 09:15-09:30 range for '15m'),
+   * still forming if the range is not over yet
+   */
+  getOpeningRange(token: number, interval: CandleInterval = '15m', date: Date = new Date()): Candle | undefined {
+    const open = getSessionOpen(date);
+    return this.getCandles(token, interval, open, open, true)[0];
+  }
+
+  /**
+   * Get aggregator statistics
+   */
+  getStats(): { forming: number; completed: number; unsaved: number; running: boolean } {
+    let completed = 0;
+    for (const history of this.completed.values()) completed += history.length;
+    return {
+      forming: this.forming.size,
+      completed,
+      unsaved: this.unsaved.length,
+      running: this.running,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function candleKey(token: number, interval: CandleInterval): string {
+  return `${token}:${interval}`;
+}
+
+/**
+ * Plain candle from a forming bar (VWAP falls back to typical price)
+ */
+function finalize(bar: FormingCandle): Candle {
+  const { priceVolume, ...candle } = bar;
+  return {
+    ...candle,
+    vwap: bar.volume > 0 ? priceVolume / bar.volume : (bar.high + bar.low + bar.close) / 3,
+  };
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let candleAggregator: CandleAggregator | null = null;
+
+/**
+ * Get CandleAggregator singleton
+ */
+export function getCandleAggregator(options?: Partial<CandleAggregatorOptions>): CandleAggregator {
+  if (!candleAggregator) {
+    candleAggregator = new CandleAggregator(options);
+  }
+  return candleAggregator;
+}
+
+/**
+ * Reset CandleAggregator (for testing)
+ */
+export function resetCandleAggregator(): void {
+  candleAggregator?.stop();
+  candleAggregator = null;
+}
@@ -0,0 +1,182 @@
+/**
+ * Candle Store for NSE Options Paper Trading
+ *
+ * SQLite persistence for completed OHLCV bars, keyed by
+ * (token, interval, start). Writing the same bar twice replaces it.
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { DatabaseError } from '../core/errors.js';
+import { marketDataLogger } from '../utils/logger.js';
+import type { Candle, CandleInterval, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CandleRow {
+  token: number;
+  symbol: string;
+  underlying: string;
+  interval: string;
+  start: number;
+  end: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap: number;
+  oi_open: number;
+  oi_close: number;
+  ticks: number;
+}
+
+// ============================================================================
+// CANDLE STORE
+// ============================================================================
+
+export class CandleStore {
+  private db: Database.Database;
+
+  constructor(private dbPath: string) {
+    try {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+      this.db = new Database(dbPath);
+      this.db.pragma('journal_mode = WAL');
+      this.initializeSchema();
+    } catch (error) {
+      throw new DatabaseError('open', `${dbPath}: ${(error as Error).message}`);
+    }
+    marketDataLogger.info('Candle store opened', { dbPath });
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS candles (
+        token INTEGER NOT NULL,
+        symbol TEXT NOT NULL,
+        underlying TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        start INTEGER NOT NULL,
+        end INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume INTEGER NOT NULL,
+        vwap REAL NOT NULL,
+        oi_open INTEGER NOT NULL,
+        oi_close INTEGER NOT NULL,
+        ticks INTEGER NOT NULL,
+        PRIMARY KEY (token, interval, start)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_candles_symbol ON candles(symbol, interval, start);
+    `);
+  }
+
+  /**
+   * Insert or replace bars in one transaction
+   */
+  save(candles: Candle[]): void {
+    if (candles.length === 0) return;
+
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO candles (
+        token, symbol, underlying, interval, start, end,
+        open, high, low, close, volume, vwap, oi_open, oi_close, ticks
+      ) VALUES (
+        @token, @symbol, @underlying, @interval, @start, @end,
+        @open, @high, @low, @close, @volume, @vwap, @oi_open, @oi_close, @ticks
+      )
+    `);
+
+    const insertAll = this.db.transaction((rows: CandleRow[]) => {
+      for (const row of rows) stmt.run(row);
+    });
+
+    try {
+      insertAll(candles.map(toRow));
+    } catch (error) {
+      throw new DatabaseError('save candles', (error as Error).message);
+    }
+  }
+
+  /**
+   * Bars for a token and interval with start in [from, to], oldest first
+   */
+  query(token: number, interval: CandleInterval, from: Date, to: Date): Candle[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM candles
+      WHERE token = ? AND interval = ? AND start >= ? AND start <= ?
+      ORDER BY start ASC
+    `).all(token, interval, from.getTime(), to.getTime()) as CandleRow[];
+
+    return rows.map(fromRow);
+  }
+
+  /**
+   * Drop bars that started before a cutoff
+   */
+  deleteBefore(cutoff: Date, interval?: CandleInterval): number {
+    const result = interval
+      ? this.db.prepare('DELETE FROM candles WHERE start < ? AND interval = ?').run(cutoff.getTime(), interval)
+      : this.db.prepare('DELETE FROM candles WHERE start < ?').run(cutoff.getTime());
+    return result.changes;
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+    marketDataLogger.debug('Candle store closed', { dbPath: this.dbPath });
+  }
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+function toRow(candle: Candle): CandleRow {
+  return {
+    token: candle.instrumentToken,
+    symbol: candle.tradingSymbol,
+    underlying: candle.underlying,
+    interval: candle.interval,
+    start: candle.start.getTime(),
+    end: candle.end.getTime(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume,
+    vwap: candle.vwap,
+    oi_open: candle.oiOpen,
+    oi_close: candle.oiClose,
+    ticks: candle.ticks,
+  };
+}
+
+function fromRow(row: CandleRow): Candle {
+  return {
+    instrumentToken: row.token,
+    tradingSymbol: row.symbol,
+    underlying: row.underlying as Underlying,
+    interval: row.interval as CandleInterval,
+    start: new Date(row.start),
+    end: new Date(row.end),
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+    vwap: row.vwap,
+    oiOpen: row.oi_open,
+    oiClose: row.oi_close,
+    ticks: row.ticks,
+  };
+}
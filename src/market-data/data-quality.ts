@@ -0,0 +1,459 @@
+/**
+ * Market Data Quality Monitor for NSE Options Paper Trading
+ *
+ * Watches the tick stream for data that should never reach a fill:
+ * crossed or locked quotes, non-positive LTPs, lastTradeTime going
+ * backwards, price jumps that spot movement does not explain, and
+ * instruments that have gone stale.
+ *
+ * Every finding is emitted as MARKET_DATA_ANOMALY and marks the instrument
+ * suspect for a cooldown. Optionally the FillEngine is told to refuse
+ * orders (and hold limit fills) on suspect instruments.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { eventBus } from '../core/events.js';
+import { DATA_QUALITY } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { clockNow, clockNowMs } from '../utils/clock.js';
+import { getMarketState } from './market-state.js';
+import { getFillEngine } from '../execution/fill-engine.js';
+import type { EventHandler } from '../core/events.js';
+import type { MarketTick, MarketDataAnomaly, MarketDataAnomalyType } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DataQualityOptions {
+  jumpThresholdPct: number;
+  spotJumpThresholdPct: number;
+  suspectCooldownMs: number;
+  throttleMs: number;
+  checkStaleness: boolean;        // Off for replay, where tick times are historical
+  staleThresholdMs?: number;      // Defaults to MarketStateManager's threshold
+  rejectSuspectOrders: boolean;
+}
+
+export interface DataQualityStats {
+  ticksChecked: number;
+  anomalies: Record<MarketDataAnomalyType, number>;
+  suspectInstruments: number;
+  staleInstruments: number;
+  running: boolean;
+}
+
+/**
+ * Last clean observation of a token, the baseline for the next tick
+ */
+interface TokenBaseline {
+  ltp: number;
+  lastTradeTime: number;
+  spot: number;
+  stale: boolean;
+}
+
+interface SuspectEntry {
+  type: MarketDataAnomalyType;
+  reason: string;
+  until: number;                  // Infinity while stale
+}
+
+const MAX_RECENT_ANOMALIES = 100;
+
+// ============================================================================
+// DATA QUALITY MONITOR
+// ============================================================================
+
+export class DataQualityMonitor {
+  private options: DataQualityOptions;
+  private baselines: Map<number, TokenBaseline> = new Map();
+  private suspects: Map<number, SuspectEntry> = new Map();
+  private lastReported: Map<string, number> = new Map();   // token:type -> ms
+  private recent: MarketDataAnomaly[] = [];
+  private counts: Record<MarketDataAnomalyType, number> = {
+    INVALID_PRICE: 0,
+    CROSSED_QUOTE: 0,
+    LOCKED_QUOTE: 0,
+    OUT_OF_ORDER: 0,
+    PRICE_JUMP: 0,
+    STALE: 0,
+  };
+  private ticksChecked = 0;
+  private staleInterval?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.inspect(event.payload);
+  };
+
+  private readonly subscriptionHandler: EventHandler<'SUBSCRIPTIONS_CHANGED'> = (event) => {
+    for (const token of event.payload.removedTokens) this.forget(token);
+  };
+
+  constructor(options: Partial<DataQualityOptions> = {}) {
+    this.options = {
+      jumpThresholdPct: options.jumpThresholdPct ?? DATA_QUALITY.JUMP_THRESHOLD_PCT,
+      spotJumpThresholdPct: options.spotJumpThresholdPct ?? DATA_QUALITY.SPOT_JUMP_THRESHOLD_PCT,
+      suspectCooldownMs: options.suspectCooldownMs ?? DATA_QUALITY.SUSPECT_COOLDOWN_MS,
+      throttleMs: options.throttleMs ?? DATA_QUALITY.THROTTLE_MS,
+      checkStaleness: options.checkStaleness ?? true,
+      staleThresholdMs: options.staleThresholdMs,
+      rejectSuspectOrders: options.rejectSuspectOrders ?? false,
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start watching TICK events
+   */
+  start(): void {
+    if (this.running) return;
+
+    eventBus.on('TICK', this.tickHandler);
+    eventBus.on('SUBSCRIPTIONS_CHANGED', this.subscriptionHandler);
+    if (this.options.checkStaleness) {
+      this.staleInterval = setInterval(() => this.checkStaleness(), DATA_QUALITY.STALE_CHECK_INTERVAL_MS);
+    }
+    if (this.options.rejectSuspectOrders) {
+      getFillEngine().setInstrumentGuard(token => this.getSuspectReason(token));
+    }
+    this.running = true;
+
+    marketDataLogger.info('Data quality monitor started', {
+      checkStaleness: this.options.checkStaleness,
+      rejectSuspectOrders: this.options.rejectSuspectOrders,
+    });
+  }
+
+  /**
+   * Stop watching and release the FillEngine guard
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    eventBus.off('TICK', this.tickHandler);
+    eventBus.off('SUBSCRIPTIONS_CHANGED', this.subscriptionHandler);
+    if (this.staleInterval) {
+      clearInterval(this.staleInterval);
+      this.staleInterval = undefined;
+    }
+    if (this.options.rejectSuspectOrders) {
+      getFillEngine().setInstrumentGuard(null);
+    }
+    this.running = false;
+
+    marketDataLogger.info('Data quality monitor stopped', { ticksChecked: this.ticksChecked });
+  }
+
+  // ==========================================================================
+  // TICK CHECKS
+  // ==========================================================================
+
+  /**
+   * Check one tick against its baseline; returns the anomalies found
+   */
+  inspect(tick: MarketTick): MarketDataAnomaly[] {
+    this.ticksChecked++;
+    const found: MarketDataAnomaly[] = [];
+    const baseline = this.baselines.get(tick.instrumentToken);
+    const ltp = tick.ltp.toNumber();
+    const tradeTime = tick.lastTradeTime.getTime();
+
+    // A fresh tick ends a stale episode, baseline or not
+    if (baseline) baseline.stale = false;
+    if (this.suspects.get(tick.instrumentToken)?.type === 'STALE') {
+      this.suspects.delete(tick.instrumentToken);
+    }
+
+    if (!(ltp > 0)) {
+      found.push(this.anomaly('INVALID_PRICE', tick, `LTP ${ltp} is not positive`, { ltp }));
+    }
+
+    // Index ticks carry LTP as bid/ask, so quote checks only apply to tradables
+    if (tick.instrumentType !== 'SPOT' && tick.instrumentType !== 'VIX') {
+      found.push(...this.checkQuote(tick));
+    }
+
+    if (baseline && tradeTime < baseline.lastTradeTime) {
+      found.push(this.anomaly('OUT_OF_ORDER', tick, 'lastTradeTime moved backwards', {
+        previous: new Date(baseline.lastTradeTime).toISOString(),
+        current: tick.lastTradeTime.toISOString(),
+      }));
+    }
+
+    const spot = tick.instrumentType === 'SPOT'
+      ? ltp
+      : getMarketState().getSpotPrice(tick.underlying).toNumber();
+
+    if (baseline && baseline.ltp > 0 && ltp > 0) {
+      const jump = this.checkJump(tick, baseline, ltp, spot);
+      if (jump) found.push(jump);
+    }
+
+    // Move the baseline forward with whatever is usable from this tick
+    this.baselines.set(tick.instrumentToken, {
+      ltp: ltp > 0 ? ltp : baseline?.ltp ?? 0,
+      lastTradeTime: Math.max(tradeTime, baseline?.lastTradeTime ?? 0),
+      spot: spot > 0 ? spot : baseline?.spot ?? 0,
+      stale: false,
+    });
+
+    for (const anomaly of found) {
+      this.report(anomaly);
+    }
+    return found;
+  }
+
+  /**
+   * Crossed (bid > ask) and locked (bid == ask) quotes
+   */
+  private checkQuote(tick: MarketTick): MarketDataAnomaly[] {
+    const bid: Decimal = tick.bid;
+    const ask: Decimal = tick.ask;
+    if (!bid.greaterThan(0) || !ask.greaterThan(0)) return [];
+
+    // Without depth the normalizer fills bid/ask with LTP; nothing to judge
+    if (!tick.depth) return [];
+
+    const details = { bid: bid.toNumber(), ask: ask.toNumber() };
+    if (bid.greaterThan(ask)) {
+      return [this.anomaly('CROSSED_QUOTE', tick, `Bid ${bid} above ask ${ask}`, details)];
+    }
+    if (bid.equals(ask)) {
+      return [this.anomaly('LOCKED_QUOTE', tick, `Bid equals ask at ${bid}`, details)];
+    }
+    return [];
+  }
+
+  /**
+   * Price move beyond what the underlying's move since the last tick explains
+   */
+  private checkJump(
+    tick: MarketTick,
+    baseline: TokenBaseline,
+    ltp: number,
+    spot: number
+  ): MarketDataAnomaly | null {
+    const move = Math.abs(ltp - baseline.ltp);
+
+    if (tick.instrumentType === 'SPOT' || tick.instrumentType === 'VIX') {
+      const pct = move / baseline.ltp;
+      if (pct <= this.options.spotJumpThresholdPct) return null;
+      return this.anomaly('PRICE_JUMP', tick, `Index moved ${(pct * 100).toFixed(2)}% in one tick`, {
+        previous: baseline.ltp,
+        current: ltp,
+      });
+    }
+
+    // Options move at most delta x spot move (delta 1 when unknown)
+    const spotMove = spot > 0 && baseline.spot > 0 ? Math.abs(spot - baseline.spot) : 0;
+    const delta = getMarketState().getGreeks(tick.instrumentToken)?.delta;
+    const explained = (delta ? Math.abs(delta.toNumber()) : 1) * spotMove;
+    const unexplained = move - explained;
+
+    const limit = Math.max(DATA_QUALITY.JUMP_MIN_POINTS, this.options.jumpThresholdPct * baseline.ltp);
+    if (unexplained <= limit) return null;
+
+    return this.anomaly('PRICE_JUMP', tick, `Moved ${move.toFixed(2)} with spot move of ${spotMove.toFixed(2)}`, {
+      previous: baseline.ltp,
+      current: ltp,
+      spotMove,
+      unexplained,
+    });
+  }
+
+  // ==========================================================================
+  // STALENESS
+  // ==========================================================================
+
+  /**
+   * Flag instruments that have stopped updating (once per stale episode)
+   */
+  checkStaleness(): MarketDataAnomaly[] {
+    const marketState = getMarketState();
+    const found: MarketDataAnomaly[] = [];
+
+    for (const [token, baseline] of this.baselines) {
+      if (baseline.stale) continue;
+
+      const state = marketState.getByToken(token);
+      if (!state) continue;
+
+      const stale = this.options.staleThresholdMs === undefined
+        ? marketState.isStale(token)
+        : marketState.isStale(token, this.options.staleThresholdMs);
+      if (!stale) continue;
+
+      baseline.stale = true;
+      const anomaly: MarketDataAnomaly = {
+        type: 'STALE',
+        instrumentToken: token,
+        tradingSymbol: state.tradingSymbol,
+        underlying: state.underlying,
+        message: `No update since ${state.lastUpdate.toISOString()}`,
+        details: { lastUpdate: state.lastUpdate.toISOString() },
+        timestamp: clockNow(),
+      };
+      found.push(anomaly);
+      this.report(anomaly);
+    }
+
+    return found;
+  }
+
+  // ==========================================================================
+  // REPORTING
+  // ==========================================================================
+
+  private anomaly(
+    type: MarketDataAnomalyType,
+    tick: MarketTick,
+    message: string,
+    details?: Record<string, unknown>
+  ): MarketDataAnomaly {
+    return {
+      type,
+      instrumentToken: tick.instrumentToken,
+      tradingSymbol: tick.tradingSymbol,
+      underlying: tick.underlying,
+      message,
+      details,
+      timestamp: clockNow(),
+    };
+  }
+
+  /**
+   * Mark the instrument suspect and publish (throttled per token and type)
+   */
+  private report(anomaly: MarketDataAnomaly): void {
+    const now = clockNowMs();
+    this.counts[anomaly.type]++;
+
+    this.suspects.set(anomaly.instrumentToken, {
+      type: anomaly.type,
+      reason: `${anomaly.type}: ${anomaly.message}`,
+      until: anomaly.type === 'STALE' ? Infinity : now + this.options.suspectCooldownMs,
+    });
+
+    const key = `${anomaly.instrumentToken}:${anomaly.type}`;
+    const last = this.lastReported.get(key) ?? 0;
+    if (now - last < this.options.throttleMs) return;
+    this.lastReported.set(key, now);
+
+    this.recent.push(anomaly);
+    if (this.recent.length > MAX_RECENT_ANOMALIES) {
+      this.recent.shift();
+    }
+
+    marketDataLogger.warn('Market data anomaly', {
+      type: anomaly.type,
+      symbol: anomaly.tradingSymbol,
+      message: anomaly.message,
+    });
+    eventBus.emit('MARKET_DATA_ANOMALY', anomaly);
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Why an instrument is suspect, or null if its data is trusted
+   */
+  getSuspectReason(token: number): string | null {
+    const entry = this.suspects.get(token);
+    if (!entry) return null;
+
+    if (clockNowMs() > entry.until) {
+      this.suspects.delete(token);
+      return null;
+    }
+    return entry.reason;
+  }
+
+  /**
+   * Check if an instrument is currently suspect
+   */
+  isSuspect(token: number): boolean {
+    return this.getSuspectReason(token) !== null;
+  }
+
+  /**
+   * Trust an instrument again (manual override)
+   */
+  clearSuspect(token: number): void {
+    this.suspects.delete(token);
+  }
+
+  /**
+   * Drop everything held for an unsubscribed instrument, so it neither
+   * goes stale nor starts from an old baseline if it comes back
+   */
+  forget(token: number): void {
+    this.baselines.delete(token);
+    this.suspects.delete(token);
+    for (const key of this.lastReported.keys()) {
+      if (key.startsWith(`${token}:`)) this.lastReported.delete(key);
+    }
+  }
+
+  /**
+   * Most recent reported anomalies, newest last
+   */
+  getRecentAnomalies(limit = 20): MarketDataAnomaly[] {
+    return this.recent.slice(-limit);
+  }
+
+  /**
+   * Get monitor statistics
+   */
+  getStats(): DataQualityStats {
+    let suspectInstruments = 0;
+    for (const token of Array.from(this.suspects.keys())) {
+      if (this.isSuspect(token)) suspectInstruments++;
+    }
+
+    let staleInstruments = 0;
+    for (const baseline of this.baselines.values()) {
+      if (baseline.stale) staleInstruments++;
+    }
+
+    return {
+      ticksChecked: this.ticksChecked,
+      anomalies: { ...this.counts },
+      suspectInstruments,
+      staleInstruments,
+      running: this.running,
+    };
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let dataQualityMonitor: DataQualityMonitor | null = null;
+
+/**
+ * Get DataQualityMonitor singleton
+ */
+export function getDataQualityMonitor(options?: Partial<DataQualityOptions>): DataQualityMonitor {
+  if (!dataQualityMonitor) {
+    dataQualityMonitor = new DataQualityMonitor(options);
+  }
+  return dataQualityMonitor;
+}
+
+/**
+ * Reset DataQualityMonitor (for testing)
+ */
+export function resetDataQualityMonitor(): void {
+  dataQualityMonitor?.stop();
+  dataQualityMonitor = null;
+}
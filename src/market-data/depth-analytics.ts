@@ -0,0 +1,447 @@
+/**
+ * Depth Analytics for NSE Options Paper Trading
+ *
+ * Keeps a rolling history of the five-level order book per token from TICK
+ * events (MarketState only holds the latest snapshot):
+ * - order-book imbalance over the visible levels
+ * - weighted mid and microprice
+ * - spread percentiles by time of day (15-minute buckets from 09:15)
+ * - a 0-100 liquidity score from spread, visible depth and how often the
+ *   book is two-sided
+ *
+ * The fill engine reads imbalance and liquidity into slippage, and the
+ * strangle automator skips strikes scoring below DEPTH_ANALYTICS.MIN_LIQUIDITY_SCORE.
+ * Snapshots are taken on tick time, so replayed and simulated sessions
+ * produce the same analytics as live ones.
+ */
+
+import { eventBus } from '../core/events.js';
+import { DEPTH_ANALYTICS, getLotSize } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { getSessionOpen } from './candle-aggregator.js';
+import type { EventHandler } from '../core/events.js';
+import type { DepthLevel, InstrumentType, MarketTick, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DepthAnalyticsOptions {
+  sampleIntervalMs: number;
+  historySize: number;
+  levels: number;
+  bucketMinutes: number;
+  liquidityWindow: number;
+}
+
+/**
+ * Order book at one moment. Price fields are null when the book is one-sided.
+ */
+export interface DepthSnapshot {
+  timestamp: Date;
+  bid: number | null;
+  ask: number | null;
+  mid: number | null;
+  spread: number | null;
+  spreadPct: number | null;        // spread / mid
+  microprice: number | null;       // Top of book, leaning towards the thinner side
+  weightedMid: number | null;      // Same over all levels, using each side's VWAP and depth
+  imbalance: number;               // (bid qty - ask qty) / total over the levels, -1..1
+  bidDepth: number;                // Quantity over the levels
+  askDepth: number;
+}
+
+export interface SpreadBucket {
+  start: string;                   // HH:mm IST
+  samples: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+export interface LiquidityScore {
+  score: number;                   // 0 (untradeable) - 100
+  medianSpreadPct: number | null;
+  avgDepthLots: number;            // Thinner side, in lots
+  twoSidedPct: number;             // Share of snapshots with both bid and ask
+  samples: number;
+}
+
+export interface StrikeLiquidity {
+  strike: number;
+  call?: LiquidityScore;
+  put?: LiquidityScore;
+}
+
+interface TrackedBook {
+  underlying: Underlying;
+  instrumentType: InstrumentType;
+  strike?: number;
+  expiry?: Date;
+  lastSampleTime: number;
+  history: DepthSnapshot[];              // Oldest first
+  spreadBuckets: Map<number, number[]>;  // Bucket index from the open -> spreadPct samples
+}
+
+// ============================================================================
+// DEPTH ANALYTICS
+// ============================================================================
+
+export class DepthAnalytics {
+  private options: DepthAnalyticsOptions;
+  private books: Map<number, TrackedBook> = new Map();
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.onTick(event.payload);
+  };
+
+  constructor(options: Partial<DepthAnalyticsOptions> = {}) {
+    this.options = {
+      sampleIntervalMs: options.sampleIntervalMs ?? DEPTH_ANALYTICS.SAMPLE_INTERVAL_MS,
+      historySize: options.historySize ?? DEPTH_ANALYTICS.HISTORY_SIZE,
+      levels: options.levels ?? DEPTH_ANALYTICS.LEVELS,
+      bucketMinutes: options.bucketMinutes ?? DEPTH_ANALYTICS.BUCKET_MINUTES,
+      liquidityWindow: options.liquidityWindow ?? DEPTH_ANALYTICS.LIQUIDITY_WINDOW,
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start tracking from TICK events
+   */
+  start(): void {
+    if (this.running) return;
+    eventBus.on('TICK', this.tickHandler);
+    this.running = true;
+    marketDataLogger.info('Depth analytics started', {
+      sampleIntervalMs: this.options.sampleIntervalMs,
+      levels: this.options.levels,
+    });
+  }
+
+  /**
+   * Stop tracking
+   */
+  stop(): void {
+    if (!this.running) return;
+    eventBus.off('TICK', this.tickHandler);
+    this.running = false;
+    marketDataLogger.info('Depth analytics stopped');
+  }
+
+  // ==========================================================================
+  // UPDATES
+  // ==========================================================================
+
+  /**
+   * Snapshot the book of a tradable instrument once per interval of tick time
+   */
+  onTick(tick: MarketTick): void {
+    if (!tick.depth || tick.instrumentType === 'SPOT' || tick.instrumentType === 'VIX') return;
+
+    let book = this.books.get(tick.instrumentToken);
+    if (!book) {
+      book = {
+        underlying: tick.underlying,
+        instrumentType: tick.instrumentType,
+        strike: tick.strike,
+        expiry: tick.expiry,
+        lastSampleTime: 0,
+        history: [],
+        spreadBuckets: new Map(),
+      };
+      this.books.set(tick.instrumentToken, book);
+    }
+
+    const now = tick.timestamp.getTime();
+    if (now - book.lastSampleTime < this.options.sampleIntervalMs) return;
+    book.lastSampleTime = now;
+
+    const snapshot = computeSnapshot(tick.depth.buy, tick.depth.sell, this.options.levels, tick.timestamp);
+    book.history.push(snapshot);
+    if (book.history.length > this.options.historySize) {
+      book.history.shift();
+    }
+
+    if (snapshot.spreadPct !== null) {
+      const bucket = this.bucketIndex(tick.timestamp);
+      if (bucket >= 0) {
+        let samples = book.spreadBuckets.get(bucket);
+        if (!samples) {
+          samples = [];
+          book.spreadBuckets.set(bucket, samples);
+        }
+        samples.push(snapshot.spreadPct);
+        if (samples.length > DEPTH_ANALYTICS.BUCKET_MAX_SAMPLES) {
+          samples.shift();
+        }
+      }
+    }
+  }
+
+  /**
+   * Time-of-day bucket from the 09:15 open (-1 before the open)
+   */
+  private bucketIndex(time: Date): number {
+    const sinceOpen = time.getTime() - getSessionOpen(time).getTime();
+    if (sinceOpen < 0) return -1;
+    return Math.floor(sinceOpen / (this.options.bucketMinutes * 60 * 1000));
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Latest book snapshot for a token
+   */
+  getLatest(token: number): DepthSnapshot | undefined {
+    const history = this.books.get(token)?.history;
+    return history?.[history.length - 1];
+  }
+
+  /**
+   * Snapshots at or after `since`, oldest first
+   */
+  getHistory(token: number, since: Date = new Date(0)): DepthSnapshot[] {
+    return (this.books.get(token)?.history ?? []).filter(s => s.timestamp >= since);
+  }
+
+  /**
+   * Average imbalance over the last `windowMs` of tick time
+   * (positive = more resting bids than offers)
+   */
+  getImbalance(token: number, windowMs: number = DEPTH_ANALYTICS.IMBALANCE_WINDOW_MS): number | undefined {
+    const latest = this.getLatest(token);
+    if (!latest) return undefined;
+
+    const since = new Date(latest.timestamp.getTime() - windowMs);
+    const recent = this.getHistory(token, since);
+    return recent.reduce((sum, s) => sum + s.imbalance, 0) / recent.length;
+  }
+
+  /**
+   * Spread percentiles per time-of-day bucket, in session order
+   */
+  getSpreadProfile(token: number): SpreadBucket[] {
+    const book = this.books.get(token);
+    if (!book) return [];
+
+    return Array.from(book.spreadBuckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([bucket, samples]) => {
+        const sorted = [...samples].sort((a, b) => a - b);
+        return {
+          start: this.bucketLabel(bucket),
+          samples: sorted.length,
+          p25: quantile(sorted, 0.25),
+          median: quantile(sorted, 0.50),
+          p75: quantile(sorted, 0.75),
+          p90: quantile(sorted, 0.90),
+        };
+      });
+  }
+
+  /**
+   * Where a spread (latest by default) sits among spreads seen at the same
+   * time of day, 0-100
+   */
+  getSpreadPercentile(token: number, spreadPct?: number, at?: Date): number | undefined {
+    const book = this.books.get(token);
+    const latest = this.getLatest(token);
+    const value = spreadPct ?? latest?.spreadPct ?? undefined;
+    const time = at ?? latest?.timestamp;
+    if (!book || value === undefined || !time) return undefined;
+
+    const samples = book.spreadBuckets.get(this.bucketIndex(time));
+    if (!samples || samples.length === 0) return undefined;
+    return (samples.filter(s => s <= value).length / samples.length) * 100;
+  }
+
+  /**
+   * Liquidity score over the latest snapshots (undefined until MIN_SAMPLES)
+   */
+  getLiquidity(token: number): LiquidityScore | undefined {
+    const book = this.books.get(token);
+    if (!book) return undefined;
+
+    const window = book.history.slice(-this.options.liquidityWindow);
+    if (window.length < DEPTH_ANALYTICS.MIN_SAMPLES) return undefined;
+
+    const spreads = window
+      .map(s => s.spreadPct)
+      .filter((s): s is number => s !== null)
+      .sort((a, b) => a - b);
+    const twoSidedPct = spreads.length / window.length;
+    const medianSpreadPct = spreads.length > 0 ? quantile(spreads, 0.5) : null;
+
+    const lotSize = getLotSize(book.underlying);
+    const avgDepthLots = window.reduce((sum, s) => sum + Math.min(s.bidDepth, s.askDepth), 0) / window.length / lotSize;
+
+    const spreadScore = medianSpreadPct === null ? 0 : Math.max(0, 1 - medianSpreadPct / DEPTH_ANALYTICS.MAX_SPREAD_PCT);
+    const depthScore = Math.min(1, avgDepthLots / DEPTH_ANALYTICS.DEPTH_TARGET_LOTS);
+    const score = 100 * (
+      DEPTH_ANALYTICS.WEIGHT_SPREAD * spreadScore +
+      DEPTH_ANALYTICS.WEIGHT_DEPTH * depthScore +
+      DEPTH_ANALYTICS.WEIGHT_TWO_SIDED * twoSidedPct
+    );
+
+    return { score, medianSpreadPct, avgDepthLots, twoSidedPct, samples: window.length };
+  }
+
+  /**
+   * Option expiries with tracked books for an underlying, nearest first
+   */
+  getExpiries(underlying: Underlying): Date[] {
+    const byTime: Map<number, Date> = new Map();
+    for (const book of this.books.values()) {
+      if (book.underlying === underlying && book.expiry) {
+        byTime.set(book.expiry.getTime(), book.expiry);
+      }
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  /**
+   * Liquidity of every tracked strike of an expiry, ascending strike
+   */
+  getStrikeLiquidity(underlying: Underlying, expiry: Date): StrikeLiquidity[] {
+    const expStr = expiry.toISOString().split('T')[0];
+    const byStrike: Map<number, StrikeLiquidity> = new Map();
+
+    for (const [token, book] of this.books) {
+      if (book.underlying !== underlying || !book.strike || !book.expiry) continue;
+      if (book.expiry.toISOString().split('T')[0] !== expStr) continue;
+
+      const liquidity = this.getLiquidity(token);
+      if (!liquidity) continue;
+
+      let row = byStrike.get(book.strike);
+      if (!row) {
+        row = { strike: book.strike };
+        byStrike.set(book.strike, row);
+      }
+      if (book.instrumentType === 'CE') row.call = liquidity;
+      if (book.instrumentType === 'PE') row.put = liquidity;
+    }
+
+    return Array.from(byStrike.values()).sort((a, b) => a.strike - b.strike);
+  }
+
+  /**
+   * Get analytics statistics
+   */
+  getStats(): { tokens: number; snapshots: number; running: boolean } {
+    let snapshots = 0;
+    for (const book of this.books.values()) snapshots += book.history.length;
+    return { tokens: this.books.size, snapshots, running: this.running };
+  }
+
+  private bucketLabel(bucket: number): string {
+    const minutes = 9 * 60 + 15 + bucket * this.options.bucketMinutes;
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Imbalance, microprice and weighted mid from the visible levels of a book
+ */
+export function computeSnapshot(
+  buy: DepthLevel[],
+  sell: DepthLevel[],
+  levels: number,
+  timestamp: Date
+): DepthSnapshot {
+  const bids = buy.filter(l => l.price.greaterThan(0) && l.quantity > 0).slice(0, levels);
+  const asks = sell.filter(l => l.price.greaterThan(0) && l.quantity > 0).slice(0, levels);
+
+  const bidDepth = bids.reduce((sum, l) => sum + l.quantity, 0);
+  const askDepth = asks.reduce((sum, l) => sum + l.quantity, 0);
+  const imbalance = bidDepth + askDepth > 0 ? (bidDepth - askDepth) / (bidDepth + askDepth) : 0;
+
+  const bestBid = bids[0];
+  const bestAsk = asks[0];
+  const twoSided = bestBid && bestAsk && bestAsk.price.greaterThanOrEqualTo(bestBid.price);
+  if (!twoSided) {
+    return {
+      timestamp,
+      bid: bestBid?.price.toNumber() ?? null,
+      ask: bestAsk?.price.toNumber() ?? null,
+      mid: null,
+      spread: null,
+      spreadPct: null,
+      microprice: null,
+      weightedMid: null,
+      imbalance,
+      bidDepth,
+      askDepth,
+    };
+  }
+
+  const bid = bestBid.price.toNumber();
+  const ask = bestAsk.price.toNumber();
+  const mid = (bid + ask) / 2;
+  const vwap = (side: DepthLevel[], depth: number) =>
+    side.reduce((sum, l) => sum + l.price.toNumber() * l.quantity, 0) / depth;
+
+  // Each price is weighted by the opposite side's size: a thin offer pulls fair value up
+  const microprice = (bid * bestAsk.quantity + ask * bestBid.quantity) / (bestBid.quantity + bestAsk.quantity);
+  const weightedMid = (vwap(bids, bidDepth) * askDepth + vwap(asks, askDepth) * bidDepth) / (bidDepth + askDepth);
+
+  return {
+    timestamp,
+    bid,
+    ask,
+    mid,
+    spread: ask - bid,
+    spreadPct: mid > 0 ? (ask - bid) / mid : null,
+    microprice,
+    weightedMid,
+    imbalance,
+    bidDepth,
+    askDepth,
+  };
+}
+
+/**
+ * Linear-interpolated quantile of sorted values
+ */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (pos - lower);
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let depthAnalytics: DepthAnalytics | null = null;
+
+/**
+ * Get DepthAnalytics singleton
+ */
+export function getDepthAnalytics(options?: Partial<DepthAnalyticsOptions>): DepthAnalytics {
+  if (!depthAnalytics) {
+    depthAnalytics = new DepthAnalytics(options);
+  }
+  return depthAnalytics;
+}
+
+/**
+ * Reset DepthAnalytics (for testing)
+ */
+export function resetDepthAnalytics(): void {
+  depthAnalytics?.stop();
+  depthAnalytics = null;
+}
@@ -4,5 +4,81 @@
 
 export { KiteWebSocketManager, getKiteWebSocket, resetKiteWebSocket } from './kite-websocket.js';
 export { MarketStateManager, getMarketState, resetMarketState } from './market-state.js';
+export type { GreeksRefreshOptions, GreeksRefreshStats } from './market-state.js';
 export { SpotTracker, getSpotTracker, resetSpotTracker } from './spot-tracker.js';
+export type { RealizedVolSnapshot, RealizedVsImplied } from './spot-tracker.js';
 export { InstrumentManager, getInstrumentManager, resetInstrumentManager } from './instrument-manager.js';
+export { SubscriptionManager, getSubscriptionManager, resetSubscriptionManager } from './subscription-manager.js';
+export type { SubscriptionManagerOptions, SubscriptionStats } from './subscription-manager.js';
+export { DataQualityMonitor, getDataQualityMonitor, resetDataQualityMonitor } from './data-quality.js';
+export type { DataQualityOptions, DataQualityStats } from './data-quality.js';
+export { QuoteFallback, getQuoteFallback, resetQuoteFallback } from './quote-fallback.js';
+export type { QuoteSource, KiteQuote, QuoteFallbackOptions, QuoteFallbackStats } from './quote-fallback.js';
+export {
+  CandleAggregator,
+  getCandleAggregator,
+  resetCandleAggregator,
+  getCandleBounds,
+  getSessionOpen,
+} from './candle-aggregator.js';
+export type { CandleAggregatorOptions } from './candle-aggregator.js';
+export { CandleStore } from './candle-store.js';
+export { BasisTracker, getBasisTracker, resetBasisTracker } from './basis-tracker.js';
+export type { BasisSnapshot } from './basis-tracker.js';
+export {
+  OIAnalytics,
+  getOIAnalytics,
+  resetOIAnalytics,
+  classifyBuildup,
+  computeMaxPain,
+} from './oi-analytics.js';
+export type {
+  OIAnalyticsOptions,
+  OIBuildup,
+  OILegChange,
+  StrikeOI,
+  OIWall,
+  PCRBand,
+  PCRPoint,
+  OISnapshot,
+} from './oi-analytics.js';
+export { DepthAnalytics, getDepthAnalytics, resetDepthAnalytics, computeSnapshot } from './depth-analytics.js';
+export type {
+  DepthAnalyticsOptions,
+  DepthSnapshot,
+  SpreadBucket,
+  LiquidityScore,
+  StrikeLiquidity,
+} from './depth-analytics.js';
+export { VolSurfaceTracker, getVolSurfaceTracker, resetVolSurfaceTracker } from './vol-surface-tracker.js';
+export type { VolSurfaceTrackerOptions } from './vol-surface-tracker.js';
+export { scanMispricing } from './mispricing-scanner.js';
+export type { MispricingOptions, MispricingLeg, MispricingFinding, MispricingScan } from './mispricing-scanner.js';
+export {
+  TickRecorder,
+  getTickRecorder,
+  resetTickRecorder,
+  readTickFile,
+  readTicks,
+  listTickFiles,
+  serializeTick,
+  deserializeTick,
+} from './tick-recorder.js';
+export { publishTick, parseSourceSpec } from './market-data-source.js';
+export type { MarketDataSource, MarketDataSourceKind, MarketDataSourceSpec, TickerMode } from './market-data-source.js';
+export { ReplayMarketDataSource } from './replay-source.js';
+export type { ReplaySpeed, ReplayState, ReplayOptions, ReplayStatus } from './replay-source.js';
+export { MarketSimulator } from './market-simulator.js';
+export type { SimulatorOptions, SpotProcessParams, SmileParams, RegimeParams } from './market-simulator.js';
+export {
+  getTradingDate,
+  saveInstrumentSnapshot,
+  loadInstrumentSnapshot,
+  listSnapshotDates,
+  findLatestSnapshot,
+  loadInstrumentFixture,
+  diffInstrumentMasters,
+  formatInstrumentDiff,
+} from './instrument-cache.js';
+export type { InstrumentSnapshot, InstrumentDiff, UnderlyingDiff } from './instrument-cache.js';
+export type { InstrumentMasterSource } from './instrument-manager.js';
@@ -0,0 +1,334 @@
+/**
+ * Instrument Master Cache for NSE Options Paper Trading
+ *
+ * Persists the instrument master once per trading date so the system can
+ * start when Kite is unreachable, loads fixture files for tests, and diffs
+ * consecutive snapshots to report strikes and expiries added or removed.
+ *
+ * File layout: <dir>/<YYYY-MM-DD>.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { INSTRUMENT_CACHE } from '../core/constants.js';
+import { MarketDataError, PersistenceError } from '../core/errors.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { formatIST } from '../utils/date.js';
+import type { Instrument, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * On-disk snapshot of the instrument master for one trading date
+ */
+export interface InstrumentSnapshot {
+  date: string;                  // Trading date (IST), YYYY-MM-DD
+  fetchedAt: string;
+  instruments: Instrument[];
+}
+
+export interface ExpiryStrikeChange {
+  expiry: string;
+  strikes: number[];
+}
+
+/**
+ * Changes for one underlying between two snapshots
+ */
+export interface UnderlyingDiff {
+  addedExpiries: string[];
+  removedExpiries: string[];
+  addedStrikes: ExpiryStrikeChange[];    // New strikes on expiries present in both
+  removedStrikes: ExpiryStrikeChange[];
+}
+
+export interface InstrumentDiff {
+  fromDate: string;
+  toDate: string;
+  underlyings: Partial<Record<Underlying, UnderlyingDiff>>;
+}
+
+/**
+ * Row as returned by kite.getInstruments() (and in Kite's instrument dump)
+ */
+interface KiteInstrumentRow {
+  instrument_token: number | string;
+  exchange_token: number | string;
+  tradingsymbol: string;
+  name: string;
+  expiry: string | Date;
+  strike: number | string;
+  tick_size: number | string;
+  lot_size: number | string;
+  instrument_type: string;
+  segment: string;
+  exchange: string;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Trading date (IST) used to key snapshots
+ */
+export function getTradingDate(date: Date = new Date()): string {
+  return formatIST(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Convert a Kite instrument row to our Instrument shape (null if unusable)
+ */
+export function normalizeKiteInstrument(raw: KiteInstrumentRow): Instrument | null {
+  const expiry = new Date(raw.expiry as string);
+  if (isNaN(expiry.getTime())) return null;
+
+  return {
+    instrumentToken: Number(raw.instrument_token),
+    exchangeToken: Number(raw.exchange_token),
+    tradingSymbol: raw.tradingsymbol,
+    name: raw.name,
+    strike: Number(raw.strike),
+    tickSize: Number(raw.tick_size),
+    lotSize: Number(raw.lot_size),
+    instrumentType: raw.instrument_type,
+    segment: raw.segment,
+    exchange: raw.exchange,
+    expiry,
+  };
+}
+
+function reviveInstrument(raw: Instrument & { expiry?: string | Date }): Instrument {
+  return {
+    ...raw,
+    expiry: raw.expiry ? new Date(raw.expiry) : undefined,
+  };
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/**
+ * Write the master for a trading date (overwrites that date's snapshot)
+ */
+export function saveInstrumentSnapshot(
+  date: string,
+  instruments: Instrument[],
+  dir: string = INSTRUMENT_CACHE.DIR
+): string {
+  const file = path.join(dir, `${date}.json`);
+  const snapshot: InstrumentSnapshot = {
+    date,
+    fetchedAt: new Date().toISOString(),
+    instruments,
+  };
+
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    // Write then rename so a crash never leaves a half-written snapshot
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(snapshot));
+    fs.renameSync(tmp, file);
+  } catch (error) {
+    throw new PersistenceError(`Failed to save instrument snapshot ${file}: ${(error as Error).message}`, { file });
+  }
+
+  pruneSnapshots(dir);
+  return file;
+}
+
+/**
+ * Load the snapshot for a trading date
+ */
+export function loadInstrumentSnapshot(
+  date: string,
+  dir: string = INSTRUMENT_CACHE.DIR
+): InstrumentSnapshot | null {
+  const file = path.join(dir, `${date}.json`);
+  if (!fs.existsSync(file)) return null;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as InstrumentSnapshot;
+    return { ...data, instruments: data.instruments.map(reviveInstrument) };
+  } catch (error) {
+    marketDataLogger.warn('Unreadable instrument snapshot', { file, error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Trading dates with a snapshot on disk, oldest first
+ */
+export function listSnapshotDates(dir: string = INSTRUMENT_CACHE.DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(f => /^\d{4}-\d{2}-\d{2}\.json$/.test(f))
+    .map(f => f.slice(0, 10))
+    .sort();
+}
+
+/**
+ * Most recent readable snapshot on or before a trading date
+ */
+export function findLatestSnapshot(
+  onOrBefore: string,
+  dir: string = INSTRUMENT_CACHE.DIR
+): InstrumentSnapshot | null {
+  const dates = listSnapshotDates(dir).filter(d => d <= onOrBefore).reverse();
+  for (const date of dates) {
+    const snapshot = loadInstrumentSnapshot(date, dir);
+    if (snapshot) return snapshot;
+  }
+  return null;
+}
+
+/**
+ * Keep only the most recent snapshots
+ */
+function pruneSnapshots(dir: string): void {
+  const dates = listSnapshotDates(dir);
+  const excess = dates.length - INSTRUMENT_CACHE.MAX_SNAPSHOTS;
+  for (const date of dates.slice(0, Math.max(0, excess))) {
+    fs.rmSync(path.join(dir, `${date}.json`), { force: true });
+  }
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/**
+ * Load instruments from a fixture file: either a snapshot written by this
+ * module or a JSON array of Kite rows (as returned by getInstruments).
+ */
+export function loadInstrumentFixture(file: string): Instrument[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new MarketDataError(`Cannot read instrument fixture ${file}: ${(error as Error).message}`, { file });
+  }
+
+  const rows = Array.isArray(data) ? data : (data as InstrumentSnapshot)?.instruments;
+  if (!Array.isArray(rows)) {
+    throw new MarketDataError(`Instrument fixture ${file} has no instruments`, { file });
+  }
+
+  const instruments: Instrument[] = [];
+  for (const row of rows) {
+    if ('instrument_token' in row) {
+      const inst = normalizeKiteInstrument(row as KiteInstrumentRow);
+      if (inst) instruments.push(inst);
+    } else {
+      instruments.push(reviveInstrument(row as Instrument));
+    }
+  }
+  return instruments;
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * underlying -> expiry (YYYY-MM-DD) -> strikes, options only
+ */
+function indexStrikes(instruments: Instrument[]): Map<string, Map<string, Set<number>>> {
+  const index: Map<string, Map<string, Set<number>>> = new Map();
+
+  for (const inst of instruments) {
+    if (inst.instrumentType !== 'CE' && inst.instrumentType !== 'PE') continue;
+    if (!inst.expiry) continue;
+
+    const und = inst.underlying ?? inst.name;
+    const expiry = inst.expiry.toISOString().split('T')[0]!;
+
+    if (!index.has(und)) index.set(und, new Map());
+    const byExpiry = index.get(und)!;
+    if (!byExpiry.has(expiry)) byExpiry.set(expiry, new Set());
+    byExpiry.get(expiry)!.add(inst.strike ?? 0);
+  }
+
+  return index;
+}
+
+/**
+ * Compare two instrument masters: expiries and strikes added or removed
+ */
+export function diffInstrumentMasters(
+  previous: InstrumentSnapshot,
+  current: InstrumentSnapshot
+): InstrumentDiff {
+  const before = indexStrikes(previous.instruments);
+  const after = indexStrikes(current.instruments);
+  const diff: InstrumentDiff = { fromDate: previous.date, toDate: current.date, underlyings: {} };
+
+  const underlyings = new Set([...before.keys(), ...after.keys()]);
+  for (const und of underlyings) {
+    const prevExpiries = before.get(und) ?? new Map<string, Set<number>>();
+    const currExpiries = after.get(und) ?? new Map<string, Set<number>>();
+
+    const result: UnderlyingDiff = {
+      addedExpiries: [...currExpiries.keys()].filter(e => !prevExpiries.has(e)).sort(),
+      removedExpiries: [...prevExpiries.keys()].filter(e => !currExpiries.has(e)).sort(),
+      addedStrikes: [],
+      removedStrikes: [],
+    };
+
+    for (const [expiry, strikes] of currExpiries) {
+      const prevStrikes = prevExpiries.get(expiry);
+      if (!prevStrikes) continue;
+
+      const added = [...strikes].filter(s => !prevStrikes.has(s)).sort((a, b) => a - b);
+      const removed = [...prevStrikes].filter(s => !strikes.has(s)).sort((a, b) => a - b);
+      if (added.length > 0) result.addedStrikes.push({ expiry, strikes: added });
+      if (removed.length > 0) result.removedStrikes.push({ expiry, strikes: removed });
+    }
+
+    const changed = result.addedExpiries.length + result.removedExpiries.length +
+      result.addedStrikes.length + result.removedStrikes.length;
+    if (changed > 0) {
+      diff.underlyings[und as Underlying] = result;
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Check whether a diff has any changes
+ */
+export function isEmptyDiff(diff: InstrumentDiff): boolean {
+  return Object.keys(diff.underlyings).length === 0;
+}
+
+/**
+ * Human-readable diff report
+ */
+export function formatInstrumentDiff(diff: InstrumentDiff): string {
+  const lines = [`Instrument master changes ${diff.fromDate} → ${diff.toDate}`];
+
+  if (isEmptyDiff(diff)) {
+    lines.push('  No changes');
+    return lines.join('\n');
+  }
+
+  const summarize = (strikes: number[]): string =>
+    strikes.length > 6
+      ? `${strikes.length} strikes (${strikes[0]}…${strikes[strikes.length - 1]})`
+      : strikes.join(', ');
+
+  for (const [und, changes] of Object.entries(diff.underlyings)) {
+    lines.push(`  ${und}:`);
+    if (changes.addedExpiries.length > 0) lines.push(`    + expiries: ${changes.addedExpiries.join(', ')}`);
+    if (changes.removedExpiries.length > 0) lines.push(`    - expiries: ${changes.removedExpiries.join(', ')}`);
+    for (const change of changes.addedStrikes) lines.push(`    + ${change.expiry}: ${summarize(change.strikes)}`);
+    for (const change of changes.removedStrikes) lines.push(`    - ${change.expiry}: ${summarize(change.strikes)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,8 +1,21 @@
 import { Instrument, OptionChain, Underlying } from '../core/types.js';
 import { logger } from '../utils/logger.js';
-import path from 'path';
-
-const CACHE_FILE = path.join(process.cwd(), 'data', 'instruments.json');
+import { INSTRUMENT_CACHE, DERIVATIVES_EXCHANGES, UNDERLYINGS, getLotSize, isUnderlying } from '../core/constants.js';
+import {
+  getTradingDate,
+  normalizeKiteInstrument,
+  saveInstrumentSnapshot,
+  loadInstrumentSnapshot,
+  findLatestSnapshot,
+  loadInstrumentFixture,
+  diffInstrumentMasters,
+  isEmptyDiff,
+  formatInstrumentDiff,
+  InstrumentDiff,
+} from './instrument-cache.js';
+
+// Where the current master came from
+export type InstrumentMasterSource = 'live' | 'cache' | 'fixture' | 'none';
 
 // Internal type for option chain with market data
 interface InstrumentWithPrice extends Instrument {
@@ -28,56 +41,159 @@ export class InstrumentManager {
   // We keep the chain cache for the strategy
   private chains: Map<string, Map<string, ChainData>> = new Map();
 
-  constructor(private kite: any) {} // Use any due to kiteconnect type issues
+  // Underlying -> futures contracts, nearest expiry first
+  private futures: Map<string, InstrumentWithPrice[]> = new Map();
+
+  private masterSource: InstrumentMasterSource = 'none';
+  private masterDate: string | null = null;
+
+  constructor(
+    private kite: any, // Use any due to kiteconnect type issues
+    private cacheDir: string = INSTRUMENT_CACHE.DIR
+  ) {}
+
+  /**
+   * Load the NFO and BFO masters from Kite, snapshot them for today, and
+   * fall back to the most recent cached snapshot if Kite is unreachable.
+   */
+  async loadInstruments(): Promise<InstrumentMasterSource> {
+    const today = getTradingDate();
 
-  async loadInstruments(): Promise<void> {
     try {
       logger.info('Loading instrument master from Zerodha...');
-      const instruments = await this.kite.getInstruments('NFO');
-      logger.info(`Fetched ${instruments.length} NFO instruments`);
-
-      this.instruments.clear();
-      this.chains.clear();
-
-      let count = 0;
-      for (const raw of instruments) {
-        if (!raw.name || !['NIFTY', 'BANKNIFTY', 'FINNIFTY'].includes(raw.name)) continue;
-        
-        const expiry = new Date(raw.expiry as string);
-        if (isNaN(expiry.getTime())) continue;
-
-        const inst: InstrumentWithPrice = {
-          instrumentToken: raw.instrument_token,
-          exchangeToken: raw.exchange_token,
-          tradingSymbol: raw.tradingsymbol,
-          name: raw.name as Underlying,
-          lastPrice: 0,
-          strike: Number(raw.strike),
-          tickSize: raw.tick_size,
-          lotSize: raw.lot_size,
-          instrumentType: raw.instrument_type as 'CE' | 'PE' | 'FUT',
-          segment: raw.segment,
-          exchange: raw.exchange,
-          expiry: expiry,
-        };
-
-        this.instruments.set(inst.instrumentToken, inst);
-        this.addToChain(inst);
-        count++;
+      const instruments: Instrument[] = [];
+      for (const exchange of DERIVATIVES_EXCHANGES) {
+        const rows = await this.kite.getInstruments(exchange);
+        logger.info(`Fetched ${rows.length} ${exchange} instruments`);
+
+        for (const raw of rows) {
+          const inst = normalizeKiteInstrument(raw);
+          if (inst) instruments.push(inst);
+        }
+      }
+
+      this.setInstruments(instruments, 'live', today);
+
+      try {
+        saveInstrumentSnapshot(today, this.getAllInstruments(), this.cacheDir);
+      } catch (error) {
+        logger.warn('Failed to cache instrument master', { error: (error as Error).message });
       }
-      logger.info(`Successfully loaded ${count} instruments.`);
     } catch (error) {
-      logger.error('Failed to load instruments', error);
-      throw error;
+      const cached = findLatestSnapshot(today, this.cacheDir);
+      if (!cached) {
+        logger.error('Failed to load instruments', error);
+        throw error;
+      }
+
+      logger.warn(`Kite unreachable, using cached instrument master from ${cached.date}`, {
+        error: (error as Error).message,
+      });
+      this.setInstruments(cached.instruments, 'cache', cached.date);
     }
+
+    this.reportDiff();
+    return this.masterSource;
   }
 
-  private addToChain(inst: InstrumentWithPrice) {
-    if (inst.instrumentType === 'FUT') return;
+  /**
+   * Load the master from a fixture file (tests, offline runs). A fixture has
+   * no trading date of its own in the cache, so it is left undated and not
+   * diffed against the cached snapshots.
+   */
+  loadFromFixture(file: string): number {
+    const instruments = loadInstrumentFixture(file);
+    this.setInstruments(instruments, 'fixture', null);
+    return this.instruments.size;
+  }
+
+  /**
+   * Replace the in-memory master and rebuild chains
+   */
+  private setInstruments(instruments: Instrument[], source: InstrumentMasterSource, date: string | null): void {
+    this.instruments.clear();
+    this.chains.clear();
+    this.futures.clear();
+
+    for (const raw of instruments) {
+      if (!isUnderlying(raw.name)) continue;
+
+      const inst: InstrumentWithPrice = { ...raw, lastPrice: 0 };
+      this.instruments.set(inst.instrumentToken, inst);
+      this.addToChain(inst);
+    }
+
+    this.masterSource = source;
+    this.masterDate = date;
+    logger.info(`Successfully loaded ${this.instruments.size} instruments (${source}${date ? `, ${date}` : ''}).`);
+  }
+
+  /**
+   * Diff today's master against the previous trading date's snapshot
+   */
+  getInstrumentDiff(): InstrumentDiff | null {
+    if (!this.masterDate) return null;
+
+    const previous = findLatestSnapshot(this.previousDate(this.masterDate), this.cacheDir);
+    if (!previous) return null;
+
+    const current = loadInstrumentSnapshot(this.masterDate, this.cacheDir) ?? {
+      date: this.masterDate,
+      fetchedAt: new Date().toISOString(),
+      instruments: this.getAllInstruments(),
+    };
+    return diffInstrumentMasters(previous, current);
+  }
+
+  private reportDiff(): void {
+    const diff = this.getInstrumentDiff();
+    if (!diff) return;
+
+    if (isEmptyDiff(diff)) {
+      logger.info(`Instrument master unchanged since ${diff.fromDate}`);
+    } else {
+      logger.info(formatInstrumentDiff(diff));
+    }
+  }
 
+  private previousDate(date: string): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() - 1);
+    return d.toISOString().split('T')[0]!;
+  }
+
+  /**
+   * Where the current master came from, and for which trading date
+   */
+  getMasterInfo(): { source: InstrumentMasterSource; date: string | null; count: number } {
+    return { source: this.masterSource, date: this.masterDate, count: this.instruments.size };
+  }
+
+  /**
+   * Register instruments from outside the Kite master (e.g. a replayed session)
+   */
+  addInstruments(instruments: Instrument[]): number {
+    let added = 0;
+    for (const inst of instruments) {
+      if (this.instruments.has(inst.instrumentToken)) continue;
+      const withPrice: InstrumentWithPrice = { ...inst, lastPrice: 0 };
+      this.instruments.set(inst.instrumentToken, withPrice);
+      this.addToChain(withPrice);
+      added++;
+    }
+    if (added > 0) logger.info(`Registered ${added} external instruments.`);
+    return added;
+  }
+
+  private addToChain(inst: InstrumentWithPrice) {
     const und = (inst.name || inst.underlying) as Underlying;
     if (!und) return;
 
+    if (inst.instrumentType === 'FUT') {
+      this.addFuture(und, inst);
+      return;
+    }
+
     // Normalize date to string key
     if (!inst.expiry) return;
     const expStr = inst.expiry.toISOString().split('T')[0]; // Use YYYY-MM-DD only
@@ -100,6 +216,15 @@ export class InstrumentManager {
     if (inst.instrumentType === 'PE') entry.pe = inst;
   }
 
+  private addFuture(und: Underlying, inst: InstrumentWithPrice) {
+    if (!inst.expiry) return;
+
+    if (!this.futures.has(und)) this.futures.set(und, []);
+    const contracts = this.futures.get(und)!;
+    contracts.push(inst);
+    contracts.sort((a, b) => a.expiry!.getTime() - b.expiry!.getTime());
+  }
+
   getInstrument(token: number): Instrument | undefined {
     return this.instruments.get(token);
   }
@@ -131,12 +256,30 @@ export class InstrumentManager {
     return type === 'CE' ? entry.ce : entry.pe;
   }
 
+  /**
+   * Futures contracts for an underlying, nearest expiry first
+   */
+  getFutures(underlying: Underlying): InstrumentWithPrice[] {
+    return [...(this.futures.get(underlying) ?? [])];
+  }
+
+  /**
+   * Futures contract for an expiry (same calendar day), or the near month
+   */
+  getFuture(underlying: Underlying, expiry?: Date): InstrumentWithPrice | undefined {
+    const contracts = this.futures.get(underlying) ?? [];
+    if (!expiry) return contracts[0];
+
+    const expStr = expiry.toISOString().split('T')[0];
+    return contracts.find(f => f.expiry!.toISOString().split('T')[0] === expStr);
+  }
+
   getLotSize(underlying: Underlying): number {
     for (const inst of this.instruments.values()) {
       const instUnd = inst.name || inst.underlying;
       if (instUnd === underlying && inst.lotSize > 0) return inst.lotSize;
     }
-    return underlying === 'BANKNIFTY' ? 30 : 50;
+    return getLotSize(underlying);
   }
 
   /**
@@ -164,6 +307,13 @@ export class InstrumentManager {
     return tokens;
   }
 
+  /**
+   * Underlyings with instruments loaded, in registry order
+   */
+  getLoadedUnderlyings(): Underlying[] {
+    return UNDERLYINGS.filter(u => this.chains.has(u) || this.futures.has(u));
+  }
+
   getAllInstruments(): InstrumentWithPrice[] {
     return Array.from(this.instruments.values());
   }
@@ -11,12 +11,13 @@ const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
 import { eventBus } from '../core/events.js';
 import { WebSocketConnectionError } from '../core/errors.js';
-import { ZERODHA, LATENCY, SPOT_TOKENS } from '../core/constants.js';
+import { ZERODHA, LATENCY, SPOT_TOKENS, INDIA_VIX } from '../core/constants.js';
 import { logger, logMarketData } from '../utils/logger.js';
 import { toDecimal, ZERO } from '../utils/decimal.js';
 import { getMarketState } from './market-state.js';
-import { getSpotTracker } from './spot-tracker.js';
 import { getInstrumentManager } from './instrument-manager.js';
+import { publishTick } from './market-data-source.js';
+import type { MarketDataSource, TickerMode } from './market-data-source.js';
 import type {
   MarketTick,
   OrderBookDepth,
@@ -57,19 +58,18 @@ interface RawTick {
   };
 }
 
-type TickerMode = 'ltp' | 'quote' | 'full';
-
 // ============================================================================
 // KITE WEBSOCKET MANAGER
 // ============================================================================
 
-export class KiteWebSocketManager {
+export class KiteWebSocketManager implements MarketDataSource {
+  readonly kind = 'live' as const;
   private ticker: InstanceType<typeof KiteTicker> | null = null;
   private connected = false;
   private reconnecting = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
-  private subscriptions: Set<number> = new Set();
+  private subscriptions: Map<number, TickerMode> = new Map();   // token -> mode
   private mode: TickerMode = 'full';
 
   constructor(
@@ -181,21 +181,13 @@ export class KiteWebSocketManager {
    * Process incoming ticks
    */
   private processTicks(rawTicks: RawTick[]): void {
-    const marketState = getMarketState();
-    const spotTracker = getSpotTracker();
     const instrumentManager = getInstrumentManager(this.kite);
 
     for (const raw of rawTicks) {
       try {
         const tick = this.normalizeTick(raw, instrumentManager);
         if (tick) {
-          // Update market state
-          marketState.updateFromTick(tick);
-
-          // Update spot tracker for underlying indices
-          if (tick.instrumentType === 'SPOT') {
-            spotTracker.update(tick.underlying, tick.ltp, tick.timestamp);
-          }
+          publishTick(tick);
         }
       } catch (error) {
         logger.debug('Failed to process tick', {
@@ -215,16 +207,17 @@ export class KiteWebSocketManager {
   ): MarketTick | null {
     const instrument = instrumentManager.getInstrument(raw.instrument_token);
     if (!instrument) {
-      // Check if it's a spot index
+      // Check if it's a spot index or India VIX
+      const isVix = raw.instrument_token === INDIA_VIX.TOKEN;
       const spotEntry = Object.entries(SPOT_TOKENS).find(([, token]) => token === raw.instrument_token);
-      if (!spotEntry) return null;
+      if (!spotEntry && !isVix) return null;
 
-      const underlying = spotEntry[0] as Underlying;
+      const underlying = isVix ? INDIA_VIX.UNDERLYING : spotEntry![0] as Underlying;
       return {
         instrumentToken: raw.instrument_token,
-        tradingSymbol: underlying,
+        tradingSymbol: isVix ? INDIA_VIX.TRADING_SYMBOL : underlying,
         underlying,
-        instrumentType: 'SPOT' as InstrumentType,
+        instrumentType: (isVix ? 'VIX' : 'SPOT') as InstrumentType,
         ltp: toDecimal(raw.last_price),
         bid: toDecimal(raw.depth?.buy[0]?.price ?? raw.last_price),
         ask: toDecimal(raw.depth?.sell[0]?.price ?? raw.last_price),
@@ -304,36 +297,35 @@ export class KiteWebSocketManager {
   /**
    * Subscribe to instruments
    */
-  subscribe(tokens: number[]): void {
+  subscribe(tokens: number[], mode: TickerMode = this.mode): void {
     if (!this.ticker || !this.connected) {
       // Queue for later
-      tokens.forEach(t => this.subscriptions.add(t));
+      tokens.forEach(t => this.subscriptions.set(t, mode));
       logger.debug('Queued subscriptions for later', { count: tokens.length });
       return;
     }
 
-    // Check limit
-    if (this.subscriptions.size + tokens.length > ZERODHA.MAX_SUBSCRIPTIONS) {
-      logger.warn('Subscription limit approaching', {
+    // Enforce the per-connection limit
+    const fresh = tokens.filter(t => !this.subscriptions.has(t));
+    const capacity = ZERODHA.MAX_SUBSCRIPTIONS - this.subscriptions.size;
+    if (fresh.length > capacity) {
+      logger.warn('Subscription limit reached, dropping tokens', {
         current: this.subscriptions.size,
-        adding: tokens.length,
+        adding: fresh.length,
+        dropped: fresh.length - Math.max(0, capacity),
         max: ZERODHA.MAX_SUBSCRIPTIONS,
       });
+      const allowed = new Set(fresh.slice(0, Math.max(0, capacity)));
+      tokens = tokens.filter(t => this.subscriptions.has(t) || allowed.has(t));
     }
 
-    // Subscribe in batches
-    const batches: number[][] = [];
-    for (let i = 0; i < tokens.length; i += ZERODHA.MAX_SUBSCRIPTIONS_PER_MESSAGE) {
-      batches.push(tokens.slice(i, i + ZERODHA.MAX_SUBSCRIPTIONS_PER_MESSAGE));
-    }
-
-    for (const batch of batches) {
+    for (const batch of this.toBatches(tokens)) {
       this.ticker.subscribe(batch);
-      this.ticker.setMode(this.mode, batch);
-      batch.forEach(t => this.subscriptions.add(t));
+      this.ticker.setMode(mode, batch);
+      batch.forEach(t => this.subscriptions.set(t, mode));
     }
 
-    logger.info('Subscribed to instruments', { count: tokens.length });
+    logger.info('Subscribed to instruments', { count: tokens.length, mode });
   }
 
   /**
@@ -345,37 +337,68 @@ export class KiteWebSocketManager {
       return;
     }
 
-    this.ticker.unsubscribe(tokens);
+    for (const batch of this.toBatches(tokens)) {
+      this.ticker.unsubscribe(batch);
+    }
     tokens.forEach(t => this.subscriptions.delete(t));
 
     logger.debug('Unsubscribed from instruments', { count: tokens.length });
   }
 
   /**
-   * Resubscribe after reconnection
+   * Resubscribe after reconnection, preserving each token's mode
    */
   private resubscribe(): void {
     if (this.subscriptions.size === 0) return;
 
-    const tokens = Array.from(this.subscriptions);
-    logger.info('Resubscribing after reconnection', { count: tokens.length });
+    const byMode: Map<TickerMode, number[]> = new Map();
+    for (const [token, mode] of this.subscriptions) {
+      if (!byMode.has(mode)) byMode.set(mode, []);
+      byMode.get(mode)!.push(token);
+    }
+    logger.info('Resubscribing after reconnection', { count: this.subscriptions.size });
 
     // Clear and resubscribe
     this.subscriptions.clear();
-    this.subscribe(tokens);
+    for (const [mode, tokens] of byMode) {
+      this.subscribe(tokens, mode);
+    }
+  }
+
+  /**
+   * Set subscription mode for some tokens, or for all (and the default)
+   */
+  setMode(mode: TickerMode, tokens?: number[]): void {
+    if (!tokens) this.mode = mode;
+
+    const targets = (tokens ?? Array.from(this.subscriptions.keys()))
+      .filter(t => this.subscriptions.has(t));
+    targets.forEach(t => this.subscriptions.set(t, mode));
+
+    if (this.ticker && this.connected && targets.length > 0) {
+      for (const batch of this.toBatches(targets)) {
+        this.ticker.setMode(mode, batch);
+      }
+      logger.debug('Changed mode', { mode, tokens: targets.length });
+    }
   }
 
   /**
-   * Set subscription mode
+   * Get the mode a token is subscribed in
    */
-  setMode(mode: TickerMode): void {
-    this.mode = mode;
+  getTokenMode(token: number): TickerMode | undefined {
+    return this.subscriptions.get(token);
+  }
 
-    if (this.ticker && this.connected && this.subscriptions.size > 0) {
-      const tokens = Array.from(this.subscriptions);
-      this.ticker.setMode(mode, tokens);
-      logger.debug('Changed mode', { mode, tokens: tokens.length });
+  /**
+   * Split tokens into messages of at most MAX_SUBSCRIPTIONS_PER_MESSAGE
+   */
+  private toBatches(tokens: number[]): number[][] {
+    const batches: number[][] = [];
+    for (let i = 0; i < tokens.length; i += ZERODHA.MAX_SUBSCRIPTIONS_PER_MESSAGE) {
+      batches.push(tokens.slice(i, i + ZERODHA.MAX_SUBSCRIPTIONS_PER_MESSAGE));
     }
+    return batches;
   }
 
   /**
@@ -403,7 +426,7 @@ export class KiteWebSocketManager {
    * Get subscribed tokens
    */
   getSubscribedTokens(): number[] {
-    return Array.from(this.subscriptions);
+    return Array.from(this.subscriptions.keys());
   }
 
   /**
@@ -431,7 +454,7 @@ export class KiteWebSocketManager {
 
     // First subscribe to spots to get prices
     const spotTokens = underlyings.map(u => SPOT_TOKENS[u]);
-    this.subscribe(spotTokens);
+    this.subscribe([...spotTokens, INDIA_VIX.TOKEN]);
 
     // Wait for spot prices
     await new Promise(resolve => setTimeout(resolve, 2000));
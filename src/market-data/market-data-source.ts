@@ -0,0 +1,102 @@
+/**
+ * Market Data Source Abstraction for NSE Options Paper Trading
+ *
+ * Common interface for anything that feeds ticks into the system:
+ * the live Kite WebSocket, a replay of recorded tick files, or the
+ * synthetic market simulator.
+ * Every source publishes through publishTick() so downstream consumers
+ * (market state, spot tracker, TICK listeners) see identical behaviour.
+ */
+
+import { getMarketState } from './market-state.js';
+import { getSpotTracker } from './spot-tracker.js';
+import { ConfigurationError } from '../core/errors.js';
+import type { MarketTick } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TickerMode = 'ltp' | 'quote' | 'full';
+
+export type MarketDataSourceKind = 'live' | 'replay' | 'simulated';
+
+/**
+ * A source of normalized market ticks
+ */
+export interface MarketDataSource {
+  readonly kind: MarketDataSourceKind;
+
+  connect(): Promise<void>;
+  disconnect(): void;
+
+  /** Subscribe in the given mode (source default when omitted) */
+  subscribe(tokens: number[], mode?: TickerMode): void;
+  unsubscribe(tokens: number[]): void;
+  /** Change the mode of some tokens, or of every subscription when omitted */
+  setMode(mode: TickerMode, tokens?: number[]): void;
+
+  isConnected(): boolean;
+  getSubscribedTokens(): number[];
+}
+
+/**
+ * Parsed `--source` specification
+ */
+export type MarketDataSourceSpec =
+  | { kind: 'live' }
+  | { kind: 'replay'; path: string }
+  | { kind: 'simulated'; seed?: number };
+
+// ============================================================================
+// TICK PUBLISHING
+// ============================================================================
+
+/**
+ * Push a normalized tick through the shared TICK path
+ */
+export function publishTick(tick: MarketTick): void {
+  // Update market state (emits TICK on the event bus)
+  getMarketState().updateFromTick(tick);
+
+  // Update spot tracker for underlying indices
+  if (tick.instrumentType === 'SPOT') {
+    getSpotTracker().update(tick.underlying, tick.ltp, tick.timestamp);
+  } else if (tick.instrumentType === 'VIX') {
+    getSpotTracker().updateVix(tick.ltp, tick.timestamp);
+  }
+}
+
+// ============================================================================
+// SOURCE SPEC PARSING
+// ============================================================================
+
+/**
+ * Parse a source spec such as `live`, `replay:data/ticks/2024-06-03` or `sim:7`
+ */
+export function parseSourceSpec(spec: string): MarketDataSourceSpec {
+  if (spec === 'live') {
+    return { kind: 'live' };
+  }
+
+  if (spec.startsWith('replay:')) {
+    const path = spec.slice('replay:'.length).trim();
+    if (!path) {
+      throw new ConfigurationError('Replay source requires a file or directory: replay:<path>', { spec });
+    }
+    return { kind: 'replay', path };
+  }
+
+  if (spec === 'sim' || spec.startsWith('sim:')) {
+    const seedText = spec.slice('sim'.length).replace(/^:/, '').trim();
+    if (!seedText) return { kind: 'simulated' };
+
+    const seed = Number(seedText);
+    if (!Number.isInteger(seed)) {
+      throw new ConfigurationError(`Invalid simulator seed: ${seedText}`, { spec });
+    }
+    return { kind: 'simulated', seed };
+  }
+
+  throw new ConfigurationError(`Unknown market data source: ${spec}`, { spec });
+}
@@ -0,0 +1,648 @@
+/**
+ * Synthetic Market Simulator for NSE Options Paper Trading
+ *
+ * Generates a self-consistent market without Kite: spot follows GBM with
+ * Poisson jumps and switching volatility regimes, and a full option chain is
+ * priced with Black-Scholes off a configurable IV smile, plus the event
+ * calendar's variance for events before each expiry. Monthly futures
+ * trade around cost-of-carry fair value and India VIX tracks NIFTY's ATM
+ * IV. Ticks (bid/ask, depth, OI, volume)
+ * go through the shared TICK path, and a fake instrument master is
+ * registered with the InstrumentManager.
+ *
+ * Runs are reproducible: the same seed and options give the same ticks.
+ * Each step advances the engine clock to simulated time, so expiry and
+ * staleness checks age with the simulated session, whatever the timeScale.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { SIMULATOR, PRICING, INDIA_VIX, SPOT_TOKENS, TICK_SIZE, getLotSize, getStrikeInterval, getUnderlyingSpec, roundToStrike } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { roundToTick, roundDownToTick, roundUpToTick } from '../utils/decimal.js';
+import { getNextExpiries, getMonthlyExpiry, timeToExpiryYears, generateOptionSymbol, generateFuturesSymbol } from '../utils/date.js';
+import { SeededRandom } from '../utils/random.js';
+import { setReplayTime } from '../utils/clock.js';
+import { calculateOptionPrice } from '../pricing/black-scholes.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { getInstrumentManager } from './instrument-manager.js';
+import { publishTick } from './market-data-source.js';
+import type { MarketDataSource, TickerMode } from './market-data-source.js';
+import type { Instrument, MarketTick, OrderBookDepth, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RegimeParams {
+  name: string;
+  volatility: number;             // Annualized realized vol
+  meanDurationMinutes: number;    // Expected time spent in the regime
+  weight: number;                 // Relative chance of being entered
+}
+
+export interface SpotProcessParams {
+  drift: number;
+  jumpIntensity: number;          // Jumps per year
+  jumpMean: number;               // Mean log jump size
+  jumpStd: number;                // Log jump size std dev
+  regimes: RegimeParams[];
+}
+
+export interface SmileParams {
+  ivPremium: number;              // ATM implied / realized vol
+  skew: number;                   // d(iv)/d(ln K/S)
+  curvature: number;              // d2(iv)/d(ln K/S)^2
+}
+
+export interface SimulatorOptions {
+  seed: number;
+  underlyings: Underlying[];
+  tickIntervalMs: number;
+  timeScale: number;
+  strikesAroundATM: number;
+  optionTickProbability: number;
+  startTime: Date;
+  initialSpot: Partial<Record<Underlying, number>>;
+  process: Partial<SpotProcessParams>;
+  smile: Partial<SmileParams>;
+  autoRun: boolean;               // Advance on a timer; false = call step() manually
+  registerInstruments: boolean;
+}
+
+interface SimulatedUnderlying {
+  underlying: Underlying;
+  spot: number;
+  regime: RegimeParams;
+  atmIV: number;
+}
+
+interface SimulatedContract {
+  instrument: Instrument;
+  oi: number;
+  oiDayHigh: number;
+  oiDayLow: number;
+  volume: number;
+}
+
+// ============================================================================
+// MARKET SIMULATOR
+// ============================================================================
+
+export class MarketSimulator implements MarketDataSource {
+  readonly kind = 'simulated' as const;
+  private options: SimulatorOptions;
+  private process: SpotProcessParams;
+  private smile: SmileParams;
+  private random: SeededRandom;
+  private clock: number;
+  private underlyings: Map<Underlying, SimulatedUnderlying> = new Map();
+  private chain: Map<number, SimulatedContract> = new Map();
+  private futures: Map<number, SimulatedContract> = new Map();
+  private subscriptions: Set<number> = new Set();
+  private connected = false;
+  private interval?: NodeJS.Timeout;
+  private steps = 0;
+
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.options = {
+      seed: options.seed ?? SIMULATOR.DEFAULT_SEED,
+      underlyings: options.underlyings ?? ['NIFTY', 'BANKNIFTY'],
+      tickIntervalMs: options.tickIntervalMs ?? SIMULATOR.TICK_INTERVAL_MS,
+      timeScale: options.timeScale ?? SIMULATOR.TIME_SCALE,
+      strikesAroundATM: options.strikesAroundATM ?? SIMULATOR.STRIKES_AROUND_ATM,
+      optionTickProbability: options.optionTickProbability ?? SIMULATOR.OPTION_TICK_PROBABILITY,
+      startTime: options.startTime ?? new Date(),
+      initialSpot: options.initialSpot ?? {},
+      process: options.process ?? {},
+      smile: options.smile ?? {},
+      autoRun: options.autoRun ?? true,
+      registerInstruments: options.registerInstruments ?? true,
+    };
+
+    this.process = {
+      drift: this.options.process.drift ?? SIMULATOR.DRIFT,
+      jumpIntensity: this.options.process.jumpIntensity ?? SIMULATOR.JUMP_INTENSITY,
+      jumpMean: this.options.process.jumpMean ?? SIMULATOR.JUMP_MEAN,
+      jumpStd: this.options.process.jumpStd ?? SIMULATOR.JUMP_STD,
+      regimes: this.options.process.regimes ?? SIMULATOR.REGIMES.map(r => ({ ...r })),
+    };
+
+    this.smile = {
+      ivPremium: this.options.smile.ivPremium ?? SIMULATOR.IV_PREMIUM,
+      skew: this.options.smile.skew ?? SIMULATOR.SMILE_SKEW,
+      curvature: this.options.smile.curvature ?? SIMULATOR.SMILE_CURVATURE,
+    };
+
+    this.random = new SeededRandom(this.options.seed);
+    this.clock = this.options.startTime.getTime();
+  }
+
+  /**
+   * Build the instrument master, publish an opening snapshot and start ticking
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      marketDataLogger.debug('Simulator already connected');
+      return;
+    }
+
+    this.initialize();
+
+    if (this.options.registerInstruments) {
+      getInstrumentManager(null).addInstruments(this.getInstruments());
+    }
+
+    this.connected = true;
+    this.publishSnapshot();
+
+    if (this.options.autoRun) {
+      this.interval = setInterval(() => this.step(), this.options.tickIntervalMs);
+    }
+
+    marketDataLogger.info('Market simulator started', {
+      seed: this.options.seed,
+      underlyings: this.options.underlyings,
+      instruments: this.chain.size + this.futures.size,
+      tickIntervalMs: this.options.tickIntervalMs,
+      timeScale: this.options.timeScale,
+    });
+  }
+
+  /**
+   * Stop ticking
+   */
+  disconnect(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+    this.connected = false;
+    setReplayTime(null);
+    marketDataLogger.info('Market simulator stopped', { steps: this.steps });
+  }
+
+  /**
+   * Limit ticks to these instruments (no subscriptions = everything)
+   */
+  subscribe(tokens: number[]): void {
+    tokens.forEach(t => this.subscriptions.add(t));
+  }
+
+  /**
+   * Remove instruments from the feed
+   */
+  unsubscribe(tokens: number[]): void {
+    tokens.forEach(t => this.subscriptions.delete(t));
+  }
+
+  /**
+   * Simulated ticks always carry full depth
+   */
+  setMode(mode: TickerMode): void {
+    marketDataLogger.debug('Simulator ignores subscription mode', { mode });
+  }
+
+  /**
+   * Get connection status
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Get subscribed tokens
+   */
+  getSubscribedTokens(): number[] {
+    return Array.from(this.subscriptions);
+  }
+
+  // ==========================================================================
+  // SIMULATION
+  // ==========================================================================
+
+  /**
+   * Advance the simulated clock by one tick interval and publish ticks
+   */
+  step(): void {
+    const stepMs = this.options.tickIntervalMs * this.options.timeScale;
+    this.clock += stepMs;
+    this.steps++;
+
+    const now = new Date(this.clock);
+    setReplayTime(now);
+
+    for (const state of this.underlyings.values()) {
+      this.evolveSpot(state, stepMs);
+      this.emit(this.buildSpotTick(state, now));
+    }
+    const vix = this.buildVixTick(now);
+    if (vix) this.emit(vix);
+
+    // Futures are liquid enough to tick every step
+    for (const future of this.futures.values()) {
+      if (!this.isSubscribed(future.instrument.instrumentToken)) continue;
+      this.emit(this.buildFuturesTick(future, now));
+    }
+
+    for (const option of this.chain.values()) {
+      if (!this.random.chance(this.options.optionTickProbability)) continue;
+      if (!this.isSubscribed(option.instrument.instrumentToken)) continue;
+      this.emit(this.buildOptionTick(option, now));
+    }
+  }
+
+  /**
+   * Simulated spot for an underlying
+   */
+  getSpot(underlying: Underlying): number | undefined {
+    return this.underlyings.get(underlying)?.spot;
+  }
+
+  /**
+   * Current volatility regime for an underlying
+   */
+  getRegime(underlying: Underlying): string | undefined {
+    return this.underlyings.get(underlying)?.regime.name;
+  }
+
+  /**
+   * Simulated clock
+   */
+  getClock(): Date {
+    return new Date(this.clock);
+  }
+
+  /**
+   * Fake instrument master for the simulated chains
+   */
+  getInstruments(): Instrument[] {
+    return [...this.futures.values(), ...this.chain.values()].map(c => c.instrument);
+  }
+
+  /**
+   * Implied vol from the smile for a strike
+   */
+  getSmileIV(underlying: Underlying, strike: number): number {
+    const state = this.underlyings.get(underlying);
+    if (!state) return PRICING.IV_INITIAL_GUESS.toNumber();
+
+    const m = Math.log(strike / state.spot);
+    const iv = state.atmIV + this.smile.skew * m + this.smile.curvature * m * m;
+    return Math.min(PRICING.IV_MAX.toNumber(), Math.max(PRICING.IV_MIN.toNumber(), iv));
+  }
+
+  /**
+   * Set up underlyings and the option chain around the initial spot
+   */
+  private initialize(): void {
+    this.underlyings.clear();
+    this.chain.clear();
+    this.futures.clear();
+
+    const start = new Date(this.clock);
+    let token: number = SIMULATOR.TOKEN_BASE;
+
+    for (const underlying of this.options.underlyings) {
+      const spot = this.options.initialSpot[underlying] ?? SIMULATOR.INITIAL_SPOT[underlying];
+      const regime = this.process.regimes.find(r => r.name === 'NORMAL') ?? this.process.regimes[0]!;
+      this.underlyings.set(underlying, {
+        underlying,
+        spot,
+        regime,
+        atmIV: regime.volatility * this.smile.ivPremium,
+      });
+
+      const spec = getUnderlyingSpec(underlying);
+      const interval = getStrikeInterval(underlying);
+      const atm = roundToStrike(spot, underlying);
+      const lotSize = getLotSize(underlying);
+      const expiries = this.buildExpiries(start, underlying);
+
+      // Index futures only list monthly contracts
+      for (const expiry of expiries.filter(e => getMonthlyExpiry(e, underlying).getTime() === e.getTime())) {
+        const oi = Math.round(SIMULATOR.BASE_OI_LOTS * 3 * this.random.uniform(0.6, 1.4)) * lotSize;
+        this.futures.set(token, {
+          instrument: {
+            instrumentToken: token,
+            exchangeToken: token - SIMULATOR.TOKEN_BASE,
+            tradingSymbol: generateFuturesSymbol(underlying, expiry),
+            name: underlying,
+            exchange: spec.exchange,
+            segment: `${spec.exchange}-FUT`,
+            instrumentType: 'FUT',
+            strike: 0,
+            expiry,
+            lotSize,
+            tickSize: TICK_SIZE.toNumber(),
+            underlying,
+          },
+          oi,
+          oiDayHigh: oi,
+          oiDayLow: oi,
+          volume: 0,
+        });
+        token++;
+      }
+
+      for (const expiry of expiries) {
+        for (let i = -this.options.strikesAroundATM; i <= this.options.strikesAroundATM; i++) {
+          const strike = atm + i * interval;
+          for (const type of ['CE', 'PE'] as const) {
+            const otm = type === 'CE' ? strike >= spot : strike <= spot;
+            const m = Math.log(strike / spot);
+            const oi = Math.round(
+              SIMULATOR.BASE_OI_LOTS * Math.exp(-((m / 0.04) ** 2)) * (otm ? 1.5 : 0.6) * this.random.uniform(0.6, 1.4)
+            ) * lotSize;
+
+            this.chain.set(token, {
+              instrument: {
+                instrumentToken: token,
+                exchangeToken: token - SIMULATOR.TOKEN_BASE,
+                tradingSymbol: generateOptionSymbol(underlying, expiry, strike, type),
+                name: underlying,
+                exchange: spec.exchange,
+                segment: `${spec.exchange}-OPT`,
+                instrumentType: type,
+                strike,
+                expiry,
+                lotSize,
+                tickSize: TICK_SIZE.toNumber(),
+                underlying,
+              },
+              oi,
+              oiDayHigh: oi,
+              oiDayLow: oi,
+              volume: 0,
+            });
+            token++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Next expiries by the underlying's calendar plus the next monthly expiries
+   */
+  private buildExpiries(start: Date, underlying: Underlying): Date[] {
+    const expiries = getNextExpiries(SIMULATOR.WEEKLY_EXPIRIES, start, underlying);
+
+    let monthlies = 0;
+    for (let i = 0; monthlies < SIMULATOR.MONTHLY_EXPIRIES; i++) {
+      const monthly = getMonthlyExpiry(new Date(start.getFullYear(), start.getMonth() + i, 15), underlying);
+      if (timeToExpiryYears(monthly, start).lessThanOrEqualTo(PRICING.MIN_TIME_TO_EXPIRY)) continue;
+      monthlies++;
+      if (!expiries.some(e => e.getTime() === monthly.getTime())) {
+        expiries.push(monthly);
+      }
+    }
+
+    return expiries.sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  /**
+   * One step of GBM with jumps under the current regime
+   */
+  private evolveSpot(state: SimulatedUnderlying, stepMs: number): void {
+    const dtMinutes = stepMs / 60000;
+
+    // Regime switching
+    if (this.random.chance(1 - Math.exp(-dtMinutes / state.regime.meanDurationMinutes))) {
+      const others = this.process.regimes.filter(r => r !== state.regime);
+      if (others.length > 0) {
+        const previous = state.regime.name;
+        state.regime = this.random.weighted(others, r => r.weight);
+        marketDataLogger.debug('Simulator regime change', {
+          underlying: state.underlying,
+          from: previous,
+          to: state.regime.name,
+        });
+      }
+    }
+
+    // ATM IV drifts towards the regime's level rather than jumping
+    const targetIV = state.regime.volatility * this.smile.ivPremium;
+    state.atmIV += (targetIV - state.atmIV) * (1 - Math.exp(-dtMinutes / 15));
+
+    const dt = stepMs / SIMULATOR.TRADING_MS_PER_YEAR;
+    const sigma = state.regime.volatility;
+    let logReturn = (this.process.drift - 0.5 * sigma * sigma) * dt + sigma * Math.sqrt(dt) * this.random.normal();
+
+    if (this.random.chance(this.process.jumpIntensity * dt)) {
+      const jump = this.process.jumpMean + this.process.jumpStd * this.random.normal();
+      logReturn += jump;
+      marketDataLogger.debug('Simulator jump', { underlying: state.underlying, jumpPct: (jump * 100).toFixed(2) });
+    }
+
+    state.spot = Math.round(state.spot * Math.exp(logReturn) * 20) / 20;
+  }
+
+  /**
+   * Publish every instrument once so chains have prices immediately
+   */
+  private publishSnapshot(): void {
+    const now = new Date(this.clock);
+    setReplayTime(now);
+    for (const state of this.underlyings.values()) {
+      this.emit(this.buildSpotTick(state, now));
+    }
+    const vix = this.buildVixTick(now);
+    if (vix) this.emit(vix);
+    for (const future of this.futures.values()) {
+      if (this.isSubscribed(future.instrument.instrumentToken)) {
+        this.emit(this.buildFuturesTick(future, now));
+      }
+    }
+    for (const option of this.chain.values()) {
+      if (this.isSubscribed(option.instrument.instrumentToken)) {
+        this.emit(this.buildOptionTick(option, now));
+      }
+    }
+  }
+
+  private buildSpotTick(state: SimulatedUnderlying, now: Date): MarketTick {
+    const ltp = new Decimal(state.spot);
+    return {
+      instrumentToken: SPOT_TOKENS[state.underlying],
+      tradingSymbol: state.underlying,
+      underlying: state.underlying,
+      instrumentType: 'SPOT',
+      ltp,
+      bid: ltp,
+      ask: ltp,
+      bidQty: 0,
+      askQty: 0,
+      volume: 0,
+      oi: 0,
+      oiDayHigh: 0,
+      oiDayLow: 0,
+      lastTradeTime: now,
+      timestamp: now,
+    };
+  }
+
+  /**
+   * India VIX follows NIFTY's simulated ATM IV (none when NIFTY is not simulated)
+   */
+  private buildVixTick(now: Date): MarketTick | null {
+    const state = this.underlyings.get(INDIA_VIX.UNDERLYING);
+    if (!state) return null;
+
+    const ltp = new Decimal(Math.round(state.atmIV * 10000) / 100);
+    return {
+      instrumentToken: INDIA_VIX.TOKEN,
+      tradingSymbol: INDIA_VIX.TRADING_SYMBOL,
+      underlying: INDIA_VIX.UNDERLYING,
+      instrumentType: 'VIX',
+      ltp,
+      bid: ltp,
+      ask: ltp,
+      bidQty: 0,
+      askQty: 0,
+      volume: 0,
+      oi: 0,
+      oiDayHigh: 0,
+      oiDayLow: 0,
+      lastTradeTime: now,
+      timestamp: now,
+    };
+  }
+
+  private buildFuturesTick(future: SimulatedContract, now: Date): MarketTick {
+    const inst = future.instrument;
+    const underlying = inst.underlying!;
+    const state = this.underlyings.get(underlying)!;
+
+    // Cost of carry with a little noise in the basis
+    const t = timeToExpiryYears(inst.expiry!, now).toNumber();
+    const fair = state.spot * Math.exp(PRICING.RISK_FREE_RATE.toNumber() * t);
+    const mid = roundToTick(new Decimal(fair * (1 + SIMULATOR.FUTURES_BASIS_NOISE * this.random.normal())));
+    const halfSpread = TICK_SIZE.times(SIMULATOR.FUTURES_HALF_SPREAD_TICKS);
+    const bid = roundDownToTick(mid.minus(halfSpread));
+    const ask = roundUpToTick(mid.plus(halfSpread));
+    const ltp = this.random.chance(0.5) ? bid : ask;
+
+    const lotSize = inst.lotSize;
+    const oiChangeLots = Math.round(this.random.normal() * (future.oi / lotSize) * 0.0002);
+    future.oi = Math.max(0, future.oi + oiChangeLots * lotSize);
+    future.oiDayHigh = Math.max(future.oiDayHigh, future.oi);
+    future.oiDayLow = Math.min(future.oiDayLow, future.oi);
+    future.volume += lotSize * this.random.int(0, 20);
+
+    const depth = this.buildDepth(bid, ask, halfSpread, lotSize);
+
+    return {
+      instrumentToken: inst.instrumentToken,
+      tradingSymbol: inst.tradingSymbol,
+      underlying,
+      instrumentType: 'FUT',
+      expiry: inst.expiry,
+      ltp,
+      bid,
+      ask,
+      bidQty: depth.buy[0]!.quantity,
+      askQty: depth.sell[0]!.quantity,
+      volume: future.volume,
+      oi: future.oi,
+      oiDayHigh: future.oiDayHigh,
+      oiDayLow: future.oiDayLow,
+      lastTradeTime: now,
+      timestamp: now,
+      depth,
+    };
+  }
+
+  private buildOptionTick(option: SimulatedContract, now: Date): MarketTick {
+    const inst = option.instrument;
+    const underlying = inst.underlying!;
+    const state = this.underlyings.get(underlying)!;
+    const strike = inst.strike!;
+    const optionType = inst.instrumentType as 'CE' | 'PE';
+
+    const theoretical = calculateOptionPrice({
+      spot: new Decimal(state.spot),
+      strike: new Decimal(strike),
+      timeToExpiry: timeToExpiryYears(inst.expiry!, now),
+      riskFreeRate: PRICING.RISK_FREE_RATE,
+      volatility: new Decimal(this.getSmileIV(underlying, strike)),
+      optionType,
+      eventVariance: new Decimal(getEventCalendar().getEventVariance(underlying, inst.expiry!, now)),
+    });
+
+    // Spreads widen with the regime's volatility
+    const normalVol = this.process.regimes.find(r => r.name === 'NORMAL')?.volatility ?? state.regime.volatility;
+    const spreadFactor = SIMULATOR.SPREAD_PCT * (state.regime.volatility / normalVol);
+    const mid = Decimal.max(TICK_SIZE, roundToTick(theoretical));
+    const halfSpread = Decimal.max(TICK_SIZE, mid.times(spreadFactor));
+    const bid = Decimal.max(TICK_SIZE, roundDownToTick(mid.minus(halfSpread)));
+    const ask = Decimal.max(bid.plus(TICK_SIZE), roundUpToTick(mid.plus(halfSpread)));
+    const ltp = roundToTick(bid.plus(ask.minus(bid).times(this.random.next())));
+
+    // Open interest and volume random walk
+    const lotSize = inst.lotSize;
+    const oiChangeLots = Math.round(this.random.normal() * (option.oi / lotSize) * 0.001);
+    option.oi = Math.max(0, option.oi + oiChangeLots * lotSize);
+    option.oiDayHigh = Math.max(option.oiDayHigh, option.oi);
+    option.oiDayLow = Math.min(option.oiDayLow, option.oi);
+    option.volume += lotSize * this.random.int(0, 5);
+
+    const depth = this.buildDepth(bid, ask, halfSpread, lotSize);
+
+    return {
+      instrumentToken: inst.instrumentToken,
+      tradingSymbol: inst.tradingSymbol,
+      underlying,
+      instrumentType: optionType,
+      strike,
+      expiry: inst.expiry,
+      ltp,
+      bid,
+      ask,
+      bidQty: depth.buy[0]!.quantity,
+      askQty: depth.sell[0]!.quantity,
+      volume: option.volume,
+      oi: option.oi,
+      oiDayHigh: option.oiDayHigh,
+      oiDayLow: option.oiDayLow,
+      lastTradeTime: now,
+      timestamp: now,
+      depth,
+    };
+  }
+
+  private buildDepth(bid: Decimal, ask: Decimal, halfSpread: Decimal, lotSize: number): OrderBookDepth {
+    const levelStep = Decimal.max(TICK_SIZE, roundToTick(halfSpread.dividedBy(2)));
+    const depth: OrderBookDepth = { buy: [], sell: [] };
+
+    for (let i = 0; i < SIMULATOR.DEPTH_LEVELS; i++) {
+      const bidPrice = bid.minus(levelStep.times(i));
+      if (bidPrice.greaterThan(0)) {
+        depth.buy.push({ price: bidPrice, quantity: lotSize * this.random.int(1, 40), orders: this.random.int(1, 20) });
+      }
+      depth.sell.push({
+        price: ask.plus(levelStep.times(i)),
+        quantity: lotSize * this.random.int(1, 40),
+        orders: this.random.int(1, 20),
+      });
+    }
+
+    return depth;
+  }
+
+  private isSubscribed(token: number): boolean {
+    return this.subscriptions.size === 0 || this.subscriptions.has(token);
+  }
+
+  private emit(tick: MarketTick): void {
+    try {
+      publishTick(tick);
+    } catch (error) {
+      marketDataLogger.debug('Failed to publish simulated tick', {
+        token: tick.instrumentToken,
+        error: String(error),
+      });
+    }
+  }
+}
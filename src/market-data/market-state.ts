@@ -3,6 +3,11 @@
  *
  * Maintains in-memory state of all subscribed instruments.
  * Provides fast access to LTP, bid/ask, depth.
+ *
+ * Once the Greeks refresh is started, every option's IV and Greeks are
+ * re-priced on a timer with the Float64Array batch pricer, a chunk at a time
+ * within a CPU budget; a refresh that runs out of budget resumes where it
+ * stopped on the next one.
  */
 
 import DecimalConstructor from 'decimal.js';
@@ -12,6 +17,12 @@ import { eventBus } from '../core/events.js';
 import { MarketDataStaleError } from '../core/errors.js';
 import { logger } from '../utils/logger.js';
 import { toDecimal, ZERO } from '../utils/decimal.js';
+import { hasExpired, timeToExpiryYears } from '../utils/date.js';
+import { clockNow, clockNowMs } from '../utils/clock.js';
+import { GREEKS_REFRESH, PRICING, VOL_SURFACE } from '../core/constants.js';
+import { calculateImpliedCarry, calculateParityForward } from '../pricing/black-scholes.js';
+import { batchGreeksAt, createChainBatch, priceBatch, solveIVBatch, type ChainBatch } from '../pricing/batch-pricer.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
 import type {
   InstrumentState,
   MarketTick,
@@ -19,6 +30,9 @@ import type {
   Underlying,
   InstrumentType,
   Greeks,
+  IVSource,
+  ForwardPoint,
+  ForwardSource,
 } from '../core/types.js';
 
 // ============================================================================
@@ -28,6 +42,23 @@ import type {
 const STALE_THRESHOLD_MS = 30000; // 30 seconds
 const CLEANUP_INTERVAL_MS = 60000; // 1 minute
 
+export interface GreeksRefreshOptions {
+  intervalMs: number;
+  budgetMs: number;
+  chunkSize: number;
+}
+
+/**
+ * Outcome of one Greeks refresh
+ */
+export interface GreeksRefreshStats {
+  timestamp: Date;
+  options: number;       // Priceable options
+  priced: number;        // Priced this refresh
+  complete: boolean;     // Every option priced within the budget
+  elapsedMs: number;
+}
+
 // ============================================================================
 // MARKET STATE MANAGER
 // ============================================================================
@@ -37,6 +68,15 @@ export class MarketStateManager {
   private symbolToToken: Map<string, number> = new Map();
   private underlyingSpots: Map<Underlying, Decimal> = new Map();
   private cleanupInterval?: NodeJS.Timeout;
+  private greeksInterval?: NodeJS.Timeout;
+  private greeksOptions: GreeksRefreshOptions = {
+    intervalMs: GREEKS_REFRESH.INTERVAL_MS,
+    budgetMs: GREEKS_REFRESH.BUDGET_MS,
+    chunkSize: GREEKS_REFRESH.CHUNK_SIZE,
+  };
+  private greeksBatch?: ChainBatch;
+  private greeksCursor = 0;
+  private lastGreeksRefresh?: GreeksRefreshStats;
 
   constructor() {
     // Start cleanup interval
@@ -67,6 +107,7 @@ export class MarketStateManager {
       depth: tick.depth,
       // Preserve computed fields if they exist
       iv: existing?.iv,
+      surfaceIV: existing?.surfaceIV,
       greeks: existing?.greeks,
     };
 
@@ -83,13 +124,27 @@ export class MarketStateManager {
   }
 
   /**
-   * Update Greeks for an instrument
+   * Update Greeks for an instrument, computed from raw or surface IV
    */
-  updateGreeks(token: number, greeks: Greeks): void {
+  updateGreeks(token: number, greeks: Greeks, source: IVSource = 'RAW'): void {
     const state = this.states.get(token);
     if (state) {
       state.greeks = greeks;
-      state.iv = greeks.iv;
+      if (source === 'SURFACE') {
+        state.surfaceIV = greeks.iv;
+      } else {
+        state.iv = greeks.iv;
+      }
+    }
+  }
+
+  /**
+   * Update the fitted-surface IV (percent) for an instrument
+   */
+  updateSurfaceIV(token: number, iv: Decimal): void {
+    const state = this.states.get(token);
+    if (state) {
+      state.surfaceIV = iv;
     }
   }
 
@@ -205,10 +260,12 @@ export class MarketStateManager {
   }
 
   /**
-   * Get IV for instrument
+   * Get IV for instrument (surface IV falls back to raw when not fitted)
    */
-  getIV(token: number): Decimal | undefined {
-    return this.states.get(token)?.iv;
+  getIV(token: number, source: IVSource = 'RAW'): Decimal | undefined {
+    const state = this.states.get(token);
+    if (source === 'SURFACE') return state?.surfaceIV ?? state?.iv;
+    return state?.iv;
   }
 
   /**
@@ -225,7 +282,7 @@ export class MarketStateManager {
     const state = this.states.get(token);
     if (!state) return true;
 
-    const age = Date.now() - state.lastUpdate.getTime();
+    const age = clockNowMs() - state.lastUpdate.getTime();
     return age > thresholdMs;
   }
 
@@ -350,6 +407,213 @@ export class MarketStateManager {
     return maxPainStrike;
   }
 
+  /**
+   * Implied forward for an expiry: median put-call parity forward over the
+   * strikes nearest spot with two-sided CE and PE quotes, else the futures
+   * price for that expiry
+   */
+  getForward(underlying: Underlying, expiry: Date, now: Date = clockNow()): ForwardPoint | undefined {
+    const spot = this.getSpotPrice(underlying);
+    if (spot.lessThanOrEqualTo(0) || hasExpired(expiry, now)) return undefined;
+    const timeToExpiry = timeToExpiryYears(expiry, now);
+
+    const expStr = expiry.toISOString().split('T')[0];
+    const pairs = new Map<number, { ce?: InstrumentState; pe?: InstrumentState }>();
+    let futures: InstrumentState | undefined;
+
+    for (const state of this.states.values()) {
+      if (state.underlying !== underlying || !state.expiry) continue;
+      if (state.expiry.toISOString().split('T')[0] !== expStr) continue;
+
+      if (state.instrumentType === 'FUT') {
+        futures = state;
+      } else if ((state.instrumentType === 'CE' || state.instrumentType === 'PE') && state.strike) {
+        if (state.bid.lessThanOrEqualTo(0) || state.ask.lessThanOrEqualTo(0)) continue;
+        const pair = pairs.get(state.strike) ?? {};
+        if (state.instrumentType === 'CE') pair.ce = state;
+        else pair.pe = state;
+        pairs.set(state.strike, pair);
+      }
+    }
+
+    const parity = Array.from(pairs.entries())
+      .filter(([, pair]) => pair.ce && pair.pe)
+      .sort(([a], [b]) => spot.minus(a).abs().comparedTo(spot.minus(b).abs()))
+      .slice(0, PRICING.FORWARD_PARITY_STRIKES)
+      .map(([strike, pair]) => ({
+        strike,
+        forward: calculateParityForward(
+          this.getMidPrice(pair.ce!.instrumentToken),
+          this.getMidPrice(pair.pe!.instrumentToken),
+          toDecimal(strike),
+          timeToExpiry,
+          PRICING.RISK_FREE_RATE
+        ),
+      }))
+      .filter(p => p.forward.greaterThan(0))
+      .sort((a, b) => a.forward.comparedTo(b.forward));
+
+    let forward: Decimal;
+    let source: ForwardSource;
+    if (parity.length > 0) {
+      const mid = Math.floor(parity.length / 2);
+      forward = parity.length % 2 === 1
+        ? parity[mid]!.forward
+        : parity[mid - 1]!.forward.plus(parity[mid]!.forward).dividedBy(2);
+      source = 'PARITY';
+    } else if (futures?.ltp.greaterThan(0)) {
+      forward = futures.ltp;
+      source = 'FUTURES';
+    } else {
+      return undefined;
+    }
+
+    return {
+      underlying,
+      expiry,
+      forward,
+      spot,
+      carryRate: calculateImpliedCarry(forward, spot, timeToExpiry),
+      timeToExpiry,
+      source,
+      strikes: source === 'PARITY' ? parity.map(p => p.strike).sort((a, b) => a - b) : [],
+    };
+  }
+
+  /**
+   * Implied forward for every option or futures expiry, nearest first
+   */
+  getForwardCurve(underlying: Underlying, now: Date = clockNow()): ForwardPoint[] {
+    const expiries = new Map<string, Date>();
+    for (const state of this.states.values()) {
+      if (state.underlying !== underlying || !state.expiry) continue;
+      if (state.instrumentType === 'FUT' || state.instrumentType === 'CE' || state.instrumentType === 'PE') {
+        expiries.set(state.expiry.toISOString().split('T')[0]!, state.expiry);
+      }
+    }
+
+    return Array.from(expiries.values())
+      .sort((a, b) => a.getTime() - b.getTime())
+      .map(expiry => this.getForward(underlying, expiry, now))
+      .filter((point): point is ForwardPoint => point !== undefined);
+  }
+
+  // ==========================================================================
+  // GREEKS REFRESH
+  // ==========================================================================
+
+  /**
+   * Re-price all options' Greeks every interval
+   */
+  startGreeksRefresh(options: Partial<GreeksRefreshOptions> = {}): void {
+    if (this.greeksInterval) return;
+    this.greeksOptions = {
+      intervalMs: options.intervalMs ?? GREEKS_REFRESH.INTERVAL_MS,
+      budgetMs: options.budgetMs ?? GREEKS_REFRESH.BUDGET_MS,
+      chunkSize: options.chunkSize ?? GREEKS_REFRESH.CHUNK_SIZE,
+    };
+    this.greeksInterval = setInterval(() => this.refreshGreeks(), this.greeksOptions.intervalMs);
+    logger.info('Greeks refresh started', { ...this.greeksOptions });
+  }
+
+  /**
+   * Stop the periodic Greeks refresh
+   */
+  stopGreeksRefresh(): void {
+    if (!this.greeksInterval) return;
+    clearInterval(this.greeksInterval);
+    this.greeksInterval = undefined;
+    logger.info('Greeks refresh stopped');
+  }
+
+  /**
+   * Solve IV and Greeks for options in batches until all are priced or the
+   * budget is spent, starting after the last option priced. Each option is
+   * priced at its mid (LTP when one-sided) as of its last tick, Black-76 off
+   * its expiry's implied forward with the event calendar's variance to
+   * expiry, so IVs are net of scheduled events; Greeks use the fitted
+   * surface IV instead of the raw one when VOL_SURFACE.GREEKS_IV_SOURCE is
+   * 'SURFACE'.
+   */
+  refreshGreeks(budgetMs: number = this.greeksOptions.budgetMs): GreeksRefreshStats {
+    const started = performance.now();
+    const options = Array.from(this.states.values()).filter(state =>
+      (state.instrumentType === 'CE' || state.instrumentType === 'PE') && state.strike && state.expiry
+    );
+    const chunkSize = this.greeksOptions.chunkSize;
+    if (!this.greeksBatch || this.greeksBatch.size !== chunkSize) {
+      this.greeksBatch = createChainBatch(chunkSize);
+    }
+    const batch = this.greeksBatch;
+    const riskFreeRate = PRICING.RISK_FREE_RATE.toNumber();
+    const forwards: Map<string, number> = new Map();
+    const eventVariances: Map<string, number> = new Map();
+    const calendar = getEventCalendar();
+    const start = options.length > 0 ? this.greeksCursor % options.length : 0;
+
+    let priced = 0;
+    while (priced < options.length) {
+      const count = Math.min(chunkSize, options.length - priced);
+      const chunk: InstrumentState[] = [];
+
+      for (let j = 0; j < count; j++) {
+        const state = options[(start + priced + j) % options.length]!;
+        const spot = this.getSpotPrice(state.underlying).toNumber();
+        const mid = this.getMidPrice(state.instrumentToken);
+        const key = `${state.underlying}:${state.expiry!.getTime()}`;
+        if (!forwards.has(key)) {
+          forwards.set(key, this.getForward(state.underlying, state.expiry!, state.lastUpdate)?.forward.toNumber() ?? NaN);
+          eventVariances.set(key, calendar.getEventVariance(state.underlying, state.expiry!, state.lastUpdate));
+        }
+
+        batch.spot[j] = spot;
+        batch.strike[j] = state.strike!;
+        batch.timeToExpiry[j] = timeToExpiryYears(state.expiry!, state.lastUpdate).toNumber();
+        batch.forward[j] = forwards.get(key)!;
+        batch.price[j] = (mid.isZero() ? state.ltp : mid).toNumber();
+        batch.isCall[j] = state.instrumentType === 'CE' ? 1 : 0;
+        batch.eventVariance[j] = eventVariances.get(key)!;
+        chunk.push(state);
+      }
+
+      solveIVBatch(batch, riskFreeRate, 0, count);
+      const rawIVs = batch.iv.slice(0, count);
+      if (VOL_SURFACE.GREEKS_IV_SOURCE === 'SURFACE') {
+        chunk.forEach((state, j) => {
+          if (state.surfaceIV?.greaterThan(0)) batch.iv[j] = state.surfaceIV.toNumber() / 100;
+        });
+      }
+      priceBatch(batch, riskFreeRate, 0, count);
+
+      chunk.forEach((state, j) => {
+        const greeks = batchGreeksAt(batch, j);
+        if (!greeks) return;
+        state.greeks = greeks;
+        state.iv = toDecimal(rawIVs[j]!).times(100);
+      });
+
+      priced += count;
+      if (performance.now() - started >= budgetMs) break;
+    }
+
+    this.greeksCursor = options.length > 0 ? (start + priced) % options.length : 0;
+    this.lastGreeksRefresh = {
+      timestamp: new Date(),
+      options: options.length,
+      priced,
+      complete: priced === options.length,
+      elapsedMs: performance.now() - started,
+    };
+    return this.lastGreeksRefresh;
+  }
+
+  /**
+   * Outcome of the latest Greeks refresh
+   */
+  getGreeksRefreshStats(): GreeksRefreshStats | undefined {
+    return this.lastGreeksRefresh;
+  }
+
   /**
    * Get statistics
    */
@@ -384,7 +648,7 @@ export class MarketStateManager {
    * Clean up stale entries
    */
   private cleanupStale(): void {
-    const now = Date.now();
+    const now = clockNowMs();
     const maxAge = 5 * 60 * 1000; // 5 minutes
 
     for (const [token, state] of this.states) {
@@ -414,6 +678,7 @@ export class MarketStateManager {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    this.stopGreeksRefresh();
   }
 }
 
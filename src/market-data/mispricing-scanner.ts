@@ -0,0 +1,341 @@
+/**
+ * Mispricing Scanner for NSE Options Paper Trading
+ *
+ * Compares every two-sided option quote in market state with where it
+ * should be and ranks what is off:
+ * - SURFACE: mid against the theoretical value at the fitted surface IV
+ *   (Black-76 off the implied forward, event variance included)
+ * - PARITY: C − P at mids against e^(−rT)·(F − K) at each strike
+ * - MONOTONICITY: a call dearer than a lower-strike call, or a put dearer
+ *   than a higher-strike put
+ * - CONVEXITY: a butterfly over three neighbouring strikes priced below zero
+ *
+ * A finding is flagged on its gap at mids, which catches bad prints as well
+ * as trades. Its edge is what is left after crossing the spread on every
+ * leg of the trade that captures it (buy the cheap side, sell the rich), so
+ * a finding with no positive edge is a data or spread problem, not a trade.
+ * One-sided quotes are skipped; without a fit only the chain checks run.
+ */
+
+import { MISPRICING, PRICING, getLotSize } from '../core/constants.js';
+import { hasExpired, timeToExpiryYears } from '../utils/date.js';
+import { clockNow } from '../utils/clock.js';
+import { createChainBatch, priceBatch } from '../pricing/batch-pricer.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { fillLeg, round2, round4 } from '../risk/batch-legs.js';
+import { getMarketState } from './market-state.js';
+import type { InstrumentState, MispricingKind, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MispricingOptions {
+  expiry?: Date;                   // Every expiry when omitted
+  kinds: MispricingKind[];
+  minEdgePoints: number;
+  minEdgePct: number;              // SURFACE only, of the option's mid
+  limit: number;
+}
+
+/**
+ * One leg of the trade that captures a finding
+ */
+export interface MispricingLeg {
+  symbol: string;
+  instrumentType: 'CE' | 'PE';
+  strike: number;
+  side: 'BUY' | 'SELL';
+  ratio: number;                   // Units per unit of the trade
+  bid: number;
+  ask: number;
+}
+
+export interface MispricingFinding {
+  kind: MispricingKind;
+  underlying: Underlying;
+  expiry: Date;
+  description: string;
+  legs: MispricingLeg[];
+  marketPrice: number;             // SURFACE: the mid; else the trade's cost at mids (negative for a credit)
+  fairValue: number;               // SURFACE: the theoretical value; else the trade's no-arbitrage value
+  midEdge: number;                 // Points per unit at mids
+  edge: number;                    // Points per unit after the spread; ≤ 0 is not tradable
+  edgePerLot: number;              // Rupees
+  edgeVol?: number;                // SURFACE: the gap at mids in vol points
+}
+
+export interface MispricingScan {
+  underlying: Underlying;
+  timestamp: Date;
+  scanned: number;                 // Two-sided option quotes
+  findings: MispricingFinding[];   // Best edge first
+}
+
+type CheckFinding = Omit<MispricingFinding, 'underlying' | 'edgePerLot'>;
+
+interface Quote {
+  state: InstrumentState;
+  strike: number;
+  bid: number;
+  ask: number;
+  mid: number;
+}
+
+interface ExpiryChain {
+  expiry: Date;
+  timeToExpiry: number;
+  forward: number;                 // Implied forward, else S·e^(rT)
+  calls: Quote[];                  // Strike ascending
+  puts: Quote[];
+}
+
+// ============================================================================
+// SCANNER
+// ============================================================================
+
+/**
+ * Scan an underlying's option chain for mispricings, best edge first
+ */
+export function scanMispricing(
+  underlying: Underlying,
+  options: Partial<MispricingOptions> = {},
+  now: Date = clockNow()
+): MispricingScan {
+  const kinds = options.kinds ?? ['SURFACE', 'PARITY', 'MONOTONICITY', 'CONVEXITY'];
+  const minEdgePoints = options.minEdgePoints ?? MISPRICING.MIN_EDGE_POINTS;
+  const minEdgePct = options.minEdgePct ?? MISPRICING.MIN_EDGE_PCT;
+  const lotSize = getLotSize(underlying);
+
+  const chains = buildChains(underlying, options.expiry, now);
+  const findings: MispricingFinding[] = [];
+  const add = (finding: CheckFinding): void => {
+    if (finding.midEdge < minEdgePoints) return;
+    findings.push({ ...finding, underlying, edgePerLot: round2(finding.edge * lotSize) });
+  };
+
+  if (kinds.includes('SURFACE')) {
+    for (const finding of findSurfaceMispricing(underlying, chains, now)) {
+      if (finding.midEdge >= finding.marketPrice * minEdgePct / 100) add(finding);
+    }
+  }
+  for (const chain of chains) {
+    if (kinds.includes('PARITY')) findParityViolations(chain).forEach(add);
+    if (kinds.includes('MONOTONICITY')) findMonotonicityViolations(chain).forEach(add);
+    if (kinds.includes('CONVEXITY')) findConvexityViolations(chain).forEach(add);
+  }
+
+  findings.sort((a, b) => b.edge - a.edge || b.midEdge - a.midEdge);
+  return {
+    underlying,
+    timestamp: now,
+    scanned: chains.reduce((sum, chain) => sum + chain.calls.length + chain.puts.length, 0),
+    findings: findings.slice(0, options.limit ?? MISPRICING.MAX_RESULTS),
+  };
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Options whose mid is off the theoretical value at their surface IV
+ */
+function findSurfaceMispricing(
+  underlying: Underlying,
+  chains: ExpiryChain[],
+  now: Date
+): CheckFinding[] {
+  const calendar = getEventCalendar();
+  const spot = getMarketState().getSpotPrice(underlying).toNumber();
+  const priced = chains.flatMap(chain => [...chain.calls, ...chain.puts]
+    .filter(quote => quote.state.surfaceIV?.greaterThan(0))
+    .map(quote => ({ chain, quote })));
+
+  const batch = createChainBatch(priced.length);
+  const eventVariances: Map<number, number> = new Map();
+  priced.forEach(({ chain, quote }, i) => {
+    const expiryTime = chain.expiry.getTime();
+    if (!eventVariances.has(expiryTime)) {
+      eventVariances.set(expiryTime, calendar.getEventVariance(underlying, chain.expiry, now));
+    }
+    const option = { instrumentType: quote.state.instrumentType, strike: quote.strike, price: quote.mid };
+    fillLeg(batch, i, option, spot, chain.timeToExpiry, chain.forward, eventVariances.get(expiryTime)!);
+    batch.iv[i] = quote.state.surfaceIV!.toNumber() / 100;
+  });
+  if (batch.size > 0) priceBatch(batch, PRICING.RISK_FREE_RATE.toNumber());
+
+  return priced.flatMap(({ chain, quote }, i) => {
+    const theoretical = batch.theoretical[i]!;
+    if (!Number.isFinite(theoretical)) return [];
+
+    const cheap = theoretical > quote.mid;
+    const vega = batch.vega[i]!;
+    return [{
+      kind: 'SURFACE' as const,
+      expiry: chain.expiry,
+      description: `${quote.strike} ${quote.state.instrumentType} ${cheap ? 'below' : 'above'} surface`,
+      legs: [leg(quote, cheap ? 'BUY' : 'SELL', 1)],
+      marketPrice: round2(quote.mid),
+      fairValue: round2(theoretical),
+      midEdge: round2(Math.abs(theoretical - quote.mid)),
+      edge: round2(cheap ? theoretical - quote.ask : quote.bid - theoretical),
+      edgeVol: vega > 0 ? round2(Math.abs(theoretical - quote.mid) / vega) : undefined,
+    }];
+  });
+}
+
+/**
+ * Strikes where the synthetic forward C − P is off the chain's forward
+ */
+function findParityViolations(chain: ExpiryChain): CheckFinding[] {
+  const discount = Math.exp(-PRICING.RISK_FREE_RATE.toNumber() * chain.timeToExpiry);
+  const puts = new Map(chain.puts.map(put => [put.strike, put]));
+
+  return chain.calls.flatMap(call => {
+    const put = puts.get(call.strike);
+    if (!put) return [];
+
+    const fair = discount * (chain.forward - call.strike);
+    const synthetic = call.mid - put.mid;
+    const cheap = synthetic < fair;
+    return [{
+      kind: 'PARITY' as const,
+      expiry: chain.expiry,
+      description: `${call.strike} synthetic ${cheap ? 'below' : 'above'} forward ${chain.forward.toFixed(2)}`,
+      legs: cheap ? [leg(call, 'BUY', 1), leg(put, 'SELL', 1)] : [leg(call, 'SELL', 1), leg(put, 'BUY', 1)],
+      marketPrice: round2(cheap ? synthetic : -synthetic),
+      fairValue: round2(cheap ? fair : -fair),
+      midEdge: round2(Math.abs(synthetic - fair)),
+      edge: round2(cheap ? fair - (call.ask - put.bid) : (call.bid - put.ask) - fair),
+    }];
+  });
+}
+
+/**
+ * Neighbouring strikes priced the wrong way round: a call spread or put
+ * spread that pays out but costs less than nothing
+ */
+function findMonotonicityViolations(chain: ExpiryChain): CheckFinding[] {
+  const findings: CheckFinding[] = [];
+
+  for (const quotes of [chain.calls, chain.puts]) {
+    for (let i = 1; i < quotes.length; i++) {
+      const lower = quotes[i - 1]!;
+      const upper = quotes[i]!;
+      const isCall = lower.state.instrumentType === 'CE';
+      const long = isCall ? lower : upper;
+      const short = isCall ? upper : lower;
+      if (short.mid <= long.mid) continue;
+
+      findings.push({
+        kind: 'MONOTONICITY',
+        expiry: chain.expiry,
+        description: `${short.strike} ${short.state.instrumentType} dearer than ${long.strike} ${long.state.instrumentType}`,
+        legs: [leg(long, 'BUY', 1), leg(short, 'SELL', 1)],
+        marketPrice: round2(long.mid - short.mid),
+        fairValue: 0,
+        midEdge: round2(short.mid - long.mid),
+        edge: round2(short.bid - long.ask),
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Butterflies over three neighbouring strikes (weighted for uneven
+ * spacing) priced below zero
+ */
+function findConvexityViolations(chain: ExpiryChain): CheckFinding[] {
+  const findings: CheckFinding[] = [];
+
+  for (const quotes of [chain.calls, chain.puts]) {
+    for (let i = 2; i < quotes.length; i++) {
+      const low = quotes[i - 2]!;
+      const body = quotes[i - 1]!;
+      const high = quotes[i]!;
+      const lowWeight = (high.strike - body.strike) / (high.strike - low.strike);
+      const highWeight = 1 - lowWeight;
+
+      const fly = lowWeight * low.mid + highWeight * high.mid - body.mid;
+      if (fly >= 0) continue;
+
+      const type = body.state.instrumentType;
+      findings.push({
+        kind: 'CONVEXITY',
+        expiry: chain.expiry,
+        description: `${low.strike}/${body.strike}/${high.strike} ${type} butterfly below zero`,
+        legs: [leg(low, 'BUY', round4(lowWeight)), leg(body, 'SELL', 1), leg(high, 'BUY', round4(highWeight))],
+        marketPrice: round2(fly),
+        fairValue: 0,
+        midEdge: round2(-fly),
+        edge: round2(body.bid - lowWeight * low.ask - highWeight * high.ask),
+      });
+    }
+  }
+  return findings;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Two-sided option quotes per unexpired expiry, with each expiry's forward
+ */
+function buildChains(underlying: Underlying, expiry: Date | undefined, now: Date): ExpiryChain[] {
+  const marketState = getMarketState();
+  const spot = marketState.getSpotPrice(underlying).toNumber();
+  if (spot <= 0) return [];
+
+  const chains: Map<number, ExpiryChain> = new Map();
+  for (const state of marketState.getOptionStates(underlying, expiry)) {
+    if (state.strike === undefined || !state.expiry) continue;
+    if (state.bid.lessThanOrEqualTo(0) || state.ask.lessThanOrEqualTo(0) || state.ask.lessThan(state.bid)) continue;
+
+    const expiryTime = state.expiry.getTime();
+    let chain = chains.get(expiryTime);
+    if (!chain) {
+      if (hasExpired(state.expiry, now)) continue;
+      const timeToExpiry = timeToExpiryYears(state.expiry, now).toNumber();
+      chain = {
+        expiry: state.expiry,
+        timeToExpiry,
+        forward: marketState.getForward(underlying, state.expiry, now)?.forward.toNumber()
+          ?? spot * Math.exp(PRICING.RISK_FREE_RATE.toNumber() * timeToExpiry),
+        calls: [],
+        puts: [],
+      };
+      chains.set(expiryTime, chain);
+    }
+
+    const quote: Quote = {
+      state,
+      strike: state.strike,
+      bid: state.bid.toNumber(),
+      ask: state.ask.toNumber(),
+      mid: marketState.getMidPrice(state.instrumentToken).toNumber(),
+    };
+    (state.instrumentType === 'CE' ? chain.calls : chain.puts).push(quote);
+  }
+
+  const result = Array.from(chains.values()).sort((a, b) => a.expiry.getTime() - b.expiry.getTime());
+  for (const chain of result) {
+    chain.calls.sort((a, b) => a.strike - b.strike);
+    chain.puts.sort((a, b) => a.strike - b.strike);
+  }
+  return result;
+}
+
+function leg(quote: Quote, side: 'BUY' | 'SELL', ratio: number): MispricingLeg {
+  return {
+    symbol: quote.state.tradingSymbol,
+    instrumentType: quote.state.instrumentType as 'CE' | 'PE',
+    strike: quote.strike,
+    side,
+    ratio,
+    bid: quote.bid,
+    ask: quote.ask,
+  };
+}
@@ -0,0 +1,612 @@
+/**
+ * Open Interest Analytics for NSE Options Paper Trading
+ *
+ * Follows option open interest per expiry from TICK events:
+ * - put-call ratio overall and by strike band around ATM
+ * - OI change since the open and over the last N minutes
+ * - build-up classification per strike from price and OI change
+ * - highest call OI / put OI strikes as resistance / support walls
+ * - a time series of PCR and max pain through the day
+ *
+ * The opening baseline is the first tick seen for a contract in the session.
+ * Samples and series points are taken on tick time, so replayed and
+ * simulated sessions produce the same analytics as live ones.
+ */
+
+import { eventBus } from '../core/events.js';
+import { OI_ANALYTICS } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { hasExpired } from '../utils/date.js';
+import { clockNowMs } from '../utils/clock.js';
+import { getMarketState } from './market-state.js';
+import { getSessionOpen } from './candle-aggregator.js';
+import type { EventHandler } from '../core/events.js';
+import type { MarketTick, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OIBuildup = 'LONG_BUILDUP' | 'SHORT_BUILDUP' | 'SHORT_COVERING' | 'LONG_UNWINDING' | 'NEUTRAL';
+
+export interface OIAnalyticsOptions {
+  sampleIntervalMs: number;
+  historyMinutes: number;
+  seriesMaxPoints: number;
+  wallCount: number;
+  bandStrikes: number;
+  minOIChangePct: number;
+}
+
+export interface OILegChange {
+  oi: number;
+  oiChange: number;
+  price: number;
+  priceChange: number;
+  buildup: OIBuildup;
+}
+
+export interface StrikeOI {
+  strike: number;
+  call?: OILegChange;
+  put?: OILegChange;
+}
+
+export interface OIWall {
+  strike: number;
+  oi: number;
+  oiChange: number;
+}
+
+export interface PCRBand {
+  fromStrike: number;
+  toStrike: number;
+  callOI: number;
+  putOI: number;
+  pcr: number | null;
+}
+
+export interface PCRPoint {
+  timestamp: Date;
+  spot: number;
+  callOI: number;
+  putOI: number;
+  pcr: number | null;
+  maxPain: number | null;
+}
+
+export interface OISnapshot {
+  underlying: Underlying;
+  expiry: Date;
+  timestamp: Date;
+  since: Date;                 // Baseline time the changes are measured from
+  spot: number;
+  atmStrike: number | null;
+  callOI: number;
+  putOI: number;
+  callOIChange: number;
+  putOIChange: number;
+  pcr: number | null;          // Put OI / call OI
+  maxPain: number | null;      // Expiry price minimizing option writers' payout
+  strikes: StrikeOI[];         // Ascending strike
+  resistance: OIWall[];        // Highest call OI first
+  support: OIWall[];           // Highest put OI first
+}
+
+interface OISample {
+  time: number;
+  oi: number;
+  price: number;
+}
+
+interface TrackedOption {
+  underlying: Underlying;
+  expiry: Date;
+  strike: number;
+  isCall: boolean;
+  session: number;             // Session open (ms) the baseline belongs to
+  open: OISample;
+  samples: OISample[];         // Oldest first
+}
+
+// ============================================================================
+// OI ANALYTICS
+// ============================================================================
+
+export class OIAnalytics {
+  private options: OIAnalyticsOptions;
+  private tracked: Map<number, TrackedOption> = new Map();
+  private series: Map<string, PCRPoint[]> = new Map();     // underlying:expiry, oldest first
+  private lastSampleSlot = 0;
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.onTick(event.payload);
+  };
+
+  constructor(options: Partial<OIAnalyticsOptions> = {}) {
+    this.options = {
+      sampleIntervalMs: options.sampleIntervalMs ?? OI_ANALYTICS.SAMPLE_INTERVAL_MS,
+      historyMinutes: options.historyMinutes ?? OI_ANALYTICS.HISTORY_MINUTES,
+      seriesMaxPoints: options.seriesMaxPoints ?? OI_ANALYTICS.SERIES_MAX_POINTS,
+      wallCount: options.wallCount ?? OI_ANALYTICS.WALL_COUNT,
+      bandStrikes: options.bandStrikes ?? OI_ANALYTICS.BAND_STRIKES,
+      minOIChangePct: options.minOIChangePct ?? OI_ANALYTICS.MIN_OI_CHANGE_PCT,
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start tracking from TICK events
+   */
+  start(): void {
+    if (this.running) return;
+    eventBus.on('TICK', this.tickHandler);
+    this.running = true;
+    marketDataLogger.info('OI analytics started', {
+      sampleIntervalMs: this.options.sampleIntervalMs,
+      historyMinutes: this.options.historyMinutes,
+    });
+  }
+
+  /**
+   * Stop tracking
+   */
+  stop(): void {
+    if (!this.running) return;
+    eventBus.off('TICK', this.tickHandler);
+    this.running = false;
+    marketDataLogger.info('OI analytics stopped');
+  }
+
+  // ==========================================================================
+  // UPDATES
+  // ==========================================================================
+
+  /**
+   * Capture session baselines and take a sample once per interval of tick time
+   */
+  onTick(tick: MarketTick): void {
+    if ((tick.instrumentType === 'CE' || tick.instrumentType === 'PE') && tick.strike && tick.expiry) {
+      const session = getSessionOpen(tick.timestamp).getTime();
+      const tracked = this.tracked.get(tick.instrumentToken);
+
+      if (!tracked || tracked.session !== session) {
+        this.tracked.set(tick.instrumentToken, {
+          underlying: tick.underlying,
+          expiry: tick.expiry,
+          strike: tick.strike,
+          isCall: tick.instrumentType === 'CE',
+          session,
+          open: { time: tick.timestamp.getTime(), oi: tick.oi, price: tick.ltp.toNumber() },
+          samples: [],
+        });
+      }
+    }
+
+    const slot = Math.floor(tick.timestamp.getTime() / this.options.sampleIntervalMs);
+    if (slot > this.lastSampleSlot) {
+      this.lastSampleSlot = slot;
+      this.sample(tick.timestamp);
+    }
+  }
+
+  /**
+   * Record OI and price of every tracked option, then a PCR / max pain
+   * point for every expiry
+   */
+  sample(now: Date): void {
+    const marketState = getMarketState();
+    const cutoff = now.getTime() - this.options.historyMinutes * 60 * 1000;
+    const session = getSessionOpen(now);
+    const expiries: Map<string, { underlying: Underlying; expiry: Date }> = new Map();
+
+    for (const [token, tracked] of this.tracked) {
+      if (hasExpired(tracked.expiry, now)) {
+        this.tracked.delete(token);
+        continue;
+      }
+
+      const state = marketState.getByToken(token);
+      if (state) {
+        tracked.samples.push({ time: now.getTime(), oi: state.oi, price: state.ltp.toNumber() });
+      }
+      while (tracked.samples.length > 0 && tracked.samples[0]!.time < cutoff) {
+        tracked.samples.shift();
+      }
+
+      expiries.set(seriesKey(tracked.underlying, tracked.expiry), {
+        underlying: tracked.underlying,
+        expiry: tracked.expiry,
+      });
+    }
+
+    for (const [key, { underlying, expiry }] of expiries) {
+      const strikes = this.collectStrikes(underlying, expiry);
+      if (strikes.length === 0) continue;
+
+      const { callOI, putOI } = sumOI(strikes);
+      let points = this.series.get(key);
+      if (!points || (points.length > 0 && points[0]!.timestamp < session)) {
+        // New session starts a new series
+        points = [];
+        this.series.set(key, points);
+      }
+      points.push({
+        timestamp: now,
+        spot: marketState.getSpotPrice(underlying).toNumber(),
+        callOI,
+        putOI,
+        pcr: ratio(putOI, callOI),
+        maxPain: computeMaxPain(strikes),
+      });
+      if (points.length > this.options.seriesMaxPoints) {
+        points.shift();
+      }
+    }
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Unexpired expiries with tracked options, nearest first
+   */
+  getExpiries(underlying: Underlying): Date[] {
+    const byTime: Map<number, Date> = new Map();
+    for (const tracked of this.tracked.values()) {
+      if (tracked.underlying === underlying) {
+        byTime.set(tracked.expiry.getTime(), tracked.expiry);
+      }
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  /**
+   * Full OI picture for an expiry (nearest if none given). Changes are
+   * measured from the session open, or from sinceMinutes ago when given.
+   */
+  getSnapshot(underlying: Underlying, expiry?: Date, sinceMinutes?: number): OISnapshot | undefined {
+    const resolved = this.resolveExpiry(underlying, expiry);
+    if (!resolved) return undefined;
+
+    const marketState = getMarketState();
+    const now = this.latestTime(underlying, resolved);
+    const baselineTime = sinceMinutes !== undefined ? now.getTime() - sinceMinutes * 60 * 1000 : undefined;
+    const strikes = this.collectStrikes(underlying, resolved, baselineTime);
+    if (strikes.length === 0) return undefined;
+
+    const spot = marketState.getSpotPrice(underlying).toNumber();
+    const { callOI, putOI } = sumOI(strikes);
+    let callOIChange = 0;
+    let putOIChange = 0;
+    for (const row of strikes) {
+      callOIChange += row.call?.oiChange ?? 0;
+      putOIChange += row.put?.oiChange ?? 0;
+    }
+
+    return {
+      underlying,
+      expiry: resolved,
+      timestamp: now,
+      since: new Date(baselineTime ?? this.sessionOpen(underlying, resolved)),
+      spot,
+      atmStrike: nearestStrike(strikes, spot),
+      callOI,
+      putOI,
+      callOIChange,
+      putOIChange,
+      pcr: ratio(putOI, callOI),
+      maxPain: computeMaxPain(strikes),
+      strikes,
+      resistance: topWalls(strikes, 'call', this.options.wallCount),
+      support: topWalls(strikes, 'put', this.options.wallCount),
+    };
+  }
+
+  /**
+   * Put-call ratio, over the whole chain or only strikes within
+   * bandStrikes of ATM
+   */
+  getPCR(underlying: Underlying, expiry?: Date, bandStrikes?: number): number | null {
+    const resolved = this.resolveExpiry(underlying, expiry);
+    if (!resolved) return null;
+
+    let strikes = this.collectStrikes(underlying, resolved);
+    if (bandStrikes !== undefined) {
+      const atm = nearestIndex(strikes, getMarketState().getSpotPrice(underlying).toNumber());
+      if (atm < 0) return null;
+      strikes = strikes.slice(Math.max(0, atm - bandStrikes), atm + bandStrikes + 1);
+    }
+
+    const { callOI, putOI } = sumOI(strikes);
+    return ratio(putOI, callOI);
+  }
+
+  /**
+   * PCR per band of bandStrikes strikes, with the ATM band centred on spot
+   */
+  getPCRByBand(underlying: Underlying, expiry?: Date, bandStrikes: number = this.options.bandStrikes): PCRBand[] {
+    const resolved = this.resolveExpiry(underlying, expiry);
+    if (!resolved) return [];
+
+    const strikes = this.collectStrikes(underlying, resolved);
+    const atm = nearestIndex(strikes, getMarketState().getSpotPrice(underlying).toNumber());
+    if (atm < 0 || bandStrikes < 1) return [];
+
+    // Offset so that the ATM strike sits in the middle of its band
+    const offset = ((atm - Math.floor(bandStrikes / 2)) % bandStrikes + bandStrikes) % bandStrikes;
+    const bands: PCRBand[] = [];
+
+    for (let i = offset - bandStrikes; i < strikes.length; i += bandStrikes) {
+      const slice = strikes.slice(Math.max(0, i), i + bandStrikes);
+      if (slice.length === 0) continue;
+      const { callOI, putOI } = sumOI(slice);
+      bands.push({
+        fromStrike: slice[0]!.strike,
+        toStrike: slice[slice.length - 1]!.strike,
+        callOI,
+        putOI,
+        pcr: ratio(putOI, callOI),
+      });
+    }
+
+    return bands;
+  }
+
+  /**
+   * Highest call OI (resistance) and put OI (support) strikes
+   */
+  getWalls(underlying: Underlying, expiry?: Date, count: number = this.options.wallCount): { resistance: OIWall[]; support: OIWall[] } {
+    const resolved = this.resolveExpiry(underlying, expiry);
+    if (!resolved) return { resistance: [], support: [] };
+
+    const strikes = this.collectStrikes(underlying, resolved);
+    return {
+      resistance: topWalls(strikes, 'call', count),
+      support: topWalls(strikes, 'put', count),
+    };
+  }
+
+  /**
+   * Current max pain strike
+   */
+  getMaxPain(underlying: Underlying, expiry?: Date): number | null {
+    const resolved = this.resolveExpiry(underlying, expiry);
+    if (!resolved) return null;
+    return computeMaxPain(this.collectStrikes(underlying, resolved));
+  }
+
+  /**
+   * PCR and max pain through the day, oldest first
+   */
+  getSeries(underlying: Underlying, expiry?: Date): PCRPoint[] {
+    const resolved = this.resolveExpiry(underlying, expiry);
+    if (!resolved) return [];
+    return [...(this.series.get(seriesKey(underlying, resolved)) ?? [])];
+  }
+
+  /**
+   * Get analytics statistics
+   */
+  getStats(): { options: number; samples: number; seriesPoints: number; running: boolean } {
+    let samples = 0;
+    for (const tracked of this.tracked.values()) samples += tracked.samples.length;
+    let seriesPoints = 0;
+    for (const points of this.series.values()) seriesPoints += points.length;
+    return { options: this.tracked.size, samples, seriesPoints, running: this.running };
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  /**
+   * Tracked expiry matching a requested date, or the nearest one
+   */
+  private resolveExpiry(underlying: Underlying, expiry?: Date): Date | undefined {
+    const expiries = this.getExpiries(underlying);
+    if (!expiry) return expiries[0];
+
+    const expStr = expiry.toISOString().split('T')[0];
+    return expiries.find(e => e.toISOString().split('T')[0] === expStr);
+  }
+
+  /**
+   * Current OI and price per strike with changes against a baseline
+   * (session open unless a baseline time is given)
+   */
+  private collectStrikes(underlying: Underlying, expiry: Date, baselineTime?: number): StrikeOI[] {
+    const marketState = getMarketState();
+    const byStrike: Map<number, StrikeOI> = new Map();
+
+    for (const [token, tracked] of this.tracked) {
+      if (tracked.underlying !== underlying) continue;
+      if (tracked.expiry.getTime() !== expiry.getTime()) continue;
+
+      const state = marketState.getByToken(token);
+      if (!state) continue;
+
+      const baseline = baselineTime !== undefined
+        ? sampleAt(tracked, baselineTime)
+        : tracked.open;
+      const oi = state.oi;
+      const price = state.ltp.toNumber();
+      const oiChange = oi - baseline.oi;
+      const priceChange = price - baseline.price;
+
+      let row = byStrike.get(tracked.strike);
+      if (!row) {
+        row = { strike: tracked.strike };
+        byStrike.set(tracked.strike, row);
+      }
+
+      const leg: OILegChange = {
+        oi,
+        oiChange,
+        price,
+        priceChange,
+        buildup: classifyBuildup(priceChange, oiChange, baseline.oi, this.options.minOIChangePct),
+      };
+      if (tracked.isCall) {
+        row.call = leg;
+      } else {
+        row.put = leg;
+      }
+    }
+
+    return Array.from(byStrike.values()).sort((a, b) => a.strike - b.strike);
+  }
+
+  private latestTime(underlying: Underlying, expiry: Date): Date {
+    const points = this.series.get(seriesKey(underlying, expiry));
+    let latest = points?.[points.length - 1]?.timestamp.getTime() ?? 0;
+    const marketState = getMarketState();
+
+    for (const [token, tracked] of this.tracked) {
+      if (tracked.underlying !== underlying || tracked.expiry.getTime() !== expiry.getTime()) continue;
+      const lastUpdate = marketState.getByToken(token)?.lastUpdate.getTime() ?? 0;
+      latest = Math.max(latest, lastUpdate);
+    }
+
+    return new Date(latest || clockNowMs());
+  }
+
+  private sessionOpen(underlying: Underlying, expiry: Date): number {
+    for (const tracked of this.tracked.values()) {
+      if (tracked.underlying === underlying && tracked.expiry.getTime() === expiry.getTime()) {
+        return tracked.session;
+      }
+    }
+    return clockNowMs();
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function seriesKey(underlying: Underlying, expiry: Date): string {
+  return `${underlying}:${expiry.toISOString().split('T')[0]}`;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+/**
+ * Latest sample at or before a time, falling back to the opening baseline
+ */
+function sampleAt(tracked: TrackedOption, time: number): OISample {
+  let found = tracked.open;
+  for (const sample of tracked.samples) {
+    if (sample.time > time) break;
+    found = sample;
+  }
+  return found;
+}
+
+/**
+ * Classic build-up reading of a price move against an OI move:
+ * new positions (OI up) follow the price direction, closing positions
+ * (OI down) go against it
+ */
+export function classifyBuildup(
+  priceChange: number,
+  oiChange: number,
+  baseOI: number,
+  minOIChangePct: number = OI_ANALYTICS.MIN_OI_CHANGE_PCT
+): OIBuildup {
+  if (priceChange === 0 || oiChange === 0) return 'NEUTRAL';
+  if (baseOI > 0 && Math.abs(oiChange) / baseOI < minOIChangePct) return 'NEUTRAL';
+
+  if (oiChange > 0) {
+    return priceChange > 0 ? 'LONG_BUILDUP' : 'SHORT_BUILDUP';
+  }
+  return priceChange > 0 ? 'SHORT_COVERING' : 'LONG_UNWINDING';
+}
+
+/**
+ * Strike at which option writers pay out the least if the underlying
+ * settles there
+ */
+export function computeMaxPain(strikes: StrikeOI[]): number | null {
+  if (strikes.length === 0) return null;
+
+  let best: number | null = null;
+  let bestPayout = Infinity;
+
+  for (const { strike: settle } of strikes) {
+    let payout = 0;
+    for (const row of strikes) {
+      if (row.call && settle > row.strike) payout += (settle - row.strike) * row.call.oi;
+      if (row.put && settle < row.strike) payout += (row.strike - settle) * row.put.oi;
+    }
+    if (payout < bestPayout) {
+      bestPayout = payout;
+      best = settle;
+    }
+  }
+
+  return best;
+}
+
+function sumOI(strikes: StrikeOI[]): { callOI: number; putOI: number } {
+  let callOI = 0;
+  let putOI = 0;
+  for (const row of strikes) {
+    callOI += row.call?.oi ?? 0;
+    putOI += row.put?.oi ?? 0;
+  }
+  return { callOI, putOI };
+}
+
+function topWalls(strikes: StrikeOI[], side: 'call' | 'put', count: number): OIWall[] {
+  return strikes
+    .filter(row => row[side] && row[side]!.oi > 0)
+    .map(row => ({ strike: row.strike, oi: row[side]!.oi, oiChange: row[side]!.oiChange }))
+    .sort((a, b) => b.oi - a.oi)
+    .slice(0, count);
+}
+
+function nearestIndex(strikes: StrikeOI[], spot: number): number {
+  if (strikes.length === 0 || !(spot > 0)) return -1;
+  let best = 0;
+  for (let i = 1; i < strikes.length; i++) {
+    if (Math.abs(strikes[i]!.strike - spot) < Math.abs(strikes[best]!.strike - spot)) best = i;
+  }
+  return best;
+}
+
+function nearestStrike(strikes: StrikeOI[], spot: number): number | null {
+  const index = nearestIndex(strikes, spot);
+  return index >= 0 ? strikes[index]!.strike : null;
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let oiAnalytics: OIAnalytics | null = null;
+
+/**
+ * Get OIAnalytics singleton
+ */
+export function getOIAnalytics(options?: Partial<OIAnalyticsOptions>): OIAnalytics {
+  if (!oiAnalytics) {
+    oiAnalytics = new OIAnalytics(options);
+  }
+  return oiAnalytics;
+}
+
+/**
+ * Reset OIAnalytics (for testing)
+ */
+export function resetOIAnalytics(): void {
+  oiAnalytics?.stop();
+  oiAnalytics = null;
+}
@@ -0,0 +1,451 @@
+/**
+ * REST Quote Fallback for NSE Options Paper Trading
+ *
+ * When the Kite WebSocket is disconnected or reconnecting, market state
+ * would otherwise go stale while monitors keep marking P&L on old prices.
+ * After a short grace period this polls the REST quote endpoint for open
+ * position tokens, spot, and the ATM window held by the subscription
+ * manager, and publishes the quotes through the same tick path as the
+ * socket. Polling stops as soon as the socket reports connected again.
+ *
+ * Requests stay within ZERODHA.RATE_LIMIT_PER_SECOND. Every switch between
+ * the socket and REST emits MARKET_DATA_SOURCE_CHANGED.
+ *
+ * The quote endpoint is anything with KiteConnect's getQuote signature,
+ * so a local stub is enough to exercise it.
+ */
+
+import { eventBus } from '../core/events.js';
+import { QUOTE_FALLBACK, ZERODHA, INDIA_VIX, SPOT_TOKENS, UNDERLYING_SPECS } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { toDecimal } from '../utils/decimal.js';
+import { sleep } from '../utils/date.js';
+import { getPositionManager } from '../position/position-manager.js';
+import { publishTick } from './market-data-source.js';
+import type { EventHandler } from '../core/events.js';
+import type { KiteConnect } from 'kiteconnect';
+import type { MarketDataSource } from './market-data-source.js';
+import type { InstrumentManager } from './instrument-manager.js';
+import type { SubscriptionManager } from './subscription-manager.js';
+import type {
+  DepthLevel,
+  InstrumentType,
+  MarketDataFeed,
+  MarketTick,
+  OrderBookDepth,
+  Underlying,
+} from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KiteQuote = Awaited<ReturnType<InstanceType<typeof KiteConnect>['getQuote']>>[string];
+
+/**
+ * REST quote endpoint, keyed by `EXCHANGE:TRADINGSYMBOL`
+ */
+export interface QuoteSource {
+  getQuote(instruments: string[]): Promise<Record<string, KiteQuote>>;
+}
+
+export interface QuoteFallbackOptions {
+  pollIntervalMs: number;
+  fallbackDelayMs: number;
+  maxTokens: number;
+  maxRequestsPerSecond: number;
+}
+
+export interface QuoteFallbackStats {
+  feed: MarketDataFeed;
+  polls: number;
+  requests: number;
+  quotes: number;
+  errors: number;
+  switches: number;
+  lastPollAt: Date | null;
+  lastError: string | null;
+  running: boolean;
+}
+
+// ============================================================================
+// QUOTE FALLBACK
+// ============================================================================
+
+export class QuoteFallback {
+  private options: QuoteFallbackOptions;
+  private feed: MarketDataFeed = 'websocket';
+  private downSince: number | null = null;
+  private polling = false;
+  private requestTimes: number[] = [];     // Recent request start times, oldest first
+  private pollInterval?: NodeJS.Timeout;
+  private running = false;
+  private stats = { polls: 0, requests: 0, quotes: 0, errors: 0, switches: 0 };
+  private lastPollAt: Date | null = null;
+  private lastError: string | null = null;
+
+  private readonly socketHandler: EventHandler<'WEBSOCKET_CONNECTED' | 'WEBSOCKET_DISCONNECTED'> = () => {
+    this.evaluate();
+  };
+
+  constructor(
+    private socket: MarketDataSource,
+    private quotes: QuoteSource,
+    private instrumentManager: InstrumentManager,
+    private subscriptions: SubscriptionManager | null = null,
+    options: Partial<QuoteFallbackOptions> = {}
+  ) {
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? QUOTE_FALLBACK.POLL_INTERVAL_MS,
+      fallbackDelayMs: options.fallbackDelayMs ?? QUOTE_FALLBACK.FALLBACK_DELAY_MS,
+      maxTokens: options.maxTokens ?? QUOTE_FALLBACK.MAX_TOKENS,
+      maxRequestsPerSecond: Math.min(
+        options.maxRequestsPerSecond ?? ZERODHA.RATE_LIMIT_PER_SECOND,
+        ZERODHA.RATE_LIMIT_PER_SECOND
+      ),
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start watching the socket
+   */
+  start(): void {
+    if (this.running) return;
+
+    eventBus.on('WEBSOCKET_CONNECTED', this.socketHandler);
+    eventBus.on('WEBSOCKET_DISCONNECTED', this.socketHandler);
+    this.pollInterval = setInterval(() => void this.check(), this.options.pollIntervalMs);
+    this.running = true;
+
+    marketDataLogger.info('Quote fallback armed', {
+      pollIntervalMs: this.options.pollIntervalMs,
+      fallbackDelayMs: this.options.fallbackDelayMs,
+      maxRequestsPerSecond: this.options.maxRequestsPerSecond,
+    });
+
+    this.evaluate();
+  }
+
+  /**
+   * Stop watching (and polling)
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    eventBus.off('WEBSOCKET_CONNECTED', this.socketHandler);
+    eventBus.off('WEBSOCKET_DISCONNECTED', this.socketHandler);
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+    this.running = false;
+
+    marketDataLogger.info('Quote fallback stopped', { feed: this.feed, ...this.stats });
+  }
+
+  // ==========================================================================
+  // SWITCHING
+  // ==========================================================================
+
+  /**
+   * Switch to REST once the socket has been down for the grace period,
+   * and back as soon as it reconnects
+   */
+  evaluate(now: number = Date.now()): MarketDataFeed {
+    if (this.socket.isConnected()) {
+      this.downSince = null;
+      if (this.feed === 'rest') this.switchTo('websocket', 'WebSocket reconnected');
+      return this.feed;
+    }
+
+    if (this.downSince === null) this.downSince = now;
+    if (this.feed === 'websocket' && now - this.downSince >= this.options.fallbackDelayMs) {
+      this.switchTo('rest', `WebSocket down for ${Math.round((now - this.downSince) / 1000)}s`);
+    }
+    return this.feed;
+  }
+
+  private switchTo(feed: MarketDataFeed, reason: string): void {
+    const from = this.feed;
+    this.feed = feed;
+    this.stats.switches++;
+
+    const tokens = feed === 'rest' ? this.getPollTokens().length : this.socket.getSubscribedTokens().length;
+    if (feed === 'rest') {
+      marketDataLogger.warn('Market data feed switched to REST polling', { from, reason, tokens });
+    } else {
+      marketDataLogger.info('Market data feed switched back to WebSocket', { from, reason, tokens });
+    }
+
+    eventBus.emit('MARKET_DATA_SOURCE_CHANGED', {
+      from,
+      to: feed,
+      reason,
+      tokens,
+      timestamp: new Date(),
+    });
+  }
+
+  private async check(): Promise<void> {
+    if (this.evaluate() === 'rest') {
+      await this.poll();
+    }
+  }
+
+  // ==========================================================================
+  // POLLING
+  // ==========================================================================
+
+  /**
+   * Fetch quotes for the poll set and publish them as ticks.
+   * Returns the number of ticks published.
+   */
+  async poll(): Promise<number> {
+    if (this.polling) return 0;     // Previous cycle still waiting on the rate limit
+    this.polling = true;
+
+    let published = 0;
+    try {
+      const keys = this.getPollTokens()
+        .map(token => this.instrumentKey(token))
+        .filter((key): key is string => key !== undefined);
+
+      for (let i = 0; i < keys.length; i += ZERODHA.MAX_QUOTE_INSTRUMENTS) {
+        // Socket came back mid-cycle
+        if (this.feed !== 'rest') break;
+
+        await this.acquire();
+        this.stats.requests++;
+        try {
+          const result = await this.quotes.getQuote(keys.slice(i, i + ZERODHA.MAX_QUOTE_INSTRUMENTS));
+          published += this.publishQuotes(result);
+        } catch (error) {
+          this.stats.errors++;
+          this.lastError = (error as Error).message;
+          marketDataLogger.warn('Quote poll failed', { error: this.lastError });
+        }
+      }
+
+      this.stats.polls++;
+      this.lastPollAt = new Date();
+    } finally {
+      this.polling = false;
+    }
+
+    return published;
+  }
+
+  /**
+   * Open positions first, then spot and India VIX, then the subscription window
+   * (already ordered outwards from ATM), up to maxTokens
+   */
+  getPollTokens(): number[] {
+    const tokens = new Set<number>();
+
+    for (const position of getPositionManager().getAllPositions()) {
+      tokens.add(position.instrumentToken);
+    }
+    for (const underlying of this.instrumentManager.getLoadedUnderlyings()) {
+      tokens.add(SPOT_TOKENS[underlying]);
+    }
+    tokens.add(INDIA_VIX.TOKEN);
+    for (const token of this.subscriptions?.getTokens() ?? []) {
+      tokens.add(token);
+    }
+
+    return Array.from(tokens).slice(0, this.options.maxTokens);
+  }
+
+  /**
+   * Wait until a request fits in the per-second budget
+   */
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.requestTimes.length > 0 && now - this.requestTimes[0]! >= 1000) {
+        this.requestTimes.shift();
+      }
+      if (this.requestTimes.length < this.options.maxRequestsPerSecond) {
+        this.requestTimes.push(now);
+        return;
+      }
+      await sleep(1000 - (now - this.requestTimes[0]!));
+    }
+  }
+
+  private publishQuotes(result: Record<string, KiteQuote>): number {
+    let published = 0;
+    const now = new Date();
+
+    for (const quote of Object.values(result)) {
+      const tick = this.toTick(quote, now);
+      if (!tick) continue;
+      publishTick(tick);
+      published++;
+    }
+
+    this.stats.quotes += published;
+    return published;
+  }
+
+  // ==========================================================================
+  // NORMALIZATION
+  // ==========================================================================
+
+  /**
+   * `EXCHANGE:TRADINGSYMBOL` key the quote endpoint expects
+   */
+  private instrumentKey(token: number): string | undefined {
+    if (token === INDIA_VIX.TOKEN) return INDIA_VIX.SYMBOL;
+    const underlying = spotUnderlying(token);
+    if (underlying) return UNDERLYING_SPECS[underlying].spotSymbol;
+
+    const instrument = this.instrumentManager.getInstrument(token);
+    return instrument ? `${instrument.exchange}:${instrument.tradingSymbol}` : undefined;
+  }
+
+  private toTick(quote: KiteQuote, now: Date): MarketTick | null {
+    if (!(quote.last_price > 0)) return null;
+
+    const depth = normalizeDepth(quote.depth);
+    const bestBid = depth?.buy.find(level => level.price.greaterThan(0));
+    const bestAsk = depth?.sell.find(level => level.price.greaterThan(0));
+    const ltp = toDecimal(quote.last_price);
+    const lastTradeTime = quote.last_trade_time ? new Date(quote.last_trade_time) : now;
+
+    const common = {
+      instrumentToken: quote.instrument_token,
+      ltp,
+      bid: bestBid?.price ?? ltp,
+      ask: bestAsk?.price ?? ltp,
+      bidQty: bestBid?.quantity ?? 0,
+      askQty: bestAsk?.quantity ?? 0,
+      volume: quote.volume ?? 0,
+      lastTradeTime: isNaN(lastTradeTime.getTime()) ? now : lastTradeTime,
+      timestamp: now,
+      depth,
+    };
+
+    if (quote.instrument_token === INDIA_VIX.TOKEN) {
+      return {
+        ...common,
+        tradingSymbol: INDIA_VIX.TRADING_SYMBOL,
+        underlying: INDIA_VIX.UNDERLYING,
+        instrumentType: 'VIX',
+        oi: 0,
+        oiDayHigh: 0,
+        oiDayLow: 0,
+      };
+    }
+
+    const underlying = spotUnderlying(quote.instrument_token);
+    if (underlying) {
+      return {
+        ...common,
+        tradingSymbol: underlying,
+        underlying,
+        instrumentType: 'SPOT',
+        oi: 0,
+        oiDayHigh: 0,
+        oiDayLow: 0,
+      };
+    }
+
+    const instrument = this.instrumentManager.getInstrument(quote.instrument_token);
+    if (!instrument?.underlying) return null;
+
+    return {
+      ...common,
+      tradingSymbol: instrument.tradingSymbol,
+      underlying: instrument.underlying,
+      instrumentType: instrument.instrumentType as InstrumentType,
+      strike: instrument.strike,
+      expiry: instrument.expiry,
+      oi: quote.oi ?? quote.open_interest ?? 0,
+      oiDayHigh: quote.oi_day_high ?? 0,
+      oiDayLow: quote.oi_day_low ?? 0,
+    };
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Feed currently driving market state
+   */
+  getFeed(): MarketDataFeed {
+    return this.feed;
+  }
+
+  /**
+   * Get fallback statistics
+   */
+  getStats(): QuoteFallbackStats {
+    return {
+      feed: this.feed,
+      ...this.stats,
+      lastPollAt: this.lastPollAt,
+      lastError: this.lastError,
+      running: this.running,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function spotUnderlying(token: number): Underlying | undefined {
+  const entry = Object.entries(SPOT_TOKENS).find(([, spotToken]) => spotToken === token);
+  return entry?.[0] as Underlying | undefined;
+}
+
+function normalizeDepth(raw?: KiteQuote['depth']): OrderBookDepth | undefined {
+  if (!raw) return undefined;
+
+  const normalizeLevel = (level: { price: number; quantity: number; orders: number }): DepthLevel => ({
+    price: toDecimal(level.price),
+    quantity: level.quantity,
+    orders: level.orders,
+  });
+
+  return {
+    buy: raw.buy.map(normalizeLevel),
+    sell: raw.sell.map(normalizeLevel),
+  };
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let quoteFallback: QuoteFallback | null = null;
+
+/**
+ * Get or create QuoteFallback
+ */
+export function getQuoteFallback(
+  socket: MarketDataSource,
+  quotes: QuoteSource,
+  instrumentManager: InstrumentManager,
+  subscriptions: SubscriptionManager | null = null,
+  options?: Partial<QuoteFallbackOptions>
+): QuoteFallback {
+  if (!quoteFallback) {
+    quoteFallback = new QuoteFallback(socket, quotes, instrumentManager, subscriptions, options);
+  }
+  return quoteFallback;
+}
+
+/**
+ * Reset QuoteFallback (for testing)
+ */
+export function resetQuoteFallback(): void {
+  quoteFallback?.stop();
+  quoteFallback = null;
+}
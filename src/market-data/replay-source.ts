@@ -0,0 +1,509 @@
+/**
+ * Replay Market Data Source for NSE Options Paper Trading
+ *
+ * Reads tick files written by the TickRecorder and pushes them through the
+ * same TICK path as the live WebSocket, so FillEngine, PositionManager,
+ * RobustMonitor and KillSwitch can be exercised offline without a login.
+ *
+ * Ticks keep their recorded timestamps: spot velocity and anything else that
+ * uses tick time behaves as it did in the original session, at any speed.
+ * Publishing a tick advances the engine clock (utils/clock.ts) to its
+ * recorded time, so DTE, time to expiry and staleness follow the replay.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MarketDataError } from '../core/errors.js';
+import { REPLAY, getLotSize, getUnderlyingSpec } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { setReplayTime } from '../utils/clock.js';
+import { readTickFile } from './tick-recorder.js';
+import { getInstrumentManager } from './instrument-manager.js';
+import { publishTick } from './market-data-source.js';
+import type { MarketDataSource, TickerMode } from './market-data-source.js';
+import type { Instrument, MarketTick } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Playback speed: a multiple of real time, or as fast as possible
+ */
+export type ReplaySpeed = number | 'max';
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface ReplayOptions {
+  speed?: ReplaySpeed;
+  registerInstruments?: boolean;  // Populate InstrumentManager from recorded ticks
+}
+
+export interface ReplayStatus {
+  state: ReplayState;
+  speed: ReplaySpeed;
+  position: Date | null;
+  start: Date | null;
+  end: Date | null;
+  published: number;
+  total: number;
+  files: string[];
+}
+
+// ============================================================================
+// TICK CURSOR
+// ============================================================================
+
+/**
+ * Lazily merges several tick files into one stream ordered by timestamp
+ */
+class TickCursor {
+  private heads: { iterator: Generator<MarketTick>; next?: MarketTick }[];
+
+  constructor(files: string[]) {
+    this.heads = files.map(file => {
+      const iterator = readTickFile(file);
+      return { iterator, next: iterator.next().value ?? undefined };
+    });
+  }
+
+  /**
+   * Look at the earliest pending tick without consuming it
+   */
+  peek(): MarketTick | undefined {
+    return this.earliest()?.next;
+  }
+
+  /**
+   * Consume the earliest pending tick
+   */
+  next(): MarketTick | undefined {
+    const head = this.earliest();
+    if (!head) return undefined;
+
+    const tick = head.next;
+    head.next = head.iterator.next().value ?? undefined;
+    return tick;
+  }
+
+  private earliest(): { iterator: Generator<MarketTick>; next?: MarketTick } | undefined {
+    let best: { iterator: Generator<MarketTick>; next?: MarketTick } | undefined;
+    for (const head of this.heads) {
+      if (!head.next) continue;
+      if (!best || head.next.timestamp.getTime() < best.next!.timestamp.getTime()) {
+        best = head;
+      }
+    }
+    return best;
+  }
+}
+
+// ============================================================================
+// REPLAY MARKET DATA SOURCE
+// ============================================================================
+
+export class ReplayMarketDataSource implements MarketDataSource {
+  readonly kind = 'replay' as const;
+  private files: string[] = [];
+  private cursor: TickCursor | null = null;
+  private connected = false;
+  private state: ReplayState = 'idle';
+  private speed: ReplaySpeed;
+  private registerInstruments: boolean;
+  private subscriptions: Set<number> = new Set();
+  private timer?: NodeJS.Timeout;
+
+  // Replay clock: recorded time of the last consumed tick
+  private position: number | null = null;
+  private start: number | null = null;
+  private end: number | null = null;
+  private published = 0;
+  private total = 0;
+
+  // Maps recorded time onto wall-clock time while playing
+  private anchorWall = 0;
+  private anchorReplay = 0;
+
+  constructor(private source: string, options: ReplayOptions = {}) {
+    this.speed = options.speed ?? REPLAY.DEFAULT_SPEED;
+    this.registerInstruments = options.registerInstruments ?? true;
+    this.validateSpeed(this.speed);
+  }
+
+  /**
+   * Open the tick files and index their instruments
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      marketDataLogger.debug('Replay source already connected');
+      return;
+    }
+
+    this.files = this.resolveFiles(this.source);
+    const instruments = this.scan();
+
+    if (this.registerInstruments) {
+      getInstrumentManager(null).addInstruments(instruments);
+    }
+
+    this.cursor = new TickCursor(this.files);
+    this.connected = true;
+    this.state = 'paused';
+
+    marketDataLogger.info('Replay source ready', {
+      files: this.files.length,
+      ticks: this.total,
+      instruments: instruments.length,
+      start: this.start ? new Date(this.start).toISOString() : null,
+      end: this.end ? new Date(this.end).toISOString() : null,
+    });
+  }
+
+  /**
+   * Stop playback and release the files
+   */
+  disconnect(): void {
+    this.clearTimer();
+    this.cursor = null;
+    this.connected = false;
+    this.state = 'idle';
+    setReplayTime(null);
+    marketDataLogger.info('Replay source disconnected', { published: this.published });
+  }
+
+  /**
+   * Limit playback to these instruments (no subscriptions = everything recorded)
+   */
+  subscribe(tokens: number[]): void {
+    tokens.forEach(t => this.subscriptions.add(t));
+  }
+
+  /**
+   * Remove instruments from playback
+   */
+  unsubscribe(tokens: number[]): void {
+    tokens.forEach(t => this.subscriptions.delete(t));
+  }
+
+  /**
+   * Recorded ticks carry whatever detail they were captured with
+   */
+  setMode(mode: TickerMode): void {
+    marketDataLogger.debug('Replay ignores subscription mode', { mode });
+  }
+
+  /**
+   * Get connection status
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Get subscribed tokens
+   */
+  getSubscribedTokens(): number[] {
+    return Array.from(this.subscriptions);
+  }
+
+  // ==========================================================================
+  // PLAYBACK CONTROLS
+  // ==========================================================================
+
+  /**
+   * Start or resume playback
+   */
+  play(): void {
+    this.requireConnected();
+    if (this.state === 'playing' || this.state === 'finished') return;
+
+    this.state = 'playing';
+    this.reanchor();
+    this.scheduleNext(0);
+    marketDataLogger.info('Replay playing', { speed: this.speed });
+  }
+
+  /**
+   * Pause playback
+   */
+  pause(): void {
+    if (this.state !== 'playing') return;
+
+    this.clearTimer();
+    this.state = 'paused';
+    marketDataLogger.info('Replay paused', { position: this.getPosition()?.toISOString() });
+  }
+
+  /**
+   * Change playback speed (takes effect immediately)
+   */
+  setSpeed(speed: ReplaySpeed): void {
+    this.validateSpeed(speed);
+    this.speed = speed;
+    this.reanchor();
+  }
+
+  /**
+   * Jump to a point in the session. Skipped ticks are not published
+   * individually; the latest tick per instrument at the target time is
+   * published so market state reflects that moment.
+   */
+  seek(time: Date): number {
+    this.requireConnected();
+    const target = time.getTime();
+
+    // Rewind by reopening the files
+    if (this.position !== null && target < this.position) {
+      this.cursor = new TickCursor(this.files);
+    }
+
+    const latest: Map<number, MarketTick> = new Map();
+    let next = this.cursor!.peek();
+    while (next && next.timestamp.getTime() <= target) {
+      const tick = this.cursor!.next()!;
+      if (this.isSubscribed(tick)) {
+        latest.set(tick.instrumentToken, tick);
+      }
+      next = this.cursor!.peek();
+    }
+
+    const snapshot = Array.from(latest.values())
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    snapshot.forEach(tick => this.publish(tick));
+
+    this.position = target;
+    setReplayTime(target);
+    if (this.state === 'finished' && next) {
+      this.state = 'paused';
+    }
+    this.reanchor();
+
+    marketDataLogger.info('Replay seeked', { position: time.toISOString(), snapshot: snapshot.length });
+    return snapshot.length;
+  }
+
+  /**
+   * Publish the next N ticks immediately (pauses playback first)
+   */
+  step(count = 1): number {
+    this.requireConnected();
+    this.pause();
+
+    let stepped = 0;
+    while (stepped < count) {
+      const tick = this.cursor!.next();
+      if (!tick) {
+        this.finish();
+        break;
+      }
+      this.position = tick.timestamp.getTime();
+      if (this.isSubscribed(tick)) {
+        this.publish(tick);
+        stepped++;
+      }
+    }
+    return stepped;
+  }
+
+  /**
+   * Get playback status
+   */
+  getStatus(): ReplayStatus {
+    return {
+      state: this.state,
+      speed: this.speed,
+      position: this.getPosition(),
+      start: this.start !== null ? new Date(this.start) : null,
+      end: this.end !== null ? new Date(this.end) : null,
+      published: this.published,
+      total: this.total,
+      files: [...this.files],
+    };
+  }
+
+  /**
+   * Current replay clock (recorded time of the last tick consumed)
+   */
+  getPosition(): Date | null {
+    return this.position !== null ? new Date(this.position) : null;
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Publish every tick that is due, then wait for the next one
+   */
+  private drain(): void {
+    if (this.state !== 'playing' || !this.cursor) return;
+
+    if (this.speed === 'max') {
+      for (let i = 0; i < REPLAY.MAX_SPEED_BATCH; i++) {
+        if (this.state !== 'playing') return;  // Paused by a TICK listener
+        const tick = this.cursor.next();
+        if (!tick) {
+          this.finish();
+          return;
+        }
+        this.consume(tick);
+      }
+      // Yield so timers (latency, fills, monitors) get to run
+      this.scheduleNext(0);
+      return;
+    }
+
+    let next = this.cursor.peek();
+    while (next) {
+      const due = this.dueAt(next);
+      const now = Date.now();
+      if (due > now) {
+        this.scheduleNext(due - now);
+        return;
+      }
+      this.consume(this.cursor.next()!);
+      next = this.cursor.peek();
+    }
+
+    this.finish();
+  }
+
+  /**
+   * Advance the replay clock to a tick and publish it if subscribed
+   */
+  private consume(tick: MarketTick): void {
+    this.position = tick.timestamp.getTime();
+    if (this.isSubscribed(tick)) {
+      this.publish(tick);
+    }
+  }
+
+  /**
+   * Wall-clock time a tick should be published at
+   */
+  private dueAt(tick: MarketTick): number {
+    const ts = tick.timestamp.getTime();
+
+    // Compress long gaps (lunch lull, recorder restarts) so 1x does not stall
+    if (this.position !== null && ts - this.position > REPLAY.MAX_GAP_MS) {
+      this.anchorReplay += ts - this.position - REPLAY.MAX_GAP_MS;
+      this.position = ts - REPLAY.MAX_GAP_MS;
+    }
+
+    return this.anchorWall + (ts - this.anchorReplay) / (this.speed as number);
+  }
+
+  private publish(tick: MarketTick): void {
+    setReplayTime(tick.timestamp);
+    try {
+      publishTick(tick);
+      this.published++;
+    } catch (error) {
+      marketDataLogger.debug('Failed to replay tick', {
+        token: tick.instrumentToken,
+        error: String(error),
+      });
+    }
+  }
+
+  private isSubscribed(tick: MarketTick): boolean {
+    return this.subscriptions.size === 0 || this.subscriptions.has(tick.instrumentToken);
+  }
+
+  private reanchor(): void {
+    this.anchorWall = Date.now();
+    this.anchorReplay = this.position ?? this.cursor?.peek()?.timestamp.getTime() ?? 0;
+  }
+
+  private scheduleNext(delayMs: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => this.drain(), delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private finish(): void {
+    this.clearTimer();
+    this.state = 'finished';
+    marketDataLogger.info('Replay finished', { published: this.published, total: this.total });
+  }
+
+  private requireConnected(): void {
+    if (!this.connected || !this.cursor) {
+      throw new MarketDataError('Replay source is not connected', { source: this.source });
+    }
+  }
+
+  private validateSpeed(speed: ReplaySpeed): void {
+    if (speed !== 'max' && !(speed > 0)) {
+      throw new MarketDataError(`Invalid replay speed: ${speed}`, { speed });
+    }
+  }
+
+  /**
+   * Resolve a tick file, or a session directory of tick files
+   */
+  private resolveFiles(source: string): string[] {
+    if (!fs.existsSync(source)) {
+      throw new MarketDataError(`Replay source not found: ${source}`, { source });
+    }
+
+    if (!fs.statSync(source).isDirectory()) {
+      return [source];
+    }
+
+    const files = fs.readdirSync(source)
+      .filter(f => f.endsWith('.ticks'))
+      .sort()
+      .map(f => path.join(source, f));
+
+    if (files.length === 0) {
+      throw new MarketDataError(`No tick files in ${source}`, { source });
+    }
+    return files;
+  }
+
+  /**
+   * One pass over the files for time range, tick count and instruments
+   */
+  private scan(): Instrument[] {
+    const instruments: Map<number, Instrument> = new Map();
+    this.total = 0;
+    this.start = null;
+    this.end = null;
+
+    for (const file of this.files) {
+      for (const tick of readTickFile(file)) {
+        const ts = tick.timestamp.getTime();
+        this.start = this.start === null ? ts : Math.min(this.start, ts);
+        this.end = this.end === null ? ts : Math.max(this.end, ts);
+        this.total++;
+
+        if (tick.instrumentType === 'SPOT' || tick.instrumentType === 'VIX' || instruments.has(tick.instrumentToken)) continue;
+
+        const exchange = getUnderlyingSpec(tick.underlying).exchange;
+        instruments.set(tick.instrumentToken, {
+          instrumentToken: tick.instrumentToken,
+          exchangeToken: 0,
+          tradingSymbol: tick.tradingSymbol,
+          name: tick.underlying,
+          exchange,
+          segment: tick.instrumentType === 'FUT' ? `${exchange}-FUT` : `${exchange}-OPT`,
+          instrumentType: tick.instrumentType,
+          strike: tick.strike,
+          expiry: tick.expiry,
+          lotSize: getLotSize(tick.underlying),
+          tickSize: 0.05,
+          underlying: tick.underlying,
+        });
+      }
+    }
+
+    return Array.from(instruments.values());
+  }
+}
@@ -1,17 +1,30 @@
 /**
  * Spot Price Tracker for NSE Options Paper Trading
  *
- * Tracks spot price velocity and acceleration.
+ * Tracks spot price velocity and acceleration, and the India VIX level
+ * with its intraday change, historical percentile and regime.
  * Used for slippage calculation and IV inflation modeling.
+ *
+ * Also reports realized volatility of each index from candles (plus daily
+ * bars loaded from Kite history), its volatility cone, and the spread of
+ * ATM implied volatility over realized.
  */
 
 import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
-import { SLIPPAGE } from '../core/constants.js';
+import { INDIA_VIX, PRICING, REALIZED_VOL, SLIPPAGE, SPOT_TOKENS, UNDERLYINGS, getVixRegime } from '../core/constants.js';
 import { logger } from '../utils/logger.js';
+import { formatIST, timeToExpiryYears } from '../utils/date.js';
 import { toDecimal, ZERO } from '../utils/decimal.js';
-import type { Underlying, SpotMovement, SpotSample, SpotDirection } from '../core/types.js';
+import { calculateIV } from '../pricing/iv-calculator.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { calculateRealizedVol, calculateVolCone, periodsPerYear } from '../pricing/realized-vol.js';
+import type { OHLCBar, RealizedVolEstimator, VolConePoint } from '../pricing/realized-vol.js';
+import { getCandleAggregator } from './candle-aggregator.js';
+import { getInstrumentManager } from './instrument-manager.js';
+import { getMarketState } from './market-state.js';
+import type { CandleInterval, Underlying, SpotMovement, SpotSample, SpotDirection, VixRegime, VixState } from '../core/types.js';
 
 // ============================================================================
 // CONFIGURATION
@@ -21,6 +34,53 @@ const SAMPLE_WINDOW_SIZE = 10;      // Keep last 10 samples
 const SAMPLE_INTERVAL_MS = 500;     // Sample every 500ms
 const VELOCITY_WINDOW_MS = 5000;    // Calculate velocity over 5 seconds
 
+/**
+ * India VIX for the current IST session
+ */
+interface VixSession {
+  day: string;          // yyyy-MM-dd (IST)
+  open: Decimal;
+  high: Decimal;
+  low: Decimal;
+  last: Decimal;
+  timestamp: Date;
+}
+
+interface VixClose {
+  day: string;
+  close: number;
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Realized vol of one lookback under every estimator
+ */
+export interface RealizedVolSnapshot {
+  lookback: number;                 // Bars
+  closeToClose: number | null;
+  parkinson: number | null;
+  garmanKlass: number | null;
+  yangZhang: number | null;
+}
+
+/**
+ * Nearest-expiry ATM implied vol against realized vol
+ */
+export interface RealizedVsImplied {
+  underlying: Underlying;
+  expiry: Date;
+  strike: number;
+  impliedVol: number;
+  realizedVol: number;
+  estimator: RealizedVolEstimator;
+  lookback: number;
+  spread: number;                   // implied - realized (vol points as a decimal)
+  ratio: number;                    // implied / realized
+}
+
 // ============================================================================
 // SPOT TRACKER
 // ============================================================================
@@ -29,10 +89,14 @@ export class SpotTracker {
   private samples: Map<Underlying, SpotSample[]> = new Map();
   private lastSampleTime: Map<Underlying, number> = new Map();
   private movements: Map<Underlying, SpotMovement> = new Map();
+  private vix: VixSession | null = null;
+  private vixCloses: VixClose[] = [];   // Daily closes, oldest first
+  private vixSpiking = false;
+  private dailyBars: Map<Underlying, Map<string, OHLCBar>> = new Map();   // IST day -> bar
 
   constructor() {
     // Initialize for each underlying
-    for (const underlying of ['NIFTY', 'BANKNIFTY', 'FINNIFTY'] as Underlying[]) {
+    for (const underlying of UNDERLYINGS) {
       this.samples.set(underlying, []);
       this.movements.set(underlying, {
         underlying,
@@ -309,6 +373,296 @@ export class SpotTracker {
     return stdDev.times(100);  // As percentage
   }
 
+  // ==========================================================================
+  // INDIA VIX
+  // ==========================================================================
+
+  /**
+   * Update India VIX (called on each VIX tick)
+   */
+  updateVix(price: Decimal, timestamp: Date = new Date()): void {
+    if (!price.greaterThan(0)) return;
+    const day = formatIST(timestamp, 'yyyy-MM-dd');
+
+    if (this.vix && day < this.vix.day) return;   // Late tick from a finished session
+
+    if (!this.vix || day !== this.vix.day) {
+      const previous = this.vix;
+      this.vix = { day, open: price, high: price, low: price, last: price, timestamp };
+      this.vixSpiking = false;
+      // A seeded close for today would be a partial bar
+      this.vixCloses = this.vixCloses.filter(c => c.day < day);
+      if (previous) {
+        this.recordVixClose(previous.day, previous.last.toNumber());
+      }
+    } else {
+      this.vix.high = Decimal.max(this.vix.high, price);
+      this.vix.low = Decimal.min(this.vix.low, price);
+      this.vix.last = price;
+      this.vix.timestamp = timestamp;
+    }
+
+    const spike = this.isVixSpike();
+    if (spike && !this.vixSpiking) {
+      logger.warn('India VIX spike detected', {
+        vix: price.toFixed(2),
+        changePct: (this.getVixChangePct() * 100).toFixed(1),
+      });
+    }
+    this.vixSpiking = spike;
+  }
+
+  /**
+   * Load daily India VIX closes (e.g. from Kite historical data) for the percentile
+   */
+  seedVixHistory(closes: Array<{ date: Date; close: number }>): void {
+    for (const { date, close } of closes) {
+      if (close > 0) this.recordVixClose(formatIST(date, 'yyyy-MM-dd'), close);
+    }
+  }
+
+  private recordVixClose(day: string, close: number): void {
+    // Today's close comes from the session itself
+    if (this.vix && day >= this.vix.day) return;
+
+    const existing = this.vixCloses.findIndex(c => c.day === day);
+    if (existing >= 0) {
+      this.vixCloses[existing] = { day, close };
+    } else {
+      this.vixCloses.push({ day, close });
+      this.vixCloses.sort((a, b) => a.day.localeCompare(b.day));
+    }
+
+    while (this.vixCloses.length > INDIA_VIX.HISTORY_DAYS) {
+      this.vixCloses.shift();
+    }
+  }
+
+  /**
+   * Current India VIX (0 if none seen yet)
+   */
+  getVixLevel(): Decimal {
+    return this.vix?.last ?? ZERO;
+  }
+
+  /**
+   * Previous session close, if known
+   */
+  getVixPreviousClose(): Decimal | null {
+    const previous = this.vixCloses[this.vixCloses.length - 1];
+    return previous ? toDecimal(previous.close) : null;
+  }
+
+  /**
+   * Intraday India VIX change as a fraction (vs previous close, else today's open)
+   */
+  getVixChangePct(): number {
+    if (!this.vix) return 0;
+    const reference = this.getVixPreviousClose() ?? this.vix.open;
+    if (!reference.greaterThan(0)) return 0;
+    return this.vix.last.minus(reference).dividedBy(reference).toNumber();
+  }
+
+  /**
+   * Percentile (0-100) of the current level among trailing daily closes
+   */
+  getVixPercentile(): number | null {
+    if (!this.vix || this.vixCloses.length === 0) return null;
+    const level = this.vix.last.toNumber();
+    const below = this.vixCloses.filter(c => c.close <= level).length;
+    return (below / this.vixCloses.length) * 100;
+  }
+
+  /**
+   * India VIX regime by level
+   */
+  getVixRegime(): VixRegime {
+    return getVixRegime(this.getVixLevel().toNumber());
+  }
+
+  /**
+   * Whether India VIX has risen sharply today
+   */
+  isVixSpike(): boolean {
+    return this.getVixChangePct() >= INDIA_VIX.SPIKE_CHANGE_PCT;
+  }
+
+  /**
+   * Full India VIX snapshot, undefined until the first VIX tick
+   */
+  getVix(): VixState | undefined {
+    if (!this.vix) return undefined;
+
+    const previousClose = this.getVixPreviousClose();
+    return {
+      level: this.vix.last,
+      open: this.vix.open,
+      high: this.vix.high,
+      low: this.vix.low,
+      previousClose,
+      change: this.vix.last.minus(previousClose ?? this.vix.open),
+      changePct: this.getVixChangePct(),
+      percentile: this.getVixPercentile(),
+      regime: this.getVixRegime(),
+      spike: this.isVixSpike(),
+      timestamp: this.vix.timestamp,
+    };
+  }
+
+  // ==========================================================================
+  // REALIZED VOLATILITY
+  // ==========================================================================
+
+  /**
+   * Load daily index bars (e.g. from Kite historical data) for realized vol
+   */
+  seedDailyBars(underlying: Underlying, bars: Array<OHLCBar & { date: Date }>): void {
+    let days = this.dailyBars.get(underlying);
+    if (!days) {
+      days = new Map();
+      this.dailyBars.set(underlying, days);
+    }
+    for (const { date, open, high, low, close } of bars) {
+      days.set(formatIST(date, 'yyyy-MM-dd'), { open, high, low, close });
+    }
+  }
+
+  /**
+   * Index bars oldest first: completed candles, with seeded history filling
+   * in earlier days
+   */
+  private getBars(underlying: Underlying, interval: CandleInterval): OHLCBar[] {
+    const candles = getCandleAggregator().getCandles(SPOT_TOKENS[underlying], interval);
+    if (interval !== 'day') return candles;
+
+    const byDay = new Map(this.dailyBars.get(underlying));
+    for (const candle of candles) {
+      byDay.set(formatIST(candle.start, 'yyyy-MM-dd'), candle);
+    }
+    return Array.from(byDay.keys()).sort().map(day => byDay.get(day)!);
+  }
+
+  /**
+   * Annualized realized vol over the last `lookback` bars (null if too few)
+   */
+  getRealizedVol(
+    underlying: Underlying,
+    lookback: number = REALIZED_VOL.LOOKBACK,
+    estimator: RealizedVolEstimator = REALIZED_VOL.ESTIMATOR,
+    interval: CandleInterval = 'day'
+  ): number | null {
+    return calculateRealizedVol(this.getBars(underlying, interval), estimator, lookback, periodsPerYear(interval));
+  }
+
+  /**
+   * Realized vol by every estimator for each lookback
+   */
+  getRealizedVols(
+    underlying: Underlying,
+    lookbacks: readonly number[] = REALIZED_VOL.LOOKBACKS,
+    interval: CandleInterval = 'day'
+  ): RealizedVolSnapshot[] {
+    const bars = this.getBars(underlying, interval);
+    const periods = periodsPerYear(interval);
+
+    return lookbacks.map(lookback => ({
+      lookback,
+      closeToClose: calculateRealizedVol(bars, 'CLOSE_TO_CLOSE', lookback, periods),
+      parkinson: calculateRealizedVol(bars, 'PARKINSON', lookback, periods),
+      garmanKlass: calculateRealizedVol(bars, 'GARMAN_KLASS', lookback, periods),
+      yangZhang: calculateRealizedVol(bars, 'YANG_ZHANG', lookback, periods),
+    }));
+  }
+
+  /**
+   * Percentiles of realized vol by horizon over the available history
+   */
+  getVolCone(
+    underlying: Underlying,
+    horizons: readonly number[] = REALIZED_VOL.CONE_HORIZONS,
+    estimator: RealizedVolEstimator = REALIZED_VOL.ESTIMATOR,
+    interval: CandleInterval = 'day'
+  ): VolConePoint[] {
+    return calculateVolCone(this.getBars(underlying, interval), horizons, estimator, periodsPerYear(interval));
+  }
+
+  /**
+   * ATM implied vol of the nearest expiry less realized vol
+   */
+  getRealizedVsImplied(
+    underlying: Underlying,
+    lookback: number = REALIZED_VOL.LOOKBACK,
+    estimator: RealizedVolEstimator = REALIZED_VOL.ESTIMATOR,
+    interval: CandleInterval = 'day'
+  ): RealizedVsImplied | undefined {
+    const atm = this.getATMImpliedVol(underlying);
+    const realizedVol = this.getRealizedVol(underlying, lookback, estimator, interval);
+    if (!atm || !realizedVol) return undefined;
+
+    return {
+      underlying,
+      expiry: atm.expiry,
+      strike: atm.strike,
+      impliedVol: atm.iv,
+      realizedVol,
+      estimator,
+      lookback,
+      spread: atm.iv - realizedVol,
+      ratio: atm.iv / realizedVol,
+    };
+  }
+
+  /**
+   * Mean of the ATM call and put IVs of the nearest unexpired expiry, net
+   * of scheduled-event variance so it compares with realized vol
+   */
+  private getATMImpliedVol(underlying: Underlying): { expiry: Date; strike: number; iv: number } | undefined {
+    const marketState = getMarketState();
+    const spot = marketState.getSpotPrice(underlying);
+    if (!spot.greaterThan(0)) return undefined;
+
+    // Tick time, so replayed and simulated sessions price against their own clock
+    const now = marketState.getByToken(SPOT_TOKENS[underlying])?.lastUpdate ?? new Date();
+    const instrumentManager = getInstrumentManager(null);
+    const expiry = instrumentManager.getAvailableExpiries(underlying)
+      .find(e => timeToExpiryYears(e, now).greaterThan(PRICING.MIN_TIME_TO_EXPIRY));
+    if (!expiry) return undefined;
+
+    const chain = instrumentManager.getOptionChain(underlying, expiry);
+    if (!chain || chain.strikes.size === 0) return undefined;
+
+    let strike = 0;
+    for (const candidate of chain.strikes.keys()) {
+      if (strike === 0 || Math.abs(candidate - spot.toNumber()) < Math.abs(strike - spot.toNumber())) {
+        strike = candidate;
+      }
+    }
+
+    const entry = chain.strikes.get(strike)!;
+    const t = timeToExpiryYears(expiry, now);
+    const eventVariance = toDecimal(getEventCalendar().getEventVariance(underlying, expiry, now));
+    const ivs: number[] = [];
+    for (const [optionType, option] of [['CE', entry.ce], ['PE', entry.pe]] as const) {
+      const state = option ? marketState.getByToken(option.instrumentToken) : undefined;
+      if (!state) continue;
+
+      const price = state.bid.greaterThan(0) && state.ask.greaterThan(0)
+        ? state.bid.plus(state.ask).dividedBy(2)
+        : state.ltp;
+      try {
+        const iv = calculateIV(
+          price, spot, toDecimal(strike), t, PRICING.RISK_FREE_RATE, optionType, undefined, eventVariance
+        ).toNumber();
+        if (iv > 0) ivs.push(iv);
+      } catch {
+        // Price outside no-arbitrage bounds; use the other side
+      }
+    }
+
+    if (ivs.length === 0) return undefined;
+    return { expiry, strike, iv: ivs.reduce((a, b) => a + b, 0) / ivs.length };
+  }
+
   /**
    * Get all movements
    */
@@ -328,6 +682,10 @@ export class SpotTracker {
         this.samples.set(u, []);
       }
       this.lastSampleTime.clear();
+      this.vix = null;
+      this.vixCloses = [];
+      this.vixSpiking = false;
+      this.dailyBars.clear();
     }
   }
 }
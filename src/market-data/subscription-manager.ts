@@ -0,0 +1,445 @@
+/**
+ * Subscription Manager for NSE Options Paper Trading
+ *
+ * Keeps a strike window around ATM subscribed on a market data source and
+ * re-centres it as spot moves. Tokens for open positions and in-flight
+ * orders are always kept, regardless of where ATM is.
+ *
+ * Each token gets the cheapest mode that is still useful:
+ *   - full:  spot, near futures, pinned tokens, and strikes closest to ATM
+ *            (depth needed for fills)
+ *   - quote: the next band out (bid/ask, OI)
+ *   - ltp:   the wings
+ *
+ * The total never exceeds ZERODHA.MAX_SUBSCRIPTIONS; when it would, pinned
+ * tokens win and the furthest strikes are dropped first.
+ */
+
+import { eventBus } from '../core/events.js';
+import { SUBSCRIPTIONS, ZERODHA, SPOT_TOKENS, INDIA_VIX, getStrikeInterval, roundToStrike } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { getMarketState } from './market-state.js';
+import { getSpotTracker } from './spot-tracker.js';
+import { getPositionManager } from '../position/position-manager.js';
+import type { EventHandler } from '../core/events.js';
+import type { MarketDataSource, TickerMode } from './market-data-source.js';
+import type { InstrumentManager } from './instrument-manager.js';
+import type { Underlying, SubscriptionChange } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SubscriptionManagerOptions {
+  underlyings: Underlying[];
+  strikesAroundATM: number;
+  expiries: number;
+  futures: number;                // Nearest futures contracts to keep subscribed
+  fullStrikes: number;
+  quoteStrikes: number;
+  recenterStrikes: number;
+  refreshIntervalMs: number;
+  maxSubscriptions: number;
+}
+
+export interface SubscriptionStats {
+  total: number;
+  byMode: Record<TickerMode, number>;
+  pinned: number;
+  centres: Partial<Record<Underlying, number>>;
+  running: boolean;
+}
+
+/**
+ * A token the manager wants subscribed; lower rank is kept first under the limit
+ */
+interface DesiredToken {
+  token: number;
+  mode: TickerMode;
+  rank: number;
+}
+
+// Higher value = more detail; a token wanted by several rules gets the richest mode
+const MODE_DETAIL: Record<TickerMode, number> = { ltp: 0, quote: 1, full: 2 };
+
+// ============================================================================
+// SUBSCRIPTION MANAGER
+// ============================================================================
+
+export class SubscriptionManager {
+  private options: SubscriptionManagerOptions;
+  private current: Map<number, TickerMode> = new Map();
+  private centres: Map<Underlying, number> = new Map();
+  private orderTokens: Map<string, number> = new Map();   // In-flight order id -> token
+  private manualPins: Set<number> = new Set();
+  private lastPinnedCount = 0;
+  private refreshInterval?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    const tick = event.payload;
+    if (tick.instrumentType !== 'SPOT') return;
+    if (!this.options.underlyings.includes(tick.underlying)) return;
+    if (this.needsRecentre(tick.underlying)) this.refresh();
+  };
+
+  private readonly orderCreatedHandler: EventHandler<'ORDER_CREATED'> = (event) => {
+    this.orderTokens.set(event.payload.id, event.payload.instrumentToken);
+    this.refresh();
+  };
+
+  private readonly orderDoneHandler: EventHandler<'ORDER_FILLED' | 'ORDER_CANCELLED' | 'ORDER_REJECTED'> = (event) => {
+    if (this.orderTokens.delete(event.payload.id)) this.refresh();
+  };
+
+  private readonly positionHandler: EventHandler<'POSITION_OPENED' | 'POSITION_CLOSED'> = () => {
+    this.refresh();
+  };
+
+  constructor(
+    private source: MarketDataSource,
+    private instrumentManager: InstrumentManager,
+    options: Partial<SubscriptionManagerOptions> = {}
+  ) {
+    this.options = {
+      underlyings: options.underlyings ?? ['NIFTY', 'BANKNIFTY'],
+      strikesAroundATM: options.strikesAroundATM ?? SUBSCRIPTIONS.STRIKES_AROUND_ATM,
+      expiries: options.expiries ?? SUBSCRIPTIONS.EXPIRIES,
+      futures: options.futures ?? SUBSCRIPTIONS.FUTURES,
+      fullStrikes: options.fullStrikes ?? SUBSCRIPTIONS.FULL_STRIKES,
+      quoteStrikes: options.quoteStrikes ?? SUBSCRIPTIONS.QUOTE_STRIKES,
+      recenterStrikes: options.recenterStrikes ?? SUBSCRIPTIONS.RECENTER_STRIKES,
+      refreshIntervalMs: options.refreshIntervalMs ?? SUBSCRIPTIONS.REFRESH_INTERVAL_MS,
+      maxSubscriptions: Math.min(options.maxSubscriptions ?? ZERODHA.MAX_SUBSCRIPTIONS, ZERODHA.MAX_SUBSCRIPTIONS),
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Subscribe spot tokens and start following ATM
+   */
+  start(): void {
+    if (this.running) return;
+
+    eventBus.on('TICK', this.tickHandler);
+    eventBus.on('ORDER_CREATED', this.orderCreatedHandler);
+    eventBus.on('ORDER_FILLED', this.orderDoneHandler);
+    eventBus.on('ORDER_CANCELLED', this.orderDoneHandler);
+    eventBus.on('ORDER_REJECTED', this.orderDoneHandler);
+    eventBus.on('POSITION_OPENED', this.positionHandler);
+    eventBus.on('POSITION_CLOSED', this.positionHandler);
+    this.refreshInterval = setInterval(() => this.refresh(), this.options.refreshIntervalMs);
+    this.running = true;
+
+    marketDataLogger.info('Subscription manager started', {
+      underlyings: this.options.underlyings,
+      strikesAroundATM: this.options.strikesAroundATM,
+      expiries: this.options.expiries,
+    });
+
+    this.refresh();
+  }
+
+  /**
+   * Stop following ATM (current subscriptions are left in place)
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    eventBus.off('TICK', this.tickHandler);
+    eventBus.off('ORDER_CREATED', this.orderCreatedHandler);
+    eventBus.off('ORDER_FILLED', this.orderDoneHandler);
+    eventBus.off('ORDER_CANCELLED', this.orderDoneHandler);
+    eventBus.off('ORDER_REJECTED', this.orderDoneHandler);
+    eventBus.off('POSITION_OPENED', this.positionHandler);
+    eventBus.off('POSITION_CLOSED', this.positionHandler);
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = undefined;
+    }
+    this.running = false;
+
+    marketDataLogger.info('Subscription manager stopped', { subscribed: this.current.size });
+  }
+
+  // ==========================================================================
+  // PINNING
+  // ==========================================================================
+
+  /**
+   * Keep tokens subscribed in full mode until unpinned
+   */
+  pin(tokens: number[]): void {
+    tokens.forEach(t => this.manualPins.add(t));
+    this.refresh();
+  }
+
+  /**
+   * Release manually pinned tokens
+   */
+  unpin(tokens: number[]): void {
+    tokens.forEach(t => this.manualPins.delete(t));
+    this.refresh();
+  }
+
+  /**
+   * Tokens that must stay subscribed: open positions, in-flight orders, manual pins
+   */
+  private getPinnedTokens(): Set<number> {
+    const pinned = new Set(this.manualPins);
+    for (const position of getPositionManager().getAllPositions()) {
+      pinned.add(position.instrumentToken);
+    }
+    for (const token of this.orderTokens.values()) {
+      pinned.add(token);
+    }
+    return pinned;
+  }
+
+  // ==========================================================================
+  // WINDOW
+  // ==========================================================================
+
+  /**
+   * Latest spot for an underlying (0 if none seen yet)
+   */
+  private getSpot(underlying: Underlying): number {
+    const tracked = getSpotTracker().getMovement(underlying)?.current;
+    if (tracked && tracked.greaterThan(0)) return tracked.toNumber();
+    return getMarketState().getSpotPrice(underlying).toNumber();
+  }
+
+  /**
+   * Whether ATM has drifted far enough from the window centre to re-centre
+   */
+  private needsRecentre(underlying: Underlying): boolean {
+    const spot = this.getSpot(underlying);
+    if (spot <= 0) return false;
+
+    const centre = this.centres.get(underlying);
+    if (centre === undefined) return true;
+
+    const atm = roundToStrike(spot, underlying);
+    return Math.abs(atm - centre) >= this.options.recenterStrikes * getStrikeInterval(underlying);
+  }
+
+  /**
+   * Mode for a strike by its distance (in strikes) from ATM
+   */
+  private modeForDistance(distance: number): TickerMode {
+    if (distance <= this.options.fullStrikes) return 'full';
+    if (distance <= this.options.quoteStrikes) return 'quote';
+    return 'ltp';
+  }
+
+  /**
+   * Build the wanted token set, most important first
+   */
+  private buildDesired(pinned: Set<number>): DesiredToken[] {
+    const desired: DesiredToken[] = [];
+
+    for (const token of pinned) {
+      desired.push({ token, mode: 'full', rank: 0 });
+    }
+    desired.push({ token: INDIA_VIX.TOKEN, mode: 'quote', rank: 0 });
+
+    for (const underlying of this.options.underlyings) {
+      desired.push({ token: SPOT_TOKENS[underlying], mode: 'full', rank: 0 });
+      for (const future of this.instrumentManager.getFutures(underlying).slice(0, this.options.futures)) {
+        desired.push({ token: future.instrumentToken, mode: 'full', rank: 0 });
+      }
+
+      if (this.needsRecentre(underlying)) {
+        this.centres.set(underlying, roundToStrike(this.getSpot(underlying), underlying));
+      }
+      const centre = this.centres.get(underlying);
+      if (centre === undefined) continue;   // No spot yet, window follows once it arrives
+
+      const expiries = this.instrumentManager.getAvailableExpiries(underlying).slice(0, this.options.expiries);
+      expiries.forEach((expiry, expiryIndex) => {
+        const chain = this.instrumentManager.getOptionChain(underlying, expiry);
+        if (!chain) return;
+
+        const strikes = Array.from(chain.strikes.keys()).sort((a, b) => a - b);
+        if (strikes.length === 0) return;
+
+        // Nearest listed strike to the centre
+        let atmIndex = 0;
+        strikes.forEach((strike, i) => {
+          if (Math.abs(strike - centre) < Math.abs(strikes[atmIndex]! - centre)) atmIndex = i;
+        });
+
+        const from = Math.max(0, atmIndex - this.options.strikesAroundATM);
+        const to = Math.min(strikes.length - 1, atmIndex + this.options.strikesAroundATM);
+        for (let i = from; i <= to; i++) {
+          const entry = chain.strikes.get(strikes[i]!)!;
+          const distance = Math.abs(i - atmIndex);
+          const mode = this.modeForDistance(distance);
+          // Near strikes of every expiry before far strikes of any
+          const rank = 1 + distance * this.options.expiries + expiryIndex;
+          if (entry.ce) desired.push({ token: entry.ce.instrumentToken, mode, rank });
+          if (entry.pe) desired.push({ token: entry.pe.instrumentToken, mode, rank });
+        }
+      });
+    }
+
+    return desired;
+  }
+
+  /**
+   * Merge duplicates (richest mode, best rank) and cut to the subscription limit
+   */
+  private selectWithinLimit(desired: DesiredToken[]): Map<number, TickerMode> {
+    const merged: Map<number, DesiredToken> = new Map();
+    for (const item of desired) {
+      const existing = merged.get(item.token);
+      if (!existing) {
+        merged.set(item.token, { ...item });
+        continue;
+      }
+      if (MODE_DETAIL[item.mode] > MODE_DETAIL[existing.mode]) existing.mode = item.mode;
+      existing.rank = Math.min(existing.rank, item.rank);
+    }
+
+    const ordered = Array.from(merged.values()).sort((a, b) => a.rank - b.rank);
+    if (ordered.length > this.options.maxSubscriptions) {
+      marketDataLogger.warn('Strike window exceeds subscription limit, dropping far strikes', {
+        wanted: ordered.length,
+        max: this.options.maxSubscriptions,
+      });
+    }
+
+    const selected: Map<number, TickerMode> = new Map();
+    for (const item of ordered.slice(0, this.options.maxSubscriptions)) {
+      selected.set(item.token, item.mode);
+    }
+    return selected;
+  }
+
+  // ==========================================================================
+  // SYNC
+  // ==========================================================================
+
+  /**
+   * Recompute the wanted set and apply the difference to the source.
+   * Returns the change, or null if nothing changed.
+   */
+  refresh(): SubscriptionChange | null {
+    const pinned = this.getPinnedTokens();
+    this.lastPinnedCount = pinned.size;
+    const target = this.selectWithinLimit(this.buildDesired(pinned));
+
+    const removed = Array.from(this.current.keys()).filter(t => !target.has(t));
+    const added: Map<TickerMode, number[]> = new Map();
+    const changed: Map<TickerMode, number[]> = new Map();
+    let addedCount = 0;
+    let changedCount = 0;
+
+    for (const [token, mode] of target) {
+      const currentMode = this.current.get(token);
+      if (currentMode === mode) continue;
+
+      const group = currentMode === undefined ? added : changed;
+      if (!group.has(mode)) group.set(mode, []);
+      group.get(mode)!.push(token);
+      if (currentMode === undefined) addedCount++;
+      else changedCount++;
+    }
+
+    if (removed.length === 0 && addedCount === 0 && changedCount === 0) {
+      return null;
+    }
+
+    // Unsubscribe first so the freed slots are available for new tokens
+    if (removed.length > 0) this.source.unsubscribe(removed);
+    for (const [mode, tokens] of added) this.source.subscribe(tokens, mode);
+    for (const [mode, tokens] of changed) this.source.setMode(mode, tokens);
+    this.current = target;
+
+    const change: SubscriptionChange = {
+      added: addedCount,
+      removed: removed.length,
+      removedTokens: removed,
+      modeChanged: changedCount,
+      total: target.size,
+      pinned: pinned.size,
+      centres: Object.fromEntries(this.centres),
+      timestamp: new Date(),
+    };
+
+    marketDataLogger.info('Subscriptions updated', {
+      added: change.added,
+      removed: change.removed,
+      modeChanged: change.modeChanged,
+      total: change.total,
+    });
+    eventBus.emit('SUBSCRIPTIONS_CHANGED', change);
+    return change;
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Mode a token is held in by this manager
+   */
+  getTokenMode(token: number): TickerMode | undefined {
+    return this.current.get(token);
+  }
+
+  /**
+   * Tokens held by this manager, most important first (pinned, spot and
+   * futures, then strikes outwards from ATM)
+   */
+  getTokens(): number[] {
+    return Array.from(this.current.keys());
+  }
+
+  /**
+   * Get subscription statistics
+   */
+  getStats(): SubscriptionStats {
+    const byMode: Record<TickerMode, number> = { ltp: 0, quote: 0, full: 0 };
+    for (const mode of this.current.values()) byMode[mode]++;
+
+    return {
+      total: this.current.size,
+      byMode,
+      pinned: this.lastPinnedCount,
+      centres: Object.fromEntries(this.centres),
+      running: this.running,
+    };
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let subscriptionManager: SubscriptionManager | null = null;
+
+/**
+ * Get or create SubscriptionManager
+ */
+export function getSubscriptionManager(
+  source: MarketDataSource,
+  instrumentManager: InstrumentManager,
+  options?: Partial<SubscriptionManagerOptions>
+): SubscriptionManager {
+  if (!subscriptionManager) {
+    subscriptionManager = new SubscriptionManager(source, instrumentManager, options);
+  }
+  return subscriptionManager;
+}
+
+/**
+ * Reset SubscriptionManager (for testing)
+ */
+export function resetSubscriptionManager(): void {
+  subscriptionManager?.stop();
+  subscriptionManager = null;
+}
@@ -0,0 +1,450 @@
+/**
+ * Tick Recorder for NSE Options Paper Trading
+ *
+ * Captures every normalized TICK event to append-only, compressed files,
+ * one per underlying per trading session. Files rotate at market close.
+ *
+ * File layout: <dir>/<YYYY-MM-DD>/<UNDERLYING>.ticks
+ * Each file is a sequence of frames: [UInt32BE length][gzip(NDJSON ticks)].
+ * A frame is only complete once fully written, so a crash can leave at most
+ * one partial trailing frame, which is truncated when the file is reopened.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { gzipSync, gunzipSync } from 'zlib';
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { eventBus } from '../core/events.js';
+import type { EventHandler } from '../core/events.js';
+import { RECORDER } from '../core/constants.js';
+import { TickFileCorruptedError } from '../core/errors.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { formatIST } from '../utils/date.js';
+import type {
+  MarketTick,
+  OrderBookDepth,
+  Underlying,
+  InstrumentType,
+} from '../core/types.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FRAME_HEADER_BYTES = 4;
+const FILE_EXTENSION = '.ticks';
+
+export interface TickRecorderOptions {
+  dir: string;
+  flushIntervalMs: number;
+  maxBufferedTicks: number;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * On-disk representation of a tick (Decimals as strings, Dates as ISO)
+ */
+export interface SerializedTick {
+  instrumentToken: number;
+  tradingSymbol: string;
+  underlying: Underlying;
+  instrumentType: InstrumentType;
+  strike?: number;
+  expiry?: string;
+  ltp: string;
+  bid: string;
+  ask: string;
+  bidQty: number;
+  askQty: number;
+  volume: number;
+  oi: number;
+  oiDayHigh: number;
+  oiDayLow: number;
+  lastTradeTime: string;
+  timestamp: string;
+  depth?: {
+    buy: { price: string; quantity: number; orders: number }[];
+    sell: { price: string; quantity: number; orders: number }[];
+  };
+}
+
+/**
+ * Convert a tick into its on-disk form
+ */
+export function serializeTick(tick: MarketTick): SerializedTick {
+  return {
+    instrumentToken: tick.instrumentToken,
+    tradingSymbol: tick.tradingSymbol,
+    underlying: tick.underlying,
+    instrumentType: tick.instrumentType,
+    strike: tick.strike,
+    expiry: tick.expiry?.toISOString(),
+    ltp: tick.ltp.toString(),
+    bid: tick.bid.toString(),
+    ask: tick.ask.toString(),
+    bidQty: tick.bidQty,
+    askQty: tick.askQty,
+    volume: tick.volume,
+    oi: tick.oi,
+    oiDayHigh: tick.oiDayHigh,
+    oiDayLow: tick.oiDayLow,
+    lastTradeTime: tick.lastTradeTime.toISOString(),
+    timestamp: tick.timestamp.toISOString(),
+    depth: tick.depth
+      ? {
+          buy: tick.depth.buy.map(l => ({ price: l.price.toString(), quantity: l.quantity, orders: l.orders })),
+          sell: tick.depth.sell.map(l => ({ price: l.price.toString(), quantity: l.quantity, orders: l.orders })),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Restore a tick from its on-disk form
+ */
+export function deserializeTick(raw: SerializedTick): MarketTick {
+  let depth: OrderBookDepth | undefined;
+  if (raw.depth) {
+    depth = {
+      buy: raw.depth.buy.map(l => ({ price: new Decimal(l.price), quantity: l.quantity, orders: l.orders })),
+      sell: raw.depth.sell.map(l => ({ price: new Decimal(l.price), quantity: l.quantity, orders: l.orders })),
+    };
+  }
+
+  return {
+    instrumentToken: raw.instrumentToken,
+    tradingSymbol: raw.tradingSymbol,
+    underlying: raw.underlying,
+    instrumentType: raw.instrumentType,
+    strike: raw.strike,
+    expiry: raw.expiry ? new Date(raw.expiry) : undefined,
+    ltp: new Decimal(raw.ltp),
+    bid: new Decimal(raw.bid),
+    ask: new Decimal(raw.ask),
+    bidQty: raw.bidQty,
+    askQty: raw.askQty,
+    volume: raw.volume,
+    oi: raw.oi,
+    oiDayHigh: raw.oiDayHigh,
+    oiDayLow: raw.oiDayLow,
+    lastTradeTime: new Date(raw.lastTradeTime),
+    timestamp: new Date(raw.timestamp),
+    depth,
+  };
+}
+
+// ============================================================================
+// SESSION DATES
+// ============================================================================
+
+/**
+ * Trading session a tick belongs to: its IST date, so the closing ticks at
+ * 15:30 and any post-close updates stay with the session they end
+ */
+export function getSessionDate(timestamp: Date): string {
+  return formatIST(timestamp, 'yyyy-MM-dd');
+}
+
+/**
+ * Path of the tick file for a session and underlying
+ */
+export function getTickFilePath(dir: string, sessionDate: string, underlying: Underlying): string {
+  return path.join(dir, sessionDate, `${underlying}${FILE_EXTENSION}`);
+}
+
+// ============================================================================
+// FRAME I/O
+// ============================================================================
+
+/**
+ * Scan frames and return the byte offset where the last complete frame ends
+ */
+function findValidLength(buffer: Buffer): number {
+  let offset = 0;
+
+  while (offset + FRAME_HEADER_BYTES <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const end = offset + FRAME_HEADER_BYTES + length;
+    if (length === 0 || end > buffer.length) break;
+
+    try {
+      gunzipSync(buffer.subarray(offset + FRAME_HEADER_BYTES, end));
+    } catch {
+      break;
+    }
+    offset = end;
+  }
+
+  return offset;
+}
+
+/**
+ * Truncate a partial trailing frame left behind by a crash
+ */
+function repairTickFile(filePath: string): void {
+  if (!fs.existsSync(filePath)) return;
+
+  const buffer = fs.readFileSync(filePath);
+  const validLength = findValidLength(buffer);
+
+  if (validLength < buffer.length) {
+    fs.truncateSync(filePath, validLength);
+    marketDataLogger.warn('Truncated partial frame in tick file', {
+      file: filePath,
+      droppedBytes: buffer.length - validLength,
+    });
+  }
+}
+
+/**
+ * Encode ticks into a single length-prefixed gzip frame
+ */
+function encodeFrame(ticks: MarketTick[]): Buffer {
+  const ndjson = ticks.map(t => JSON.stringify(serializeTick(t))).join('\n');
+  const compressed = gzipSync(Buffer.from(ndjson, 'utf-8'));
+  const header = Buffer.alloc(FRAME_HEADER_BYTES);
+  header.writeUInt32BE(compressed.length, 0);
+  return Buffer.concat([header, compressed]);
+}
+
+// ============================================================================
+// TICK RECORDER
+// ============================================================================
+
+export class TickRecorder {
+  private options: TickRecorderOptions;
+  private buffers: Map<string, MarketTick[]> = new Map();
+  private repairedFiles: Set<string> = new Set();
+  private bufferedCount = 0;
+  private recordedCount = 0;
+  private flushInterval?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.record(event.payload);
+  };
+
+  constructor(options: Partial<TickRecorderOptions> = {}) {
+    this.options = {
+      dir: options.dir ?? RECORDER.DEFAULT_DIR,
+      flushIntervalMs: options.flushIntervalMs ?? RECORDER.FLUSH_INTERVAL_MS,
+      maxBufferedTicks: options.maxBufferedTicks ?? RECORDER.MAX_BUFFERED_TICKS,
+    };
+  }
+
+  /**
+   * Start capturing TICK events from the event bus
+   */
+  start(): void {
+    if (this.running) return;
+
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    eventBus.on('TICK', this.tickHandler);
+    this.flushInterval = setInterval(() => this.flush(), this.options.flushIntervalMs);
+    this.running = true;
+
+    marketDataLogger.info('Tick recorder started', { dir: this.options.dir });
+  }
+
+  /**
+   * Stop capturing and flush buffered ticks to disk
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    eventBus.off('TICK', this.tickHandler);
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+    this.flush();
+    this.running = false;
+
+    marketDataLogger.info('Tick recorder stopped', { recorded: this.recordedCount });
+  }
+
+  /**
+   * Buffer a tick for the file of its session and underlying
+   */
+  record(tick: MarketTick): void {
+    const filePath = getTickFilePath(this.options.dir, getSessionDate(tick.timestamp), tick.underlying);
+
+    let buffer = this.buffers.get(filePath);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(filePath, buffer);
+    }
+    buffer.push(tick);
+    this.bufferedCount++;
+
+    if (this.bufferedCount >= this.options.maxBufferedTicks) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Write all buffered ticks as one frame per file
+   */
+  flush(): void {
+    if (this.bufferedCount === 0) return;
+
+    for (const [filePath, ticks] of this.buffers) {
+      if (ticks.length === 0) continue;
+
+      try {
+        this.appendFrame(filePath, ticks);
+        this.recordedCount += ticks.length;
+      } catch (error) {
+        marketDataLogger.error('Failed to write tick frame', {
+          file: filePath,
+          ticks: ticks.length,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    this.buffers.clear();
+    this.bufferedCount = 0;
+  }
+
+  /**
+   * Append a frame, repairing the file first if it was left partial
+   */
+  private appendFrame(filePath: string, ticks: MarketTick[]): void {
+    if (!this.repairedFiles.has(filePath)) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      repairTickFile(filePath);
+      this.repairedFiles.add(filePath);
+    }
+
+    const fd = fs.openSync(filePath, 'a');
+    try {
+      fs.writeSync(fd, encodeFrame(ticks));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Check if the recorder is capturing ticks
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get recorder statistics
+   */
+  getStats(): { dir: string; running: boolean; buffered: number; recorded: number } {
+    return {
+      dir: this.options.dir,
+      running: this.running,
+      buffered: this.bufferedCount,
+      recorded: this.recordedCount,
+    };
+  }
+}
+
+// ============================================================================
+// READER API
+// ============================================================================
+
+/**
+ * Read ticks from a tick file, restoring Decimal and Date fields.
+ * A truncated trailing frame is skipped; corruption before it throws.
+ */
+export function* readTickFile(filePath: string): Generator<MarketTick> {
+  const buffer = fs.readFileSync(filePath);
+  let offset = 0;
+
+  while (offset + FRAME_HEADER_BYTES <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const end = offset + FRAME_HEADER_BYTES + length;
+    if (end > buffer.length) return; // Partial tail from an interrupted write
+
+    let ndjson: string;
+    try {
+      ndjson = gunzipSync(buffer.subarray(offset + FRAME_HEADER_BYTES, end)).toString('utf-8');
+    } catch (error) {
+      if (end === buffer.length) return;
+      throw new TickFileCorruptedError(filePath, offset, (error as Error).message);
+    }
+
+    for (const line of ndjson.split('\n')) {
+      if (line) {
+        yield deserializeTick(JSON.parse(line) as SerializedTick);
+      }
+    }
+    offset = end;
+  }
+}
+
+/**
+ * Read recorded ticks for a session and underlying
+ */
+export function readTicks(
+  sessionDate: string,
+  underlying: Underlying,
+  dir: string = RECORDER.DEFAULT_DIR
+): Generator<MarketTick> {
+  return readTickFile(getTickFilePath(dir, sessionDate, underlying));
+}
+
+/**
+ * List recorded tick files, oldest session first
+ */
+export function listTickFiles(
+  dir: string = RECORDER.DEFAULT_DIR
+): { sessionDate: string; underlying: Underlying; path: string }[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const files: { sessionDate: string; underlying: Underlying; path: string }[] = [];
+
+  for (const sessionDate of fs.readdirSync(dir).sort()) {
+    const sessionDir = path.join(dir, sessionDate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(sessionDate) || !fs.statSync(sessionDir).isDirectory()) continue;
+
+    for (const file of fs.readdirSync(sessionDir).sort()) {
+      if (!file.endsWith(FILE_EXTENSION)) continue;
+      files.push({
+        sessionDate,
+        underlying: file.slice(0, -FILE_EXTENSION.length) as Underlying,
+        path: path.join(sessionDir, file),
+      });
+    }
+  }
+
+  return files;
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let tickRecorder: TickRecorder | null = null;
+
+/**
+ * Get TickRecorder singleton
+ */
+export function getTickRecorder(options?: Partial<TickRecorderOptions>): TickRecorder {
+  if (!tickRecorder) {
+    tickRecorder = new TickRecorder(options);
+  }
+  return tickRecorder;
+}
+
+/**
+ * Reset TickRecorder (for testing)
+ */
+export function resetTickRecorder(): void {
+  if (tickRecorder) {
+    tickRecorder.stop();
+  }
+  tickRecorder = null;
+}
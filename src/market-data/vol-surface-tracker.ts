@@ -0,0 +1,267 @@
+/**
+ * Volatility Surface Tracker for NSE Options Paper Trading
+ *
+ * Refits each underlying's IV surface (SVI per expiry, or SSVI) from the
+ * option mids in market state, at most once per refit interval of tick
+ * time. IVs are solved Black-76 off each expiry's implied forward. Every
+ * option with a fitted slice gets a smoothed `surfaceIV` in market state,
+ * which Greeks can use instead of its own noisy raw IV. IVs are solved net
+ * of scheduled-event variance, so the fit is of the ex-event smile.
+ *
+ * A refit that shows butterfly or calendar arbitrage is logged once when
+ * it appears, and the fit is still published with its check results.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { eventBus } from '../core/events.js';
+import { PRICING, VOL_SURFACE } from '../core/constants.js';
+import { marketDataLogger } from '../utils/logger.js';
+import { timeToExpiryYears } from '../utils/date.js';
+import { toDecimal } from '../utils/decimal.js';
+import { clockNow } from '../utils/clock.js';
+import { calculateIVSurface, type IVSurface } from '../pricing/iv-calculator.js';
+import { getFittedSlice, getSliceIV, type FittedSlice } from '../pricing/vol-surface.js';
+import { createExpiryDistribution, type ExpiryDistribution } from '../pricing/probability.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { getMarketState } from './market-state.js';
+import type { EventHandler } from '../core/events.js';
+import type { MarketTick, SurfaceModel, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VolSurfaceTrackerOptions {
+  model: SurfaceModel;
+  refitIntervalMs: number;
+}
+
+// ============================================================================
+// VOL SURFACE TRACKER
+// ============================================================================
+
+export class VolSurfaceTracker {
+  private options: VolSurfaceTrackerOptions;
+  private surfaces: Map<Underlying, IVSurface> = new Map();
+  private lastFitTime: Map<Underlying, number> = new Map();
+  private arbitrageFlagged: Set<Underlying> = new Set();
+  private refits = 0;
+  private running = false;
+
+  private readonly tickHandler: EventHandler<'TICK'> = (event) => {
+    this.onTick(event.payload);
+  };
+
+  constructor(options: Partial<VolSurfaceTrackerOptions> = {}) {
+    this.options = {
+      model: options.model ?? VOL_SURFACE.MODEL,
+      refitIntervalMs: options.refitIntervalMs ?? VOL_SURFACE.REFIT_INTERVAL_MS,
+    };
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start refitting from TICK events
+   */
+  start(): void {
+    if (this.running) return;
+    eventBus.on('TICK', this.tickHandler);
+    this.running = true;
+    marketDataLogger.info('Vol surface tracker started', {
+      model: this.options.model,
+      refitIntervalMs: this.options.refitIntervalMs,
+    });
+  }
+
+  /**
+   * Stop refitting
+   */
+  stop(): void {
+    if (!this.running) return;
+    eventBus.off('TICK', this.tickHandler);
+    this.running = false;
+    marketDataLogger.info('Vol surface tracker stopped');
+  }
+
+  // ==========================================================================
+  // UPDATES
+  // ==========================================================================
+
+  /**
+   * Refit an underlying on an option tick once its refit interval has passed
+   */
+  onTick(tick: MarketTick): void {
+    if (tick.instrumentType !== 'CE' && tick.instrumentType !== 'PE') return;
+
+    const now = tick.timestamp.getTime();
+    const last = this.lastFitTime.get(tick.underlying);
+    if (last !== undefined && now - last < this.options.refitIntervalMs) return;
+
+    this.lastFitTime.set(tick.underlying, now);
+    this.refit(tick.underlying, tick.timestamp);
+  }
+
+  /**
+   * Fit the surface from current option mids and publish surface IVs
+   */
+  refit(underlying: Underlying, now: Date = clockNow()): IVSurface | undefined {
+    const marketState = getMarketState();
+    const spot = marketState.getSpotPrice(underlying);
+    if (spot.lessThanOrEqualTo(0)) return undefined;
+
+    const options = marketState.getOptionStates(underlying).filter(state => state.strike && state.expiry);
+    const forwards: Map<number, Decimal | undefined> = new Map();
+    const eventVariances: Map<number, Decimal> = new Map();
+    const calendar = getEventCalendar();
+    const prices = [];
+    for (const state of options) {
+      if (state.bid.lessThanOrEqualTo(0) || state.ask.lessThanOrEqualTo(0)) continue;
+      const mid = state.bid.plus(state.ask).dividedBy(2);
+      const timeToExpiry = timeToExpiryYears(state.expiry!, now);
+      if (mid.lessThan(VOL_SURFACE.MIN_OPTION_PRICE) || timeToExpiry.lessThanOrEqualTo(0)) continue;
+
+      const expiryTime = state.expiry!.getTime();
+      if (!forwards.has(expiryTime)) {
+        forwards.set(expiryTime, marketState.getForward(underlying, state.expiry!, now)?.forward);
+        eventVariances.set(expiryTime, toDecimal(calendar.getEventVariance(underlying, state.expiry!, now)));
+      }
+
+      prices.push({
+        strike: state.strike!,
+        expiry: state.expiry!,
+        optionType: state.instrumentType as 'CE' | 'PE',
+        marketPrice: mid,
+        timeToExpiry,
+        forward: forwards.get(expiryTime),
+        eventVariance: eventVariances.get(expiryTime),
+      });
+    }
+    if (prices.length === 0) return undefined;
+
+    const surface = calculateIVSurface(underlying, spot, PRICING.RISK_FREE_RATE, prices, this.options.model, now);
+    this.surfaces.set(underlying, surface);
+    this.refits++;
+
+    const fitted = surface.fitted!;
+    for (const state of options) {
+      const slice = getFittedSlice(fitted, state.expiry!);
+      if (slice) marketState.updateSurfaceIV(state.instrumentToken, getSliceIV(slice, state.strike!).times(100));
+    }
+
+    const butterflyExpiries = fitted.slices.filter(s => !s.butterfly.free).map(s => s.expiry);
+    if (butterflyExpiries.length > 0 || !fitted.calendarFree) {
+      if (!this.arbitrageFlagged.has(underlying)) {
+        this.arbitrageFlagged.add(underlying);
+        marketDataLogger.warn('Fitted vol surface shows arbitrage', {
+          underlying,
+          model: fitted.model,
+          butterflyExpiries,
+          calendarViolations: fitted.calendarViolations.length,
+        });
+      }
+    } else {
+      this.arbitrageFlagged.delete(underlying);
+    }
+
+    return surface;
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /**
+   * Latest surface (raw points plus fit) for an underlying
+   */
+  getSurface(underlying: Underlying): IVSurface | undefined {
+    return this.surfaces.get(underlying);
+  }
+
+  /**
+   * Fitted slice for an expiry (nearest fitted expiry if none given)
+   */
+  getSlice(underlying: Underlying, expiry?: Date): FittedSlice | undefined {
+    const fitted = this.surfaces.get(underlying)?.fitted;
+    if (!fitted) return undefined;
+    return expiry ? getFittedSlice(fitted, expiry) : fitted.slices[0];
+  }
+
+  /**
+   * Smoothed IV at any strike of a fitted expiry
+   */
+  getSurfaceIV(underlying: Underlying, strike: number, expiry: Date): Decimal | undefined {
+    const slice = this.getSlice(underlying, expiry);
+    return slice ? getSliceIV(slice, strike) : undefined;
+  }
+
+  /**
+   * Lognormal distribution of an underlying at an expiry: vol off the
+   * fitted slice, else flat at the IV of the option nearest the forward
+   */
+  getExpiryDistribution(underlying: Underlying, expiry: Date, now: Date = clockNow()): ExpiryDistribution | undefined {
+    const marketState = getMarketState();
+    const spot = marketState.getSpotPrice(underlying).toNumber();
+    if (spot <= 0) return undefined;
+
+    const timeToExpiry = timeToExpiryYears(expiry, now).toNumber();
+    const forward = marketState.getForward(underlying, expiry, now)?.forward.toNumber()
+      ?? spot * Math.exp(PRICING.RISK_FREE_RATE.toNumber() * timeToExpiry);
+
+    let flatVol: number | undefined;
+    let nearest = Infinity;
+    for (const state of marketState.getOptionStates(underlying, expiry)) {
+      if (state.strike === undefined || !state.iv?.greaterThan(0)) continue;
+      const distance = Math.abs(state.strike - forward);
+      if (distance < nearest) {
+        nearest = distance;
+        flatVol = state.iv.toNumber() / 100;
+      }
+    }
+
+    return createExpiryDistribution({
+      spot,
+      forward,
+      expiry,
+      timeToExpiry,
+      slice: this.getSlice(underlying, expiry),
+      flatVol,
+      eventVariance: getEventCalendar().getEventVariance(underlying, expiry, now),
+    });
+  }
+
+  /**
+   * Get tracker statistics
+   */
+  getStats(): { underlyings: number; refits: number; running: boolean } {
+    return { underlyings: this.surfaces.size, refits: this.refits, running: this.running };
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let volSurfaceTracker: VolSurfaceTracker | null = null;
+
+/**
+ * Get VolSurfaceTracker singleton
+ */
+export function getVolSurfaceTracker(options?: Partial<VolSurfaceTrackerOptions>): VolSurfaceTracker {
+  if (!volSurfaceTracker) {
+    volSurfaceTracker = new VolSurfaceTracker(options);
+  }
+  return volSurfaceTracker;
+}
+
+/**
+ * Reset VolSurfaceTracker (for testing)
+ */
+export function resetVolSurfaceTracker(): void {
+  volSurfaceTracker?.stop();
+  volSurfaceTracker = null;
+}
@@ -12,21 +12,27 @@ import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
 import { v4 as uuidv4 } from 'uuid';
-import { eventBus } from '../core/events.js';
+import { eventBus, type EventHandler } from '../core/events.js';
 import { PositionNotFoundError } from '../core/errors.js';
 import { logger, logPosition } from '../utils/logger.js';
-import { toDecimal, ZERO, formatINR, weightedAverage } from '../utils/decimal.js';
+import { toDecimal, ZERO, ONE, formatINR, weightedAverage } from '../utils/decimal.js';
 import { getMarketState } from '../market-data/market-state.js';
-import { calculateGreeks } from '../pricing/black-scholes.js';
+import { getStrategyAggregator } from './strategy-aggregator.js';
+import { calculateCashGreeks, calculateGreeks } from '../pricing/black-scholes.js';
 import { calculateIV } from '../pricing/iv-calculator.js';
-import { PRICING } from '../core/constants.js';
-import { getTimeToExpiryYears } from '../core/constants.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { calculatePayoff, type PayoffAnalysis, type PayoffLeg, type PayoffOptions } from '../pricing/payoff.js';
+import { calculateProbabilities, type ProbabilityAnalysis } from '../pricing/probability.js';
+import { getVolSurfaceTracker } from '../market-data/vol-surface-tracker.js';
+import { PRICING, VOL_SURFACE } from '../core/constants.js';
+import { timeToExpiryYears } from '../utils/date.js';
 import type {
   Position,
   Trade,
   Order,
   Fill,
   Greeks,
+  NetGreeks,
   Underlying,
   InstrumentType,
   PositionSide,
@@ -36,13 +42,24 @@ import type {
 // POSITION MANAGER
 // ============================================================================
 
+const GREEK_KEYS = [
+  'delta', 'gamma', 'theta', 'vega', 'rho',
+  'vanna', 'volga', 'charm', 'speed', 'color', 'zomma',
+] as const;
+
 export class PositionManager {
   private positions: Map<string, Position> = new Map();
   private positionsBySymbol: Map<string, string> = new Map(); // symbol -> positionId
   private trades: Map<string, Trade> = new Map();
 
+  // Linking a position changes the strategy's payoff
+  private readonly strategyHandler: EventHandler<'STRATEGY_UPDATED'> = (event) => {
+    this.refreshStrategyPayoff(event.payload.id);
+  };
+
   constructor() {
     this.loadState();
+    eventBus.on('STRATEGY_UPDATED', this.strategyHandler);
   }
 
   private loadState() {
@@ -124,6 +141,9 @@ export class PositionManager {
     // Store trade
     this.trades.set(trade.id, trade);
 
+    const strategy = getStrategyAggregator().getStrategyForPosition(position.id);
+    if (strategy) this.refreshStrategyPayoff(strategy.id);
+
     // Auto-save portfolio state after each trade
     try {
         const marginTracker = getMarginTracker();
@@ -288,37 +308,100 @@ export class PositionManager {
       if (position.instrumentType === 'CE' || position.instrumentType === 'PE') {
         const spotPrice = marketState.getSpotPrice(position.underlying);
         if (spotPrice.greaterThan(0)) {
-          position.greeks = this.calculatePositionGreeks(position, spotPrice, state.ltp);
+          const surfaceIV = VOL_SURFACE.GREEKS_IV_SOURCE === 'SURFACE' ? state.surfaceIV?.dividedBy(100) : undefined;
+          const forward = marketState.getForward(position.underlying, position.expiry)?.forward;
+          position.greeks = this.calculatePositionGreeks(position, spotPrice, state.ltp, surfaceIV, forward);
         }
+      } else if (position.instrumentType === 'FUT') {
+        position.greeks = this.calculateFuturesGreeks(position);
       }
 
       position.updatedAt = new Date();
     }
+
+    this.refreshMargin();
+  }
+
+  /**
+   * Re-price portfolio margin (options and futures) at current prices
+   */
+  private refreshMargin(): void {
+    const marketState = getMarketState();
+    const positions = Array.from(this.positions.values());
+    const spotPrices = new Map<Underlying, Decimal>();
+    const ivs = new Map<number, Decimal>();
+
+    for (const position of positions) {
+      spotPrices.set(position.underlying, marketState.getSpotPrice(position.underlying));
+      if (position.greeks?.iv.greaterThan(0)) {
+        ivs.set(position.instrumentToken, position.greeks.iv);
+      }
+    }
+
+    try {
+      getMarginTracker().update(positions, spotPrices, ivs);
+    } catch (err) {
+      // Margin tracker not initialized yet
+      logger.debug('Margin refresh skipped', { error: (err as Error).message });
+    }
+  }
+
+  /**
+   * Greeks for a futures position: delta e^(rT) against spot, nothing else
+   */
+  private calculateFuturesGreeks(position: Position): Greeks {
+    const timeToExpiry = timeToExpiryYears(position.expiry);
+
+    return {
+      delta: Decimal.exp(PRICING.RISK_FREE_RATE.times(timeToExpiry)),
+      gamma: ZERO,
+      theta: ZERO,
+      vega: ZERO,
+      rho: ZERO,
+      iv: ZERO,
+      vanna: ZERO,
+      volga: ZERO,
+      charm: ZERO,
+      speed: ZERO,
+      color: ZERO,
+      zomma: ZERO,
+    };
   }
 
   /**
-   * Calculate Greeks for a position
+   * Calculate Greeks for a position, at the fitted surface IV when given and
+   * Black-76 off the expiry's implied forward when known, with scheduled
+   * event variance to expiry
    */
   private calculatePositionGreeks(
     position: Position,
     spotPrice: Decimal,
-    optionPrice: Decimal
+    optionPrice: Decimal,
+    surfaceIV?: Decimal,
+    forward?: Decimal
   ): Greeks {
-    const timeToExpiry = getTimeToExpiryYears(position.expiry);
+    const timeToExpiry = timeToExpiryYears(position.expiry);
+    const eventVariance = toDecimal(getEventCalendar().getEventVariance(position.underlying, position.expiry));
 
-    // Calculate IV from market price
+    // Use the smoothed surface IV, else calculate IV from market price
     let iv: Decimal;
-    try {
-      iv = calculateIV(
-        optionPrice,
-        spotPrice,
-        toDecimal(position.strike!),
-        timeToExpiry,
-        PRICING.RISK_FREE_RATE,
-        position.instrumentType as 'CE' | 'PE'
-      );
-    } catch {
-      iv = new Decimal(0.20); // Default 20%
+    if (surfaceIV?.greaterThan(0)) {
+      iv = surfaceIV;
+    } else {
+      try {
+        iv = calculateIV(
+          optionPrice,
+          spotPrice,
+          toDecimal(position.strike!),
+          timeToExpiry,
+          PRICING.RISK_FREE_RATE,
+          position.instrumentType as 'CE' | 'PE',
+          forward,
+          eventVariance
+        );
+      } catch {
+        iv = new Decimal(0.20); // Default 20%
+      }
     }
 
     const greeks = calculateGreeks({
@@ -328,6 +411,8 @@ export class PositionManager {
       riskFreeRate: PRICING.RISK_FREE_RATE,
       volatility: iv,
       optionType: position.instrumentType as 'CE' | 'PE',
+      forward,
+      eventVariance,
     });
 
     return greeks;
@@ -420,32 +505,173 @@ export class PositionManager {
   }
 
   /**
-   * Get net Greeks across all positions
+   * Get net Greeks across all positions (optionally one underlying)
    */
-  getNetGreeks(): {
-    delta: Decimal;
-    gamma: Decimal;
-    theta: Decimal;
-    vega: Decimal;
-  } {
-    let delta = ZERO;
-    let gamma = ZERO;
-    let theta = ZERO;
-    let vega = ZERO;
+  getNetGreeks(underlying?: Underlying): NetGreeks {
+    const positions = Array.from(this.positions.values())
+      .filter(p => !underlying || p.underlying === underlying);
+    return this.sumGreeks(positions);
+  }
 
-    for (const position of this.positions.values()) {
+  /**
+   * Greeks of one position, signed by side and times quantity
+   */
+  getPositionGreeks(positionId: string): NetGreeks | undefined {
+    const position = this.positions.get(positionId);
+    return position ? this.sumGreeks([position]) : undefined;
+  }
+
+  /**
+   * Net Greeks across a strategy's legs
+   */
+  getStrategyGreeks(strategyId: string): NetGreeks | undefined {
+    const strategy = getStrategyAggregator().getStrategy(strategyId);
+    if (!strategy) return undefined;
+
+    const positions = strategy.positions
+      .map(id => this.positions.get(id))
+      .filter((p): p is Position => p !== undefined);
+    return this.sumGreeks(positions);
+  }
+
+  /**
+   * Payoff of a strategy's open legs: expiry and T+n curves, breakevens,
+   * max profit/loss. Undefined for an unknown strategy or one with no
+   * open legs.
+   */
+  getStrategyPayoff(strategyId: string, options: Partial<PayoffOptions> = {}): PayoffAnalysis | undefined {
+    const strategy = getStrategyAggregator().getStrategy(strategyId);
+    const legs = strategy ? this.getPayoffLegs(strategy.positions) : [];
+    if (!strategy || legs.length === 0) return undefined;
+
+    return calculatePayoff(legs, getMarketState().getSpotPrice(strategy.underlying).toNumber(), options);
+  }
+
+  /**
+   * Probability of profit, expected P&L and move, and short strike odds
+   * of a strategy at its first expiry. Undefined without open legs or an
+   * IV for that expiry.
+   */
+  getStrategyProbabilities(strategyId: string): ProbabilityAnalysis | undefined {
+    const strategy = getStrategyAggregator().getStrategy(strategyId);
+    const legs = strategy ? this.getPayoffLegs(strategy.positions) : [];
+    if (!strategy || legs.length === 0) return undefined;
+
+    const expiry = legs.reduce((first, leg) => (leg.expiry < first ? leg.expiry : first), legs[0]!.expiry);
+    const distribution = getVolSurfaceTracker().getExpiryDistribution(strategy.underlying, expiry);
+    return distribution ? calculateProbabilities(legs, distribution) : undefined;
+  }
+
+  /**
+   * Recompute a strategy's breakevens, max profit/loss and risk/reward
+   * from its open legs
+   */
+  refreshStrategyPayoff(strategyId: string): void {
+    const strategy = getStrategyAggregator().getStrategy(strategyId);
+    if (!strategy) return;
+
+    const payoff = this.getStrategyPayoff(strategyId, { daysForward: [] });
+    strategy.breakevens = payoff?.breakevens ?? [];
+    strategy.maxProfit = payoff?.maxProfit;
+    strategy.maxLoss = payoff?.maxLoss;
+    strategy.riskReward = payoff?.riskReward;
+  }
+
+  /**
+   * Open positions as payoff legs (signed quantity, IV from their Greeks)
+   */
+  private getPayoffLegs(positionIds: string[]): PayoffLeg[] {
+    const marketState = getMarketState();
+    return positionIds
+      .map(id => this.positions.get(id))
+      .filter((p): p is Position => p !== undefined)
+      .map(position => ({
+        underlying: position.underlying,
+        instrumentType: position.instrumentType,
+        strike: position.strike,
+        expiry: position.expiry,
+        quantity: position.side === 'LONG' ? position.quantity : -position.quantity,
+        entryPrice: position.avgPrice.toNumber(),
+        price: position.currentPrice.toNumber(),
+        iv: position.greeks?.iv.greaterThan(0) ? position.greeks.iv.toNumber() / 100 : undefined,
+        forward: position.instrumentType === 'FUT'
+          ? undefined
+          : marketState.getForward(position.underlying, position.expiry)?.forward.toNumber(),
+      }));
+  }
+
+  /**
+   * Sum first and second order Greeks, plus rupee Greeks at each
+   * underlying's spot. Positions without Greeks are skipped.
+   */
+  private sumGreeks(positions: Position[]): NetGreeks {
+    const marketState = getMarketState();
+    const net: NetGreeks = {
+      delta: ZERO,
+      gamma: ZERO,
+      theta: ZERO,
+      vega: ZERO,
+      rho: ZERO,
+      vanna: ZERO,
+      volga: ZERO,
+      charm: ZERO,
+      speed: ZERO,
+      color: ZERO,
+      zomma: ZERO,
+      cash: { delta: ZERO, gamma: ZERO, theta: ZERO, vega: ZERO },
+    };
+
+    for (const position of positions) {
       if (!position.greeks) continue;
 
       const sign = position.side === 'LONG' ? 1 : -1;
-      const qty = position.quantity;
+      const qty = position.quantity * sign;
+      const greeks = position.greeks;
+
+      for (const key of GREEK_KEYS) {
+        net[key] = net[key].plus(greeks[key].times(qty));
+      }
 
-      delta = delta.plus(position.greeks.delta.times(qty * sign));
-      gamma = gamma.plus(position.greeks.gamma.times(qty * sign));
-      theta = theta.plus(position.greeks.theta.times(qty * sign));
-      vega = vega.plus(position.greeks.vega.times(qty * sign));
+      const cash = calculateCashGreeks(greeks, marketState.getSpotPrice(position.underlying), qty);
+      net.cash = {
+        delta: net.cash.delta.plus(cash.delta),
+        gamma: net.cash.gamma.plus(cash.gamma),
+        theta: net.cash.theta.plus(cash.theta),
+        vega: net.cash.vega.plus(cash.vega),
+      };
     }
 
-    return { delta, gamma, theta, vega };
+    return net;
+  }
+
+  /**
+   * Futures order that brings an underlying's net delta closest to zero.
+   * Delta is in units of the underlying, so one futures lot offsets
+   * lotSize x e^(rT) of it.
+   */
+  getFuturesHedge(underlying: Underlying, lotSize: number, futuresExpiry: Date): {
+    netDelta: Decimal;
+    side: 'BUY' | 'SELL' | null;
+    lots: number;
+    quantity: number;
+    residualDelta: Decimal;
+  } {
+    const netDelta = this.getNetGreeks(underlying).delta;
+    const deltaPerLot = Decimal.exp(
+      PRICING.RISK_FREE_RATE.times(timeToExpiryYears(futuresExpiry))
+    ).times(lotSize);
+
+    const lots = netDelta.abs().dividedBy(deltaPerLot).round().toNumber();
+    const side = lots === 0 ? null : netDelta.isPositive() ? 'SELL' : 'BUY';
+    const hedgeDelta = deltaPerLot.times(lots).times(side === 'SELL' ? -1 : 1);
+
+    return {
+      netDelta,
+      side,
+      lots,
+      quantity: lots * lotSize,
+      residualDelta: lots === 0 ? netDelta : netDelta.plus(hedgeDelta),
+    };
   }
 
   /**
@@ -456,6 +682,13 @@ export class PositionManager {
     this.positionsBySymbol.clear();
     this.trades.clear();
   }
+
+  /**
+   * Stop following strategy changes
+   */
+  destroy(): void {
+    eventBus.off('STRATEGY_UPDATED', this.strategyHandler);
+  }
 }
 
 // ============================================================================
@@ -479,5 +712,6 @@ export function getPositionManager(): PositionManager {
  */
 export function resetPositionManager(): void {
   positionManager?.clear();
+  positionManager?.destroy();
   positionManager = null;
 }
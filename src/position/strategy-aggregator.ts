@@ -1,6 +1,7 @@
 import { Strategy, StrategyType, Underlying } from '../core/types.js';
 import { v4 as uuidv4 } from 'uuid';
 import { Decimal, ZERO } from '../utils/decimal.js';
+import { eventBus } from '../core/events.js';
 
 export class StrategyAggregator {
   private strategies: Map<string, Strategy> = new Map();
@@ -36,6 +37,7 @@ export class StrategyAggregator {
     };
 
     this.strategies.set(strategy.id, strategy);
+    eventBus.emit('STRATEGY_CREATED', strategy);
     return strategy;
   }
 
@@ -46,6 +48,7 @@ export class StrategyAggregator {
     if (!strategy.positions.includes(positionId)) {
       strategy.positions.push(positionId);
       this.positionMap.set(positionId, strategyId);
+      eventBus.emit('STRATEGY_UPDATED', strategy);
     }
   }
 
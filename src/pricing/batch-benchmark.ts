@@ -0,0 +1,226 @@
+/**
+ * Batch Pricer Benchmark for NSE Options Paper Trading
+ *
+ * Prices a synthetic chain (a skewed smile over several expiries, one of
+ * them off an implied forward, one across a scheduled event) with both the Decimal implementation and the
+ * Float64Array batch pricer, and reports speed and the largest disagreement
+ * per output. IV is compared from the same market prices; price and Greeks
+ * are compared at the Decimal IVs, so solver tolerance doesn't blur the
+ * pricing comparison.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { PRICING } from '../core/constants.js';
+import { toDecimal } from '../utils/decimal.js';
+import { calculateGreeks, calculateOptionPrice } from './black-scholes.js';
+import { calculateIV } from './iv-calculator.js';
+import { computeChain, createChainBatch, priceBatch, type ChainBatch } from './batch-pricer.js';
+import type { BSParams, Greeks } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BatchBenchmarkOptions {
+  spot: number;
+  strikeInterval: number;
+  strikesAroundATM: number;
+  expiryDays: number[];
+  iterations: number;
+}
+
+export type BatchAccuracyField = 'iv' | 'price' | keyof Omit<Greeks, 'iv'>;
+
+export interface BatchBenchmarkResult {
+  options: number;
+  iterations: number;
+  decimalMs: number;        // Per chain: calculateIV + calculateGreeks per option
+  batchMs: number;          // Per chain: computeChain
+  speedup: number;
+  maxError: Record<BatchAccuracyField, number>;   // Relative to max(|Decimal value|, 1e-6); IV absolute in vol points
+  failures: BatchAccuracyField[];                 // Fields above tolerance
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_OPTIONS: BatchBenchmarkOptions = {
+  spot: 22000,
+  strikeInterval: 50,
+  strikesAroundATM: 30,
+  expiryDays: [3, 10, 31],
+  iterations: 5,
+};
+
+const FORWARD_EXPIRY_INDEX = 1;        // This expiry is priced Black-76 off a forward
+const FORWARD_CARRY = 0.075;           // Carry of that forward (vs the 6.5% rate)
+const EVENT_EXPIRY_INDEX = 2;          // This expiry spans an event
+const EVENT_VARIANCE = 0.0004;         // A 2% one-day move
+const MIN_BENCHMARK_PRICE = 0.05;      // One tick; cheaper strikes are left out
+
+/**
+ * Largest acceptable disagreement per field
+ */
+export const BATCH_ACCURACY_TOLERANCE: Record<BatchAccuracyField, number> = {
+  iv: 0.01,          // Vol points: both solvers stop within 1e-4 of price
+  price: 1e-8,
+  delta: 1e-8,
+  gamma: 1e-8,
+  theta: 1e-8,
+  vega: 1e-8,
+  rho: 1e-8,
+  vanna: 1e-8,
+  volga: 1e-8,
+  charm: 1e-8,
+  speed: 1e-8,
+  color: 1e-8,
+  zomma: 1e-8,
+};
+
+const GREEK_FIELDS = [
+  'delta', 'gamma', 'theta', 'vega', 'rho', 'vanna', 'volga', 'charm', 'speed', 'color', 'zomma',
+] as const;
+
+// ============================================================================
+// BENCHMARK
+// ============================================================================
+
+/**
+ * Time both implementations over a synthetic chain and compare their outputs
+ */
+export function runBatchBenchmark(options: Partial<BatchBenchmarkOptions> = {}): BatchBenchmarkResult {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const chain = buildSyntheticChain(opts);
+  const riskFreeRate = PRICING.RISK_FREE_RATE.toNumber();
+  const iterations = Math.max(1, opts.iterations);
+
+  // Decimal: one option at a time
+  let decimalIVs: number[] = [];
+  let decimalGreeks: Greeks[] = [];
+  const decimalStart = performance.now();
+  for (let n = 0; n < iterations; n++) {
+    decimalIVs = [];
+    decimalGreeks = [];
+    for (const option of chain) {
+      const iv = calculateIV(
+        option.price,
+        option.params.spot,
+        option.params.strike,
+        option.params.timeToExpiry,
+        option.params.riskFreeRate,
+        option.params.optionType,
+        option.params.forward,
+        option.params.eventVariance
+      );
+      decimalIVs.push(iv.toNumber());
+      decimalGreeks.push(calculateGreeks({ ...option.params, volatility: iv }));
+    }
+  }
+  const decimalMs = (performance.now() - decimalStart) / iterations;
+
+  // Batch: the whole chain in one call
+  const batch = createChainBatch(chain.length);
+  chain.forEach((option, i) => fillBatch(batch, i, option));
+  const batchStart = performance.now();
+  for (let n = 0; n < iterations; n++) {
+    computeChain(batch, riskFreeRate);
+  }
+  const batchMs = (performance.now() - batchStart) / iterations;
+
+  const maxError = Object.fromEntries(
+    (Object.keys(BATCH_ACCURACY_TOLERANCE) as BatchAccuracyField[]).map(field => [field, 0])
+  ) as Record<BatchAccuracyField, number>;
+
+  chain.forEach((_, i) => {
+    maxError.iv = Math.max(maxError.iv, Math.abs(batch.iv[i]! - decimalIVs[i]!) * 100);
+  });
+
+  // Price and Greeks at the Decimal IVs
+  decimalIVs.forEach((iv, i) => { batch.iv[i] = iv; });
+  priceBatch(batch, riskFreeRate);
+  chain.forEach((option, i) => {
+    const params = { ...option.params, volatility: toDecimal(decimalIVs[i]!) };
+    maxError.price = Math.max(maxError.price, relativeError(batch.theoretical[i]!, calculateOptionPrice(params).toNumber()));
+    for (const field of GREEK_FIELDS) {
+      maxError[field] = Math.max(maxError[field], relativeError(batch[field][i]!, decimalGreeks[i]![field].toNumber()));
+    }
+  });
+
+  return {
+    options: chain.length,
+    iterations,
+    decimalMs,
+    batchMs,
+    speedup: batchMs > 0 ? decimalMs / batchMs : Infinity,
+    maxError,
+    failures: (Object.keys(maxError) as BatchAccuracyField[])
+      .filter(field => !(maxError[field] <= BATCH_ACCURACY_TOLERANCE[field])),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface SyntheticOption {
+  params: Omit<BSParams, 'volatility'>;
+  price: Decimal;
+}
+
+/**
+ * Calls and puts around ATM for each expiry, priced by the Decimal model on
+ * a smile that rises on the put wing
+ */
+function buildSyntheticChain(options: BatchBenchmarkOptions): SyntheticOption[] {
+  const chain: SyntheticOption[] = [];
+  const spot = toDecimal(options.spot);
+  const atm = Math.round(options.spot / options.strikeInterval) * options.strikeInterval;
+
+  options.expiryDays.forEach((days, expiryIndex) => {
+    const t = days / PRICING.DAYS_IN_YEAR;
+    const forward = expiryIndex === FORWARD_EXPIRY_INDEX
+      ? toDecimal(options.spot * Math.exp(FORWARD_CARRY * t))
+      : undefined;
+    const reference = forward?.toNumber() ?? options.spot * Math.exp(PRICING.RISK_FREE_RATE.toNumber() * t);
+
+    for (let i = -options.strikesAroundATM; i <= options.strikesAroundATM; i++) {
+      const strike = atm + i * options.strikeInterval;
+      const k = Math.log(strike / reference);
+      const vol = 0.13 - 0.3 * k + 2 * k * k;
+
+      for (const optionType of ['CE', 'PE'] as const) {
+        const params = {
+          spot,
+          strike: toDecimal(strike),
+          timeToExpiry: toDecimal(t),
+          riskFreeRate: PRICING.RISK_FREE_RATE,
+          optionType,
+          forward,
+          eventVariance: expiryIndex === EVENT_EXPIRY_INDEX ? toDecimal(EVENT_VARIANCE) : undefined,
+        };
+        const price = calculateOptionPrice({ ...params, volatility: toDecimal(vol) });
+        if (price.lessThan(MIN_BENCHMARK_PRICE)) continue;
+        chain.push({ params, price });
+      }
+    }
+  });
+
+  return chain;
+}
+
+function fillBatch(batch: ChainBatch, i: number, option: SyntheticOption): void {
+  batch.spot[i] = option.params.spot.toNumber();
+  batch.strike[i] = option.params.strike.toNumber();
+  batch.timeToExpiry[i] = option.params.timeToExpiry.toNumber();
+  batch.forward[i] = option.params.forward?.toNumber() ?? NaN;
+  batch.price[i] = option.price.toNumber();
+  batch.isCall[i] = option.params.optionType === 'CE' ? 1 : 0;
+  batch.eventVariance[i] = option.params.eventVariance?.toNumber() ?? 0;
+}
+
+function relativeError(value: number, reference: number): number {
+  return Math.abs(value - reference) / Math.max(Math.abs(reference), 1e-6);
+}
@@ -0,0 +1,406 @@
+/**
+ * Batch Options Pricer for NSE Options Paper Trading
+ *
+ * Float64Array version of black-scholes.ts and iv-calculator.ts for pricing
+ * a whole chain in one call: IV by Newton-Raphson with bisection fallback,
+ * theoretical price and all first- and second-order Greeks. It follows the
+ * Decimal implementation step for step (same A&S normal CDF, clamps, expiry
+ * handling and Black-76 off a forward), so results agree to float rounding
+ * and the IV solver's price tolerance.
+ *
+ * Event variance is added to σ²T as in black-scholes.ts: `iv` is the vol
+ * without it, prices and Greeks are at √(σ² + V/T).
+ *
+ * Everything inside a batch is plain numbers; Decimal only appears at the
+ * boundary, when `batchGreeksAt` hands one option's Greeks back to the rest
+ * of the system.
+ */
+
+import { PRICING } from '../core/constants.js';
+import { toDecimal } from '../utils/decimal.js';
+import type { Greeks } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Structure-of-arrays chain: inputs are filled by the caller, outputs by
+ * `solveIVBatch` / `priceBatch`. A NaN forward prices off spot at r.
+ */
+export interface ChainBatch {
+  size: number;
+
+  // Inputs
+  spot: Float64Array;
+  strike: Float64Array;
+  timeToExpiry: Float64Array;   // Years
+  forward: Float64Array;        // Implied forward, NaN for none
+  price: Float64Array;          // Market price the IV is solved from
+  isCall: Uint8Array;
+  eventVariance: Float64Array;  // Scheduled-event variance to expiry, 0 for none
+
+  // Outputs
+  iv: Float64Array;             // Decimal (0.20 for 20%), NaN when invalid
+  theoretical: Float64Array;
+  delta: Float64Array;
+  gamma: Float64Array;
+  theta: Float64Array;          // Per day
+  vega: Float64Array;           // Per 1% IV
+  rho: Float64Array;            // Per 1% rate
+  vanna: Float64Array;
+  volga: Float64Array;
+  charm: Float64Array;
+  speed: Float64Array;
+  color: Float64Array;
+  zomma: Float64Array;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const IV_MIN = PRICING.IV_MIN.toNumber();
+const IV_MAX = PRICING.IV_MAX.toNumber();
+const IV_INITIAL_GUESS = PRICING.IV_INITIAL_GUESS.toNumber();
+const IV_PRECISION = PRICING.IV_NEWTON_PRECISION.toNumber();
+const MIN_TIME_TO_EXPIRY = PRICING.MIN_TIME_TO_EXPIRY.toNumber();
+const MIN_VEGA = 0.00001;
+const BISECTION_ITERATIONS = 100;
+const SQRT_2PI = Math.sqrt(2 * Math.PI);
+
+// ============================================================================
+// BATCH
+// ============================================================================
+
+/**
+ * Allocate a batch for `size` options
+ */
+export function createChainBatch(size: number): ChainBatch {
+  const forward = new Float64Array(size);
+  forward.fill(NaN);
+
+  return {
+    size,
+    spot: new Float64Array(size),
+    strike: new Float64Array(size),
+    timeToExpiry: new Float64Array(size),
+    forward,
+    price: new Float64Array(size),
+    isCall: new Uint8Array(size),
+    eventVariance: new Float64Array(size),
+    iv: new Float64Array(size),
+    theoretical: new Float64Array(size),
+    delta: new Float64Array(size),
+    gamma: new Float64Array(size),
+    theta: new Float64Array(size),
+    vega: new Float64Array(size),
+    rho: new Float64Array(size),
+    vanna: new Float64Array(size),
+    volga: new Float64Array(size),
+    charm: new Float64Array(size),
+    speed: new Float64Array(size),
+    color: new Float64Array(size),
+    zomma: new Float64Array(size),
+  };
+}
+
+/**
+ * Solve IVs from market prices, then price and compute Greeks at them
+ */
+export function computeChain(batch: ChainBatch, riskFreeRate: number, from = 0, to = batch.size): void {
+  solveIVBatch(batch, riskFreeRate, from, to);
+  priceBatch(batch, riskFreeRate, from, to);
+}
+
+/**
+ * Solve `iv` from `price` for options [from, to), with the same rules as
+ * calculateIV: 0 for no price, IV_MAX outside no-arbitrage bounds, the
+ * initial guess at expiry, and NaN where calculateIV would throw
+ */
+export function solveIVBatch(batch: ChainBatch, riskFreeRate: number, from = 0, to = batch.size): void {
+  for (let i = from; i < to; i++) {
+    const price = batch.price[i]!;
+    const spot = batch.spot[i]!;
+    const strike = batch.strike[i]!;
+    const t = batch.timeToExpiry[i]!;
+    const forward = batch.forward[i]!;
+    const isCall = batch.isCall[i] === 1;
+
+    if (price <= 0) {
+      batch.iv[i] = 0;
+      continue;
+    }
+    if (!(spot > 0) || !(strike > 0)) {
+      batch.iv[i] = NaN;
+      continue;
+    }
+    if (t <= MIN_TIME_TO_EXPIRY) {
+      batch.iv[i] = IV_INITIAL_GUESS;
+      continue;
+    }
+
+    const hasForward = forward > 0;
+    const discountFactor = hasForward ? Math.exp(-riskFreeRate * t) : 1;
+    const underlying = hasForward ? forward : spot;
+    const intrinsic = (isCall ? Math.max(0, underlying - strike) : Math.max(0, strike - underlying)) * discountFactor;
+    const maxPrice = (isCall ? underlying : strike) * discountFactor;
+    if (price < intrinsic || price > maxPrice) {
+      batch.iv[i] = IV_MAX;
+      continue;
+    }
+
+    batch.iv[i] = solveIV(price, spot, strike, t, riskFreeRate, isCall, forward, batch.eventVariance[i]!);
+  }
+}
+
+/**
+ * Theoretical price and Greeks at `iv` for options [from, to); options
+ * without a positive IV before expiry get NaN outputs
+ */
+export function priceBatch(batch: ChainBatch, riskFreeRate: number, from = 0, to = batch.size): void {
+  for (let i = from; i < to; i++) {
+    const spot = batch.spot[i]!;
+    const strike = batch.strike[i]!;
+    const t = batch.timeToExpiry[i]!;
+    const iv = batch.iv[i]!;
+    const forward = batch.forward[i]!;
+    const isCall = batch.isCall[i] === 1;
+
+    // At expiry: intrinsic, delta 0 or ±1
+    if (t <= MIN_TIME_TO_EXPIRY && !Number.isNaN(iv)) {
+      const itm = isCall ? spot > strike : strike > spot;
+      const intrinsic = isCall ? Math.max(0, spot - strike) : Math.max(0, strike - spot);
+      setGreeks(batch, i, intrinsic, itm ? (isCall ? 1 : -1) : 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0);
+      continue;
+    }
+
+    if (!(iv > 0)) {
+      setGreeks(batch, i, NaN, NaN, NaN, NaN, NaN, NaN, NaN, NaN, NaN, NaN, NaN, NaN);
+      continue;
+    }
+
+    const vol = withEventVariance(iv, t, batch.eventVariance[i]!);
+    const hasForward = forward > 0;
+    const sqrtT = Math.sqrt(t);
+    const volSqrtT = vol * sqrtT;
+    const [d1, d2] = d1d2(spot, strike, t, riskFreeRate, vol, forward);
+    const discountFactor = Math.exp(-riskFreeRate * t);
+    const weight = hasForward ? forward * discountFactor / spot : 1;
+    const carry = hasForward ? Math.log(forward / spot) / t : riskFreeRate;
+    const carryGap = carry - riskFreeRate;
+
+    const nd1 = normCdf(d1);
+    const nd2 = normCdf(d2);
+    const nNegD1 = normCdf(-d1);
+    const nNegD2 = normCdf(-d2);
+    const pdf1 = normPdf(d1);
+
+    const underlying = hasForward ? forward * discountFactor : spot;
+    const theoretical = Math.max(0, isCall
+      ? underlying * nd1 - strike * discountFactor * nd2
+      : strike * discountFactor * nNegD2 - underlying * nNegD1);
+
+    const delta = weight * (isCall ? nd1 : nd1 - 1);
+    const gamma = weight * pdf1 / (spot * vol * sqrtT);
+
+    const thetaDecay = -(spot * weight * pdf1 * vol) / (2 * sqrtT);
+    let theta = isCall
+      ? thetaDecay - riskFreeRate * strike * discountFactor * nd2
+      : thetaDecay + riskFreeRate * strike * discountFactor * nNegD2;
+    if (hasForward) {
+      const carryTerm = carryGap * spot * weight;
+      theta = isCall ? theta - carryTerm * nd1 : theta + carryTerm * nNegD1;
+    }
+    theta /= PRICING.DAYS_IN_YEAR;
+
+    const vega = spot * weight * sqrtT * pdf1 / 100;
+
+    let rho: number;
+    if (hasForward) {
+      rho = -theoretical * t / 100;
+    } else {
+      rho = isCall
+        ? strike * t * discountFactor * nd2 / 100
+        : -strike * t * discountFactor * nNegD2 / 100;
+    }
+
+    const d1d2Product = d1 * d2;
+    const vanna = -(weight * pdf1 * d2 / vol) / 100;
+    const volga = vega * d1d2Product / vol / 100;
+    const charmCore = pdf1 * (carry / volSqrtT - d2 / (2 * t));
+    const charm = -weight * (isCall ? charmCore + carryGap * nd1 : charmCore - carryGap * nNegD1) / PRICING.DAYS_IN_YEAR;
+    const speed = -(gamma / spot) * (d1 / volSqrtT + 1);
+    const color = gamma * (
+      (riskFreeRate - carry) + carry * d1 / volSqrtT + (1 - d1d2Product) / (2 * t)
+    ) / PRICING.DAYS_IN_YEAR;
+    const zomma = gamma * (d1d2Product - 1) / vol / 100;
+
+    setGreeks(batch, i, theoretical, delta, gamma, theta, vega, rho, vanna, volga, charm, speed, color, zomma);
+  }
+}
+
+/**
+ * One option's Greeks as Decimals (IV as a percentage, like calculateGreeks);
+ * undefined when its IV could not be solved
+ */
+export function batchGreeksAt(batch: ChainBatch, i: number): Greeks | undefined {
+  const iv = batch.iv[i]!;
+  if (Number.isNaN(iv) || Number.isNaN(batch.delta[i]!)) return undefined;
+
+  return {
+    delta: toDecimal(batch.delta[i]!),
+    gamma: toDecimal(batch.gamma[i]!),
+    theta: toDecimal(batch.theta[i]!),
+    vega: toDecimal(batch.vega[i]!),
+    rho: toDecimal(batch.rho[i]!),
+    iv: toDecimal(iv).times(100),
+    vanna: toDecimal(batch.vanna[i]!),
+    volga: toDecimal(batch.volga[i]!),
+    charm: toDecimal(batch.charm[i]!),
+    speed: toDecimal(batch.speed[i]!),
+    color: toDecimal(batch.color[i]!),
+    zomma: toDecimal(batch.zomma[i]!),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Standard normal CDF, Abramowitz and Stegun 7.1.26 as in black-scholes.ts
+ */
+export function normCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const y = (1 + (1 - polynomial * Math.exp(-z * z))) / 2;
+  return x < 0 ? 1 - y : y;
+}
+
+/**
+ * Standard normal density
+ */
+export function normPdf(x: number): number {
+  return Math.exp(-x * x / 2) / SQRT_2PI;
+}
+
+function d1d2(
+  spot: number,
+  strike: number,
+  t: number,
+  riskFreeRate: number,
+  vol: number,
+  forward: number
+): [number, number] {
+  const volSqrtT = vol * Math.sqrt(t);
+  if (volSqrtT === 0) return [0, 0];
+
+  const d1 = forward > 0
+    ? (Math.log(forward / strike) + vol * vol / 2 * t) / volSqrtT
+    : (Math.log(spot / strike) + (riskFreeRate + vol * vol / 2) * t) / volSqrtT;
+  return [d1, d1 - volSqrtT];
+}
+
+/**
+ * Vol with event variance folded in: √(σ² + V/T)
+ */
+function withEventVariance(vol: number, t: number, eventVariance: number): number {
+  return eventVariance > 0 ? Math.sqrt(vol * vol + eventVariance / t) : vol;
+}
+
+/**
+ * Price with vega per 1% IV (of the vol without event variance), for the
+ * Newton step
+ */
+function priceAndVega(
+  spot: number,
+  strike: number,
+  t: number,
+  riskFreeRate: number,
+  iv: number,
+  isCall: boolean,
+  forward: number,
+  eventVariance: number
+): [number, number] {
+  const vol = withEventVariance(iv, t, eventVariance);
+  const [d1, d2] = d1d2(spot, strike, t, riskFreeRate, vol, forward);
+  const discountFactor = Math.exp(-riskFreeRate * t);
+  const underlying = forward > 0 ? forward * discountFactor : spot;
+
+  const price = isCall
+    ? underlying * normCdf(d1) - strike * discountFactor * normCdf(d2)
+    : strike * discountFactor * normCdf(-d2) - underlying * normCdf(-d1);
+  const vega = underlying * Math.sqrt(t) * normPdf(d1) / 100 * iv / vol;
+
+  return [Math.max(0, price), vega];
+}
+
+/**
+ * Newton-Raphson from the initial guess, falling back to bisection when vega
+ * vanishes or the iteration doesn't converge
+ */
+function solveIV(
+  marketPrice: number,
+  spot: number,
+  strike: number,
+  t: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  forward: number,
+  eventVariance: number
+): number {
+  let vol = IV_INITIAL_GUESS;
+
+  for (let iteration = 0; iteration < PRICING.IV_NEWTON_ITERATIONS; iteration++) {
+    const [price, vega] = priceAndVega(spot, strike, t, riskFreeRate, vol, isCall, forward, eventVariance);
+    const diff = price - marketPrice;
+    if (Math.abs(diff) < IV_PRECISION) return vol;
+    if (Math.abs(vega) < MIN_VEGA) break;
+
+    vol = Math.max(IV_MIN, Math.min(IV_MAX, vol - diff / (vega * 100)));
+  }
+
+  let low = IV_MIN;
+  let high = IV_MAX;
+  let mid = (low + high) / 2;
+  for (let iteration = 0; iteration < BISECTION_ITERATIONS && high - low > IV_PRECISION; iteration++) {
+    const diff = priceAndVega(spot, strike, t, riskFreeRate, mid, isCall, forward, eventVariance)[0] - marketPrice;
+    if (Math.abs(diff) < IV_PRECISION) break;
+    if (diff > 0) high = mid;
+    else low = mid;
+    mid = (low + high) / 2;
+  }
+  return mid;
+}
+
+function setGreeks(
+  batch: ChainBatch,
+  i: number,
+  theoretical: number,
+  delta: number,
+  gamma: number,
+  theta: number,
+  vega: number,
+  rho: number,
+  vanna: number,
+  volga: number,
+  charm: number,
+  speed: number,
+  color: number,
+  zomma: number
+): void {
+  batch.theoretical[i] = theoretical;
+  batch.delta[i] = delta;
+  batch.gamma[i] = gamma;
+  batch.theta[i] = theta;
+  batch.vega[i] = vega;
+  batch.rho[i] = rho;
+  batch.vanna[i] = vanna;
+  batch.volga[i] = volga;
+  batch.charm[i] = charm;
+  batch.speed[i] = speed;
+  batch.color[i] = color;
+  batch.zomma[i] = zomma;
+}
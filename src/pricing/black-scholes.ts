@@ -3,6 +3,15 @@
  *
  * Implements the Black-Scholes-Merton model for European options.
  * Used for theoretical pricing and IV calculation.
+ *
+ * When `forward` is set on the params, options are priced Black-76 style
+ * off that forward (from put-call parity or the futures price) instead of
+ * S·e^(rT). Greeks stay against spot, with the forward moving one for one
+ * with spot at the implied carry ln(F/S) / T.
+ *
+ * `eventVariance` (scheduled events before expiry) is added to the
+ * diffusion variance σ²T: prices and Greeks are at σ' = √(σ² + V/T), vol
+ * Greeks per point of σ', and the reported IV stays σ.
  */
 
 import DecimalConstructor from 'decimal.js';
@@ -10,7 +19,7 @@ const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
 import { PRICING } from '../core/constants.js';
 import { toDecimal, ZERO, ONE } from '../utils/decimal.js';
-import type { BSParams, Greeks } from '../core/types.js';
+import type { BSParams, CashGreeks, Greeks } from '../core/types.js';
 
 // ============================================================================
 // STANDARD NORMAL DISTRIBUTION
@@ -18,7 +27,8 @@ import type { BSParams, Greeks } from '../core/types.js';
 
 /**
  * Standard normal cumulative distribution function (CDF)
- * Uses Abramowitz and Stegun approximation (error < 7.5e-8)
+ * Uses Abramowitz and Stegun 7.1.26 for erf (error < 1.5e-7),
+ * with N(x) = (1 + erf(x / sqrt(2))) / 2
  */
 export function normCDF(x: Decimal): Decimal {
   const a1 = new Decimal('0.254829592');
@@ -29,9 +39,9 @@ export function normCDF(x: Decimal): Decimal {
   const p = new Decimal('0.3275911');
 
   const sign = x.isNegative() ? -1 : 1;
-  const absX = x.abs();
+  const z = x.abs().dividedBy(Math.SQRT2);
 
-  const t = ONE.dividedBy(ONE.plus(p.times(absX)));
+  const t = ONE.dividedBy(ONE.plus(p.times(z)));
   const t2 = t.times(t);
   const t3 = t2.times(t);
   const t4 = t3.times(t);
@@ -43,8 +53,9 @@ export function normCDF(x: Decimal): Decimal {
     .plus(a4.times(t4))
     .plus(a5.times(t5));
 
-  const expTerm = absX.negated().times(absX).dividedBy(2).exp();
-  const y = ONE.minus(polynomial.times(expTerm));
+  const expTerm = z.negated().times(z).exp();
+  const erf = ONE.minus(polynomial.times(expTerm));
+  const y = ONE.plus(erf).dividedBy(2);
 
   if (sign === 1) {
     return y;
@@ -66,11 +77,26 @@ export function normPDF(x: Decimal): Decimal {
 // BLACK-SCHOLES FORMULAS
 // ============================================================================
 
+/**
+ * Params with event variance folded into the volatility: σ' = √(σ² + V/T)
+ */
+export function withEventVariance(params: BSParams): BSParams {
+  const { eventVariance, timeToExpiry, volatility } = params;
+  if (!eventVariance?.greaterThan(0) || timeToExpiry.lessThanOrEqualTo(PRICING.MIN_TIME_TO_EXPIRY)) {
+    return params;
+  }
+  return {
+    ...params,
+    volatility: volatility.times(volatility).plus(eventVariance.dividedBy(timeToExpiry)).sqrt(),
+    eventVariance: undefined,
+  };
+}
+
 /**
  * Calculate d1 and d2 parameters
  */
 export function calculateD1D2(params: BSParams): { d1: Decimal; d2: Decimal } {
-  const { spot, strike, timeToExpiry, riskFreeRate, volatility } = params;
+  const { spot, strike, timeToExpiry, riskFreeRate, volatility } = withEventVariance(params);
 
   if (timeToExpiry.lessThanOrEqualTo(PRICING.MIN_TIME_TO_EXPIRY)) {
     // At expiry, use intrinsic value
@@ -84,6 +110,13 @@ export function calculateD1D2(params: BSParams): { d1: Decimal; d2: Decimal } {
     return { d1: ZERO, d2: ZERO };
   }
 
+  if (params.forward) {
+    // Black-76: d1 = (ln(F/K) + σ²/2 * T) / (σ * √T)
+    const logFK = params.forward.dividedBy(strike).ln();
+    const d1 = logFK.plus(volatility.times(volatility).dividedBy(2).times(timeToExpiry)).dividedBy(volSqrtT);
+    return { d1, d2: d1.minus(volSqrtT) };
+  }
+
   // d1 = (ln(S/K) + (r + σ²/2) * T) / (σ * √T)
   const logSK = spot.dividedBy(strike).ln();
   const rPlusHalfVol2 = riskFreeRate.plus(volatility.times(volatility).dividedBy(2));
@@ -108,12 +141,13 @@ export function calculateCallPrice(params: BSParams): Decimal {
 
   const { d1, d2 } = calculateD1D2(params);
 
-  // C = S * N(d1) - K * e^(-rT) * N(d2)
+  // C = S * N(d1) - K * e^(-rT) * N(d2), or e^(-rT) * (F * N(d1) - K * N(d2))
   const Nd1 = normCDF(d1);
   const Nd2 = normCDF(d2);
   const discountFactor = riskFreeRate.negated().times(timeToExpiry).exp();
+  const underlying = params.forward ? params.forward.times(discountFactor) : spot;
 
-  const price = spot.times(Nd1).minus(strike.times(discountFactor).times(Nd2));
+  const price = underlying.times(Nd1).minus(strike.times(discountFactor).times(Nd2));
 
   return Decimal.max(ZERO, price);
 }
@@ -131,12 +165,13 @@ export function calculatePutPrice(params: BSParams): Decimal {
 
   const { d1, d2 } = calculateD1D2(params);
 
-  // P = K * e^(-rT) * N(-d2) - S * N(-d1)
+  // P = K * e^(-rT) * N(-d2) - S * N(-d1), or e^(-rT) * (K * N(-d2) - F * N(-d1))
   const NnegD1 = normCDF(d1.negated());
   const NnegD2 = normCDF(d2.negated());
   const discountFactor = riskFreeRate.negated().times(timeToExpiry).exp();
+  const underlying = params.forward ? params.forward.times(discountFactor) : spot;
 
-  const price = strike.times(discountFactor).times(NnegD2).minus(spot.times(NnegD1));
+  const price = strike.times(discountFactor).times(NnegD2).minus(underlying.times(NnegD1));
 
   return Decimal.max(ZERO, price);
 }
@@ -160,7 +195,7 @@ export function calculateOptionPrice(params: BSParams): Decimal {
  * Calculate all Greeks for an option
  */
 export function calculateGreeks(params: BSParams): Greeks {
-  const { spot, strike, timeToExpiry, riskFreeRate, volatility, optionType } = params;
+  const { spot, strike, timeToExpiry, riskFreeRate, optionType } = params;
 
   // Handle expiry edge case
   if (timeToExpiry.lessThanOrEqualTo(PRICING.MIN_TIME_TO_EXPIRY)) {
@@ -174,30 +209,44 @@ export function calculateGreeks(params: BSParams): Greeks {
       theta: ZERO,
       vega: ZERO,
       rho: ZERO,
-      iv: volatility.times(100),
+      iv: params.volatility.times(100),
+      vanna: ZERO,
+      volga: ZERO,
+      charm: ZERO,
+      speed: ZERO,
+      color: ZERO,
+      zomma: ZERO,
     };
   }
 
+  const { volatility } = withEventVariance(params);
   const { d1, d2 } = calculateD1D2(params);
   const sqrtT = timeToExpiry.sqrt();
   const discountFactor = riskFreeRate.negated().times(timeToExpiry).exp();
   const Nd1 = normCDF(d1);
   const Nd1PDF = normPDF(d1);
   const Nd2 = normCDF(d2);
+  const weight = forwardWeight(params, discountFactor);
+
+  // Cost of carry b: r, or ln(F/S) / T off a forward
+  const carry = params.forward
+    ? params.forward.dividedBy(spot).ln().dividedBy(timeToExpiry)
+    : riskFreeRate;
+  const carryGap = carry.minus(riskFreeRate);
 
   // Delta
   let delta: Decimal;
   if (optionType === 'CE') {
-    delta = Nd1;
+    delta = weight.times(Nd1);
   } else {
-    delta = Nd1.minus(1);
+    delta = weight.times(Nd1.minus(1));
   }
 
   // Gamma (same for call and put)
-  const gamma = Nd1PDF.dividedBy(spot.times(volatility).times(sqrtT));
+  const gamma = weight.times(Nd1PDF).dividedBy(spot.times(volatility).times(sqrtT));
 
   // Theta (per day)
-  const thetaTerm1 = spot.times(Nd1PDF).times(volatility).dividedBy(sqrtT.times(2)).negated();
+  const thetaTerm1 = spot.times(weight).times(Nd1PDF).times(volatility).dividedBy(sqrtT.times(2)).negated();
 
   let theta: Decimal;
   if (optionType === 'CE') {
@@ -208,28 +257,88 @@ export function calculateGreeks(params: BSParams): Greeks {
     const thetaTerm2 = riskFreeRate.times(strike).times(discountFactor).times(NnegD2);
     theta = thetaTerm1.plus(thetaTerm2);
   }
+
+  // Carry away from r: -(b - r) * S * e^((b-r)T) * N(d1) for calls, + ... * N(-d1) for puts
+  if (params.forward) {
+    const carryTerm = carryGap.times(spot).times(weight);
+    theta = optionType === 'CE'
+      ? theta.minus(carryTerm.times(Nd1))
+      : theta.plus(carryTerm.times(normCDF(d1.negated())));
+  }
+
   // Convert to daily theta
   theta = theta.dividedBy(PRICING.DAYS_IN_YEAR);
 
   // Vega (per 1% IV change)
-  const vega = spot.times(sqrtT).times(Nd1PDF).dividedBy(100);
+  const vega = spot.times(weight).times(sqrtT).times(Nd1PDF).dividedBy(100);
 
-  // Rho (per 1% rate change)
+  // Rho (per 1% rate change); an observed forward doesn't move with r, so only discounting does
   let rho: Decimal;
-  if (optionType === 'CE') {
+  if (params.forward) {
+    rho = calculateOptionPrice(params).times(timeToExpiry).negated().dividedBy(100);
+  } else if (optionType === 'CE') {
     rho = strike.times(timeToExpiry).times(discountFactor).times(Nd2).dividedBy(100);
   } else {
     const NnegD2 = normCDF(d2.negated());
     rho = strike.times(timeToExpiry).times(discountFactor).times(NnegD2).negated().dividedBy(100);
   }
 
+  // Second order
+  const volSqrtT = volatility.times(sqrtT);
+  const d1d2 = d1.times(d2);
+
+  // Vanna: -e^((b-r)T) * n(d1) * d2 / σ
+  const vanna = weight.times(Nd1PDF).times(d2).dividedBy(volatility).negated().dividedBy(100);
+
+  // Volga: vega * d1 * d2 / σ
+  const volga = vega.times(d1d2).dividedBy(volatility).dividedBy(100);
+
+  // Charm: -e^((b-r)T) * [n(d1) * (b / σ√T - d2 / 2T) ± (b - r) * N(±d1)]
+  const charmCore = Nd1PDF.times(carry.dividedBy(volSqrtT).minus(d2.dividedBy(timeToExpiry.times(2))));
+  const charm = weight.times(
+    optionType === 'CE'
+      ? charmCore.plus(carryGap.times(Nd1))
+      : charmCore.minus(carryGap.times(normCDF(d1.negated())))
+  ).negated().dividedBy(PRICING.DAYS_IN_YEAR);
+
+  // Speed: -Γ / S * (d1 / σ√T + 1)
+  const speed = gamma.dividedBy(spot).times(d1.dividedBy(volSqrtT).plus(1)).negated();
+
+  // Color: Γ * [(r - b) + b * d1 / σ√T + (1 - d1 * d2) / 2T]
+  const color = gamma.times(
+    riskFreeRate.minus(carry)
+      .plus(carry.times(d1).dividedBy(volSqrtT))
+      .plus(ONE.minus(d1d2).dividedBy(timeToExpiry.times(2)))
+  ).dividedBy(PRICING.DAYS_IN_YEAR);
+
+  // Zomma: Γ * (d1 * d2 - 1) / σ
+  const zomma = gamma.times(d1d2.minus(1)).dividedBy(volatility).dividedBy(100);
+
   return {
     delta,
     gamma,
     theta,
     vega,
     rho,
-    iv: volatility.times(100),  // Store as percentage
+    iv: params.volatility.times(100),  // Store as percentage, without event variance
+    vanna,
+    volga,
+    charm,
+    speed,
+    color,
+    zomma,
+  };
+}
+
+/**
+ * Rupee Greeks for a signed quantity at the given spot
+ */
+export function calculateCashGreeks(greeks: Greeks, spot: Decimal, quantity: number): CashGreeks {
+  return {
+    delta: greeks.delta.times(spot).times(quantity),
+    gamma: greeks.gamma.times(spot).times(spot).dividedBy(100).times(quantity),
+    theta: greeks.theta.times(quantity),
+    vega: greeks.vega.times(quantity),
   };
 }
 
@@ -246,8 +355,9 @@ export function calculateDelta(params: BSParams): Decimal {
 
   const { d1 } = calculateD1D2(params);
   const Nd1 = normCDF(d1);
+  const weight = forwardWeight(params);
 
-  return params.optionType === 'CE' ? Nd1 : Nd1.minus(1);
+  return weight.times(params.optionType === 'CE' ? Nd1 : Nd1.minus(1));
 }
 
 /**
@@ -262,7 +372,7 @@ export function calculateGamma(params: BSParams): Decimal {
   const sqrtT = params.timeToExpiry.sqrt();
   const Nd1PDF = normPDF(d1);
 
-  return Nd1PDF.dividedBy(params.spot.times(params.volatility).times(sqrtT));
+  return forwardWeight(params).times(Nd1PDF).dividedBy(params.spot.times(withEventVariance(params).volatility).times(sqrtT));
 }
 
 /**
@@ -277,7 +387,45 @@ export function calculateVega(params: BSParams): Decimal {
   const sqrtT = params.timeToExpiry.sqrt();
   const Nd1PDF = normPDF(d1);
 
-  return params.spot.times(sqrtT).times(Nd1PDF).dividedBy(100);
+  return params.spot.times(forwardWeight(params)).times(sqrtT).times(Nd1PDF).dividedBy(100);
+}
+
+/**
+ * e^((b-r)T) = F·e^(-rT) / S: scales spot Greeks when priced off a forward
+ * (exactly 1 without one, where the carry b is r)
+ */
+function forwardWeight(params: BSParams, discountFactor?: Decimal): Decimal {
+  if (!params.forward) return ONE;
+  const df = discountFactor ?? params.riskFreeRate.negated().times(params.timeToExpiry).exp();
+  return params.forward.times(df).dividedBy(params.spot);
+}
+
+// ============================================================================
+// FORWARDS
+// ============================================================================
+
+/**
+ * Forward implied by put-call parity: F = K + e^(rT) * (C - P)
+ */
+export function calculateParityForward(
+  callPrice: Decimal,
+  putPrice: Decimal,
+  strike: Decimal,
+  timeToExpiry: Decimal,
+  riskFreeRate: Decimal
+): Decimal {
+  const growth = riskFreeRate.times(timeToExpiry).exp();
+  return strike.plus(growth.times(callPrice.minus(putPrice)));
+}
+
+/**
+ * Annualized carry implied by a forward: ln(F/S) / T
+ */
+export function calculateImpliedCarry(forward: Decimal, spot: Decimal, timeToExpiry: Decimal): Decimal {
+  if (timeToExpiry.lessThanOrEqualTo(PRICING.MIN_TIME_TO_EXPIRY) || spot.lessThanOrEqualTo(0)) {
+    return ZERO;
+  }
+  return forward.dividedBy(spot).ln().dividedBy(timeToExpiry);
 }
 
 // ============================================================================
@@ -0,0 +1,260 @@
+/**
+ * Event-Volatility Calendar for NSE Options Paper Trading
+ *
+ * Scheduled macro events (Union Budget, RBI policy, election results, US
+ * CPI, FOMC) with the variance each adds to an underlying, read from an
+ * editable JSON file (config/events.json by default):
+ *
+ *   {
+ *     "events": [
+ *       {
+ *         "name": "Union Budget",
+ *         "type": "BUDGET",
+ *         "date": "2027-02-01T11:00:00+05:30",
+ *         "underlyings": {
+ *           "NIFTY": { "expectedMovePct": 2 },
+ *           "BANKNIFTY": { "variance": 0.0009 }
+ *         }
+ *       }
+ *     ]
+ *   }
+ *
+ * Per underlying, give the one-standard-deviation move on the event in
+ * percent, or its variance directly ((move / 100)²). An option's event
+ * variance is the sum over events from now to 15:30 on its expiry date;
+ * pricing adds it to σ²T, so an event's premium is gone once it passes.
+ *
+ * An event also listed in `varianceClock.events` (same name, same time)
+ * would be counted twice, so it is left to the variance clock and skipped
+ * here with a warning. Other events on the same day are kept.
+ *
+ * The file is re-read when it changes, checked at most once every
+ * RELOAD_INTERVAL_MS. A file that fails to parse keeps the last good events.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { EVENT_CALENDAR, isUnderlying } from '../core/constants.js';
+import { logger } from '../utils/logger.js';
+import { clockNow } from '../utils/clock.js';
+import { getVarianceClock } from '../utils/variance-clock.js';
+import type { MacroEventType, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MacroEvent {
+  name: string;
+  type: MacroEventType;
+  date: Date;
+  variance: Partial<Record<Underlying, number>>;   // (1σ move)², per underlying
+}
+
+export interface EventCalendarOptions {
+  enabled: boolean;
+  file: string;
+}
+
+export interface EventCalendarStatus {
+  enabled: boolean;
+  file: string;
+  events: number;
+  loadedAt?: Date;
+  error?: string;
+}
+
+// ============================================================================
+// FILE SCHEMA
+// ============================================================================
+
+const eventMoveSchema = z.object({
+  expectedMovePct: z.number().positive().optional(),
+  variance: z.number().positive().max(EVENT_CALENDAR.MAX_VARIANCE).optional(),
+}).refine(
+  move => (move.expectedMovePct === undefined) !== (move.variance === undefined),
+  'Give either expectedMovePct or variance'
+).refine(
+  move => move.expectedMovePct === undefined || (move.expectedMovePct / 100) ** 2 <= EVENT_CALENDAR.MAX_VARIANCE,
+  'expectedMovePct is implausibly large'
+);
+
+const eventFileSchema = z.object({
+  events: z.array(z.object({
+    name: z.string().min(1),
+    type: z.enum(['BUDGET', 'RBI_POLICY', 'ELECTION', 'US_CPI', 'FOMC', 'OTHER']).default('OTHER'),
+    date: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid event date'),
+    underlyings: z.record(z.string().refine(isUnderlying, 'Unknown underlying'), eventMoveSchema),
+  })).default([]),
+});
+
+// ============================================================================
+// EVENT CALENDAR
+// ============================================================================
+
+export class EventCalendar {
+  private options: EventCalendarOptions;
+  private events: MacroEvent[] = [];
+  private loadedAt?: Date;
+  private loadedMtimeMs?: number;
+  private lastCheck = 0;
+  private error?: string;
+
+  constructor(options: Partial<EventCalendarOptions> = {}) {
+    this.options = {
+      enabled: options.enabled ?? EVENT_CALENDAR.ENABLED,
+      file: options.file ?? EVENT_CALENDAR.FILE,
+    };
+    if (this.options.enabled) this.reload();
+  }
+
+  /**
+   * Switch the calendar on or off, or point it at another file
+   */
+  configure(options: Partial<EventCalendarOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.events = [];
+    this.loadedMtimeMs = undefined;
+    if (this.options.enabled) this.reload();
+  }
+
+  /**
+   * Read the file now
+   */
+  reload(): void {
+    const file = path.resolve(this.options.file);
+    this.lastCheck = Date.now();
+
+    if (!fs.existsSync(file)) {
+      this.events = [];
+      this.loadedMtimeMs = undefined;
+      return;
+    }
+
+    try {
+      this.loadedMtimeMs = fs.statSync(file).mtimeMs;
+      const parsed = eventFileSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+      }
+
+      const events: MacroEvent[] = parsed.data.events
+        .map(event => ({
+          name: event.name,
+          type: event.type,
+          date: new Date(event.date),
+          variance: Object.fromEntries(Object.entries(event.underlyings).map(([underlying, move]) => [
+            underlying,
+            move.variance ?? (move.expectedMovePct! / 100) ** 2,
+          ])) as Partial<Record<Underlying, number>>,
+        }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      // Don't double-count events the variance clock already weights
+      const clockEvents = new Set(getVarianceClock().getOptions().events.map(event => eventKey(event.name, event.date)));
+      const duplicates = events.filter(event => clockEvents.has(eventKey(event.name, event.date)));
+      if (duplicates.length > 0) {
+        logger.warn('Events already in varianceClock.events skipped', {
+          file,
+          events: duplicates.map(event => event.name),
+        });
+      }
+
+      this.events = events.filter(event => !duplicates.includes(event));
+      this.loadedAt = new Date();
+      this.error = undefined;
+      logger.info('Event calendar loaded', { file, events: this.events.length });
+    } catch (error) {
+      this.error = (error as Error).message;
+      logger.warn('Event calendar unreadable, keeping previous events', { file, error: this.error });
+    }
+  }
+
+  /**
+   * Events moving an underlying (any underlying when omitted) between two
+   * instants, in time order
+   */
+  getEvents(underlying?: Underlying, from?: Date, to?: Date): MacroEvent[] {
+    if (!this.options.enabled) return [];
+    this.refresh();
+
+    return this.events.filter(event =>
+      (!underlying || (event.variance[underlying] ?? 0) > 0) &&
+      (!from || event.date.getTime() > from.getTime()) &&
+      (!to || event.date.getTime() <= to.getTime())
+    );
+  }
+
+  /**
+   * Event variance an option on an underlying carries from `now` to 15:30
+   * on its expiry date
+   */
+  getEventVariance(underlying: Underlying, expiry: Date, now: Date = clockNow()): number {
+    return this.getEvents(underlying, now, getVarianceClock().sessionClose(expiry))
+      .reduce((sum, event) => sum + event.variance[underlying]!, 0);
+  }
+
+  getStatus(): EventCalendarStatus {
+    return {
+      enabled: this.options.enabled,
+      file: this.options.file,
+      events: this.events.length,
+      loadedAt: this.loadedAt,
+      error: this.error,
+    };
+  }
+
+  /**
+   * Re-read the file if it changed since it was loaded
+   */
+  private refresh(): void {
+    if (Date.now() - this.lastCheck < EVENT_CALENDAR.RELOAD_INTERVAL_MS) return;
+    this.lastCheck = Date.now();
+
+    const file = path.resolve(this.options.file);
+    const mtimeMs = fs.existsSync(file) ? fs.statSync(file).mtimeMs : undefined;
+    if (mtimeMs !== this.loadedMtimeMs) this.reload();
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * One-standard-deviation move in percent for an event variance
+ */
+export function eventMovePct(variance: number): number {
+  return Math.sqrt(variance) * 100;
+}
+
+/**
+ * Identity of an event across the calendar and the variance clock
+ */
+function eventKey(name: string, date: Date): string {
+  return `${name.trim().toLowerCase()}@${date.getTime()}`;
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let eventCalendar: EventCalendar | null = null;
+
+/**
+ * Get EventCalendar singleton
+ */
+export function getEventCalendar(options?: Partial<EventCalendarOptions>): EventCalendar {
+  if (!eventCalendar) {
+    eventCalendar = new EventCalendar(options);
+  }
+  return eventCalendar;
+}
+
+/**
+ * Reset EventCalendar (for testing)
+ */
+export function resetEventCalendar(): void {
+  eventCalendar = null;
+}
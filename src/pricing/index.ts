@@ -20,6 +20,9 @@ export {
   isITM,
   isATM,
   isOTM,
+  calculateParityForward,
+  calculateImpliedCarry,
+  withEventVariance,
 } from './black-scholes.js';
 
 // IV Calculator
@@ -34,6 +37,43 @@ export {
 } from './iv-calculator.js';
 export type { IVPoint, IVSurface } from './iv-calculator.js';
 
+// Batch Pricer
+export {
+  createChainBatch,
+  computeChain,
+  solveIVBatch,
+  priceBatch,
+  batchGreeksAt,
+} from './batch-pricer.js';
+export type { ChainBatch } from './batch-pricer.js';
+export { BATCH_ACCURACY_TOLERANCE, runBatchBenchmark } from './batch-benchmark.js';
+export type { BatchBenchmarkOptions, BatchBenchmarkResult, BatchAccuracyField } from './batch-benchmark.js';
+
+// Volatility Surface
+export {
+  sviTotalVariance,
+  sviImpliedVol,
+  fitSVI,
+  ssviToSVI,
+  fitSSVI,
+  checkButterflyArbitrage,
+  checkCalendarArbitrage,
+  fitIVSurface,
+  getFittedSlice,
+  getSliceIV,
+} from './vol-surface.js';
+export type {
+  SVIParams,
+  SSVIParams,
+  SurfacePoint,
+  FitQuality,
+  ButterflyCheck,
+  CalendarViolation,
+  FittedSlice,
+  FittedSurface,
+  SliceInput,
+} from './vol-surface.js';
+
 // Seller Pain
 export {
   calculateInflatedIV,
@@ -42,3 +82,40 @@ export {
   calculateExpiryGammaPain,
 } from './seller-pain.js';
 export type { SellerPain, StrategyPain } from './seller-pain.js';
+
+// Realized Volatility
+export {
+  REALIZED_VOL_ESTIMATORS,
+  calculateRealizedVol,
+  closeToCloseVariance,
+  parkinsonVariance,
+  garmanKlassVariance,
+  yangZhangVariance,
+  calculateVolCone,
+  periodsPerYear,
+} from './realized-vol.js';
+export type { RealizedVolEstimator, OHLCBar, VolConePoint } from './realized-vol.js';
+
+// Payoff
+export { calculatePayoff, expiryPayoff } from './payoff.js';
+export type { PayoffLeg, PayoffOptions, PayoffPoint, PayoffCurve, PayoffAnalysis } from './payoff.js';
+
+// Probability
+export {
+  createExpiryDistribution,
+  probabilityAbove,
+  probabilityOfTouch,
+  calculateExpectedMoves,
+  calculateProbabilities,
+} from './probability.js';
+export type {
+  ExpiryDistribution,
+  ExpiryDistributionInput,
+  ExpectedMove,
+  StrikeProbability,
+  ProbabilityAnalysis,
+} from './probability.js';
+
+// Event calendar
+export { EventCalendar, getEventCalendar, resetEventCalendar, eventMovePct } from './event-calendar.js';
+export type { MacroEvent, EventCalendarOptions, EventCalendarStatus } from './event-calendar.js';
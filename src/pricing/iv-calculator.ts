@@ -3,12 +3,16 @@
  *
  * Uses Newton-Raphson iteration to solve for IV from market price.
  * Includes safeguards for edge cases and convergence issues.
+ *
+ * Surfaces are fitted with SVI/SSVI (see vol-surface.ts); ATM IV, skew and
+ * interpolation read the fitted slice when there is one and fall back to
+ * raw per-strike IVs otherwise.
  */
 
 import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
-import { PRICING } from '../core/constants.js';
+import { PRICING, VOL_SURFACE } from '../core/constants.js';
 import { IVCalculationError } from '../core/errors.js';
 import { toDecimal, ZERO, ONE } from '../utils/decimal.js';
 import {
@@ -17,8 +21,10 @@ import {
   calculateIntrinsicValue,
   normCDF,
   calculateD1D2,
+  withEventVariance,
 } from './black-scholes.js';
-import type { BSParams } from '../core/types.js';
+import { fitIVSurface, getFittedSlice, getSliceIV, type FittedSurface } from './vol-surface.js';
+import type { BSParams, SurfaceModel } from '../core/types.js';
 
 // ============================================================================
 // IV CALCULATION
@@ -33,6 +39,8 @@ import type { BSParams } from '../core/types.js';
  * @param timeToExpiry - Time to expiry in years
  * @param riskFreeRate - Risk-free rate as decimal
  * @param optionType - 'CE' or 'PE'
+ * @param forward - Implied forward for the expiry; prices Black-76 off it when given
+ * @param eventVariance - Scheduled-event variance to expiry; the IV solved is the rest
  * @returns Implied volatility as decimal (e.g., 0.20 for 20%)
  */
 export function calculateIV(
@@ -41,7 +49,9 @@ export function calculateIV(
   strike: Decimal,
   timeToExpiry: Decimal,
   riskFreeRate: Decimal,
-  optionType: 'CE' | 'PE'
+  optionType: 'CE' | 'PE',
+  forward?: Decimal,
+  eventVariance?: Decimal
 ): Decimal {
   // Validate inputs
   if (marketPrice.lessThanOrEqualTo(ZERO)) {
@@ -57,8 +67,12 @@ export function calculateIV(
     return PRICING.IV_INITIAL_GUESS;
   }
 
-  // Check if price is below intrinsic value (arbitrage)
-  const intrinsic = calculateIntrinsicValue(spot, strike, optionType);
+  // Check if price is below intrinsic value (arbitrage); off a forward, the
+  // discounted forward intrinsic
+  const discountFactor = forward ? riskFreeRate.negated().times(timeToExpiry).exp() : ONE;
+  const intrinsic = forward
+    ? calculateIntrinsicValue(forward, strike, optionType).times(discountFactor)
+    : calculateIntrinsicValue(spot, strike, optionType);
   if (marketPrice.lessThan(intrinsic)) {
     // Price below intrinsic - shouldn't happen in normal markets
     // Return high IV to indicate something is off
@@ -66,7 +80,9 @@ export function calculateIV(
   }
 
   // Check if price is too high (above spot for calls, above strike for puts)
-  const maxPrice = optionType === 'CE' ? spot : strike;
+  const maxPrice = forward
+    ? (optionType === 'CE' ? forward : strike).times(discountFactor)
+    : (optionType === 'CE' ? spot : strike);
   if (marketPrice.greaterThan(maxPrice)) {
     return PRICING.IV_MAX;
   }
@@ -83,6 +99,8 @@ export function calculateIV(
       riskFreeRate,
       volatility,
       optionType,
+      forward,
+      eventVariance,
     };
 
     const theoreticalPrice = calculateOptionPrice(params);
@@ -93,13 +111,13 @@ export function calculateIV(
       break;
     }
 
-    // Calculate vega
-    const vega = calculateVega(params);
+    // Calculate vega, per 1% of the IV being solved
+    const vega = calculateVega(params).times(volatility).dividedBy(withEventVariance(params).volatility);
 
     // Avoid division by zero
     if (vega.abs().lessThan(new Decimal('0.00001'))) {
       // Vega too small, use bisection fallback
-      return calculateIVBisection(marketPrice, spot, strike, timeToExpiry, riskFreeRate, optionType);
+      return calculateIVBisection(marketPrice, spot, strike, timeToExpiry, riskFreeRate, optionType, forward, eventVariance);
     }
 
     // Newton-Raphson step: vol_new = vol - f(vol) / f'(vol)
@@ -117,7 +135,7 @@ export function calculateIV(
   // Check if we converged
   if (iterations >= PRICING.IV_NEWTON_ITERATIONS) {
     // Didn't converge, try bisection as fallback
-    return calculateIVBisection(marketPrice, spot, strike, timeToExpiry, riskFreeRate, optionType);
+    return calculateIVBisection(marketPrice, spot, strike, timeToExpiry, riskFreeRate, optionType, forward, eventVariance);
   }
 
   return volatility;
@@ -132,7 +150,9 @@ export function calculateIVBisection(
   strike: Decimal,
   timeToExpiry: Decimal,
   riskFreeRate: Decimal,
-  optionType: 'CE' | 'PE'
+  optionType: 'CE' | 'PE',
+  forward?: Decimal,
+  eventVariance?: Decimal
 ): Decimal {
   let low = PRICING.IV_MIN;
   let high = PRICING.IV_MAX;
@@ -149,6 +169,8 @@ export function calculateIVBisection(
       riskFreeRate,
       volatility: mid,
       optionType,
+      forward,
+      eventVariance,
     };
 
     const price = calculateOptionPrice(params);
@@ -181,7 +203,9 @@ export function calculateIVWithApproximation(
   strike: Decimal,
   timeToExpiry: Decimal,
   riskFreeRate: Decimal,
-  optionType: 'CE' | 'PE'
+  optionType: 'CE' | 'PE',
+  forward?: Decimal,
+  eventVariance?: Decimal
 ): Decimal {
   // Brenner-Subrahmanyam approximation for ATM options
   // σ ≈ √(2π/T) × (C/S) for ATM calls
@@ -192,7 +216,7 @@ export function calculateIVWithApproximation(
   }
 
   // Use Corrado-Miller approximation for general case
-  const forwardPrice = spot.times(riskFreeRate.times(timeToExpiry).exp());
+  const forwardPrice = forward ?? spot.times(riskFreeRate.times(timeToExpiry).exp());
   const x = forwardPrice.minus(strike);
   const pricePlusX = marketPrice.minus(x.dividedBy(2));
 
@@ -207,7 +231,7 @@ export function calculateIVWithApproximation(
   const initialGuess = Decimal.max(PRICING.IV_MIN, Decimal.min(PRICING.IV_MAX, approxIV));
 
   // Now use Newton-Raphson with better initial guess
-  return calculateIV(marketPrice, spot, strike, timeToExpiry, riskFreeRate, optionType);
+  return calculateIV(marketPrice, spot, strike, timeToExpiry, riskFreeRate, optionType, forward, eventVariance);
 }
 
 // ============================================================================
@@ -223,6 +247,7 @@ export interface IVPoint {
   theoreticalPrice: Decimal;
   moneyness: Decimal;
   timeToExpiry: Decimal;
+  forward?: Decimal;
 }
 
 export interface IVSurface {
@@ -230,10 +255,12 @@ export interface IVSurface {
   spotPrice: Decimal;
   timestamp: Date;
   points: IVPoint[];
+  fitted?: FittedSurface;
 }
 
 /**
- * Calculate IV surface from market prices
+ * Calculate IV surface from market prices, fitted with the given model
+ * (null for raw IVs only)
  */
 export function calculateIVSurface(
   underlying: string,
@@ -245,7 +272,11 @@ export function calculateIVSurface(
     optionType: 'CE' | 'PE';
     marketPrice: Decimal;
     timeToExpiry: Decimal;
-  }>
+    forward?: Decimal;
+    eventVariance?: Decimal;
+  }>,
+  model: SurfaceModel | null = VOL_SURFACE.MODEL,
+  timestamp: Date = new Date()
 ): IVSurface {
   const points: IVPoint[] = [];
 
@@ -259,7 +290,9 @@ export function calculateIVSurface(
         strike,
         option.timeToExpiry,
         riskFreeRate,
-        option.optionType
+        option.optionType,
+        option.forward,
+        option.eventVariance
       );
 
       const params: BSParams = {
@@ -269,6 +302,8 @@ export function calculateIVSurface(
         riskFreeRate,
         volatility: iv,
         optionType: option.optionType,
+        forward: option.forward,
+        eventVariance: option.eventVariance,
       };
 
       const theoreticalPrice = calculateOptionPrice(params);
@@ -283,24 +318,34 @@ export function calculateIVSurface(
         theoreticalPrice,
         moneyness,
         timeToExpiry: option.timeToExpiry,
+        forward: option.forward,
       });
     } catch {
       // Skip invalid points
     }
   }
 
-  return {
+  const surface: IVSurface = {
     underlying,
     spotPrice,
-    timestamp: new Date(),
+    timestamp,
     points,
   };
+
+  if (model) {
+    surface.fitted = fitIVSurface(surface, riskFreeRate, model);
+  }
+
+  return surface;
 }
 
 /**
- * Get ATM IV from surface
+ * Get ATM IV from surface (fitted vol at the spot strike when fitted)
  */
 export function getATMIV(surface: IVSurface, expiry: Date): Decimal | null {
+  const slice = surface.fitted && getFittedSlice(surface.fitted, expiry);
+  if (slice) return getSliceIV(slice, surface.spotPrice.toNumber());
+
   // Find points closest to ATM for this expiry
   const expiryPoints = surface.points.filter(
     p => p.expiry.getTime() === expiry.getTime()
@@ -325,9 +370,16 @@ export function getATMIV(surface: IVSurface, expiry: Date): Decimal | null {
 }
 
 /**
- * Get IV skew (difference between OTM put and OTM call IV)
+ * Get IV skew (difference between OTM put and OTM call IV). On a fitted
+ * slice: vol at spot * (1 - distance) minus vol at spot * (1 + distance).
  */
 export function getIVSkew(surface: IVSurface, expiry: Date, distance = 0.05): Decimal | null {
+  const slice = surface.fitted && getFittedSlice(surface.fitted, expiry);
+  if (slice) {
+    const spot = surface.spotPrice.toNumber();
+    return getSliceIV(slice, spot * (1 - distance)).minus(getSliceIV(slice, spot * (1 + distance)));
+  }
+
   const expiryPoints = surface.points.filter(
     p => p.expiry.getTime() === expiry.getTime()
   );
@@ -350,7 +402,8 @@ export function getIVSkew(surface: IVSurface, expiry: Date, distance = 0.05): De
 }
 
 /**
- * Interpolate IV for a specific strike
+ * Interpolate IV for a specific strike (fitted slice when there is one,
+ * otherwise linear between raw IVs of the same option type)
  */
 export function interpolateIV(
   surface: IVSurface,
@@ -358,6 +411,9 @@ export function interpolateIV(
   expiry: Date,
   optionType: 'CE' | 'PE'
 ): Decimal | null {
+  const slice = surface.fitted && getFittedSlice(surface.fitted, expiry);
+  if (slice) return getSliceIV(slice, strike);
+
   const expiryPoints = surface.points.filter(
     p => p.expiry.getTime() === expiry.getTime() && p.optionType === optionType
   );
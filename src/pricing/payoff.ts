@@ -0,0 +1,319 @@
+/**
+ * Payoff Analysis for NSE Options Paper Trading
+ *
+ * Payoff of any set of option and futures legs against the underlying at
+ * the first expiry, plus theoretical T+n curves for the days before it,
+ * with breakevens, max profit/loss and risk/reward.
+ *
+ * When every leg expires together the expiry payoff is piecewise linear
+ * with kinks at the strikes, so it is evaluated there exactly. Legs that
+ * outlive the first expiry (calendars, diagonals) are valued Black-Scholes
+ * at their remaining time and IV, and the expiry payoff is searched on a
+ * dense spot grid instead. Above the last sample the payoff runs with
+ * slope = net call + futures quantity: positive is unlimited profit,
+ * negative unlimited loss.
+ *
+ * Legs with an underlying carry the event calendar's variance to expiry, so
+ * a T+n curve past a scheduled event has lost that event's premium.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { PAYOFF, PRICING } from '../core/constants.js';
+import { toDecimal, ZERO } from '../utils/decimal.js';
+import { timeToExpiryYears } from '../utils/date.js';
+import { clockNow } from '../utils/clock.js';
+import { getVarianceClock } from '../utils/variance-clock.js';
+import { getEventCalendar } from './event-calendar.js';
+import { createChainBatch, priceBatch, solveIVBatch } from './batch-pricer.js';
+import { fillLeg, isOption, round2 } from '../risk/batch-legs.js';
+import type { InstrumentType, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One leg (plain numbers, rupees per unit)
+ */
+export interface PayoffLeg {
+  underlying?: Underlying;     // For event variance; none without it
+  instrumentType: InstrumentType;
+  strike?: number;
+  expiry: Date;
+  quantity: number;            // Signed: negative when short
+  entryPrice: number;
+  price: number;               // Current mark, to solve IV when none is given
+  iv?: number;                 // Decimal (0.20 for 20%)
+  forward?: number;            // Implied forward for the expiry at today's spot
+}
+
+export interface PayoffOptions {
+  daysForward: number[];       // T+n curves; days at or past the first expiry are dropped
+  points: number;              // Spot samples per curve
+  rangePct: number;            // Curve range beyond spot and the outer strikes
+  now: Date;
+}
+
+export interface PayoffPoint {
+  spot: number;
+  pnl: number;
+}
+
+export interface PayoffCurve {
+  label: string;               // 'Expiry' or 'T+n'
+  days: number;                // Calendar days from now
+  date: Date;
+  points: PayoffPoint[];
+}
+
+export interface PayoffAnalysis {
+  spot: number;
+  expiry: Date;                // First expiry: where the expiry curve is drawn
+  curves: PayoffCurve[];       // Expiry first, then T+n in order
+  breakevens: Decimal[];       // At expiry, ascending
+  maxProfit: Decimal;          // Infinity when unlimited
+  maxLoss: Decimal;            // Positive; Infinity when unlimited
+  unlimitedProfit: boolean;
+  unlimitedLoss: boolean;
+  riskReward?: Decimal;        // maxProfit / maxLoss; undefined when nothing can be lost
+  netPremium: Decimal;         // Option premium received (+) or paid (−)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PNL_EPSILON = 1e-6;                 // Rupees; smaller is a zero
+const EXPIRY_EPSILON = 1 / (PRICING.DAYS_IN_YEAR * 24 * 60);   // One minute in years
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PAYOFF
+// ============================================================================
+
+/**
+ * Expiry and T+n payoff curves with breakevens and max profit/loss. Spot
+ * centres the curves and prices the T+n legs; without one the curves
+ * centre on the strikes.
+ */
+export function calculatePayoff(
+  legs: readonly PayoffLeg[],
+  spot: number,
+  options: Partial<PayoffOptions> = {}
+): PayoffAnalysis {
+  if (legs.length === 0) throw new Error('Payoff needs at least one leg');
+
+  const opts: PayoffOptions = {
+    daysForward: options.daysForward ?? [...PAYOFF.DAYS_FORWARD],
+    points: Math.max(2, options.points ?? PAYOFF.POINTS),
+    rangePct: options.rangePct ?? PAYOFF.RANGE_PCT,
+    now: options.now ?? clockNow(),
+  };
+  const riskFreeRate = PRICING.RISK_FREE_RATE.toNumber();
+
+  const strikes = Array.from(new Set(legs.filter(isOption).map(leg => leg.strike!))).sort((a, b) => a - b);
+  const reference = referenceSpot(legs, spot);
+
+  const times = legs.map(leg => timeToExpiryYears(leg.expiry, opts.now).toNumber());
+  const horizon = Math.min(...times);
+  const expiry = legs[times.indexOf(horizon)]!.expiry;
+  const expiryClose = getVarianceClock().sessionClose(expiry);
+  const ivs = solveLegIVs(legs, reference, times, riskFreeRate, opts.now);
+  const valueAt = (spots: number[], at: Date) =>
+    revalueLegs(legs, ivs, reference, spots, at, riskFreeRate);
+
+  // Curves for charts
+  const low = Math.min(reference, strikes[0] ?? reference) * (1 - opts.rangePct / 100);
+  const high = Math.max(reference, strikes[strikes.length - 1] ?? reference) * (1 + opts.rangePct / 100);
+  const chartSpots = linspace(Math.max(0, low), high, opts.points);
+  const toCurve = (label: string, days: number, date: Date, at: Date = date): PayoffCurve => {
+    const pnl = valueAt(chartSpots, at);
+    return {
+      label,
+      days,
+      date,
+      points: chartSpots.map((s, i) => ({ spot: round2(s), pnl: round2(pnl[i]!) })),
+    };
+  };
+
+  const horizonDays = (expiryClose.getTime() - opts.now.getTime()) / MS_PER_DAY;
+  const curves = [toCurve('Expiry', horizonDays, expiry, expiryClose)];
+  for (const days of Array.from(new Set(opts.daysForward)).sort((a, b) => a - b)) {
+    if (days < 0 || days >= horizonDays) continue;
+    curves.push(toCurve(`T+${days}`, days, new Date(opts.now.getTime() + days * MS_PER_DAY)));
+  }
+
+  // Extremes and breakevens at expiry
+  const mixedExpiries = times.some(t => t > horizon + EXPIRY_EPSILON);
+  const searchSpots = mixedExpiries
+    ? Array.from(new Set([...linspace(0, 2 * high, PAYOFF.SEARCH_POINTS), ...strikes])).sort((a, b) => a - b)
+    : [0, ...strikes.filter(k => k > 0)];
+  const values = valueAt(searchSpots, expiryClose);
+  const slope = legs
+    .filter(leg => leg.instrumentType === 'CE' || leg.instrumentType === 'FUT')
+    .reduce((sum, leg) => sum + leg.quantity, 0);
+
+  const unlimitedProfit = slope > 0;
+  const unlimitedLoss = slope < 0;
+  const maxProfit = unlimitedProfit ? new Decimal(Infinity) : toDecimal(round2(Math.max(0, ...values)));
+  const maxLoss = unlimitedLoss ? new Decimal(Infinity) : toDecimal(round2(Math.max(0, -Math.min(...values))));
+
+  let riskReward: Decimal | undefined;
+  if (unlimitedLoss) {
+    riskReward = ZERO;
+  } else if (maxLoss.greaterThan(0)) {
+    riskReward = unlimitedProfit ? new Decimal(Infinity) : maxProfit.dividedBy(maxLoss).toDecimalPlaces(2);
+  }
+
+  const netPremium = legs
+    .filter(isOption)
+    .reduce((sum, leg) => sum - leg.quantity * leg.entryPrice, 0);
+
+  return {
+    spot: reference,
+    expiry,
+    curves,
+    breakevens: findBreakevens(searchSpots, values, slope).map(s => toDecimal(round2(s))),
+    maxProfit,
+    maxLoss,
+    unlimitedProfit,
+    unlimitedLoss,
+    riskReward,
+    netPremium: toDecimal(round2(netPremium)),
+  };
+}
+
+/**
+ * P&L at the first expiry at each spot, with later legs valued as in the
+ * expiry curve
+ */
+export function expiryPayoff(legs: readonly PayoffLeg[], spots: number[], spot: number, now: Date = clockNow()): number[] {
+  if (legs.length === 0) return spots.map(() => 0);
+
+  const riskFreeRate = PRICING.RISK_FREE_RATE.toNumber();
+  const reference = referenceSpot(legs, spot);
+  const times = legs.map(leg => timeToExpiryYears(leg.expiry, now).toNumber());
+  const ivs = solveLegIVs(legs, reference, times, riskFreeRate, now);
+  const expiry = legs[times.indexOf(Math.min(...times))]!.expiry;
+  return revalueLegs(legs, ivs, reference, spots, getVarianceClock().sessionClose(expiry), riskFreeRate);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function legEventVariance(leg: PayoffLeg, at: Date): number {
+  return leg.underlying && isOption(leg) ? getEventCalendar().getEventVariance(leg.underlying, leg.expiry, at) : 0;
+}
+
+/**
+ * Spot, else the middle of the strikes, else the first leg's entry
+ */
+function referenceSpot(legs: readonly PayoffLeg[], spot: number): number {
+  if (spot > 0) return spot;
+  const strikes = legs.filter(isOption).map(leg => leg.strike!);
+  return strikes.length > 0 ? (Math.min(...strikes) + Math.max(...strikes)) / 2 : legs[0]!.entryPrice;
+}
+
+/**
+ * Each option leg's IV: its own, else solved from its mark at spot
+ */
+function solveLegIVs(
+  legs: readonly PayoffLeg[],
+  spot: number,
+  times: number[],
+  riskFreeRate: number,
+  now: Date
+): Float64Array {
+  const batch = createChainBatch(legs.length);
+  legs.forEach((leg, i) => fillLeg(batch, i, leg, spot, times[i]!, leg.forward, legEventVariance(leg, now)));
+  solveIVBatch(batch, riskFreeRate);
+
+  return Float64Array.from(legs, (leg, i) => (leg.iv !== undefined && leg.iv > 0 ? leg.iv : batch.iv[i]!));
+}
+
+/**
+ * Total P&L at each spot at a time: expired options at intrinsic, live ones
+ * at their IV with the event variance still ahead of them, futures one for
+ * one with spot
+ */
+function revalueLegs(
+  legs: readonly PayoffLeg[],
+  ivs: Float64Array,
+  reference: number,
+  spots: number[],
+  at: Date,
+  riskFreeRate: number
+): number[] {
+  const remaining = legs.map(leg => getVarianceClock().yearsToExpiry(leg.expiry, at));
+  const eventVariances = legs.map(leg => legEventVariance(leg, at));
+  const live = legs
+    .map((_, i) => i)
+    .filter(i => isOption(legs[i]!) && remaining[i]! > EXPIRY_EPSILON);
+
+  const batch = createChainBatch(live.length * spots.length);
+  spots.forEach((s, p) => {
+    live.forEach((i, n) => {
+      const leg = legs[i]!;
+      const j = p * live.length + n;
+      const forward = leg.forward !== undefined ? leg.forward * s / reference : undefined;
+      fillLeg(batch, j, leg, s, remaining[i]!, forward, eventVariances[i]!);
+      batch.iv[j] = ivs[i]!;
+    });
+  });
+  if (batch.size > 0) priceBatch(batch, riskFreeRate);
+
+  return spots.map((s, p) => {
+    let total = 0;
+    legs.forEach((leg, i) => {
+      if (!isOption(leg)) {
+        total += leg.quantity * (s - leg.entryPrice);
+        return;
+      }
+
+      const intrinsic = leg.instrumentType === 'CE' ? Math.max(0, s - leg.strike!) : Math.max(0, leg.strike! - s);
+      const n = live.indexOf(i);
+      const theoretical = n >= 0 ? batch.theoretical[p * live.length + n]! : NaN;
+      total += leg.quantity * ((Number.isFinite(theoretical) ? theoretical : intrinsic) - leg.entryPrice);
+    });
+    return total;
+  });
+}
+
+/**
+ * Zero crossings of the sampled payoff (linear between samples), and of
+ * its linear tail above the last sample
+ */
+function findBreakevens(spots: number[], values: number[], slope: number): number[] {
+  const breakevens: number[] = [];
+  const add = (s: number) => {
+    if (s > 0 && !breakevens.some(b => Math.abs(b - s) < 0.005)) breakevens.push(s);
+  };
+
+  for (let i = 0; i < spots.length; i++) {
+    const v = values[i]!;
+    if (Math.abs(v) < PNL_EPSILON) {
+      add(spots[i]!);
+      continue;
+    }
+    const next = values[i + 1];
+    if (next !== undefined && Math.abs(next) >= PNL_EPSILON && Math.sign(v) !== Math.sign(next)) {
+      add(spots[i]! + (spots[i + 1]! - spots[i]!) * v / (v - next));
+    }
+  }
+
+  const lastSpot = spots[spots.length - 1]!;
+  const lastValue = values[values.length - 1]!;
+  if (slope !== 0 && Math.abs(lastValue) >= PNL_EPSILON && Math.sign(lastValue) !== Math.sign(slope)) {
+    add(lastSpot - lastValue / slope);
+  }
+
+  return breakevens.sort((a, b) => a - b);
+}
+
+function linspace(from: number, to: number, count: number): number[] {
+  const step = (to - from) / (count - 1);
+  return Array.from({ length: count }, (_, i) => from + step * i);
+}
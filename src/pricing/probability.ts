@@ -0,0 +1,259 @@
+/**
+ * Probability Analysis for NSE Options Paper Trading
+ *
+ * A lognormal view of the underlying at an expiry, with each strike's vol
+ * read off the fitted IV surface (flat at the ATM IV without one):
+ * - P(finish above K) = N(d2) − F·φ(d1)·√T·∂σ/∂K, the skew-adjusted digital,
+ *   so probabilities agree with the smile rather than one flat vol
+ * - P(touch K before expiry) from the reflection formula for drifting
+ *   Brownian motion in log price, at that strike's vol
+ * - expected move by expiry at 1σ and 2σ of the ATM vol
+ * - probability of profit and expected P&L of a set of legs at the first
+ *   expiry, integrating their payoff against the same distribution
+ *
+ * Probabilities are risk-neutral: the drift is the forward's carry. A
+ * scheduled event's variance before expiry is added to every strike's σ²T.
+ */
+
+import { PROBABILITY } from '../core/constants.js';
+import { toDecimal, type DecimalType } from '../utils/decimal.js';
+import { clockNow } from '../utils/clock.js';
+import { normCdf, normPdf } from './batch-pricer.js';
+import { calculatePayoff, expiryPayoff, type PayoffLeg } from './payoff.js';
+import { sviImpliedVol, type FittedSlice } from './vol-surface.js';
+import type { IVSource } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExpiryDistribution {
+  spot: number;
+  forward: number;
+  expiry: Date;
+  timeToExpiry: number;                  // Years
+  atmVol: number;                        // Decimal, at the forward
+  source: IVSource;                      // SURFACE off a fitted slice, RAW when flat
+  volAt: (strike: number) => number;     // Decimal
+}
+
+export interface ExpiryDistributionInput {
+  spot: number;
+  forward: number;
+  expiry: Date;
+  timeToExpiry: number;
+  slice?: FittedSlice;
+  flatVol?: number;                      // Decimal; used without a slice
+  eventVariance?: number;                // Decimal², added to σ²T
+}
+
+export interface ExpectedMove {
+  stdDevs: number;
+  move: number;                          // Points: spot × n·σ·√T
+  lower: number;                         // Lognormal n-σ range at expiry
+  upper: number;
+}
+
+export interface StrikeProbability {
+  strike: number;
+  instrumentType: 'CE' | 'PE';
+  probabilityITM: number;
+  probabilityTouch: number;
+}
+
+export interface ProbabilityAnalysis {
+  expiry: Date;
+  forward: number;
+  atmVol: number;                        // Decimal
+  source: IVSource;
+  probabilityOfProfit: number;           // At expiry, 0-1
+  expectedPnL: DecimalType;              // Rupees
+  expectedMoves: ExpectedMove[];
+  shortStrikes: StrikeProbability[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SKEW_BUMP = 0.001;                 // Relative strike bump for ∂σ/∂K
+
+// ============================================================================
+// DISTRIBUTION
+// ============================================================================
+
+/**
+ * Distribution at an expiry from a fitted slice, else a flat vol.
+ * Undefined when there is neither.
+ */
+export function createExpiryDistribution(input: ExpiryDistributionInput): ExpiryDistribution | undefined {
+  const { slice, flatVol } = input;
+  if (!slice && !(flatVol !== undefined && flatVol > 0)) return undefined;
+
+  const eventRate = input.eventVariance && input.timeToExpiry > 0 ? input.eventVariance / input.timeToExpiry : 0;
+  const volAt = (strike: number): number => {
+    const surfaceVol = slice ? sviImpliedVol(slice.params, Math.log(strike / slice.forward), slice.timeToExpiry) : 0;
+    const vol = surfaceVol > 0 ? surfaceVol : flatVol ?? 0;
+    return vol > 0 ? Math.sqrt(vol * vol + eventRate) : 0;
+  };
+
+  return {
+    spot: input.spot,
+    forward: input.forward,
+    expiry: input.expiry,
+    timeToExpiry: input.timeToExpiry,
+    atmVol: volAt(input.forward),
+    source: slice ? 'SURFACE' : 'RAW',
+    volAt,
+  };
+}
+
+/**
+ * Probability of finishing above a level, with the smile's skew term
+ */
+export function probabilityAbove(dist: ExpiryDistribution, level: number): number {
+  if (level <= 0) return 1;
+  const vol = dist.volAt(level);
+  const t = dist.timeToExpiry;
+  if (!(vol > 0) || t <= 0) return dist.forward > level ? 1 : 0;
+
+  const sqrtT = Math.sqrt(t);
+  const d1 = (Math.log(dist.forward / level) + 0.5 * vol * vol * t) / (vol * sqrtT);
+  const d2 = d1 - vol * sqrtT;
+  const h = level * SKEW_BUMP;
+  const skew = (dist.volAt(level + h) - dist.volAt(level - h)) / (2 * h);
+
+  return clamp01(normCdf(d2) - dist.forward * normPdf(d1) * sqrtT * skew);
+}
+
+/**
+ * Probability of spot trading at a level at any time before expiry
+ */
+export function probabilityOfTouch(dist: ExpiryDistribution, level: number): number {
+  if (level <= 0) return 0;
+  const b = Math.log(level / dist.spot);
+  if (b === 0) return 1;
+
+  const vol = dist.volAt(level);
+  const t = dist.timeToExpiry;
+  if (!(vol > 0) || t <= 0) return 0;
+
+  const sigmaSqrtT = vol * Math.sqrt(t);
+  const drift = Math.log(dist.forward / dist.spot) / t - 0.5 * vol * vol;
+  const reflection = Math.exp(2 * drift * b / (vol * vol));
+
+  return clamp01(b > 0
+    ? normCdf((-b + drift * t) / sigmaSqrtT) + reflection * normCdf((-b - drift * t) / sigmaSqrtT)
+    : normCdf((b - drift * t) / sigmaSqrtT) + reflection * normCdf((b + drift * t) / sigmaSqrtT));
+}
+
+/**
+ * Expected move by expiry at each number of standard deviations
+ */
+export function calculateExpectedMoves(
+  dist: ExpiryDistribution,
+  stdDevs: readonly number[] = PROBABILITY.EXPECTED_MOVE_SIGMAS
+): ExpectedMove[] {
+  const sd = dist.atmVol * Math.sqrt(dist.timeToExpiry);
+  const median = dist.forward * Math.exp(-0.5 * sd * sd);
+
+  return stdDevs.map(n => ({
+    stdDevs: n,
+    move: round2(dist.spot * n * sd),
+    lower: round2(median * Math.exp(-n * sd)),
+    upper: round2(median * Math.exp(n * sd)),
+  }));
+}
+
+// ============================================================================
+// STRATEGY PROBABILITIES
+// ============================================================================
+
+/**
+ * Probability of profit and expected P&L of legs at the distribution's
+ * expiry, the expected move, and each short strike's chance of finishing
+ * in the money or being touched
+ */
+export function calculateProbabilities(
+  legs: readonly PayoffLeg[],
+  dist: ExpiryDistribution,
+  now: Date = clockNow()
+): ProbabilityAnalysis {
+  const cdf = (level: number) => 1 - probabilityAbove(dist, level);
+
+  // Probability of profit: mass between breakevens where the payoff is positive
+  const breakevens = legs.length > 0
+    ? calculatePayoff(legs, dist.spot, { daysForward: [], now }).breakevens.map(b => b.toNumber())
+    : [];
+  const bounds = [0, ...breakevens, Infinity];
+  const probes = bounds.slice(0, -1).map((low, i) => {
+    const high = bounds[i + 1]!;
+    if (high === Infinity) return low > 0 ? low * 1.05 : dist.forward;
+    return (low + high) / 2;
+  });
+  const signs = expiryPayoff(legs, probes, dist.spot, now);
+  let probabilityOfProfit = 0;
+  probes.forEach((_, i) => {
+    if (signs[i]! <= 0) return;
+    const high = bounds[i + 1]!;
+    probabilityOfProfit += (high === Infinity ? 1 : cdf(high)) - (bounds[i]! > 0 ? cdf(bounds[i]!) : 0);
+  });
+
+  // Expected P&L over log-spaced buckets, tails at the outer edges
+  const sd = Math.max(dist.atmVol * Math.sqrt(dist.timeToExpiry), 1e-6);
+  const median = dist.forward * Math.exp(-0.5 * sd * sd);
+  const edges = Array.from({ length: PROBABILITY.GRID_POINTS + 1 }, (_, i) =>
+    median * Math.exp(sd * PROBABILITY.GRID_SIGMAS * (2 * i / PROBABILITY.GRID_POINTS - 1))
+  );
+  const cumulative: number[] = [];
+  for (const edge of edges) {
+    cumulative.push(Math.max(cumulative[cumulative.length - 1] ?? 0, cdf(edge)));
+  }
+  const spots = [edges[0]!, ...edges.slice(1).map((edge, i) => Math.sqrt(edge * edges[i]!)), edges[edges.length - 1]!];
+  const masses = [
+    cumulative[0]!,
+    ...cumulative.slice(1).map((c, i) => c - cumulative[i]!),
+    1 - cumulative[cumulative.length - 1]!,
+  ];
+  const pnl = expiryPayoff(legs, spots, dist.spot, now);
+  const expectedPnL = masses.reduce((sum, mass, i) => sum + mass * pnl[i]!, 0);
+
+  const shortStrikes: StrikeProbability[] = legs
+    .filter(leg => leg.quantity < 0 && (leg.instrumentType === 'CE' || leg.instrumentType === 'PE'))
+    .map(leg => {
+      const above = probabilityAbove(dist, leg.strike!);
+      return {
+        strike: leg.strike!,
+        instrumentType: leg.instrumentType as 'CE' | 'PE',
+        probabilityITM: round4(leg.instrumentType === 'CE' ? above : 1 - above),
+        probabilityTouch: round4(probabilityOfTouch(dist, leg.strike!)),
+      };
+    });
+
+  return {
+    expiry: dist.expiry,
+    forward: dist.forward,
+    atmVol: dist.atmVol,
+    source: dist.source,
+    probabilityOfProfit: round4(clamp01(probabilityOfProfit)),
+    expectedPnL: toDecimal(round2(expectedPnL)),
+    expectedMoves: calculateExpectedMoves(dist),
+    shortStrikes,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
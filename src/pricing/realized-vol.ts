@@ -0,0 +1,230 @@
+/**
+ * Realized Volatility Estimators for NSE Options Paper Trading
+ *
+ * Annualized historical volatility from OHLC bars, to set against implied
+ * volatility when judging whether option premium is rich or cheap:
+ * - Close-to-close: standard deviation of log returns
+ * - Parkinson: high-low range, ~5x more efficient, ignores gaps and drift
+ * - Garman-Klass: adds open-close, still ignores overnight gaps
+ * - Yang-Zhang: overnight + open-close + Rogers-Satchell, handles gaps and drift
+ *
+ * All functions take bars oldest first and return volatility as a decimal
+ * (0.15 for 15%), or null when there are too few bars.
+ */
+
+import { CANDLES, PRICING, REALIZED_VOL } from '../core/constants.js';
+import type { CandleInterval } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RealizedVolEstimator = 'CLOSE_TO_CLOSE' | 'PARKINSON' | 'GARMAN_KLASS' | 'YANG_ZHANG';
+
+export const REALIZED_VOL_ESTIMATORS: readonly RealizedVolEstimator[] = [
+  'CLOSE_TO_CLOSE',
+  'PARKINSON',
+  'GARMAN_KLASS',
+  'YANG_ZHANG',
+];
+
+export interface OHLCBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Distribution of realized vol over every window of one horizon
+ */
+export interface VolConePoint {
+  horizon: number;       // Bars per window
+  samples: number;       // Windows in the history
+  min: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+  current: number;       // Most recent window
+  percentile: number;    // Rank of current within the history (0-100)
+}
+
+// ============================================================================
+// ESTIMATORS
+// ============================================================================
+
+const LN2 = Math.log(2);
+
+/**
+ * Realized vol of the last `lookback` bars with the given estimator.
+ * Estimators using the previous close read one extra bar.
+ */
+export function calculateRealizedVol(
+  bars: OHLCBar[],
+  estimator: RealizedVolEstimator,
+  lookback: number,
+  periodsPerYear: number
+): number | null {
+  const usable = bars.filter(isValidBar);
+  const needsPrevious = estimator === 'CLOSE_TO_CLOSE' || estimator === 'YANG_ZHANG';
+  const size = lookback + (needsPrevious ? 1 : 0);
+  if (usable.length < size) return null;
+  const window = usable.slice(-size);
+
+  let variance: number | null;
+  switch (estimator) {
+    case 'CLOSE_TO_CLOSE':
+      variance = closeToCloseVariance(window);
+      break;
+    case 'PARKINSON':
+      variance = parkinsonVariance(window);
+      break;
+    case 'GARMAN_KLASS':
+      variance = garmanKlassVariance(window);
+      break;
+    case 'YANG_ZHANG':
+      variance = yangZhangVariance(window);
+      break;
+  }
+
+  if (variance === null || variance < 0) return null;
+  return Math.sqrt(variance * periodsPerYear);
+}
+
+/**
+ * Sample variance of close-to-close log returns (per bar)
+ */
+export function closeToCloseVariance(bars: OHLCBar[]): number | null {
+  const returns: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    returns.push(Math.log(bars[i]!.close / bars[i - 1]!.close));
+  }
+  return sampleVariance(returns);
+}
+
+/**
+ * Parkinson high-low variance (per bar)
+ */
+export function parkinsonVariance(bars: OHLCBar[]): number | null {
+  if (bars.length < 2) return null;
+  const sum = bars.reduce((acc, bar) => acc + Math.log(bar.high / bar.low) ** 2, 0);
+  return sum / (4 * LN2 * bars.length);
+}
+
+/**
+ * Garman-Klass variance (per bar)
+ */
+export function garmanKlassVariance(bars: OHLCBar[]): number | null {
+  if (bars.length < 2) return null;
+  const sum = bars.reduce((acc, bar) => {
+    const hl = Math.log(bar.high / bar.low);
+    const co = Math.log(bar.close / bar.open);
+    return acc + 0.5 * hl * hl - (2 * LN2 - 1) * co * co;
+  }, 0);
+  return sum / bars.length;
+}
+
+/**
+ * Yang-Zhang variance (per bar): overnight + k * open-close + (1 - k) * Rogers-Satchell.
+ * The first bar only supplies the previous close.
+ */
+export function yangZhangVariance(bars: OHLCBar[]): number | null {
+  const n = bars.length - 1;
+  if (n < 2) return null;
+
+  const overnight: number[] = [];
+  const openClose: number[] = [];
+  let rogersSatchell = 0;
+
+  for (let i = 1; i < bars.length; i++) {
+    const bar = bars[i]!;
+    overnight.push(Math.log(bar.open / bars[i - 1]!.close));
+    openClose.push(Math.log(bar.close / bar.open));
+    rogersSatchell +=
+      Math.log(bar.high / bar.close) * Math.log(bar.high / bar.open) +
+      Math.log(bar.low / bar.close) * Math.log(bar.low / bar.open);
+  }
+
+  const k = 0.34 / (1.34 + (n + 1) / (n - 1));
+  return sampleVariance(overnight)! + k * sampleVariance(openClose)! + (1 - k) * (rogersSatchell / n);
+}
+
+// ============================================================================
+// VOLATILITY CONE
+// ============================================================================
+
+/**
+ * Realized vol over every rolling window of each horizon. Horizons with
+ * fewer than two windows in the history are left out.
+ */
+export function calculateVolCone(
+  bars: OHLCBar[],
+  horizons: readonly number[],
+  estimator: RealizedVolEstimator,
+  periodsPerYear: number
+): VolConePoint[] {
+  const usable = bars.filter(isValidBar);
+  const cone: VolConePoint[] = [];
+
+  for (const horizon of horizons) {
+    const vols: number[] = [];
+    for (let end = horizon + 1; end <= usable.length; end++) {
+      const vol = calculateRealizedVol(usable.slice(0, end), estimator, horizon, periodsPerYear);
+      if (vol !== null) vols.push(vol);
+    }
+    if (vols.length < 2) continue;
+
+    const current = vols[vols.length - 1]!;
+    const sorted = [...vols].sort((a, b) => a - b);
+    cone.push({
+      horizon,
+      samples: vols.length,
+      min: sorted[0]!,
+      p10: quantile(sorted, 0.10),
+      p25: quantile(sorted, 0.25),
+      median: quantile(sorted, 0.50),
+      p75: quantile(sorted, 0.75),
+      p90: quantile(sorted, 0.90),
+      max: sorted[sorted.length - 1]!,
+      current,
+      percentile: (sorted.filter(v => v <= current).length / sorted.length) * 100,
+    });
+  }
+
+  return cone;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Bars per year for an interval (intraday: bars in a 09:15-15:30 session)
+ */
+export function periodsPerYear(interval: CandleInterval): number {
+  if (interval === 'day') return PRICING.TRADING_DAYS_IN_YEAR;
+  return PRICING.TRADING_DAYS_IN_YEAR * (REALIZED_VOL.SESSION_MINUTES / CANDLES.INTERVAL_MINUTES[interval]);
+}
+
+function isValidBar(bar: OHLCBar): boolean {
+  return bar.open > 0 && bar.close > 0 && bar.low > 0 && bar.high >= bar.low;
+}
+
+function sampleVariance(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Linear-interpolated quantile of sorted values
+ */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (pos - lower);
+}
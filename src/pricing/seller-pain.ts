@@ -8,8 +8,9 @@
 import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
-import { PRICING, SLIPPAGE } from '../core/constants.js';
+import { INDIA_VIX, PRICING, SLIPPAGE, getVixRegime } from '../core/constants.js';
 import { toDecimal, ZERO, ONE } from '../utils/decimal.js';
+import { getVarianceClock } from '../utils/variance-clock.js';
 import { calculateOptionPrice, calculateGreeks, isITM, isATM } from './black-scholes.js';
 import type { BSParams, Greeks, IVInflationParams, Underlying, SpotDirection } from '../core/types.js';
 
@@ -27,9 +28,10 @@ import type { BSParams, Greeks, IVInflationParams, Underlying, SpotDirection } f
  * inflationFactor depends on:
  * 1. Velocity of spot movement
  * 2. Acceleration (is it speeding up?)
- * 3. Direction relative to option type
- * 4. Moneyness (ATM options most affected)
- * 5. Time to expiry (near-expiry more affected)
+ * 3. India VIX regime, and a further boost while VIX spikes intraday
+ * 4. Direction relative to option type
+ * 5. Moneyness (ATM options most affected)
+ * 6. Time to expiry (near-expiry more affected)
  */
 export function calculateInflatedIV(params: IVInflationParams): Decimal {
   const {
@@ -39,6 +41,8 @@ export function calculateInflatedIV(params: IVInflationParams): Decimal {
     timeToExpiry,
     moneyness,
     direction,
+    vixLevel,
+    vixChangePct,
   } = params;
 
   // Start with base inflation
@@ -60,7 +64,26 @@ export function calculateInflatedIV(params: IVInflationParams): Decimal {
     inflationFactor = inflationFactor.times(1.1);
   }
 
-  // 3. Moneyness adjustment
+  // 3. India VIX: a stressed market reprices every strike, not just on fast spot moves
+  if (vixLevel) {
+    switch (getVixRegime(vixLevel.toNumber())) {
+      case 'EXTREME':
+        inflationFactor = inflationFactor.times(PRICING.IV_INFLATION_VIX_EXTREME);
+        break;
+      case 'HIGH':
+        inflationFactor = inflationFactor.times(PRICING.IV_INFLATION_VIX_HIGH);
+        break;
+      case 'ELEVATED':
+        inflationFactor = inflationFactor.times(PRICING.IV_INFLATION_VIX_ELEVATED);
+        break;
+    }
+  }
+  if (vixChangePct !== undefined && vixChangePct >= INDIA_VIX.SPIKE_CHANGE_PCT) {
+    // e.g. VIX +20% on the day: 10% more inflation
+    inflationFactor = inflationFactor.times(1 + vixChangePct * PRICING.IV_INFLATION_VIX_SPIKE_SENSITIVITY);
+  }
+
+  // 4. Moneyness adjustment
   // ATM options (moneyness close to 1) are most affected
   // Deep OTM/ITM options less affected
   const moneynessDistance = moneyness.minus(1).abs();
@@ -78,7 +101,7 @@ export function calculateInflatedIV(params: IVInflationParams): Decimal {
     inflationFactor = ONE.plus(inflationFactor.minus(1).times(0.4));
   }
 
-  // 4. Time to expiry adjustment
+  // 5. Time to expiry adjustment
   // Near-expiry options (gamma risk) more affected
   if (timeToExpiry <= 1) {
     // Expiry day: maximum pain
@@ -122,6 +145,8 @@ export function calculateSellerPain(
     velocity: Decimal;
     acceleration: Decimal;
     direction: SpotDirection;
+    vixLevel?: Decimal;
+    vixChangePct?: number;
   },
   timeDecay: Decimal  // Fraction of day passed
 ): SellerPain {
@@ -143,6 +168,8 @@ export function calculateSellerPain(
     timeToExpiry: daysToExpiry,
     moneyness,
     direction: spotMovement.direction,
+    vixLevel: spotMovement.vixLevel,
+    vixChangePct: spotMovement.vixChangePct,
   });
 
   // Calculate new price with inflated IV
@@ -224,7 +251,8 @@ export function calculateStrategyPain(
   baseIV: Decimal,
   timeToExpiry: Decimal,
   riskFreeRate: Decimal,
-  spotVelocity: Decimal
+  spotVelocity: Decimal,
+  vix?: { level: Decimal; changePct: number }
 ): StrategyPain {
   let totalMtmLoss = ZERO;
   const legPains: StrategyPain['legPains'] = [];
@@ -257,6 +285,8 @@ export function calculateStrategyPain(
       timeToExpiry: daysToExpiry,
       moneyness,
       direction,
+      vixLevel: vix?.level,
+      vixChangePct: vix?.changePct,
     });
 
     const newParams: BSParams = {
@@ -376,8 +406,8 @@ export function calculateExpiryGammaPain(
   gammaPain: Decimal;
   pinRisk: boolean;
 } {
-  // Time to expiry in years
-  const timeToExpiry = new Decimal(minutesToExpiry).dividedBy(525600); // Minutes in a year
+  // Session minutes left, in years on the variance clock
+  const timeToExpiry = toDecimal(getVarianceClock().sessionMinutesToYears(minutesToExpiry));
 
   const params: BSParams = {
     spot,
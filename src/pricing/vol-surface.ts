@@ -0,0 +1,599 @@
+/**
+ * Volatility Surface Fitting for NSE Options Paper Trading
+ *
+ * Smooths raw per-strike IVs into an arbitrage-checked surface so wing
+ * Greeks don't jump with every stale or one-sided quote:
+ * - SVI: raw 5-parameter slice per expiry (quasi-explicit fit)
+ * - SSVI: one (rho, eta, gamma) across expiries on ATM total variance,
+ *   free of static arbitrage by construction
+ *
+ * Slices are fitted in total variance w = iv^2 * T against log-moneyness
+ * k = ln(K / F), using the out-of-the-money option at each strike. Every
+ * fit reports its error and is checked for butterfly (negative density)
+ * and calendar (total variance falling with expiry) arbitrage.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { VOL_SURFACE } from '../core/constants.js';
+import { toDecimal } from '../utils/decimal.js';
+import type { SurfaceModel } from '../core/types.js';
+import type { IVSurface } from './iv-calculator.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Raw SVI: w(k) = a + b * (rho * (k - m) + sqrt((k - m)^2 + sigma^2))
+ */
+export interface SVIParams {
+  a: number;
+  b: number;
+  rho: number;
+  m: number;
+  sigma: number;
+}
+
+/**
+ * SSVI with power-law phi(theta) = eta / (theta^gamma * (1 + theta)^(1 - gamma))
+ */
+export interface SSVIParams {
+  rho: number;
+  eta: number;
+  gamma: number;
+}
+
+/**
+ * Market total variance at one log-moneyness
+ */
+export interface SurfacePoint {
+  k: number;
+  totalVariance: number;
+  weight?: number;
+}
+
+export interface FitQuality {
+  points: number;
+  rmse: number;        // Vol points (0.01 = 1 vol)
+  maxError: number;
+}
+
+export interface ButterflyCheck {
+  free: boolean;
+  minDensity: number;  // Lowest g(k) on the grid; negative means arbitrage
+  worstK: number;
+}
+
+export interface CalendarViolation {
+  expiry: Date;
+  nextExpiry: Date;
+  k: number;
+  shortfall: number;   // Total variance the later expiry is short by
+}
+
+export interface FittedSlice {
+  expiry: Date;
+  timeToExpiry: number;
+  forward: number;
+  atmTotalVariance: number;
+  params: SVIParams;
+  quality: FitQuality;
+  butterfly: ButterflyCheck;
+  kMin: number;        // Fitted log-moneyness range
+  kMax: number;
+}
+
+export interface FittedSurface {
+  model: SurfaceModel;
+  timestamp: Date;
+  slices: FittedSlice[];            // Nearest expiry first
+  ssvi?: SSVIParams;
+  calendarFree: boolean;
+  calendarViolations: CalendarViolation[];
+}
+
+export interface SliceInput {
+  expiry: Date;
+  timeToExpiry: number;
+  forward: number;
+  points: SurfacePoint[];
+}
+
+// ============================================================================
+// SVI
+// ============================================================================
+
+/**
+ * SVI total variance at log-moneyness k
+ */
+export function sviTotalVariance(params: SVIParams, k: number): number {
+  const x = k - params.m;
+  return params.a + params.b * (params.rho * x + Math.sqrt(x * x + params.sigma * params.sigma));
+}
+
+/**
+ * SVI implied vol at log-moneyness k (0 where total variance is not positive)
+ */
+export function sviImpliedVol(params: SVIParams, k: number, timeToExpiry: number): number {
+  const w = sviTotalVariance(params, k);
+  return w > 0 && timeToExpiry > 0 ? Math.sqrt(w / timeToExpiry) : 0;
+}
+
+/**
+ * Fit raw SVI to one expiry. For fixed (m, sigma) the slice is linear in
+ * (a, b * rho * sigma, b * sigma), solved by least squares; Nelder-Mead
+ * searches (m, sigma), penalising negative density over the checked range
+ * so noisy strikes can't buy a tighter fit with a butterfly arbitrage.
+ * Returns null with fewer than MIN_POINTS points.
+ */
+export function fitSVI(points: SurfacePoint[]): SVIParams | null {
+  if (points.length < VOL_SURFACE.MIN_POINTS) return null;
+
+  const ks = points.map(p => p.k);
+  const kMin = Math.min(...ks);
+  const kMax = Math.max(...ks);
+  const atmK = points.reduce((best, p) => (p.totalVariance < best.totalVariance ? p : best)).k;
+
+  const checked = grid(kMin - VOL_SURFACE.ARB_K_PADDING, kMax + VOL_SURFACE.ARB_K_PADDING);
+
+  const objective = (x: number[]): number => {
+    const m = clamp(x[0]!, kMin - 1, kMax + 1);
+    const sigma = clamp(Math.exp(x[1]!), 1e-4, 5);
+    const inner = solveInnerSVI(points, m, sigma);
+    const params = toSVIParams(inner, m, sigma);
+
+    let penalty = 0;
+    for (const k of checked) {
+      const g = sviDensity(params, k);
+      if (g < 0) penalty += Number.isFinite(g) ? g * g : 1e6;
+    }
+    return inner.error + VOL_SURFACE.BUTTERFLY_PENALTY * penalty;
+  };
+
+  let best: { x: number[]; value: number } | null = null;
+  for (const sigma of [0.05, 0.2]) {
+    const result = nelderMead(objective, [atmK, Math.log(sigma)], [0.05, 0.5]);
+    if (!best || result.value < best.value) best = result;
+  }
+
+  const m = clamp(best!.x[0]!, kMin - 1, kMax + 1);
+  const sigma = clamp(Math.exp(best!.x[1]!), 1e-4, 5);
+  return toSVIParams(solveInnerSVI(points, m, sigma), m, sigma);
+}
+
+function toSVIParams(inner: { a: number; d: number; c: number }, m: number, sigma: number): SVIParams {
+  return {
+    a: inner.a,
+    b: inner.c / sigma,
+    rho: inner.c > 0 ? clamp(inner.d / inner.c, -0.999, 0.999) : 0,
+    m,
+    sigma,
+  };
+}
+
+/**
+ * Weighted least squares for w = a + d * y + c * sqrt(y^2 + 1), y = (k - m) / sigma,
+ * projected onto 0 <= c <= 4 * sigma, |d| <= min(c, 4 * sigma - c) and a
+ * minimum total variance of at least zero
+ */
+function solveInnerSVI(
+  points: SurfacePoint[],
+  m: number,
+  sigma: number
+): { a: number; d: number; c: number; error: number } {
+  // Normal equations for (a, d, c)
+  const ata = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const atb = [0, 0, 0];
+  const rows = points.map(p => {
+    const y = (p.k - m) / sigma;
+    return { row: [1, y, Math.sqrt(y * y + 1)], w: p.totalVariance, weight: p.weight ?? 1 };
+  });
+
+  for (const { row, w, weight } of rows) {
+    for (let i = 0; i < 3; i++) {
+      atb[i]! += weight * row[i]! * w;
+      for (let j = 0; j < 3; j++) ata[i]![j]! += weight * row[i]! * row[j]!;
+    }
+  }
+
+  const solved = solve3x3(ata, atb);
+  let [a, d, c] = solved ?? [0, 0, 0];
+
+  const cMax = 4 * sigma;
+  const cClamped = clamp(c!, 0, cMax);
+  const dLimit = Math.min(cClamped, cMax - cClamped);
+  const dClamped = clamp(d!, -dLimit, dLimit);
+  if (!solved || cClamped !== c || dClamped !== d) {
+    // Re-solve the level for the projected shape
+    c = cClamped;
+    d = dClamped;
+    let sum = 0;
+    let weights = 0;
+    for (const { row, w, weight } of rows) {
+      sum += weight * (w - d * row[1]! - c * row[2]!);
+      weights += weight;
+    }
+    a = sum / weights;
+  }
+  a = Math.max(a!, -Math.sqrt(Math.max(0, c! * c! - d! * d!)));
+
+  let error = 0;
+  for (const { row, w, weight } of rows) {
+    const residual = a + d! * row[1]! + c! * row[2]! - w;
+    error += weight * residual * residual;
+  }
+
+  return { a, d: d!, c: c!, error };
+}
+
+// ============================================================================
+// SSVI
+// ============================================================================
+
+/**
+ * Raw SVI parameters of the SSVI slice with ATM total variance theta
+ */
+export function ssviToSVI(theta: number, params: SSVIParams): SVIParams {
+  const phi = ssviPhi(theta, params);
+  return {
+    a: (theta / 2) * (1 - params.rho * params.rho),
+    b: (theta * phi) / 2,
+    rho: params.rho,
+    m: -params.rho / phi,
+    sigma: Math.sqrt(1 - params.rho * params.rho) / phi,
+  };
+}
+
+function ssviPhi(theta: number, params: SSVIParams): number {
+  return params.eta / (Math.pow(theta, params.gamma) * Math.pow(1 + theta, 1 - params.gamma));
+}
+
+/**
+ * Fit one SSVI surface to every slice. ATM total variance is read off each
+ * slice and made non-decreasing in expiry; eta is capped at 2 / (1 + |rho|)
+ * with gamma in (0, 0.5], which rules out static arbitrage.
+ */
+export function fitSSVI(slices: SliceInput[]): { params: SSVIParams; thetas: number[] } | null {
+  const usable = slices.filter(s => s.points.length >= VOL_SURFACE.MIN_POINTS);
+  if (usable.length === 0) return null;
+
+  let floor = 0;
+  const thetas = usable.map(slice => {
+    floor = Math.max(floor, atmTotalVariance(slice.points));
+    return floor;
+  });
+  if (thetas.some(theta => !(theta > 0))) return null;
+
+  const toParams = (x: number[]): SSVIParams => {
+    const rho = Math.tanh(x[0]!);
+    return {
+      rho,
+      eta: Math.min(Math.exp(x[1]!), 2 / (1 + Math.abs(rho))),
+      gamma: 0.5 / (1 + Math.exp(-x[2]!)),
+    };
+  };
+
+  const objective = (x: number[]): number => {
+    const params = toParams(x);
+    let error = 0;
+    usable.forEach((slice, i) => {
+      const svi = ssviToSVI(thetas[i]!, params);
+      for (const p of slice.points) {
+        const residual = sviTotalVariance(svi, p.k) - p.totalVariance;
+        error += (p.weight ?? 1) * residual * residual;
+      }
+    });
+    return error;
+  };
+
+  const result = nelderMead(objective, [-0.3, 0, 0], [0.3, 0.5, 1]);
+  return { params: toParams(result.x), thetas };
+}
+
+// ============================================================================
+// ARBITRAGE CHECKS
+// ============================================================================
+
+/**
+ * Butterfly check: Gatheral's density function g(k) must stay non-negative
+ * across the slice
+ */
+export function checkButterflyArbitrage(params: SVIParams, kMin: number, kMax: number): ButterflyCheck {
+  let minDensity = Infinity;
+  let worstK = kMin;
+
+  for (const k of grid(kMin, kMax)) {
+    const g = sviDensity(params, k);
+    if (g < minDensity) {
+      minDensity = g;
+      worstK = k;
+    }
+  }
+
+  return { free: minDensity >= -VOL_SURFACE.ARB_TOLERANCE, minDensity, worstK };
+}
+
+/**
+ * Calendar check: total variance must not fall from one expiry to the next
+ * at any log-moneyness both slices cover. Reports the worst point per pair.
+ */
+export function checkCalendarArbitrage(slices: FittedSlice[]): CalendarViolation[] {
+  const violations: CalendarViolation[] = [];
+
+  for (let i = 0; i + 1 < slices.length; i++) {
+    const near = slices[i]!;
+    const far = slices[i + 1]!;
+    const kMin = Math.max(near.kMin, far.kMin);
+    const kMax = Math.min(near.kMax, far.kMax);
+    if (kMin >= kMax) continue;             // No common strikes to compare
+    let worst: CalendarViolation | null = null;
+
+    for (const k of grid(kMin, kMax)) {
+      const shortfall = sviTotalVariance(near.params, k) - sviTotalVariance(far.params, k);
+      if (shortfall > VOL_SURFACE.ARB_TOLERANCE && (!worst || shortfall > worst.shortfall)) {
+        worst = { expiry: near.expiry, nextExpiry: far.expiry, k, shortfall };
+      }
+    }
+
+    if (worst) violations.push(worst);
+  }
+
+  return violations;
+}
+
+/**
+ * g(k) = (1 - k w' / 2w)^2 - w'^2 / 4 * (1 / w + 1 / 4) + w'' / 2
+ */
+function sviDensity(params: SVIParams, k: number): number {
+  const x = k - params.m;
+  const root = Math.sqrt(x * x + params.sigma * params.sigma);
+  const w = sviTotalVariance(params, k);
+  if (w <= 0) return -Infinity;
+
+  const w1 = params.b * (params.rho + x / root);
+  const w2 = (params.b * params.sigma * params.sigma) / (root * root * root);
+  const term = 1 - (k * w1) / (2 * w);
+  return term * term - ((w1 * w1) / 4) * (1 / w + 0.25) + w2 / 2;
+}
+
+// ============================================================================
+// SURFACE
+// ============================================================================
+
+/**
+ * Fit every expiry of a raw IV surface. Expiries with too few strikes are
+ * left out; callers fall back to raw IVs for them.
+ */
+export function fitIVSurface(
+  surface: IVSurface,
+  riskFreeRate: Decimal,
+  model: SurfaceModel = VOL_SURFACE.MODEL
+): FittedSurface {
+  const slices = buildSliceInputs(surface, riskFreeRate.toNumber());
+  const fitted: FittedSlice[] = [];
+  let ssvi: SSVIParams | undefined;
+
+  if (model === 'SSVI') {
+    const result = fitSSVI(slices);
+    if (result) {
+      ssvi = result.params;
+      slices
+        .filter(s => s.points.length >= VOL_SURFACE.MIN_POINTS)
+        .forEach((slice, i) => fitted.push(describeSlice(slice, ssviToSVI(result.thetas[i]!, result.params))));
+    }
+  } else {
+    for (const slice of slices) {
+      const params = fitSVI(slice.points);
+      if (params) fitted.push(describeSlice(slice, params));
+    }
+  }
+
+  const calendarViolations = checkCalendarArbitrage(fitted);
+
+  return {
+    model,
+    timestamp: surface.timestamp,
+    slices: fitted,
+    ssvi,
+    calendarFree: calendarViolations.length === 0,
+    calendarViolations,
+  };
+}
+
+/**
+ * Fitted slice for an expiry, if one was fitted
+ */
+export function getFittedSlice(fitted: FittedSurface, expiry: Date): FittedSlice | undefined {
+  return fitted.slices.find(s => s.expiry.getTime() === expiry.getTime());
+}
+
+/**
+ * Smoothed IV at a strike from a fitted slice
+ */
+export function getSliceIV(slice: FittedSlice, strike: number): Decimal {
+  return toDecimal(sviImpliedVol(slice.params, Math.log(strike / slice.forward), slice.timeToExpiry));
+}
+
+/**
+ * One input slice per expiry: the OTM option at each strike (put below the
+ * forward, call at or above), or whichever side was priced. The forward is
+ * the implied one the IVs were solved against, else S·e^(rT).
+ */
+function buildSliceInputs(surface: IVSurface, riskFreeRate: number): SliceInput[] {
+  const spot = surface.spotPrice.toNumber();
+  const byExpiry: Map<number, SliceInput & { byStrike: Map<number, { otm: boolean; point: SurfacePoint }> }> = new Map();
+
+  for (const point of surface.points) {
+    const timeToExpiry = point.timeToExpiry.toNumber();
+    const iv = point.iv.toNumber();
+    if (!(timeToExpiry > 0) || !(iv > 0)) continue;
+
+    let slice = byExpiry.get(point.expiry.getTime());
+    if (!slice) {
+      slice = {
+        expiry: point.expiry,
+        timeToExpiry,
+        forward: point.forward?.toNumber() ?? spot * Math.exp(riskFreeRate * timeToExpiry),
+        points: [],
+        byStrike: new Map(),
+      };
+      byExpiry.set(point.expiry.getTime(), slice);
+    }
+
+    const otm = point.optionType === (point.strike < slice.forward ? 'PE' : 'CE');
+    const existing = slice.byStrike.get(point.strike);
+    if (existing && (existing.otm || !otm)) continue;
+
+    slice.byStrike.set(point.strike, {
+      otm,
+      point: { k: Math.log(point.strike / slice.forward), totalVariance: iv * iv * timeToExpiry },
+    });
+  }
+
+  return Array.from(byExpiry.values())
+    .sort((a, b) => a.expiry.getTime() - b.expiry.getTime())
+    .map(({ byStrike, ...slice }) => ({
+      ...slice,
+      points: Array.from(byStrike.values())
+        .map(entry => entry.point)
+        .sort((a, b) => a.k - b.k),
+    }));
+}
+
+function describeSlice(slice: SliceInput, params: SVIParams): FittedSlice {
+  const ks = slice.points.map(p => p.k);
+  const kMin = Math.min(...ks);
+  const kMax = Math.max(...ks);
+
+  let sumSq = 0;
+  let maxError = 0;
+  for (const p of slice.points) {
+    const error = Math.abs(
+      sviImpliedVol(params, p.k, slice.timeToExpiry) - Math.sqrt(p.totalVariance / slice.timeToExpiry)
+    );
+    sumSq += error * error;
+    maxError = Math.max(maxError, error);
+  }
+
+  return {
+    expiry: slice.expiry,
+    timeToExpiry: slice.timeToExpiry,
+    forward: slice.forward,
+    atmTotalVariance: sviTotalVariance(params, 0),
+    params,
+    quality: { points: slice.points.length, rmse: Math.sqrt(sumSq / slice.points.length), maxError },
+    butterfly: checkButterflyArbitrage(
+      params,
+      kMin - VOL_SURFACE.ARB_K_PADDING,
+      kMax + VOL_SURFACE.ARB_K_PADDING
+    ),
+    kMin,
+    kMax,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Market total variance at k = 0, linear between the bracketing points
+ * (nearest point when 0 is outside the range)
+ */
+function atmTotalVariance(points: SurfacePoint[]): number {
+  const sorted = [...points].sort((a, b) => a.k - b.k);
+  if (sorted[0]!.k >= 0) return sorted[0]!.totalVariance;
+  for (let i = 0; i + 1 < sorted.length; i++) {
+    const lower = sorted[i]!;
+    const upper = sorted[i + 1]!;
+    if (lower.k <= 0 && upper.k >= 0) {
+      const weight = upper.k === lower.k ? 0 : -lower.k / (upper.k - lower.k);
+      return lower.totalVariance + (upper.totalVariance - lower.totalVariance) * weight;
+    }
+  }
+  return sorted[sorted.length - 1]!.totalVariance;
+}
+
+function grid(from: number, to: number): number[] {
+  const n = VOL_SURFACE.ARB_GRID_POINTS;
+  return Array.from({ length: n }, (_, i) => from + ((to - from) * i) / (n - 1));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Solve a 3x3 linear system by Cramer's rule (null when singular)
+ */
+function solve3x3(m: number[][], b: number[]): [number, number, number] | null {
+  const det = (x: number[][]): number =>
+    x[0]![0]! * (x[1]![1]! * x[2]![2]! - x[1]![2]! * x[2]![1]!) -
+    x[0]![1]! * (x[1]![0]! * x[2]![2]! - x[1]![2]! * x[2]![0]!) +
+    x[0]![2]! * (x[1]![0]! * x[2]![1]! - x[1]![1]! * x[2]![0]!);
+
+  const d = det(m);
+  if (Math.abs(d) < 1e-18) return null;
+
+  const column = (i: number): number[][] => m.map((row, r) => row.map((v, c) => (c === i ? b[r]! : v)));
+  return [det(column(0)) / d, det(column(1)) / d, det(column(2)) / d];
+}
+
+/**
+ * Nelder-Mead simplex minimisation
+ */
+function nelderMead(
+  f: (x: number[]) => number,
+  start: number[],
+  steps: number[]
+): { x: number[]; value: number } {
+  const n = start.length;
+  let simplex = [start, ...steps.map((step, i) => start.map((v, j) => (j === i ? v + step : v)))].map(x => ({
+    x,
+    value: f(x),
+  }));
+
+  for (let iter = 0; iter < VOL_SURFACE.MAX_ITERATIONS; iter++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0]!;
+    const worst = simplex[n]!;
+    if (Math.abs(worst.value - best.value) <= VOL_SURFACE.TOLERANCE) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((acc, p) => acc + p.x[j]!, 0) / n);
+    const towards = (scale: number): number[] => centroid.map((c, j) => c + scale * (worst.x[j]! - c));
+
+    const reflected = towards(-1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = towards(-2);
+      const expandedValue = f(expanded);
+      simplex[n] = expandedValue < reflectedValue
+        ? { x: expanded, value: expandedValue }
+        : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1]!.value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = towards(0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = p.x.map((v, j) => best.x[j]! + 0.5 * (v - best.x[j]!));
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0]!;
+}
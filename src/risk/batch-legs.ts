@@ -0,0 +1,59 @@
+/**
+ * Batch Leg Helpers for NSE Options Paper Trading
+ *
+ * Loading legs into a ChainBatch and rounding the results, shared by the
+ * scenario grid, Monte Carlo, payoff curves and the mispricing scanner.
+ */
+
+import type { ChainBatch } from '../pricing/batch-pricer.js';
+import type { InstrumentType } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What a batch slot needs from a leg
+ */
+export interface BatchLeg {
+  instrumentType: InstrumentType;
+  strike?: number;
+  price: number;               // Mark, to solve IV from (options only)
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isOption(leg: Pick<BatchLeg, 'instrumentType'>): boolean {
+  return leg.instrumentType === 'CE' || leg.instrumentType === 'PE';
+}
+
+/**
+ * Load one leg into slot `i` of a batch at a spot and time to expiry
+ */
+export function fillLeg(
+  batch: ChainBatch,
+  i: number,
+  leg: BatchLeg,
+  spot: number,
+  t: number,
+  forward: number | undefined,
+  eventVariance: number
+): void {
+  batch.spot[i] = spot;
+  batch.strike[i] = leg.strike ?? 0;
+  batch.timeToExpiry[i] = t;
+  batch.forward[i] = forward ?? NaN;
+  batch.price[i] = isOption(leg) ? leg.price : 0;
+  batch.isCall[i] = leg.instrumentType === 'CE' ? 1 : 0;
+  batch.eventVariance[i] = eventVariance;
+}
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
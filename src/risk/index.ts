@@ -22,3 +22,36 @@ export {
   getMarginTracker,
   resetMarginTracker,
 } from './margin-tracker.js';
+
+export {
+  STRESS_SCENARIOS,
+  getScenarioBook,
+  runScenarioGrid,
+  runStressScenarios,
+  revalueBook,
+} from './scenarios.js';
+export type {
+  ScenarioLeg,
+  PinTarget,
+  ScenarioBook,
+  ScenarioShock,
+  StressScenario,
+  ScenarioGrid,
+  PnLMatrix,
+  ScenarioGridResult,
+  StressResult,
+} from './scenarios.js';
+
+export {
+  runMonteCarlo,
+  getDailyLossLimit,
+  getHorizonEnd,
+} from './monte-carlo.js';
+export type {
+  MonteCarloOptions,
+  DailyLossLimit,
+  MonteCarloUnderlying,
+  RiskMeasure,
+  HistogramBin,
+  MonteCarloResult,
+} from './monte-carlo.js';
@@ -13,11 +13,12 @@ import { InsufficientMarginError } from '../core/errors.js';
 import { logger, logRiskEvent } from '../utils/logger.js';
 import { toDecimal, ZERO, formatINR } from '../utils/decimal.js';
 import { getMarketState } from '../market-data/market-state.js';
-import { calculatePortfolioMargin, SpreadAnalysis } from './span-margin.js';
+import { calculatePortfolioMargin, calculateFuturesMargin, SpreadAnalysis } from './span-margin.js';
 import { getKillSwitch } from './kill-switch.js';
 import type {
   MarginState,
   MarginCalculation,
+  OrderSide,
   Position,
   Underlying,
 } from '../core/types.js';
@@ -169,6 +170,25 @@ export class MarginTracker {
     }
   }
 
+  /**
+   * Margin a new futures order would block (on futures notional)
+   */
+  getFuturesOrderMargin(
+    underlying: Underlying,
+    side: OrderSide,
+    quantity: number,
+    futuresPrice: Decimal,
+    expiry: Date
+  ): Decimal {
+    return calculateFuturesMargin(
+      underlying,
+      side === 'BUY' ? 'LONG' : 'SHORT',
+      quantity,
+      futuresPrice,
+      expiry
+    ).netMargin;
+  }
+
   /**
    * Reserve margin for pending order
    */
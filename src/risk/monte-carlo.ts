@@ -0,0 +1,441 @@
+/**
+ * Monte Carlo P&L for NSE Options Paper Trading
+ *
+ * Simulates correlated spot paths for every underlying in the scenario book
+ * to a horizon (today's close, the next session's open, or the book's
+ * nearest expiry) and reprices every open leg with the batch pricer:
+ * - time runs on the variance clock, so nights, weekends and scheduled
+ *   events carry the variance they do in pricing
+ * - a calendar event (budget, RBI policy) adds its variance to the step
+ *   that crosses it, and options drop it from their price once it passes
+ * - vol is STOCHASTIC (log vol mean-reverting to today's, its shocks
+ *   correlated with spot) or REGIME (calm and stressed states switching at
+ *   Poisson rates); each option's IV moves in proportion to its
+ *   underlying's vol
+ * - a leg that expires before the horizon settles at intrinsic
+ *
+ * The horizon P&L gives the distribution, VaR and expected shortfall. The
+ * P&L at each revaluation along the way gives the chance of hitting the
+ * kill switch's daily loss limit: today from its current daily P&L, later
+ * sessions from their own start. Checks are only as fine as the
+ * revaluation steps, so intraday breaches between them are missed.
+ *
+ * Spot has no drift, and P&L is against each leg's model value today as in
+ * the scenario engine. A run is reproducible from its seed.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { MONTE_CARLO, PRICING } from '../core/constants.js';
+import { toDecimal } from '../utils/decimal.js';
+import { SeededRandom } from '../utils/random.js';
+import { getVarianceClock } from '../utils/variance-clock.js';
+import { createChainBatch, priceBatch, solveIVBatch } from '../pricing/batch-pricer.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { getKillSwitch } from './kill-switch.js';
+import { getMarginTracker } from './margin-tracker.js';
+import { fillLeg, isOption, round4 } from './batch-legs.js';
+import type { ScenarioBook, ScenarioLeg } from './scenarios.js';
+import type { MonteCarloHorizon, Underlying, VolModel } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MonteCarloOptions {
+  horizon: MonteCarloHorizon;
+  volModel: VolModel;
+  paths: number;
+  seed: number;                    // Random when omitted; reported in the result
+  stepsPerSession: number;
+  lossLimit: DailyLossLimit;       // From the kill switch when omitted
+}
+
+/**
+ * The kill switch's daily loss limit in rupees (the tighter of the absolute
+ * and the percent-of-capital limit) and today's P&L against it
+ */
+export interface DailyLossLimit {
+  limit: number;
+  dailyPnL: number;
+}
+
+export interface MonteCarloUnderlying {
+  underlying: Underlying;
+  spot: number;
+  vol: number;                     // Decimal, starting vol of the paths
+}
+
+export interface RiskMeasure {
+  confidence: number;              // 0.95, 0.99
+  valueAtRisk: Decimal;            // Loss, positive
+  expectedShortfall: Decimal;      // Mean loss beyond VaR, positive
+}
+
+export interface HistogramBin {
+  from: Decimal;
+  to: Decimal;
+  probability: number;
+}
+
+export interface MonteCarloResult {
+  horizon: MonteCarloHorizon;
+  horizonEnd: Date;
+  volModel: VolModel;
+  paths: number;
+  steps: number;
+  seed: number;
+  timestamp: Date;
+  legs: number;
+  underlyings: MonteCarloUnderlying[];
+  mean: Decimal;
+  stdDev: Decimal;
+  probabilityOfProfit: number;
+  percentiles: Array<{ percentile: number; pnl: Decimal }>;
+  risk: RiskMeasure[];
+  killSwitch: {
+    limit: Decimal;
+    dailyPnL: Decimal;
+    probabilityOfBreach: number;
+  };
+  histogram: HistogramBin[];
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Simulate the book to the horizon and summarise its P&L
+ */
+export function runMonteCarlo(book: ScenarioBook, options: Partial<MonteCarloOptions> = {}): MonteCarloResult {
+  const clock = getVarianceClock();
+  const calendar = getEventCalendar();
+  const now = book.timestamp;
+  const horizon = options.horizon ?? MONTE_CARLO.HORIZON;
+  const volModel = options.volModel ?? MONTE_CARLO.VOL_MODEL;
+  const paths = Math.min(MONTE_CARLO.MAX_PATHS, Math.max(1, Math.round(options.paths ?? MONTE_CARLO.PATHS)));
+  const seed = (options.seed ?? Math.floor(Math.random() * 0x100000000)) >>> 0;
+  const lossLimit = options.lossLimit ?? getDailyLossLimit();
+  const riskFreeRate = PRICING.RISK_FREE_RATE.toNumber();
+  const ivMin = PRICING.IV_MIN.toNumber();
+  const ivMax = PRICING.IV_MAX.toNumber();
+  const minTime = PRICING.MIN_TIME_TO_EXPIRY.toNumber();
+
+  const legs = book.legs;
+  const horizonEnd = getHorizonEnd(horizon, legs, now);
+  const checkpoints = buildCheckpoints(now, horizonEnd, options.stepsPerSession ?? MONTE_CARLO.STEPS_PER_SESSION);
+
+  // Today's model value and IV of every option leg
+  const optionLegs = legs.map((leg, i) => ({ leg, i })).filter(({ leg }) => isOption(leg));
+  const base = createChainBatch(optionLegs.length);
+  optionLegs.forEach(({ leg }, o) => fillLeg(base, o, leg, leg.spot, leg.timeToExpiry, leg.forward, leg.eventVariance));
+  solveIVBatch(base, riskFreeRate);
+  optionLegs.forEach(({ leg }, o) => {
+    if (leg.iv !== undefined) base.iv[o] = leg.iv;
+  });
+  priceBatch(base, riskFreeRate);
+
+  const underlyings = startingState(legs, optionLegs.map(({ leg }, o) => ({ leg, iv: base.iv[o]! })));
+  const underlyingIndex = new Map(underlyings.map((u, k) => [u.underlying, k]));
+  const legUnderlying = legs.map(leg => underlyingIndex.get(leg.underlying)!);
+  const U = underlyings.length;
+  const O = optionLegs.length;
+
+  // Path state
+  const spot = new Float64Array(paths * U);
+  const vol = new Float64Array(paths * U);
+  const stressed = new Uint8Array(paths);
+  for (let p = 0; p < paths; p++) {
+    underlyings.forEach((u, k) => {
+      spot[p * U + k] = u.spot;
+      vol[p * U + k] = u.vol;
+    });
+  }
+  const settled = new Float64Array(paths * O).fill(NaN);
+  const pnl = new Float64Array(paths);
+  const dayStart = new Float64Array(paths);
+  const breached = new Uint8Array(paths);
+  const shocked = createChainBatch(paths * O);
+
+  const random = new SeededRandom(seed);
+  const rhoU = MONTE_CARLO.UNDERLYING_CORRELATION;
+  const rhoSV = MONTE_CARLO.SPOT_VOL_CORRELATION;
+  const z = new Float64Array(U);
+
+  let previous = now;
+  let day = clock.sessionClose(now).getTime();
+  let dayOffset = lossLimit.dailyPnL;
+
+  for (const checkpoint of checkpoints) {
+    const dt = clock.yearsBetween(previous, checkpoint);
+    const sqrtDt = Math.sqrt(dt);
+    const remaining = optionLegs.map(({ leg }) => clock.yearsToExpiry(leg.expiry, checkpoint));
+    const remainingEvents = optionLegs.map(({ leg }) => calendar.getEventVariance(leg.underlying, leg.expiry, checkpoint));
+    const stepEvents = underlyings.map(u => calendar.getEvents(u.underlying, previous, checkpoint)
+      .reduce((sum, event) => sum + event.variance[u.underlying]!, 0));
+
+    // The kill switch starts each new session from zero
+    const checkpointDay = clock.sessionClose(checkpoint).getTime();
+    if (checkpointDay !== day) {
+      day = checkpointDay;
+      dayOffset = 0;
+      dayStart.set(pnl);
+    }
+
+    for (let p = 0; p < paths; p++) {
+      if (volModel === 'REGIME') {
+        const rate = stressed[p] ? MONTE_CARLO.REGIME_EXIT_RATE : MONTE_CARLO.REGIME_ENTER_RATE;
+        if (random.next() < 1 - Math.exp(-rate * dt)) stressed[p] = stressed[p] ? 0 : 1;
+      }
+
+      const market = random.normal();
+      for (let k = 0; k < U; k++) {
+        const s = p * U + k;
+        const start = underlyings[k]!.vol;
+        z[k] = Math.sqrt(rhoU) * market + Math.sqrt(1 - rhoU) * random.normal();
+
+        if (volModel === 'REGIME') {
+          vol[s] = stressed[p] ? start * MONTE_CARLO.REGIME_STRESS_MULTIPLIER : start;
+        }
+        const sigma = vol[s]!;
+        const variance = sigma * sigma * dt + stepEvents[k]!;
+        spot[s] = spot[s]! * Math.exp(-0.5 * variance + Math.sqrt(variance) * z[k]!);
+
+        if (volModel === 'STOCHASTIC') {
+          const shock = rhoSV * z[k]! + Math.sqrt(1 - rhoSV * rhoSV) * random.normal();
+          const x = Math.log(sigma / start);
+          vol[s] = start * Math.exp(x - MONTE_CARLO.VOL_MEAN_REVERSION * x * dt + MONTE_CARLO.VOL_OF_VOL * sqrtDt * shock);
+        }
+      }
+
+      optionLegs.forEach(({ leg, i }, o) => {
+        const s = p * U + legUnderlying[i]!;
+        const j = p * O + o;
+        const forward = leg.forward !== undefined ? leg.forward * spot[s]! / leg.spot : undefined;
+        fillLeg(shocked, j, leg, spot[s]!, Math.max(minTime, remaining[o]!), forward, remainingEvents[o]!);
+        shocked.iv[j] = Math.min(ivMax, Math.max(ivMin, base.iv[o]! * vol[s]! / underlyings[legUnderlying[i]!]!.vol));
+      });
+    }
+    priceBatch(shocked, riskFreeRate);
+
+    for (let p = 0; p < paths; p++) {
+      let total = 0;
+      legs.forEach((leg, i) => {
+        const s = p * U + legUnderlying[i]!;
+        if (!isOption(leg)) {
+          // Futures move one for one with spot
+          total += leg.quantity * leg.price * (spot[s]! / leg.spot - 1);
+        }
+      });
+      optionLegs.forEach(({ leg }, o) => {
+        const j = p * O + o;
+        if (Number.isNaN(settled[j]!) && remaining[o]! <= 0) {
+          settled[j] = leg.instrumentType === 'CE'
+            ? Math.max(0, shocked.spot[j]! - leg.strike!)
+            : Math.max(0, leg.strike! - shocked.spot[j]!);
+        }
+        const value = Number.isNaN(settled[j]!) ? shocked.theoretical[j]! : settled[j]!;
+        const legPnL = leg.quantity * (value - base.theoretical[o]!);
+        if (Number.isFinite(legPnL)) total += legPnL;
+      });
+
+      pnl[p] = total;
+      if (dayOffset + total - dayStart[p]! < -lossLimit.limit) breached[p] = 1;
+    }
+
+    previous = checkpoint;
+  }
+
+  return summarise({
+    horizon,
+    horizonEnd,
+    volModel,
+    seed,
+    steps: checkpoints.length,
+    book,
+    underlyings,
+    pnl,
+    breached,
+    lossLimit,
+  });
+}
+
+/**
+ * The kill switch's daily loss limit and P&L. Needs the margin tracker for
+ * capital.
+ */
+export function getDailyLossLimit(): DailyLossLimit {
+  const status = getKillSwitch().getStatus();
+  const capital = getMarginTracker().getState().initialCapital;
+  const pctLimit = status.config.maxDailyLossPct.times(capital);
+
+  return {
+    limit: Decimal.min(status.config.maxDailyLoss, pctLimit).toNumber(),
+    dailyPnL: status.dailyPnL.toNumber(),
+  };
+}
+
+/**
+ * When a horizon ends: today's close (the next close out of hours), the
+ * open after the next close, or the close of the book's nearest expiry
+ */
+export function getHorizonEnd(horizon: MonteCarloHorizon, legs: readonly ScenarioLeg[], now: Date): Date {
+  const clock = getVarianceClock();
+  const nextClose = clock.nextClose(now);
+
+  switch (horizon) {
+    case 'EOD':
+      return nextClose;
+    case 'OVERNIGHT':
+      return clock.nextOpen(nextClose);
+    case 'EXPIRY': {
+      const expiries = legs
+        .map(leg => clock.sessionClose(leg.expiry))
+        .filter(close => close.getTime() > now.getTime())
+        .sort((a, b) => a.getTime() - b.getTime());
+      return expiries[0] ?? nextClose;
+    }
+  }
+}
+
+/**
+ * Leg revaluations a run would make (paths × steps × legs), to bound its
+ * cost before starting it
+ */
+export function countRevaluations(book: ScenarioBook, options: Partial<MonteCarloOptions> = {}): number {
+  const paths = Math.min(MONTE_CARLO.MAX_PATHS, Math.max(1, Math.round(options.paths ?? MONTE_CARLO.PATHS)));
+  const horizonEnd = getHorizonEnd(options.horizon ?? MONTE_CARLO.HORIZON, book.legs, book.timestamp);
+  const steps = buildCheckpoints(book.timestamp, horizonEnd, options.stepsPerSession ?? MONTE_CARLO.STEPS_PER_SESSION).length;
+  return paths * steps * book.legs.length;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Each underlying's spot and starting vol: the mean IV of its option legs,
+ * else MONTE_CARLO.DEFAULT_VOL
+ */
+function startingState(
+  legs: readonly ScenarioLeg[],
+  optionIVs: Array<{ leg: ScenarioLeg; iv: number }>
+): MonteCarloUnderlying[] {
+  const underlyings: Map<Underlying, { spot: number; ivs: number[] }> = new Map();
+  for (const leg of legs) {
+    if (!underlyings.has(leg.underlying)) underlyings.set(leg.underlying, { spot: leg.spot, ivs: [] });
+  }
+  for (const { leg, iv } of optionIVs) {
+    if (iv > 0) underlyings.get(leg.underlying)!.ivs.push(iv);
+  }
+
+  return Array.from(underlyings.entries()).map(([underlying, { spot, ivs }]) => ({
+    underlying,
+    spot,
+    vol: ivs.length > 0 ? ivs.reduce((sum, iv) => sum + iv, 0) / ivs.length : MONTE_CARLO.DEFAULT_VOL,
+  }));
+}
+
+/**
+ * Revaluation times to the horizon: evenly through each trading session
+ * (fewer per session when there are many sessions), each session's open
+ * so gaps are checked on their own, and the horizon itself
+ */
+function buildCheckpoints(now: Date, end: Date, stepsPerSession: number): Date[] {
+  const clock = getVarianceClock();
+  const sessions: Array<{ open: number; close: number }> = [];
+  for (let close = clock.nextClose(now); clock.sessionOpen(close).getTime() < end.getTime(); close = clock.nextClose(close)) {
+    sessions.push({ open: clock.sessionOpen(close).getTime(), close: close.getTime() });
+  }
+
+  const steps = Math.max(1, Math.min(Math.round(stepsPerSession), Math.floor(MONTE_CARLO.MAX_STEPS / Math.max(1, sessions.length))));
+  const times = new Set<number>([end.getTime()]);
+  for (const session of sessions) {
+    for (let k = 0; k <= steps; k++) {
+      times.add(session.open + (session.close - session.open) * k / steps);
+    }
+  }
+
+  return Array.from(times)
+    .filter(time => time > now.getTime() && time <= end.getTime())
+    .sort((a, b) => a - b)
+    .map(time => new Date(time));
+}
+
+interface SummaryInput {
+  horizon: MonteCarloHorizon;
+  horizonEnd: Date;
+  volModel: VolModel;
+  seed: number;
+  steps: number;
+  book: ScenarioBook;
+  underlyings: MonteCarloUnderlying[];
+  pnl: Float64Array;
+  breached: Uint8Array;
+  lossLimit: DailyLossLimit;
+}
+
+/**
+ * Distribution, VaR, expected shortfall and kill-switch odds from the
+ * horizon P&L of every path
+ */
+function summarise(input: SummaryInput): MonteCarloResult {
+  const sorted = Float64Array.from(input.pnl).sort();
+  const n = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / n;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / Math.max(1, n - 1);
+  const money = (value: number): Decimal => toDecimal(value).toDecimalPlaces(2);
+
+  const risk = MONTE_CARLO.CONFIDENCE_LEVELS.map(confidence => {
+    const tail = Math.max(1, Math.ceil((1 - confidence) * n));
+    let tailSum = 0;
+    for (let i = 0; i < tail; i++) tailSum += sorted[i]!;
+    return {
+      confidence,
+      valueAtRisk: money(Math.max(0, -sorted[tail - 1]!)),
+      expectedShortfall: money(Math.max(0, -tailSum / tail)),
+    };
+  });
+
+  const low = sorted[0]!;
+  const width = (sorted[n - 1]! - low) / MONTE_CARLO.HISTOGRAM_BINS;
+  const counts = new Array<number>(MONTE_CARLO.HISTOGRAM_BINS).fill(0);
+  for (const value of sorted) {
+    const bin = width > 0 ? Math.min(MONTE_CARLO.HISTOGRAM_BINS - 1, Math.floor((value - low) / width)) : 0;
+    counts[bin]!++;
+  }
+
+  return {
+    horizon: input.horizon,
+    horizonEnd: input.horizonEnd,
+    volModel: input.volModel,
+    paths: n,
+    steps: input.steps,
+    seed: input.seed,
+    timestamp: input.book.timestamp,
+    legs: input.book.legs.length,
+    underlyings: input.underlyings,
+    mean: money(mean),
+    stdDev: money(Math.sqrt(variance)),
+    probabilityOfProfit: round4(sorted.filter(value => value > 0).length / n),
+    percentiles: MONTE_CARLO.PERCENTILES.map(percentile => ({
+      percentile,
+      pnl: money(sorted[Math.min(n - 1, Math.floor(percentile / 100 * n))]!),
+    })),
+    risk,
+    killSwitch: {
+      limit: money(input.lossLimit.limit),
+      dailyPnL: money(input.lossLimit.dailyPnL),
+      probabilityOfBreach: round4(input.breached.reduce((sum, b) => sum + b, 0) / n),
+    },
+    histogram: width > 0
+      ? counts.map((count, bin) => ({
+        from: money(low + bin * width),
+        to: money(low + (bin + 1) * width),
+        probability: round4(count / n),
+      }))
+      : [{ from: money(low), to: money(low), probability: 1 }],
+  };
+}
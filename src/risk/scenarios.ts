@@ -0,0 +1,430 @@
+/**
+ * Scenario and Stress Engine for NSE Options Paper Trading
+ *
+ * Revalues the open book over a grid of spot shocks × IV shocks × days
+ * forward, and over named stress scenarios, into a P&L matrix per strategy
+ * and for the portfolio. Two methods:
+ * - FULL: every option repriced (Black-76 off its forward when known) with
+ *   the batch pricer
+ * - GREEKS: second-order Taylor expansion from each leg's Greeks (delta,
+ *   gamma, vega, volga, vanna, theta, charm), cheap but wrong for big moves
+ *
+ * Like calculateSellerPain, a scenario with a spot velocity inflates each
+ * option's shocked IV with calculateInflatedIV, so fast moves cost what
+ * they do in the fill model. P&L is against each leg's model value today,
+ * so the zero shock shows zero. A shock that runs time past a scheduled
+ * event drops that event's variance from the repriced legs.
+ */
+
+import DecimalConstructor from 'decimal.js';
+const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
+type Decimal = InstanceType<typeof Decimal>;
+import { PRICING, SCENARIOS, SLIPPAGE, getStrikeInterval } from '../core/constants.js';
+import { timeToExpiryYears } from '../utils/date.js';
+import { toDecimal, ZERO } from '../utils/decimal.js';
+import { clockNow } from '../utils/clock.js';
+import { calculateInflatedIV } from '../pricing/seller-pain.js';
+import { createChainBatch, priceBatch, solveIVBatch, type ChainBatch } from '../pricing/batch-pricer.js';
+import { getEventCalendar } from '../pricing/event-calendar.js';
+import { getMarketState } from '../market-data/market-state.js';
+import { getOIAnalytics } from '../market-data/oi-analytics.js';
+import { getPositionManager } from '../position/position-manager.js';
+import { getStrategyAggregator } from '../position/strategy-aggregator.js';
+import { fillLeg, isOption } from './batch-legs.js';
+import type { InstrumentType, ScenarioMethod, Underlying } from '../core/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One open position as the engine sees it (plain numbers)
+ */
+export interface ScenarioLeg {
+  positionId: string;
+  symbol: string;
+  strategyId?: string;
+  underlying: Underlying;
+  instrumentType: InstrumentType;
+  strike?: number;
+  expiry: Date;
+  quantity: number;            // Signed: negative when short
+  spot: number;
+  price: number;               // Current mark
+  timeToExpiry: number;        // Years
+  forward?: number;            // Implied forward for the expiry
+  iv?: number;                 // Decimal (0.20 for 20%)
+  eventVariance: number;       // Scheduled-event variance to expiry, decimal²
+}
+
+/**
+ * Where an expiry-day pin sends an underlying: its nearest option expiry's
+ * max pain strike, with time run out to that expiry
+ */
+export interface PinTarget {
+  spot: number;
+  expiry: Date;
+  days: number;
+}
+
+export interface ScenarioBook {
+  legs: ScenarioLeg[];
+  pins: Map<Underlying, PinTarget>;
+  strategyNames: Map<string, string>;
+  timestamp: Date;
+}
+
+export interface ScenarioShock {
+  spotShockPct: number;        // Percent move in every underlying's spot
+  ivShock: number;             // Vol points added to every option's IV
+  days: number;                // Calendar days forward
+  velocity?: number;           // Spot points/sec of the move: adds seller-pain IV inflation
+  pin?: boolean;               // Spot pins to max pain and time runs to the nearest expiry
+}
+
+export interface StressScenario extends ScenarioShock {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface ScenarioGrid {
+  spotShocksPct: number[];
+  ivShocks: number[];
+  timeStepsDays: number[];
+}
+
+/**
+ * P&L over a grid, indexed [time step][IV shock][spot shock]
+ */
+export interface PnLMatrix {
+  id: string;
+  name: string;
+  pnl: Decimal[][][];
+}
+
+export interface ScenarioGridResult {
+  method: ScenarioMethod;
+  grid: ScenarioGrid;
+  timestamp: Date;
+  legs: number;
+  portfolio: PnLMatrix;
+  strategies: PnLMatrix[];
+}
+
+export interface StressResult {
+  scenario: StressScenario;
+  portfolio: Decimal;
+  strategies: Array<{ id: string; name: string; pnl: Decimal }>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// NAMED SCENARIOS
+// ============================================================================
+
+export const STRESS_SCENARIOS: readonly StressScenario[] = [
+  {
+    id: 'GAP_DOWN_3_IV_UP_8',
+    name: 'Gap down 3% with IV +8',
+    description: 'Overnight gap down, vols bid across the chain',
+    spotShockPct: -3,
+    ivShock: 8,
+    days: 1,
+  },
+  {
+    id: 'GAP_UP_3_IV_DOWN_2',
+    name: 'Gap up 3% with IV -2',
+    description: 'Overnight gap up, vols offered',
+    spotShockPct: 3,
+    ivShock: -2,
+    days: 1,
+  },
+  {
+    id: 'CRASH_5_PANIC',
+    name: 'Intraday crash 5%',
+    description: 'Fast selloff with panic IV inflation on top of +10 vol',
+    spotShockPct: -5,
+    ivShock: 10,
+    days: 0,
+    velocity: SLIPPAGE.VELOCITY_EXTREME,
+  },
+  {
+    id: 'FAST_RALLY_2',
+    name: 'Fast rally 2%',
+    description: 'Short-covering rally at high velocity, IV unchanged before inflation',
+    spotShockPct: 2,
+    ivShock: 0,
+    days: 0,
+    velocity: SLIPPAGE.VELOCITY_HIGH,
+  },
+  {
+    id: 'IV_CRUSH',
+    name: 'IV crush -5',
+    description: 'Event passes: spot flat, vols collapse, a day of decay',
+    spotShockPct: 0,
+    ivShock: -5,
+    days: 1,
+  },
+  {
+    id: 'EXPIRY_DAY_PIN',
+    name: 'Expiry-day pin',
+    description: 'Spot pins to max pain and the nearest expiry settles',
+    spotShockPct: 0,
+    ivShock: 0,
+    days: 0,
+    pin: true,
+  },
+];
+
+// ============================================================================
+// BOOK
+// ============================================================================
+
+/**
+ * Open positions with spot, mark, IV and forward from market state. IV is
+ * the position's Greeks IV, else solved from its mark.
+ */
+export function getScenarioBook(now: Date = clockNow()): ScenarioBook {
+  const marketState = getMarketState();
+  const aggregator = getStrategyAggregator();
+  const calendar = getEventCalendar();
+  const legs: ScenarioLeg[] = [];
+  const strategyNames: Map<string, string> = new Map();
+
+  for (const position of getPositionManager().getAllPositions()) {
+    if (position.quantity <= 0) continue;
+    const spot = marketState.getSpotPrice(position.underlying).toNumber();
+    if (spot <= 0) continue;
+
+    const strategy = aggregator.getStrategyForPosition(position.id);
+    if (strategy) strategyNames.set(strategy.id, strategy.name);
+
+    const isOption = position.instrumentType === 'CE' || position.instrumentType === 'PE';
+    legs.push({
+      positionId: position.id,
+      symbol: position.symbol,
+      strategyId: strategy?.id,
+      underlying: position.underlying,
+      instrumentType: position.instrumentType,
+      strike: position.strike,
+      expiry: position.expiry,
+      quantity: position.side === 'LONG' ? position.quantity : -position.quantity,
+      spot,
+      price: position.currentPrice.toNumber(),
+      timeToExpiry: timeToExpiryYears(position.expiry, now).toNumber(),
+      forward: isOption ? marketState.getForward(position.underlying, position.expiry, now)?.forward.toNumber() : undefined,
+      iv: position.greeks?.iv.greaterThan(0) ? position.greeks.iv.toNumber() / 100 : undefined,
+      eventVariance: isOption ? calendar.getEventVariance(position.underlying, position.expiry, now) : 0,
+    });
+  }
+
+  return { legs, pins: findPinTargets(legs), strategyNames, timestamp: now };
+}
+
+// ============================================================================
+// REVALUATION
+// ============================================================================
+
+/**
+ * Revalue the book over spot × IV × time shocks
+ */
+export function runScenarioGrid(
+  book: ScenarioBook,
+  grid: Partial<ScenarioGrid> = {},
+  method: ScenarioMethod = SCENARIOS.METHOD
+): ScenarioGridResult {
+  const resolved: ScenarioGrid = {
+    spotShocksPct: grid.spotShocksPct ?? [...SCENARIOS.SPOT_SHOCKS_PCT],
+    ivShocks: grid.ivShocks ?? [...SCENARIOS.IV_SHOCKS],
+    timeStepsDays: grid.timeStepsDays ?? [...SCENARIOS.TIME_STEPS_DAYS],
+  };
+
+  const shocks: ScenarioShock[] = [];
+  for (const days of resolved.timeStepsDays) {
+    for (const ivShock of resolved.ivShocks) {
+      for (const spotShockPct of resolved.spotShocksPct) {
+        shocks.push({ spotShockPct, ivShock, days });
+      }
+    }
+  }
+
+  const legPnL = revalueBook(book, shocks, method);
+  const toMatrix = (id: string, name: string, include: (leg: ScenarioLeg) => boolean): PnLMatrix => {
+    let index = 0;
+    return {
+      id,
+      name,
+      pnl: resolved.timeStepsDays.map(() =>
+        resolved.ivShocks.map(() =>
+          resolved.spotShocksPct.map(() => sumLegs(book.legs, legPnL[index++]!, include))
+        )
+      ),
+    };
+  };
+
+  return {
+    method,
+    grid: resolved,
+    timestamp: book.timestamp,
+    legs: book.legs.length,
+    portfolio: toMatrix('PORTFOLIO', 'Portfolio', () => true),
+    strategies: Array.from(book.strategyNames.entries()).map(([id, name]) =>
+      toMatrix(id, name, leg => leg.strategyId === id)
+    ),
+  };
+}
+
+/**
+ * Revalue the book under each named stress scenario
+ */
+export function runStressScenarios(
+  book: ScenarioBook,
+  scenarios: readonly StressScenario[] = STRESS_SCENARIOS,
+  method: ScenarioMethod = SCENARIOS.METHOD
+): StressResult[] {
+  const legPnL = revalueBook(book, scenarios, method);
+
+  return scenarios.map((scenario, i) => ({
+    scenario,
+    portfolio: sumLegs(book.legs, legPnL[i]!, () => true),
+    strategies: Array.from(book.strategyNames.entries()).map(([id, name]) => ({
+      id,
+      name,
+      pnl: sumLegs(book.legs, legPnL[i]!, leg => leg.strategyId === id),
+    })),
+  }));
+}
+
+/**
+ * P&L per leg for each shock: one Float64Array per shock, in leg order
+ */
+export function revalueBook(book: ScenarioBook, shocks: readonly ScenarioShock[], method: ScenarioMethod): Float64Array[] {
+  const legs = book.legs;
+  const riskFreeRate = PRICING.RISK_FREE_RATE.toNumber();
+  const calendar = getEventCalendar();
+
+  // Today's model value, IV and Greeks for every option leg
+  const base = createChainBatch(legs.length);
+  legs.forEach((leg, i) => fillLeg(base, i, leg, leg.spot, leg.timeToExpiry, leg.forward, leg.eventVariance));
+  solveIVBatch(base, riskFreeRate);
+  legs.forEach((leg, i) => {
+    if (leg.iv !== undefined) base.iv[i] = leg.iv;
+  });
+  priceBatch(base, riskFreeRate);
+
+  const shocked = method === 'FULL' ? createChainBatch(legs.length * shocks.length) : undefined;
+  const moves: Array<{ spot: number; days: number; iv: number }> = [];
+
+  shocks.forEach((shock, s) => {
+    legs.forEach((leg, i) => {
+      const pin = shock.pin ? book.pins.get(leg.underlying) : undefined;
+      const spot = pin ? pin.spot : leg.spot * (1 + shock.spotShockPct / 100);
+      const days = Math.min(pin ? pin.days : shock.days, leg.timeToExpiry * PRICING.DAYS_IN_YEAR);
+      const iv = shockedIV(leg, base.iv[i]!, spot, shock);
+      moves.push({ spot, days, iv });
+
+      if (shocked && isOption(leg)) {
+        const j = s * legs.length + i;
+        const t = Math.max(PRICING.MIN_TIME_TO_EXPIRY.toNumber(), leg.timeToExpiry - days / PRICING.DAYS_IN_YEAR);
+        const forward = leg.forward !== undefined ? leg.forward * spot / leg.spot : undefined;
+        const at = new Date(book.timestamp.getTime() + days * MS_PER_DAY);
+        fillLeg(shocked, j, leg, spot, t, forward, calendar.getEventVariance(leg.underlying, leg.expiry, at));
+        shocked.iv[j] = iv;
+      }
+    });
+  });
+  if (shocked) priceBatch(shocked, riskFreeRate);
+
+  return shocks.map((_, s) => {
+    const pnl = new Float64Array(legs.length);
+    legs.forEach((leg, i) => {
+      const j = s * legs.length + i;
+      const move = moves[j]!;
+
+      if (!isOption(leg)) {
+        // Futures move one for one with spot
+        pnl[i] = leg.quantity * leg.price * (move.spot / leg.spot - 1);
+      } else if (shocked) {
+        pnl[i] = leg.quantity * (shocked.theoretical[j]! - base.theoretical[i]!);
+      } else {
+        pnl[i] = leg.quantity * greeksPnL(base, i, move.spot - leg.spot, (move.iv - base.iv[i]!) * 100, move.days);
+      }
+      if (!Number.isFinite(pnl[i]!)) pnl[i] = 0;
+    });
+    return pnl;
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Base IV plus the shock (floored at PRICING.IV_MIN), inflated for the
+ * scenario's spot velocity as seller pain does
+ */
+function shockedIV(leg: ScenarioLeg, baseIV: number, spot: number, shock: ScenarioShock): number {
+  if (!isOption(leg) || !(baseIV > 0)) return baseIV;
+  const iv = Math.max(PRICING.IV_MIN.toNumber(), baseIV + shock.ivShock / 100);
+  if (!shock.velocity) return iv;
+
+  return calculateInflatedIV({
+    baseIV: toDecimal(iv),
+    spotVelocity: toDecimal(shock.velocity),
+    spotAcceleration: ZERO,
+    timeToExpiry: leg.timeToExpiry * PRICING.DAYS_IN_YEAR,
+    moneyness: toDecimal(spot / leg.strike!),
+    direction: spot >= leg.spot ? 'UP' : 'DOWN',
+  }).toNumber();
+}
+
+/**
+ * Per-unit P&L from Greeks: dS in points, dVol in vol points, dt in days
+ */
+function greeksPnL(batch: ChainBatch, i: number, dS: number, dVol: number, dt: number): number {
+  return batch.delta[i]! * dS
+    + 0.5 * batch.gamma[i]! * dS * dS
+    + batch.vega[i]! * dVol
+    + 0.5 * batch.volga[i]! * dVol * dVol
+    + batch.vanna[i]! * dS * dVol
+    + batch.theta[i]! * dt
+    + batch.charm[i]! * dS * dt;
+}
+
+function sumLegs(legs: ScenarioLeg[], pnl: Float64Array, include: (leg: ScenarioLeg) => boolean): Decimal {
+  let total = ZERO;
+  legs.forEach((leg, i) => {
+    if (include(leg)) total = total.plus(pnl[i]!);
+  });
+  return total.toDecimalPlaces(2);
+}
+
+/**
+ * Pin each underlying at its nearest option expiry's max pain, else the
+ * strike nearest spot
+ */
+function findPinTargets(legs: ScenarioLeg[]): Map<Underlying, PinTarget> {
+  const pins: Map<Underlying, PinTarget> = new Map();
+
+  for (const leg of legs) {
+    if (!isOption(leg)) continue;
+    const current = pins.get(leg.underlying);
+    if (current && current.expiry.getTime() <= leg.expiry.getTime()) continue;
+
+    const interval = getStrikeInterval(leg.underlying);
+    const maxPain = getOIAnalytics().getMaxPain(leg.underlying, leg.expiry);
+    pins.set(leg.underlying, {
+      spot: maxPain ?? Math.round(leg.spot / interval) * interval,
+      expiry: leg.expiry,
+      days: leg.timeToExpiry * PRICING.DAYS_IN_YEAR,
+    });
+  }
+
+  return pins;
+}
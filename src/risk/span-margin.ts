@@ -146,18 +146,19 @@ export function calculateOptionMargin(
 }
 
 /**
- * Calculate margin for futures position
+ * Calculate margin for futures position (on futures notional; pass spot
+ * if there is no futures price yet)
  */
 export function calculateFuturesMargin(
   underlying: Underlying,
   side: 'LONG' | 'SHORT',
   quantity: number,
-  spotPrice: Decimal,
+  futuresPrice: Decimal,
   expiry: Date
 ): MarginCalculation {
   const lotSize = LOT_SIZES[underlying];
   const lots = quantity / lotSize;
-  const notional = spotPrice.times(lotSize).times(lots);
+  const notional = futuresPrice.times(lotSize).times(lots);
 
   // Initial margin: ~12% of notional
   const spanMargin = notional.times(MARGIN_PERCENTAGES.FUTURES_INITIAL);
@@ -211,6 +212,8 @@ export function analyzeSpread(positions: Position[]): SpreadAnalysis {
 
   for (const pos of positions) {
     if (!pos.quantity) continue;
+    // Spread offsets are for option structures only
+    if (pos.instrumentType === 'FUT') continue;
 
     const existing = underlyingGroups.get(pos.underlying) ?? [];
     existing.push(pos);
@@ -482,7 +485,7 @@ export function calculatePortfolioMargin(
         pos.underlying,
         pos.side,
         pos.quantity,
-        spotPrice,
+        pos.currentPrice.greaterThan(0) ? pos.currentPrice : spotPrice,
         pos.expiry
       );
     } else {
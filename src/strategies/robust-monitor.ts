@@ -23,7 +23,8 @@ export class RobustMonitor {
   constructor(
     private aggregator: StrategyAggregator,
     private positionManager: PositionManager,
-    private fillEngine: FillEngine
+    private fillEngine: FillEngine,
+    private stateFile: string = STATE_FILE
   ) {}
 
   /**
@@ -31,7 +32,7 @@ export class RobustMonitor {
    */
   async loadState() {
     try {
-      const data = await fs.readFile(STATE_FILE, 'utf-8');
+      const data = await fs.readFile(this.stateFile, 'utf-8');
       const strategies = JSON.parse(data);
       strategies.forEach((s: MonitoredStrategy) => this.activeStrategies.set(s.id, s));
       
@@ -46,8 +47,8 @@ export class RobustMonitor {
 
   async saveState() {
     try {
-      await fs.mkdir(path.dirname(STATE_FILE), { recursive: true });
-      await fs.writeFile(STATE_FILE, JSON.stringify(Array.from(this.activeStrategies.values()), null, 2));
+      await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+      await fs.writeFile(this.stateFile, JSON.stringify(Array.from(this.activeStrategies.values()), null, 2));
     } catch (e) {
       console.error('Failed to save monitor state', e);
     }
@@ -3,8 +3,15 @@ import { MarketStateManager } from '../market-data/market-state.js';
 import { FillEngine } from '../execution/fill-engine.js';
 import { PositionManager } from '../position/position-manager.js';
 import { StrategyAggregator } from '../position/strategy-aggregator.js';
-import { Underlying, Instrument } from '../core/types.js';
+import { getDepthAnalytics } from '../market-data/depth-analytics.js';
+import { getVolSurfaceTracker } from '../market-data/vol-surface-tracker.js';
+import { calculateProbabilities, probabilityOfTouch, type ProbabilityAnalysis } from '../pricing/probability.js';
+import { eventMovePct, getEventCalendar, type MacroEvent } from '../pricing/event-calendar.js';
+import { DEPTH_ANALYTICS, PROBABILITY } from '../core/constants.js';
+import { Underlying, Instrument, StrangleSelection } from '../core/types.js';
 import { formatExpiry } from '../utils/date.js';
+import { clockNow } from '../utils/clock.js';
+import { getVarianceClock } from '../utils/variance-clock.js';
 import chalk from 'chalk';
 
 interface StrangleCandidate {
@@ -14,6 +21,9 @@ interface StrangleCandidate {
   peLtp: number;
   targetPremium: number;
   expiry: Date;
+  selection: StrangleSelection;
+  probabilities?: ProbabilityAnalysis;   // Undefined until the expiry has an IV
+  events: MacroEvent[];                  // Scheduled events before expiry
 }
 
 export class StrangleAutomator {
@@ -25,14 +35,18 @@ export class StrangleAutomator {
     private strategyAggregator: StrategyAggregator
   ) {}
 
-  public findBestStrangle(underlying: Underlying, referenceCapital: number = 100000): StrangleCandidate | null {
+  public findBestStrangle(
+    underlying: Underlying,
+    referenceCapital: number = 100000,
+    selection: StrangleSelection = PROBABILITY.STRANGLE_SELECTION
+  ): StrangleCandidate | null {
     const allExpiries = this.instrumentManager.getAvailableExpiries(underlying);
     if (allExpiries.length === 0) { console.log(chalk.red('❌ No expiries found.')); return null; }
     
     // ============================================================
     // 📅 STRATEGY LOGIC: MONTHLY ROLLOVER
     // ============================================================
-    const today = new Date();
+    const today = clockNow();
     const currentDay = today.getDate(); // 1 to 31
     let targetMonth = today.getMonth(); // 0 = Jan, 11 = Dec
     let targetYear = today.getFullYear();
@@ -73,6 +87,13 @@ export class StrangleAutomator {
     if (!selectedExpiry) selectedExpiry = allExpiries[allExpiries.length - 1];
 
     console.log(chalk.cyan(`🎯 Selected Expiry: ${formatExpiry(selectedExpiry)}`));
+
+    // Short vol through a scheduled event sells its move too
+    const events = getEventCalendar().getEvents(underlying, clockNow(), getVarianceClock().sessionClose(selectedExpiry));
+    for (const event of events) {
+      const move = eventMovePct(event.variance[underlying]!).toFixed(1);
+      console.log(chalk.yellow(`⚠️ ${event.name} on ${event.date.toLocaleDateString('en-IN')} before expiry (±${move}% expected move).`));
+    }
     
     // ============================================================
     // 💰 PREMIUM LOGIC: 3% RULE
@@ -90,40 +111,69 @@ export class StrangleAutomator {
     let bestCE: Instrument | null = null, bestPE: Instrument | null = null;
     let minDiffCE = Infinity, minDiffPE = Infinity;
     let foundCeLtp = 0, foundPeLtp = 0;
+    let illiquid = 0;
+
+    // Strikes without enough book history yet are given the benefit of the doubt
+    const depthAnalytics = getDepthAnalytics();
+    const isLiquid = (token: number): boolean => {
+      const liquidity = depthAnalytics.getLiquidity(token);
+      if (!liquidity || liquidity.score >= DEPTH_ANALYTICS.MIN_LIQUIDITY_SCORE) return true;
+      illiquid++;
+      return false;
+    };
 
-    // Scan Option Chain for prices closest to targetPremiumPerLeg
+    // PROBABILITY: the OTM strike on each side closest to the target probability of touch
+    const distribution = getVolSurfaceTracker().getExpiryDistribution(underlying, selectedExpiry);
+    if (selection === 'PROBABILITY' && !distribution) {
+      console.log(chalk.yellow('⚠️ No IV for this expiry yet. Picking strikes by premium.'));
+    }
+    const byProbability = selection === 'PROBABILITY' && distribution !== undefined;
+    const distanceFromTarget = (strike: number, ltp: number, type: 'CE' | 'PE'): number => {
+      if (!byProbability) return Math.abs(ltp - targetPremiumPerLeg);
+      const otm = type === 'CE' ? strike > distribution.spot : strike < distribution.spot;
+      return otm ? Math.abs(probabilityOfTouch(distribution, strike) - PROBABILITY.TARGET_TOUCH) : Infinity;
+    };
+
+    // Scan Option Chain for strikes closest to the target
     for (const [strike, entry] of chain.strikes) {
       if (entry.ce) {
-        let ltp = this.marketState.getLTP(entry.ce.instrumentToken);
-        
-        // --- SIMULATION HACK: If Market is Closed (Price=0), use Target ---
-        if (ltp === 0) ltp = targetPremiumPerLeg; 
-        // -----------------------------------------------------------------
-
-        const diff = Math.abs(ltp - targetPremiumPerLeg);
-        if (diff < minDiffCE) { minDiffCE = diff; bestCE = entry.ce; foundCeLtp = ltp; }
+        // Skip strikes with no quote yet (use `--source sim` when the market is closed)
+        const ltp = this.marketState.getLTP(entry.ce.instrumentToken).toNumber();
+        if (ltp > 0 && isLiquid(entry.ce.instrumentToken)) {
+          const diff = distanceFromTarget(strike, ltp, 'CE');
+          if (diff < minDiffCE) { minDiffCE = diff; bestCE = entry.ce; foundCeLtp = ltp; }
+        }
       }
       if (entry.pe) {
-        let ltp = this.marketState.getLTP(entry.pe.instrumentToken);
-        
-        // --- SIMULATION HACK: If Market is Closed (Price=0), use Target ---
-        if (ltp === 0) ltp = targetPremiumPerLeg;
-        // -----------------------------------------------------------------
-
-        const diff = Math.abs(ltp - targetPremiumPerLeg);
-        if (diff < minDiffPE) { minDiffPE = diff; bestPE = entry.pe; foundPeLtp = ltp; }
+        const ltp = this.marketState.getLTP(entry.pe.instrumentToken).toNumber();
+        if (ltp > 0 && isLiquid(entry.pe.instrumentToken)) {
+          const diff = distanceFromTarget(strike, ltp, 'PE');
+          if (diff < minDiffPE) { minDiffPE = diff; bestPE = entry.pe; foundPeLtp = ltp; }
+        }
       }
     }
 
+    if (illiquid > 0) {
+      console.log(chalk.yellow(`⚠️ Skipped ${illiquid} option(s) with liquidity score below ${DEPTH_ANALYTICS.MIN_LIQUIDITY_SCORE}.`));
+    }
     if (!bestCE || !bestPE) return null;
 
+    // One lot short of each leg, at the prices found
+    const probabilities = distribution && calculateProbabilities([
+      { underlying, instrumentType: 'CE', strike: bestCE.strike, expiry: selectedExpiry, quantity: -lotSize, entryPrice: foundCeLtp, price: foundCeLtp },
+      { underlying, instrumentType: 'PE', strike: bestPE.strike, expiry: selectedExpiry, quantity: -lotSize, entryPrice: foundPeLtp, price: foundPeLtp },
+    ], distribution);
+
     return { 
         ce: bestCE, 
         pe: bestPE, 
         ceLtp: foundCeLtp, 
         peLtp: foundPeLtp, 
         targetPremium: targetPremiumPerLeg, 
-        expiry: selectedExpiry 
+        expiry: selectedExpiry,
+        selection: byProbability ? 'PROBABILITY' : 'PREMIUM',
+        probabilities,
+        events,
     };
   }
 
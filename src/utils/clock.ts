@@ -0,0 +1,42 @@
+/**
+ * Engine Clock for NSE Options Paper Trading
+ *
+ * The time expiry, DTE and staleness checks run on: the wall clock live,
+ * the recorded time of the tick being published while a replay drives it,
+ * simulated time while the market simulator does. Without it a replayed or
+ * simulated session would be priced and aged against today.
+ */
+
+// ============================================================================
+// CLOCK
+// ============================================================================
+
+let replayTimeMs: number | null = null;
+
+/**
+ * Current engine time in epoch milliseconds
+ */
+export function clockNowMs(): number {
+  return replayTimeMs ?? Date.now();
+}
+
+/**
+ * Current engine time
+ */
+export function clockNow(): Date {
+  return new Date(clockNowMs());
+}
+
+/**
+ * Advance the clock to a replayed or simulated instant (null hands it back to the wall clock)
+ */
+export function setReplayTime(time: Date | number | null): void {
+  replayTimeMs = time === null ? null : typeof time === 'number' ? time : time.getTime();
+}
+
+/**
+ * Check if a replay is driving the clock
+ */
+export function isReplayClock(): boolean {
+  return replayTimeMs !== null;
+}
@@ -2,26 +2,29 @@
  * Date Utilities for NSE Options Paper Trading
  *
  * Handles IST timezone, expiry calculations, and trading hours.
+ * Expiry helpers follow each underlying's rules in UNDERLYING_SPECS.
  */
 
 import {
   format,
   parse,
-  isThursday,
-  nextThursday,
-  previousThursday,
+  nextDay,
+  previousDay,
   lastDayOfMonth,
   isBefore,
   isAfter,
   differenceInDays,
   differenceInMinutes,
-  differenceInSeconds,
   addDays,
   startOfDay,
   setHours,
   setMinutes,
 } from 'date-fns';
-import { TRADING_HOURS, PRICING } from '../core/constants.js';
+import type { Day } from 'date-fns';
+import { TRADING_HOURS, PRICING, UNDERLYING_SPECS } from '../core/constants.js';
+import { clockNow } from './clock.js';
+import { getVarianceClock } from './variance-clock.js';
+import type { Underlying } from '../core/types.js';
 import DecimalConstructor from 'decimal.js';
 const Decimal = (DecimalConstructor as any).default || DecimalConstructor;
 type Decimal = InstanceType<typeof Decimal>;
@@ -136,45 +139,48 @@ export function isTradingDay(date: Date = new Date()): boolean {
 // ============================================================================
 
 /**
- * Get the weekly expiry date (Thursday)
+ * Get the weekly expiry date (next expiry weekday, today if it is one)
  */
-export function getWeeklyExpiry(referenceDate: Date = new Date()): Date {
+export function getWeeklyExpiry(referenceDate: Date = new Date(), underlying: Underlying = 'NIFTY'): Date {
   const ist = toIST(referenceDate);
+  const weekday = UNDERLYING_SPECS[underlying].expiryWeekday;
 
-  if (isThursday(ist)) {
-    // If today is Thursday, it's expiry day
+  if (ist.getDay() === weekday) {
+    // Today is expiry day
     return startOfDay(ist);
   }
 
-  // Get next Thursday
-  return startOfDay(nextThursday(ist));
+  return startOfDay(nextDay(ist, weekday as Day));
 }
 
 /**
- * Get the monthly expiry date (last Thursday of month)
+ * Get the monthly expiry date (last expiry weekday of the month)
  */
-export function getMonthlyExpiry(referenceDate: Date = new Date()): Date {
+export function getMonthlyExpiry(referenceDate: Date = new Date(), underlying: Underlying = 'NIFTY'): Date {
   const ist = toIST(referenceDate);
   const lastDay = lastDayOfMonth(ist);
+  const weekday = UNDERLYING_SPECS[underlying].expiryWeekday;
 
-  // Find last Thursday
-  let thursday = previousThursday(addDays(lastDay, 1));
-  if (isAfter(thursday, lastDay)) {
-    thursday = previousThursday(thursday);
-  }
-
-  return startOfDay(thursday);
+  return startOfDay(lastDay.getDay() === weekday ? lastDay : previousDay(lastDay, weekday as Day));
 }
 
 /**
- * Get next N expiries (for subscription)
+ * Get next N expiries (for subscription); monthly-only underlyings
+ * step through month ends
  */
-export function getNextExpiries(count: number, referenceDate: Date = new Date()): Date[] {
+export function getNextExpiries(count: number, referenceDate: Date = new Date(), underlying: Underlying = 'NIFTY'): Date[] {
   const expiries: Date[] = [];
+  const weekly = UNDERLYING_SPECS[underlying].weeklyExpiries;
   let current = referenceDate;
 
   while (expiries.length < count) {
-    const expiry = getWeeklyExpiry(current);
+    let expiry = getWeeklyExpiry(current, underlying);
+    if (!weekly) {
+      expiry = getMonthlyExpiry(current, underlying);
+      if (isBefore(expiry, startOfDay(toIST(current)))) {
+        expiry = getMonthlyExpiry(addDays(lastDayOfMonth(toIST(current)), 1), underlying);
+      }
+    }
 
     // Avoid duplicates
     const existing = expiries.find(
@@ -194,9 +200,11 @@ export function getNextExpiries(count: number, referenceDate: Date = new Date())
 /**
  * Check if a date is an expiry day
  */
-export function isExpiryDay(date: Date = new Date()): boolean {
+export function isExpiryDay(date: Date = new Date(), underlying: Underlying = 'NIFTY'): boolean {
   const ist = toIST(date);
-  return isThursday(ist);
+  const spec = UNDERLYING_SPECS[underlying];
+  if (ist.getDay() !== spec.expiryWeekday) return false;
+  return spec.weeklyExpiries || getMonthlyExpiry(ist, underlying).getTime() === startOfDay(ist).getTime();
 }
 
 /**
@@ -232,18 +240,22 @@ export function daysToExpiry(expiry: Date, referenceDate: Date = new Date()): nu
 export const getDaysToExpiry = daysToExpiry;
 
 /**
- * Calculate time to expiry in years (for Black-Scholes)
+ * Calculate time to expiry in years (for Black-Scholes): to 15:30 on expiry
+ * day on the variance clock, which is calendar time when it is disabled.
+ * Measured from the engine clock, so replays age options by recorded time.
  */
-export function timeToExpiryYears(expiry: Date, referenceDate: Date = new Date()): Decimal {
-  const ist = toIST(referenceDate);
-  const expiryTime = setMinutes(setHours(toIST(expiry), 15), 30); // Expiry at 15:30
-
-  const diffSeconds = Math.max(0, differenceInSeconds(expiryTime, ist));
-  const years = diffSeconds / (PRICING.DAYS_IN_YEAR * 24 * 60 * 60);
-
+export function timeToExpiryYears(expiry: Date, referenceDate: Date = clockNow()): Decimal {
+  const years = getVarianceClock().yearsToExpiry(expiry, referenceDate);
   return Decimal.max(PRICING.MIN_TIME_TO_EXPIRY, new Decimal(years));
 }
 
+/**
+ * Check if an expiry's last session has closed (15:30 IST on expiry day)
+ */
+export function hasExpired(expiry: Date, referenceDate: Date = clockNow()): boolean {
+  return getVarianceClock().sessionClose(expiry).getTime() <= referenceDate.getTime();
+}
+
 /**
  * Calculate trading days to expiry
  */
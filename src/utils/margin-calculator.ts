@@ -1,5 +1,5 @@
 /**
- * Margin Calculator for NSE F&O (NIFTY/BANKNIFTY)
+ * Margin Calculator for NSE/BSE index F&O
  *
  * This is an APPROXIMATION for paper trading and learning.
  * Real margin = SPAN + Exposure (calculated by NSE using 16 risk scenarios)
@@ -7,15 +7,9 @@
  * For actual trading, always check broker's margin calculator.
  */
 
+import { LOT_SIZES } from '../core/constants.js';
 import type { Underlying } from '../core/types.js';
 
-// Lot sizes (as of 2024)
-const LOT_SIZES: Record<Underlying, number> = {
-  NIFTY: 25,      // Changed from 50 to 25 in April 2024
-  BANKNIFTY: 15,  // Changed from 30 to 15 in April 2024
-  FINNIFTY: 25,
-};
-
 // Approximate margin percentages (these vary based on volatility)
 const MARGIN_CONFIG = {
   // SPAN margin as % of contract value
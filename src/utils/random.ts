@@ -0,0 +1,88 @@
+/**
+ * Seeded Random Numbers for NSE Options Paper Trading
+ *
+ * Deterministic PRNG (mulberry32) so simulations are reproducible from a seed.
+ */
+
+// ============================================================================
+// SEEDED RANDOM
+// ============================================================================
+
+export class SeededRandom {
+  private state: number;
+  private spareNormal: number | null = null;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Uniform number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform number in [min, max)
+   */
+  uniform(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Uniform integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.uniform(min, max + 1));
+  }
+
+  /**
+   * Standard normal sample (Box-Muller, pairs cached)
+   */
+  normal(): number {
+    if (this.spareNormal !== null) {
+      const spare = this.spareNormal;
+      this.spareNormal = null;
+      return spare;
+    }
+
+    let u = 0;
+    while (u === 0) u = this.next();
+    const v = this.next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick an item with probability proportional to its weight
+   */
+  weighted<T>(items: T[], weight: (item: T) => number): T {
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    let r = this.next() * total;
+    for (const item of items) {
+      r -= weight(item);
+      if (r < 0) return item;
+    }
+    return items[items.length - 1]!;
+  }
+}
+
+/**
+ * Create a seeded random source
+ */
+export function createRandom(seed: number): SeededRandom {
+  return new SeededRandom(seed);
+}
@@ -0,0 +1,305 @@
+/**
+ * Variance-Time Clock for NSE Options Paper Trading
+ *
+ * Calendar time treats a weekend like two trading days and spreads expiry
+ * day's last session over the whole day. The variance clock measures time
+ * to expiry in trading days of variance instead, per IST calendar date:
+ * - a trading date is one day: (1 − overnight weight) spread evenly over the
+ *   09:15-15:30 session, the overnight weight over the minutes outside it
+ * - a weekend day or holiday is `nonTradingDayWeight` days, spread evenly
+ * - a scheduled event (budget, RBI policy, election results) adds its
+ *   weight in days at its time, so its variance is gone once it passes
+ *
+ * Days are converted to years at TRADING_DAYS_IN_YEAR trading days plus
+ * the rest of the year's days at the non-trading weight, so over a normal
+ * year variance time and calendar time agree and IVs stay on the usual
+ * annualised scale. Time runs continuously (theta doesn't jump at Monday's
+ * open) and ends at 15:30 on expiry day.
+ *
+ * Disabled, it is calendar time to 15:30 on expiry day.
+ */
+
+import { PRICING, TRADING_HOURS, VARIANCE_CLOCK } from '../core/constants.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A scheduled event's extra variance, in trading days
+ */
+export interface VarianceEvent {
+  name: string;
+  date: Date;
+  weight: number;
+}
+
+export interface VarianceClockOptions {
+  enabled: boolean;
+  overnightWeight: number;          // Share of a trading day's variance outside the session
+  nonTradingDayWeight: number;      // Weekend day or holiday, in trading days
+  holidays: string[];               // Exchange holidays, YYYY-MM-DD (IST)
+  events: VarianceEvent[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MINUTES_PER_DAY = 24 * 60;
+const SESSION_OPEN = parseMinutes(TRADING_HOURS.MARKET_OPEN);
+const SESSION_CLOSE = parseMinutes(TRADING_HOURS.MARKET_CLOSE);
+const SESSION_MINUTES = SESSION_CLOSE - SESSION_OPEN;
+
+// ============================================================================
+// VARIANCE CLOCK
+// ============================================================================
+
+export class VarianceClock {
+  private options: VarianceClockOptions;
+  private holidays: Set<string> = new Set();
+  private eventsByDay: Map<number, Array<{ minute: number; weight: number }>> = new Map();
+  private dayTotals: Map<number, number> = new Map();
+
+  constructor(options: Partial<VarianceClockOptions> = {}) {
+    this.options = {
+      enabled: options.enabled ?? VARIANCE_CLOCK.ENABLED,
+      overnightWeight: options.overnightWeight ?? VARIANCE_CLOCK.OVERNIGHT_WEIGHT,
+      nonTradingDayWeight: options.nonTradingDayWeight ?? VARIANCE_CLOCK.NON_TRADING_DAY_WEIGHT,
+      holidays: options.holidays ?? [],
+      events: options.events ?? [],
+    };
+    this.index();
+  }
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  /**
+   * Change weights, holidays or events
+   */
+  configure(options: Partial<VarianceClockOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.index();
+  }
+
+  getOptions(): VarianceClockOptions {
+    return { ...this.options, holidays: [...this.options.holidays], events: [...this.options.events] };
+  }
+
+  // ==========================================================================
+  // TIME
+  // ==========================================================================
+
+  /**
+   * Years from `now` to 15:30 IST on the expiry date: variance years when
+   * enabled, else calendar years. Never negative.
+   */
+  yearsToExpiry(expiry: Date, now: Date = new Date()): number {
+    return this.yearsBetween(now, this.sessionClose(expiry));
+  }
+
+  /**
+   * Years between two instants (0 if `to` is not after `from`)
+   */
+  yearsBetween(from: Date, to: Date): number {
+    if (to.getTime() <= from.getTime()) return 0;
+    if (!this.options.enabled) return (to.getTime() - from.getTime()) / (PRICING.DAYS_IN_YEAR * MS_PER_DAY);
+    return this.varianceDays(from, to) / this.varianceDaysPerYear();
+  }
+
+  /**
+   * Years in a number of session minutes (e.g. what's left of expiry day)
+   */
+  sessionMinutesToYears(minutes: number): number {
+    if (!this.options.enabled) return minutes / (PRICING.DAYS_IN_YEAR * MINUTES_PER_DAY);
+    return minutes * this.sessionRate() / this.varianceDaysPerYear();
+  }
+
+  /**
+   * Trading days of variance between two instants
+   */
+  varianceDays(from: Date, to: Date): number {
+    if (to.getTime() <= from.getTime()) return 0;
+
+    const fromDay = dayIndex(from);
+    const toDay = dayIndex(to);
+    if (fromDay === toDay) {
+      return this.varianceToMinute(toDay, minuteOfDay(to)) - this.varianceToMinute(fromDay, minuteOfDay(from));
+    }
+
+    let total = this.dayTotal(fromDay) - this.varianceToMinute(fromDay, minuteOfDay(from));
+    for (let day = fromDay + 1; day < toDay; day++) {
+      total += this.dayTotal(day);
+    }
+    return total + this.varianceToMinute(toDay, minuteOfDay(to));
+  }
+
+  /**
+   * Trading days of variance in a year of calendar time
+   */
+  varianceDaysPerYear(): number {
+    return PRICING.TRADING_DAYS_IN_YEAR
+      + (PRICING.DAYS_IN_YEAR - PRICING.TRADING_DAYS_IN_YEAR) * this.options.nonTradingDayWeight;
+  }
+
+  /**
+   * Whether the exchange trades on a date (IST): a weekday that isn't a
+   * listed holiday
+   */
+  isTradingDate(date: Date): boolean {
+    return this.isTradingDay(dayIndex(date));
+  }
+
+  /**
+   * 09:15 IST on a date
+   */
+  sessionOpen(date: Date): Date {
+    return atMinute(dayIndex(date), SESSION_OPEN);
+  }
+
+  /**
+   * 15:30 IST on a date
+   */
+  sessionClose(date: Date): Date {
+    return atMinute(dayIndex(date), SESSION_CLOSE);
+  }
+
+  /**
+   * The first trading session close after an instant
+   */
+  nextClose(now: Date): Date {
+    let day = dayIndex(now);
+    while (!this.isTradingDay(day) || atMinute(day, SESSION_CLOSE).getTime() <= now.getTime()) day++;
+    return atMinute(day, SESSION_CLOSE);
+  }
+
+  /**
+   * The first trading session open after an instant
+   */
+  nextOpen(now: Date): Date {
+    let day = dayIndex(now);
+    while (!this.isTradingDay(day) || atMinute(day, SESSION_OPEN).getTime() <= now.getTime()) day++;
+    return atMinute(day, SESSION_OPEN);
+  }
+
+  /**
+   * Events between two instants, in time order
+   */
+  getEvents(from?: Date, to?: Date): VarianceEvent[] {
+    return this.options.events
+      .filter(e => (!from || e.date.getTime() >= from.getTime()) && (!to || e.date.getTime() <= to.getTime()))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private index(): void {
+    this.holidays = new Set(this.options.holidays);
+    this.eventsByDay.clear();
+    this.dayTotals.clear();
+    for (const event of this.options.events) {
+      const day = dayIndex(event.date);
+      const events = this.eventsByDay.get(day) ?? [];
+      events.push({ minute: minuteOfDay(event.date), weight: event.weight });
+      this.eventsByDay.set(day, events);
+    }
+  }
+
+  private isTradingDay(day: number): boolean {
+    const weekday = (day + 4) % 7;       // 1970-01-01 was a Thursday
+    if (weekday === 0 || weekday === 6) return false;
+    return !this.holidays.has(new Date(day * MS_PER_DAY).toISOString().slice(0, 10));
+  }
+
+  private sessionRate(): number {
+    return (1 - this.options.overnightWeight) / SESSION_MINUTES;
+  }
+
+  /**
+   * Variance from the start of a date to a minute of it, events included
+   */
+  private varianceToMinute(day: number, minute: number): number {
+    let variance: number;
+    if (this.isTradingDay(day)) {
+      const overnightRate = this.options.overnightWeight / (MINUTES_PER_DAY - SESSION_MINUTES);
+      variance = overnightRate * (Math.min(minute, SESSION_OPEN) + Math.max(0, minute - SESSION_CLOSE))
+        + this.sessionRate() * Math.min(Math.max(0, minute - SESSION_OPEN), SESSION_MINUTES);
+    } else {
+      variance = this.options.nonTradingDayWeight * minute / MINUTES_PER_DAY;
+    }
+
+    for (const event of this.eventsByDay.get(day) ?? []) {
+      if (event.minute <= minute) variance += event.weight;
+    }
+    return variance;
+  }
+
+  private dayTotal(day: number): number {
+    let total = this.dayTotals.get(day);
+    if (total === undefined) {
+      total = this.varianceToMinute(day, MINUTES_PER_DAY);
+      this.dayTotals.set(day, total);
+    }
+    return total;
+  }
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/**
+ * IST calendar date as days since 1970-01-01
+ */
+function dayIndex(date: Date): number {
+  return Math.floor((date.getTime() + IST_OFFSET_MS) / MS_PER_DAY);
+}
+
+/**
+ * IST minutes since midnight, fractional
+ */
+function minuteOfDay(date: Date): number {
+  return ((date.getTime() + IST_OFFSET_MS) % MS_PER_DAY + MS_PER_DAY) % MS_PER_DAY / MS_PER_MINUTE;
+}
+
+/**
+ * Instant at an IST minute of a day index
+ */
+function atMinute(day: number, minute: number): Date {
+  return new Date(day * MS_PER_DAY + minute * MS_PER_MINUTE - IST_OFFSET_MS);
+}
+
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let varianceClock: VarianceClock | null = null;
+
+/**
+ * Get VarianceClock singleton
+ */
+export function getVarianceClock(options?: Partial<VarianceClockOptions>): VarianceClock {
+  if (!varianceClock) {
+    varianceClock = new VarianceClock(options);
+  }
+  return varianceClock;
+}
+
+/**
+ * Reset VarianceClock (for testing)
+ */
+export function resetVarianceClock(): void {
+  varianceClock = null;
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { BATCH_ACCURACY_TOLERANCE, runBatchBenchmark } from '../../src/pricing/batch-benchmark.js';
+
+describe('runBatchBenchmark', () => {
+  it('matches the Decimal pricer within tolerance on every field', () => {
+    const result = runBatchBenchmark({ iterations: 1 });
+
+    expect(result.options).toBeGreaterThan(0);
+    expect(result.failures).toEqual([]);
+    for (const field of Object.keys(BATCH_ACCURACY_TOLERANCE) as (keyof typeof BATCH_ACCURACY_TOLERANCE)[]) {
+      expect(result.maxError[field]).toBeLessThanOrEqual(BATCH_ACCURACY_TOLERANCE[field]);
+    }
+  });
+});
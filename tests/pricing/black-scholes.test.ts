@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCallPrice, calculatePutPrice, normCDF } from '../../src/pricing/black-scholes.js';
+import { toDecimal } from '../../src/utils/decimal.js';
+
+describe('normCDF', () => {
+  it('is one half at zero', () => {
+    expect(normCDF(toDecimal(0)).toNumber()).toBeCloseTo(0.5, 7);
+  });
+
+  it('puts 95% between -1.96 and 1.96', () => {
+    expect(normCDF(toDecimal(1.96)).toNumber()).toBeCloseTo(0.975, 4);
+    expect(normCDF(toDecimal(-1.96)).toNumber()).toBeCloseTo(0.025, 4);
+  });
+
+  it('is symmetric', () => {
+    for (const x of [0.3, 1, 2.5]) {
+      const sum = normCDF(toDecimal(x)).plus(normCDF(toDecimal(-x)));
+      expect(sum.toNumber()).toBeCloseTo(1, 7);
+    }
+  });
+});
+
+describe('Black-Scholes prices', () => {
+  it('satisfy put-call parity', () => {
+    const spot = 22000;
+    const riskFreeRate = 0.065;
+    const timeToExpiry = 30 / 365;
+
+    for (const strike of [21000, 22000, 23000]) {
+      const params = {
+        spot: toDecimal(spot),
+        strike: toDecimal(strike),
+        timeToExpiry: toDecimal(timeToExpiry),
+        riskFreeRate: toDecimal(riskFreeRate),
+        volatility: toDecimal(0.15),
+      };
+      const call = calculateCallPrice({ ...params, optionType: 'CE' }).toNumber();
+      const put = calculatePutPrice({ ...params, optionType: 'PE' }).toNumber();
+
+      expect(call - put).toBeCloseTo(spot - strike * Math.exp(-riskFreeRate * timeToExpiry), 1);
+    }
+  });
+});
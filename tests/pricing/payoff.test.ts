@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getEventCalendar } from '../../src/pricing/event-calendar.js';
+import { calculatePayoff, type PayoffLeg } from '../../src/pricing/payoff.js';
+
+const NOW = new Date('2026-03-02T10:00:00+05:30');
+const EXPIRY = new Date('2026-03-30T00:00:00+05:30');
+const SPOT = 22000;
+
+function leg(instrumentType: 'CE' | 'PE' | 'FUT', strike: number | undefined, quantity: number, entryPrice: number): PayoffLeg {
+  return { instrumentType, strike, expiry: EXPIRY, quantity, entryPrice, price: entryPrice, iv: 0.15 };
+}
+
+beforeAll(() => {
+  getEventCalendar().configure({ enabled: false });
+});
+
+describe('calculatePayoff', () => {
+  it('short strangle: premium is the most it makes, the call side is open-ended', () => {
+    const payoff = calculatePayoff([leg('PE', 21500, -75, 100), leg('CE', 22500, -75, 100)], SPOT, { now: NOW });
+
+    expect(payoff.breakevens.map(b => b.toNumber())).toEqual([21300, 22700]);
+    expect(payoff.maxProfit.toNumber()).toBe(15000);
+    expect(payoff.unlimitedLoss).toBe(true);
+    expect(payoff.unlimitedProfit).toBe(false);
+    expect(payoff.maxLoss.isFinite()).toBe(false);
+    expect(payoff.netPremium.toNumber()).toBe(15000);
+  });
+
+  it('bull call spread: both ends capped', () => {
+    const payoff = calculatePayoff([leg('CE', 22000, 75, 200), leg('CE', 22500, -75, 60)], SPOT, { now: NOW });
+
+    expect(payoff.breakevens.map(b => b.toNumber())).toEqual([22140]);
+    expect(payoff.maxProfit.toNumber()).toBe(27000);
+    expect(payoff.maxLoss.toNumber()).toBe(10500);
+    expect(payoff.unlimitedProfit).toBe(false);
+    expect(payoff.unlimitedLoss).toBe(false);
+    expect(payoff.riskReward?.toNumber()).toBeCloseTo(2.57, 2);
+  });
+
+  it('long futures: breakeven at entry, loss capped at spot zero', () => {
+    const payoff = calculatePayoff([leg('FUT', undefined, 75, 22000)], SPOT, { now: NOW });
+
+    expect(payoff.breakevens.map(b => b.toNumber())).toEqual([22000]);
+    expect(payoff.unlimitedProfit).toBe(true);
+    expect(payoff.unlimitedLoss).toBe(false);
+    expect(payoff.maxLoss.toNumber()).toBe(22000 * 75);
+    expect(payoff.netPremium.toNumber()).toBe(0);
+  });
+
+  it('draws the expiry curve first, then T+n before expiry only', () => {
+    const payoff = calculatePayoff([leg('CE', 22000, 75, 200)], SPOT, { now: NOW, daysForward: [1, 7, 60] });
+
+    expect(payoff.curves.map(c => c.label)).toEqual(['Expiry', 'T+1', 'T+7']);
+  });
+});
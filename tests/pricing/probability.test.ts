@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateExpectedMoves,
+  createExpiryDistribution,
+  probabilityAbove,
+  probabilityOfTouch,
+} from '../../src/pricing/probability.js';
+
+const SPOT = 22000;
+const T = 21 / 365;
+
+// Driftless: forward at spot, flat 15% vol
+const DIST = createExpiryDistribution({
+  spot: SPOT,
+  forward: SPOT,
+  expiry: new Date('2026-03-30T15:30:00+05:30'),
+  timeToExpiry: T,
+  flatVol: 0.15,
+})!;
+
+describe('probabilityOfTouch', () => {
+  it('is about twice the chance of finishing beyond a near strike', () => {
+    for (const strike of [22300, 22500]) {
+      const itm = probabilityAbove(DIST, strike);
+      expect(probabilityOfTouch(DIST, strike) / (2 * itm)).toBeCloseTo(1, 1);
+    }
+    for (const strike of [21700, 21500]) {
+      const itm = 1 - probabilityAbove(DIST, strike);
+      expect(probabilityOfTouch(DIST, strike) / (2 * itm)).toBeCloseTo(1, 1);
+    }
+  });
+
+  it('is certain at spot and falls with distance', () => {
+    expect(probabilityOfTouch(DIST, SPOT)).toBe(1);
+    expect(probabilityOfTouch(DIST, 22500)).toBeGreaterThan(probabilityOfTouch(DIST, 23000));
+  });
+});
+
+describe('probabilityAbove', () => {
+  it('is just under one half at the forward (lognormal median below it)', () => {
+    const p = probabilityAbove(DIST, SPOT);
+    expect(p).toBeLessThan(0.5);
+    expect(p).toBeGreaterThan(0.49);
+  });
+});
+
+describe('calculateExpectedMoves', () => {
+  it('scales with σ√T', () => {
+    const [one, two] = calculateExpectedMoves(DIST, [1, 2]);
+    expect(one!.move).toBeCloseTo(SPOT * 0.15 * Math.sqrt(T), 1);
+    expect(two!.move).toBeCloseTo(2 * one!.move, 1);
+    expect(one!.lower).toBeLessThan(SPOT);
+    expect(one!.upper).toBeGreaterThan(SPOT);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkButterflyArbitrage,
+  checkCalendarArbitrage,
+  fitSVI,
+  sviTotalVariance,
+  type FittedSlice,
+  type SVIParams,
+} from '../../src/pricing/vol-surface.js';
+
+const TRUE_PARAMS: SVIParams = { a: 0.0008, b: 0.02, rho: -0.4, m: 0.01, sigma: 0.08 };
+
+function slice(expiryDay: number, params: SVIParams, kMin: number, kMax: number): FittedSlice {
+  return {
+    expiry: new Date(Date.UTC(2026, 0, expiryDay, 10)),
+    timeToExpiry: expiryDay / 365,
+    forward: 22000,
+    atmTotalVariance: sviTotalVariance(params, 0),
+    params,
+    quality: { points: 0, rmse: 0, maxError: 0 },
+    butterfly: { free: true, minDensity: 0, worstK: 0 },
+    kMin,
+    kMax,
+  };
+}
+
+describe('fitSVI', () => {
+  it('recovers the total variance of an exact SVI slice to within 1%', () => {
+    const points = Array.from({ length: 21 }, (_, i) => {
+      const k = -0.1 + i * 0.01;
+      return { k, totalVariance: sviTotalVariance(TRUE_PARAMS, k) };
+    });
+
+    const fitted = fitSVI(points);
+
+    expect(fitted).not.toBeNull();
+    for (const { k, totalVariance } of points) {
+      expect(Math.abs(sviTotalVariance(fitted!, k) / totalVariance - 1)).toBeLessThan(0.01);
+    }
+    expect(checkButterflyArbitrage(fitted!, -0.1, 0.1).free).toBe(true);
+  });
+
+  it('needs enough strikes', () => {
+    expect(fitSVI([{ k: 0, totalVariance: 0.001 }])).toBeNull();
+  });
+});
+
+describe('checkCalendarArbitrage', () => {
+  it('flags a later expiry with less total variance', () => {
+    const near = slice(7, TRUE_PARAMS, -0.1, 0.1);
+    const far = slice(14, { ...TRUE_PARAMS, a: TRUE_PARAMS.a - 0.0005 }, -0.1, 0.1);
+
+    const violations = checkCalendarArbitrage([near, far]);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.shortfall).toBeCloseTo(0.0005, 8);
+  });
+
+  it('passes when total variance grows with expiry', () => {
+    const near = slice(7, TRUE_PARAMS, -0.1, 0.1);
+    const far = slice(14, { ...TRUE_PARAMS, a: TRUE_PARAMS.a + 0.0005 }, -0.1, 0.1);
+
+    expect(checkCalendarArbitrage([near, far])).toEqual([]);
+  });
+
+  it('only compares strikes both expiries cover', () => {
+    const near = slice(7, TRUE_PARAMS, -0.1, 0);
+    const far = slice(14, { ...TRUE_PARAMS, a: TRUE_PARAMS.a - 0.0005 }, 0.05, 0.15);
+
+    expect(checkCalendarArbitrage([near, far])).toEqual([]);
+  });
+});
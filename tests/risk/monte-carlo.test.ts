@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getEventCalendar } from '../../src/pricing/event-calendar.js';
+import { countRevaluations, runMonteCarlo } from '../../src/risk/monte-carlo.js';
+import type { ScenarioBook, ScenarioLeg } from '../../src/risk/scenarios.js';
+
+const NOW = new Date('2026-03-02T10:00:00+05:30');
+const EXPIRY = new Date('2026-03-30T00:00:00+05:30');
+
+function option(instrumentType: 'CE' | 'PE', strike: number, quantity: number): ScenarioLeg {
+  return {
+    positionId: `${strike}${instrumentType}`,
+    symbol: `NIFTY${strike}${instrumentType}`,
+    underlying: 'NIFTY',
+    instrumentType,
+    strike,
+    expiry: EXPIRY,
+    quantity,
+    spot: 22000,
+    price: 0,
+    timeToExpiry: 28 / 365,
+    iv: 0.15,
+    eventVariance: 0,
+  };
+}
+
+const BOOK: ScenarioBook = {
+  legs: [option('CE', 22500, -75), option('PE', 21500, -75)],
+  pins: new Map(),
+  strategyNames: new Map(),
+  timestamp: NOW,
+};
+
+const OPTIONS = { horizon: 'EOD', volModel: 'STOCHASTIC', paths: 500, lossLimit: { limit: 20000, dailyPnL: 0 } } as const;
+
+function summary(seed: number) {
+  const result = runMonteCarlo(BOOK, { ...OPTIONS, seed });
+  return {
+    seed: result.seed,
+    mean: result.mean.toString(),
+    stdDev: result.stdDev.toString(),
+    percentiles: result.percentiles.map(p => p.pnl.toString()),
+    risk: result.risk.map(r => [r.valueAtRisk.toString(), r.expectedShortfall.toString()]),
+    breach: result.killSwitch.probabilityOfBreach,
+  };
+}
+
+beforeAll(() => {
+  getEventCalendar().configure({ enabled: false });
+});
+
+describe('runMonteCarlo', () => {
+  it('reproduces a run from its seed', () => {
+    expect(summary(42)).toEqual(summary(42));
+  });
+
+  it('draws different paths for a different seed', () => {
+    expect(summary(43).mean).not.toEqual(summary(42).mean);
+  });
+
+  it('reports a loss for VaR and keeps expected shortfall beyond it', () => {
+    const result = runMonteCarlo(BOOK, { ...OPTIONS, seed: 7 });
+    for (const { valueAtRisk, expectedShortfall } of result.risk) {
+      expect(expectedShortfall.greaterThanOrEqualTo(valueAtRisk)).toBe(true);
+    }
+    expect(result.paths).toBe(500);
+  });
+
+  it('counts the revaluations a run makes before starting it', () => {
+    const result = runMonteCarlo(BOOK, { ...OPTIONS, seed: 7 });
+    expect(countRevaluations(BOOK, OPTIONS)).toBe(result.paths * result.steps * BOOK.legs.length);
+  });
+});
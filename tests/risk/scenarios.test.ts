@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getEventCalendar } from '../../src/pricing/event-calendar.js';
+import { revalueBook, type ScenarioBook, type ScenarioLeg, type ScenarioShock } from '../../src/risk/scenarios.js';
+
+const NOW = new Date('2026-03-02T10:00:00+05:30');
+const EXPIRY = new Date('2026-03-30T00:00:00+05:30');
+const SPOT = 22000;
+
+function option(instrumentType: 'CE' | 'PE', strike: number, quantity: number, iv: number): ScenarioLeg {
+  return {
+    positionId: `${strike}${instrumentType}`,
+    symbol: `NIFTY${strike}${instrumentType}`,
+    underlying: 'NIFTY',
+    instrumentType,
+    strike,
+    expiry: EXPIRY,
+    quantity,
+    spot: SPOT,
+    price: 0,
+    timeToExpiry: 28 / 365,
+    iv,
+    eventVariance: 0,
+  };
+}
+
+const BOOK: ScenarioBook = {
+  legs: [option('CE', 22500, -75, 0.14), option('PE', 21500, -75, 0.16), option('CE', 22000, 25, 0.15)],
+  pins: new Map(),
+  strategyNames: new Map(),
+  timestamp: NOW,
+};
+
+function total(pnl: Float64Array): number {
+  return pnl.reduce((sum, value) => sum + value, 0);
+}
+
+beforeAll(() => {
+  getEventCalendar().configure({ enabled: false });
+});
+
+describe('revalueBook', () => {
+  it('is flat at the zero shock', () => {
+    const [full] = revalueBook(BOOK, [{ spotShockPct: 0, ivShock: 0, days: 0 }], 'FULL');
+    expect(total(full!)).toBeCloseTo(0, 6);
+  });
+
+  it('agrees between full repricing and Greeks for small shocks', () => {
+    const shocks: ScenarioShock[] = [];
+    for (const spotShockPct of [-0.5, -0.2, 0.2, 0.5]) {
+      for (const ivShock of [-0.5, 0, 0.5]) {
+        shocks.push({ spotShockPct, ivShock, days: 0 });
+      }
+    }
+
+    const full = revalueBook(BOOK, shocks, 'FULL');
+    const greeks = revalueBook(BOOK, shocks, 'GREEKS');
+
+    shocks.forEach((_, s) => {
+      const exact = total(full[s]!);
+      const approx = total(greeks[s]!);
+      expect(Math.abs(approx - exact)).toBeLessThan(Math.max(0.01 * Math.abs(exact), 10));
+    });
+  });
+});
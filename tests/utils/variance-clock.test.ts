@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { VarianceClock } from '../../src/utils/variance-clock.js';
+
+const ist = (local: string) => new Date(`${local}+05:30`);
+
+// 2026-03-06 is a Friday
+const FRIDAY_CLOSE = ist('2026-03-06T15:30:00');
+const MONDAY_CLOSE = ist('2026-03-09T15:30:00');
+const TUESDAY_CLOSE = ist('2026-03-10T15:30:00');
+
+const OPTIONS = { enabled: true, overnightWeight: 0.2, nonTradingDayWeight: 0.15, holidays: [], events: [] };
+
+describe('VarianceClock', () => {
+  it('counts a trading day close to close as one day', () => {
+    const clock = new VarianceClock(OPTIONS);
+    expect(clock.varianceDays(MONDAY_CLOSE, TUESDAY_CLOSE)).toBeCloseTo(1, 10);
+  });
+
+  it('counts a weekend at its non-trading weight', () => {
+    const clock = new VarianceClock(OPTIONS);
+    expect(clock.varianceDays(FRIDAY_CLOSE, MONDAY_CLOSE)).toBeCloseTo(1 + 2 * 0.15, 10);
+  });
+
+  it('puts the overnight weight outside the session', () => {
+    const clock = new VarianceClock(OPTIONS);
+    const mondayOpen = ist('2026-03-09T09:15:00');
+    expect(clock.varianceDays(mondayOpen, MONDAY_CLOSE)).toBeCloseTo(0.8, 10);
+  });
+
+  it('counts a listed holiday like a weekend day', () => {
+    const clock = new VarianceClock({ ...OPTIONS, holidays: ['2026-03-10'] });
+    expect(clock.varianceDays(ist('2026-03-10T00:00:00'), ist('2026-03-11T00:00:00'))).toBeCloseTo(0.15, 10);
+    expect(clock.isTradingDate(TUESDAY_CLOSE)).toBe(false);
+  });
+
+  it('adds an event at its time and drops it once passed', () => {
+    const event = { name: 'RBI policy', date: ist('2026-03-10T10:00:00'), weight: 1.5 };
+    const clock = new VarianceClock({ ...OPTIONS, events: [event] });
+
+    expect(clock.varianceDays(MONDAY_CLOSE, TUESDAY_CLOSE)).toBeCloseTo(2.5, 10);
+    expect(clock.varianceDays(FRIDAY_CLOSE, TUESDAY_CLOSE)).toBeCloseTo(1.3 + 2.5, 10);
+
+    const afterEvent = ist('2026-03-10T10:30:00');
+    const withoutEvent = new VarianceClock(OPTIONS);
+    expect(clock.varianceDays(afterEvent, TUESDAY_CLOSE))
+      .toBeCloseTo(withoutEvent.varianceDays(afterEvent, TUESDAY_CLOSE), 10);
+  });
+
+  it('runs to 15:30 on expiry day', () => {
+    const clock = new VarianceClock(OPTIONS);
+    const expiry = ist('2026-03-10T00:00:00');
+
+    expect(clock.yearsToExpiry(expiry, MONDAY_CLOSE)).toBeCloseTo(1 / clock.varianceDaysPerYear(), 10);
+    expect(clock.yearsToExpiry(expiry, ist('2026-03-10T16:00:00'))).toBe(0);
+  });
+
+  it('is calendar time when disabled', () => {
+    const clock = new VarianceClock({ ...OPTIONS, enabled: false });
+    expect(clock.yearsBetween(FRIDAY_CLOSE, MONDAY_CLOSE)).toBeCloseTo(3 / 365, 10);
+  });
+});